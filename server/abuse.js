@@ -0,0 +1,293 @@
+// Abuse protection for the anonymous submission endpoint that never identifies anyone.
+//
+// Device token: an HMAC of the client's IP address and browser headers under a random salt
+// that only ever lives in memory and is replaced every day. It stays the same for long enough
+// to count one device's submissions, and once a salt is dropped nobody (us included) can tie
+// its tokens to a device or to each other. The token is what feedback stores as `hash`.
+//
+// Form token: the form fetches a signed challenge before submitting. It records when the form
+// was opened (for the minimum fill time) and, when proof-of-work is switched on, is the puzzle
+// the browser has to solve. Each token is accepted once.
+//
+// Submissions are rejected for a missing, expired or reused form token, an unsolved puzzle, a
+// device over its rate limit, or a near-duplicate of the same device's recent feedback. They
+// are held for moderation, rather than published, when the honeypot field is filled in, the
+// form was sent faster than a person could fill it, or the comment nearly repeats another
+// device's recent one.
+const crypto = require('crypto');
+const { SettingsValidationError } = require('./settings');
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Form tokens older than this are refused
+const FORM_TOKEN_TTL_MS = 12 * 60 * MINUTE_MS;
+// Comments shorter than this (letters and digits) are too generic to hold as cross-device duplicates
+const MIN_DUPLICATE_LENGTH = 20;
+// Longest duplicateHours allowed; comment signatures are kept in memory for this long
+const MAX_DUPLICATE_HOURS = 24;
+
+const DEFAULT_ABUSE_SETTINGS = {
+  // At most `max` submissions from one device in any `minutes`-long window
+  rateLimits: [{ minutes: 10, max: 3 }, { minutes: 24 * 60, max: 10 }],
+  // Forms sent sooner than this after opening are held
+  minFillSeconds: 5,
+  proofOfWork: false,
+  // Leading zero bits the puzzle needs; every extra bit doubles the browser's work (16 is about a second)
+  proofOfWorkBits: 16,
+  // Comments at least this similar (0.5-1) within `duplicateHours` count as near-duplicates; 0 hours turns it off
+  duplicateSimilarity: 0.8,
+  duplicateHours: 24
+};
+
+const integer = (value, name, min, max) => {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < min || n > max) {
+    throw new SettingsValidationError(`${name} must be a whole number from ${min} to ${max}`);
+  }
+  return n;
+};
+
+const validateAbuseSettings = (changes) => {
+  const valid = {};
+  if (changes.rateLimits !== undefined) {
+    if (!Array.isArray(changes.rateLimits) || changes.rateLimits.length > 5) {
+      throw new SettingsValidationError('rateLimits must be a list of at most 5 limits');
+    }
+    // Windows can't outlast the daily salt rotation: older submissions can't be matched to the device
+    valid.rateLimits = changes.rateLimits.map(limit => ({
+      minutes: integer(limit?.minutes, 'Rate limit window (minutes)', 1, 24 * 60),
+      max: integer(limit?.max, 'Rate limit submissions', 1, 1000)
+    }));
+  }
+  if (changes.minFillSeconds !== undefined) valid.minFillSeconds = integer(changes.minFillSeconds, 'minFillSeconds', 0, 600);
+  if (changes.proofOfWork !== undefined) valid.proofOfWork = changes.proofOfWork === true;
+  if (changes.proofOfWorkBits !== undefined) valid.proofOfWorkBits = integer(changes.proofOfWorkBits, 'proofOfWorkBits', 8, 24);
+  if (changes.duplicateSimilarity !== undefined) {
+    const n = Number(changes.duplicateSimilarity);
+    if (isNaN(n) || n < 0.5 || n > 1) throw new SettingsValidationError('duplicateSimilarity must be between 0.5 and 1');
+    valid.duplicateSimilarity = n;
+  }
+  if (changes.duplicateHours !== undefined) valid.duplicateHours = integer(changes.duplicateHours, 'duplicateHours', 0, MAX_DUPLICATE_HOURS);
+  return valid;
+};
+
+const hmac = (key, value) => crypto.createHmac('sha256', key).update(value).digest('hex');
+
+// Letters and digits only, with runs of one character collapsed, so "Useless!!!" and "uselesssss" match
+const squash = (text) =>
+  String(text || '').normalize('NFC').toLowerCase().replace(/[^\p{L}\p{M}\p{N}]+/gu, '').replace(/(.)\1+/gu, '$1');
+
+// 32-bit FNV-1a, to keep trigrams as numbers rather than strings
+const fnv1a = (text) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) h = Math.imul(h ^ text.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+};
+
+// A comment as compared for near-duplicates: its squashed text and the sorted, distinct hashes
+// of its character trigrams
+const signature = (squashed) => {
+  const chars = [...squashed];
+  const grams = new Set();
+  for (let i = 0; i + 3 <= chars.length; i++) grams.add(fnv1a(chars.slice(i, i + 3).join('')));
+  return { text: squashed, grams: Uint32Array.from(grams).sort() };
+};
+
+// Dice coefficient over character trigrams: 1 for the same text, near 0 for unrelated text
+const similarity = (a, b) => {
+  if (a.text === b.text) return 1;
+  const ga = a.grams;
+  const gb = b.grams;
+  if (ga.length === 0 || gb.length === 0) return 0;
+  let shared = 0;
+  for (let i = 0, j = 0; i < ga.length && j < gb.length;) {
+    if (ga[i] === gb[j]) {
+      shared++;
+      i++;
+      j++;
+    } else if (ga[i] < gb[j]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return (2 * shared) / (ga.length + gb.length);
+};
+
+const leadingZeroBits = (hex) => {
+  let bits = 0;
+  for (const c of hex) {
+    const nibble = parseInt(c, 16);
+    if (nibble === 0) {
+      bits += 4;
+      continue;
+    }
+    return bits + Math.clz32(nibble) - 28;
+  }
+  return bits;
+};
+
+// FORM_SECRET keeps open forms valid across restarts; without it they have to be reloaded
+const createAbuseGuard = (storage, settings, { formSecret = process.env.FORM_SECRET || crypto.randomBytes(32).toString('hex') } = {}) => {
+  // Daily salts; the previous one is kept so windows that span midnight still see earlier submissions
+  const salts = { day: null, current: null, previous: null };
+
+  const currentSalts = () => {
+    const day = Math.floor(Date.now() / DAY_MS);
+    if (day !== salts.day) {
+      salts.previous = day === salts.day + 1 ? salts.current : null;
+      salts.current = crypto.randomBytes(32);
+      salts.day = day;
+    }
+    return [salts.current, salts.previous].filter(Boolean);
+  };
+
+  // Today's token for the requesting device, then yesterday's (if the server was up)
+  const deviceTokens = (req) => {
+    const fingerprint = [req.ip, req.headers['user-agent'] || '', req.headers['accept-language'] || ''].join('\n');
+    return currentSalts().map(salt => hmac(salt, fingerprint));
+  };
+
+  // Form tokens accepted so far, until they expire
+  const used = new Map();
+
+  const forgetExpired = () => {
+    const now = Date.now();
+    for (const [token, expires] of used) if (expires <= now) used.delete(token);
+  };
+
+  // A signed form token, plus the puzzle to solve when proof-of-work is on
+  const issueChallenge = async () => {
+    const { proofOfWork, proofOfWorkBits } = await settings.get('abuse-protection');
+    const bits = proofOfWork ? proofOfWorkBits : 0;
+    const payload = Buffer.from(JSON.stringify([Date.now(), crypto.randomBytes(8).toString('hex'), bits])).toString('base64url');
+    const token = `${payload}.${hmac(formSecret, payload)}`;
+    return { token, proofOfWork: bits ? { bits } : null };
+  };
+
+  const readFormToken = (token) => {
+    const [payload, signature] = String(token || '').split('.');
+    if (!payload || !signature) return null;
+    const expected = hmac(formSecret, payload);
+    if (signature.length !== expected.length || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) return null;
+    try {
+      const [issuedAt, , bits] = JSON.parse(Buffer.from(payload, 'base64url').toString());
+      return { issuedAt, bits };
+    } catch (error) {
+      return null;
+    }
+  };
+
+  // Signatures of the comments submitted in the last MAX_DUPLICATE_HOURS, by feedback id, so a
+  // submission is compared without reading and re-squashing every recent comment. Loaded from
+  // storage on first use, then added to as submissions are stored; feedback deleted for good
+  // in the meantime still counts until it is MAX_DUPLICATE_HOURS old.
+  let recentComments = null;
+  const commentEntry = (f) => ({ ...signature(squash(f.comment)), hash: f.hash, time: new Date(f.timestamp).getTime() });
+  const loadRecentComments = () => {
+    if (!recentComments) {
+      recentComments = storage.feedback.query({ filters: { startDate: new Date(Date.now() - MAX_DUPLICATE_HOURS * 60 * MINUTE_MS) } })
+        .then(rows => new Map(rows.filter(f => squash(f.comment)).map(f => [f.feedback_id, commentEntry(f)])))
+        .catch(error => {
+          recentComments = null;
+          throw error;
+        });
+    }
+    return recentComments;
+  };
+
+  // Submissions from one device are screened and stored one at a time, so parallel requests
+  // can't all squeeze under the rate limit
+  const queues = new Map();
+  const oneAtATime = async (device, fn) => {
+    const previous = queues.get(device) || Promise.resolve();
+    let done;
+    const current = previous.then(() => new Promise(resolve => { done = resolve; }));
+    queues.set(device, current);
+    await previous;
+    try {
+      return await fn();
+    } finally {
+      done();
+      if (queues.get(device) === current) queues.delete(device);
+    }
+  };
+
+  // The rate limit and spam checks for a submission whose form token is valid and claimed, then
+  // `store` if it passes (see screen)
+  const checkAndStore = async (req, submission, form, now, store) => {
+    const options = await settings.get('abuse-protection');
+    const devices = deviceTokens(req);
+    const [device] = devices;
+
+    return oneAtATime(device, async () => {
+      // Trashed and held submissions count too: rejected spam shouldn't free up the quota
+      for (const { minutes, max } of options.rateLimits) {
+        const recent = await storage.feedback.count({ devices, startDate: new Date(now - minutes * MINUTE_MS) });
+        if (recent >= max) {
+          return { status: 429, code: 'rate_limited', error: 'Too many submissions from this device. Please try again later.' };
+        }
+      }
+
+      const heldReasons = [];
+      if (submission.website) heldReasons.push('honeypot');
+      if (now - form.issuedAt < options.minFillSeconds * 1000) heldReasons.push('too_fast');
+
+      // Forms without a comment question send an empty one, which isn't anyone's duplicate
+      const comment = squash(submission.comment);
+      if (options.duplicateHours > 0 && comment) {
+        const recent = await loadRecentComments();
+        const since = now - options.duplicateHours * 60 * MINUTE_MS;
+        const expired = now - MAX_DUPLICATE_HOURS * 60 * MINUTE_MS;
+        const mine = signature(comment);
+        const similar = [];
+        for (const [id, entry] of recent) {
+          if (entry.time < expired) recent.delete(id);
+          else if (entry.time >= since && similarity(mine, entry) >= options.duplicateSimilarity) similar.push(entry);
+        }
+        if (similar.some(f => devices.includes(f.hash))) {
+          return { status: 409, code: 'duplicate', error: 'You have already submitted very similar feedback.' };
+        }
+        if (similar.length > 0 && [...comment].length >= MIN_DUPLICATE_LENGTH) heldReasons.push('duplicate');
+      }
+
+      const stored = await store({ hash: device, held: heldReasons.length > 0, held_reasons: heldReasons });
+      if (recentComments && squash(stored.comment)) (await recentComments).set(stored.feedback_id, commentEntry(stored));
+      return { held_reasons: heldReasons };
+    });
+  };
+
+  // Screen a submission ({ comment, formToken, solution, website }) and, if it passes, call
+  // `store` with the fields to add to the feedback ({ hash, held, held_reasons }); it resolves to
+  // the stored feedback. Returns { held_reasons } on success or { status, error, code } when rejected.
+  const screen = async (req, submission, store) => {
+    const form = readFormToken(submission.formToken);
+    const now = Date.now();
+    if (!form || now - form.issuedAt > FORM_TOKEN_TTL_MS) {
+      return { status: 400, code: 'form_expired', error: 'This form has expired. Please submit it again.' };
+    }
+    if (form.bits && leadingZeroBits(crypto.createHash('sha256').update(`${submission.formToken}:${submission.solution}`).digest('hex')) < form.bits) {
+      return { status: 400, code: 'proof_of_work', error: 'The anti-spam check did not complete. Please submit again.' };
+    }
+
+    // Claimed before anything waits, so copies of one token sent at once (even from what look like
+    // different devices) can't all get through; given back if the submission isn't stored, so the
+    // same form can be sent again
+    forgetExpired();
+    if (used.has(submission.formToken)) {
+      return { status: 400, code: 'form_expired', error: 'This form was already submitted. Please submit it again.' };
+    }
+    used.set(submission.formToken, form.issuedAt + FORM_TOKEN_TTL_MS);
+    let result;
+    try {
+      result = await checkAndStore(req, submission, form, now, store);
+    } finally {
+      if (!result || result.error) used.delete(submission.formToken);
+    }
+    return result;
+  };
+
+  return { issueChallenge, screen };
+};
+
+module.exports = { DEFAULT_ABUSE_SETTINGS, validateAbuseSettings, createAbuseGuard };
@@ -0,0 +1,489 @@
+// Summary statistics over a set of feedback, shared by the analytics endpoint and the PDF report
+const { createTextAnalyzer } = require('./text');
+const { answersOf } = require('./forms');
+const { SENTIMENTS } = require('./sentiment');
+
+const BUCKETS = ['day', 'week', 'month'];
+const KEYWORD_GROUPS = ['none', 'category', 'period'];
+const SCORECARD_GROUPS = ['trainer', 'cohort'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longest series we'll build; beyond this the caller should use a coarser bucket
+const MAX_POINTS = 1000;
+
+// Start of the (UTC) day, ISO week (Monday) or month containing `date`
+const bucketStart = (date, bucket) => {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (bucket === 'week') d.setUTCDate(d.getUTCDate() - ((d.getUTCDay() + 6) % 7));
+  if (bucket === 'month') d.setUTCDate(1);
+  return d;
+};
+
+const nextBucket = (date, bucket) => {
+  const d = new Date(date);
+  if (bucket === 'day') d.setUTCDate(d.getUTCDate() + 1);
+  if (bucket === 'week') d.setUTCDate(d.getUTCDate() + 7);
+  if (bucket === 'month') d.setUTCMonth(d.getUTCMonth() + 1);
+  return d;
+};
+
+const periodKey = (date) => date.toISOString().split('T')[0];
+
+// Earliest and latest valid timestamps (no spread: feedback sets can be large)
+const timeRange = (feedback) => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const f of feedback) {
+    const t = new Date(f.timestamp).getTime();
+    if (isNaN(t)) continue;
+    if (t < min) min = t;
+    if (t > max) max = t;
+  }
+  return min === Infinity ? null : { min, max };
+};
+
+// Volume, average rating and per-category / per-status counts for each bucket between
+// `from` and `to` (defaulting to the first and last feedback). Empty buckets are included
+// so charts show gaps as zero rather than joining distant points.
+const timeSeries = (feedback, bucket, { from, to } = {}) => {
+  const range = timeRange(feedback);
+  if (!range && !(from && to)) return { bucket, points: [] };
+  const first = from || new Date(range.min);
+  const last = to || new Date(range.max);
+
+  const points = new Map();
+  for (let d = bucketStart(first, bucket); d <= last && points.size < MAX_POINTS; d = nextBucket(d, bucket)) {
+    points.set(periodKey(d), { period: periodKey(d), count: 0, ratingSum: 0, categories: {}, statuses: {} });
+  }
+  for (const f of feedback) {
+    const time = new Date(f.timestamp);
+    if (isNaN(time.getTime())) continue;
+    const point = points.get(periodKey(bucketStart(time, bucket)));
+    if (!point) continue;
+    const status = f.status || 'open';
+    point.count++;
+    point.ratingSum += f.rating;
+    point.categories[f.category] = (point.categories[f.category] || 0) + 1;
+    point.statuses[status] = (point.statuses[status] || 0) + 1;
+  }
+
+  return {
+    bucket,
+    points: [...points.values()].map(({ ratingSum, ...point }) => ({
+      ...point,
+      averageRating: point.count > 0 ? Math.round((ratingSum / point.count) * 100) / 100 : null
+    }))
+  };
+};
+
+// Pick a bucket that keeps the series readable when the caller doesn't ask for one
+const defaultBucket = (feedback, { from, to } = {}) => {
+  const range = timeRange(feedback);
+  const start = from ? from.getTime() : range?.min;
+  const end = to ? to.getTime() : range?.max;
+  const days = (end - start) / DAY_MS;
+  if (!isFinite(days) || days <= 62) return 'day';
+  return days <= 365 ? 'week' : 'month';
+};
+
+// Top-ranked keywords and phrases across all comments (see text.js)
+const commonWords = (feedback, analyzer, limit = 10) => {
+  const [all] = analyzer.rank([{ key: 'all', texts: feedback.map(f => f.comment) }], { limit });
+  return all.phrases.map(({ phrase, count }) => ({ word: phrase, count }));
+};
+
+// Ranked phrases for all feedback, or per category / per time bucket. `options.text` holds the
+// text-analysis settings; `bucket`, `from` and `to` are as for timeSeries.
+const keywords = (feedback, categories, { groupBy = 'none', bucket, from, to, text, limit } = {}) => {
+  const analyzer = createTextAnalyzer(text);
+  const groups = new Map();
+  const add = (key, label, f) => {
+    if (!groups.has(key)) groups.set(key, { key, label, texts: [] });
+    groups.get(key).texts.push(f.comment);
+  };
+
+  if (groupBy === 'category') {
+    const names = Object.fromEntries(categories.map(c => [c.id, c.name]));
+    for (const f of feedback) add(f.category, names[f.category] || f.category, f);
+  } else if (groupBy === 'period') {
+    const resolved = bucket || defaultBucket(feedback, { from, to });
+    for (const f of feedback) {
+      const time = new Date(f.timestamp);
+      if (isNaN(time.getTime())) continue;
+      const period = periodKey(bucketStart(time, resolved));
+      add(period, period, f);
+    }
+    // Oldest period first, like the time series
+    return { groupBy, bucket: resolved, groups: analyzer.rank([...groups.values()].sort((a, b) => a.key.localeCompare(b.key)), { limit }) };
+  } else {
+    groups.set('all', { key: 'all', label: 'All feedback', texts: feedback.map(f => f.comment) });
+  }
+  return { groupBy, groups: analyzer.rank([...groups.values()], { limit }) };
+};
+
+// Due-date tracking for feedback with a due date (see workflow.js): resolved on time (`met`),
+// resolved late or still open past its due date (`breached`), and of those still open (`overdue`),
+// overall and per category
+const slaStats = (feedback, now = new Date()) => {
+  const stats = { tracked: 0, met: 0, breached: 0, overdue: 0, byCategory: {} };
+  for (const f of feedback) {
+    if (!f.due_at) continue;
+    const overdue = !f.resolved_at && new Date(f.due_at) < now;
+    const breached = overdue || (!!f.resolved_at && f.resolved_at > f.due_at);
+    const category = stats.byCategory[f.category] || (stats.byCategory[f.category] = { tracked: 0, breached: 0, overdue: 0 });
+    stats.tracked++;
+    category.tracked++;
+    if (f.resolved_at && !breached) stats.met++;
+    if (breached) {
+      stats.breached++;
+      category.breached++;
+    }
+    if (overdue) {
+      stats.overdue++;
+      category.overdue++;
+    }
+  }
+  return stats;
+};
+
+// `options.bucket` and `options.from` / `options.to` shape the time series (see timeSeries);
+// `options.text` holds the text-analysis settings used for the common words and `options.tags`
+// the tags to name in `tagMap`
+const summarize = (feedback, categories, options = {}) => {
+  // Basic analytics
+  const totalFeedback = feedback.length;
+  const averageRating = totalFeedback > 0
+    ? (feedback.reduce((sum, f) => sum + f.rating, 0) / totalFeedback).toFixed(1)
+    : 0;
+
+  // Category distribution (by id)
+  const categoryStats = feedback.reduce((acc, f) => {
+    acc[f.category] = (acc[f.category] || 0) + 1;
+    return acc;
+  }, {});
+
+  // Category id->name map for UI convenience
+  const categoryMap = Object.fromEntries(categories.map(c => [c.id, c.name]));
+
+  // Rating distribution
+  const ratingStats = feedback.reduce((acc, f) => {
+    acc[f.rating] = (acc[f.rating] || 0) + 1;
+    return acc;
+  }, {});
+
+  // Tag counts (by id); an item counts once under each of its tags
+  const tagStats = {};
+  for (const f of feedback) {
+    for (const id of f.tags || []) tagStats[id] = (tagStats[id] || 0) + 1;
+  }
+  const tagMap = Object.fromEntries((options.tags || []).map(t => [t.id, { name: t.name, color: t.color }]));
+
+  // Status distribution
+  const statusStats = feedback.reduce((acc, f) => {
+    const st = f.status || 'open';
+    acc[st] = (acc[st] || 0) + 1;
+    return acc;
+  }, {});
+
+  // Comment sentiment (see sentiment.js); entries not yet scored are left out
+  const scored = feedback.filter(f => typeof f.sentiment_score === 'number');
+  const sentimentStats = scored.reduce((acc, f) => {
+    acc[f.sentiment] = (acc[f.sentiment] || 0) + 1;
+    return acc;
+  }, {});
+  const averageSentiment = scored.length > 0
+    ? Math.round((scored.reduce((sum, f) => sum + f.sentiment_score, 0) / scored.length) * 100) / 100
+    : null;
+
+  return {
+    totalFeedback,
+    averageRating,
+    categoryStats,
+    categoryMap,
+    ratingStats,
+    statusStats,
+    tagStats,
+    tagMap,
+    untagged: feedback.filter(f => !(f.tags || []).length).length,
+    sentimentStats,
+    averageSentiment,
+    mismatchCount: feedback.filter(f => f.sentiment_mismatch).length,
+    sla: slaStats(feedback),
+    commonWords: commonWords(feedback, createTextAnalyzer(options.text)),
+    timeSeries: timeSeries(feedback, options.bucket || defaultBucket(feedback, options), options)
+  };
+};
+
+// --- Per-question survey results ---
+
+const NPS_SCALE = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+const TEXT_SAMPLES = 5;
+
+const countBy = (values, keys) => {
+  const counts = Object.fromEntries(keys.map(k => [k, 0]));
+  for (const v of values) counts[v] = (counts[v] || 0) + 1;
+  return counts;
+};
+
+const average = (values) =>
+  (values.length ? Math.round((values.reduce((sum, v) => sum + v, 0) / values.length) * 100) / 100 : null);
+
+// Summary of one question's answers; `answered` lists { value, timestamp } for each response
+const questionSummary = (q, answered, analyzer) => {
+  const values = answered.map(a => a.value);
+  switch (q.type) {
+    case 'rating':
+      return { average: average(values), distribution: countBy(values, [1, 2, 3, 4, 5]) };
+    case 'nps': {
+      // Net Promoter Score: % promoters (9-10) minus % detractors (0-6)
+      const promoters = values.filter(v => v >= 9).length;
+      const detractors = values.filter(v => v <= 6).length;
+      return {
+        score: values.length ? Math.round(((promoters - detractors) / values.length) * 100) : null,
+        promoters,
+        passives: values.length - promoters - detractors,
+        detractors,
+        distribution: countBy(values, NPS_SCALE)
+      };
+    }
+    case 'choice': {
+      // Options removed in a later version still show while they have answers
+      const counts = countBy(values.flat(), q.options);
+      return { options: Object.entries(counts).map(([option, count]) => ({ option, count })) };
+    }
+    case 'yes_no':
+      return { yes: values.filter(v => v === true).length, no: values.filter(v => v === false).length };
+    case 'text': {
+      const [ranked] = analyzer.rank([{ key: q.id, texts: values }], { limit: 10 });
+      const latest = [...answered].sort((a, b) => new Date(b.timestamp) - new Date(a.timestamp)).slice(0, TEXT_SAMPLES);
+      return {
+        keywords: ranked.phrases.map(({ phrase, count }) => ({ word: phrase, count })),
+        latest: latest.map(a => a.value)
+      };
+    }
+    default:
+      return {};
+  }
+};
+
+// Results per question for feedback that answered `form`, across all its versions. Questions
+// are described as in the latest version; ones dropped since then are listed after them,
+// marked retired, when they have answers. `options.text` holds the text-analysis settings.
+const questionStats = (feedback, form, options = {}) => {
+  const analyzer = createTextAnalyzer(options.text);
+  const questions = new Map();
+  for (const version of form.versions) {
+    for (const q of version.questions) questions.set(q.id, { ...questions.get(q.id), ...q });
+  }
+  const current = new Set(form.versions[form.versions.length - 1].questions.map(q => q.id));
+  const ordered = [
+    ...form.versions[form.versions.length - 1].questions.map(q => questions.get(q.id)),
+    ...[...questions.values()].filter(q => !current.has(q.id))
+  ];
+
+  const results = ordered.map(q => {
+    const answered = feedback
+      .map(f => ({ value: answersOf(f)[q.id], timestamp: f.timestamp }))
+      .filter(a => a.value !== undefined && a.value !== null && a.value !== '');
+    // Choice questions report every option any version offered
+    const options = q.type === 'choice'
+      ? [...new Set(form.versions.flatMap(v => v.questions.filter(vq => vq.id === q.id).flatMap(vq => vq.options || [])))]
+      : undefined;
+    return {
+      id: q.id,
+      type: q.type,
+      label: q.label,
+      role: q.role || null,
+      retired: !current.has(q.id),
+      answered: answered.length,
+      ...questionSummary({ ...q, options }, answered, analyzer)
+    };
+  }).filter(r => !r.retired || r.answered > 0);
+
+  return {
+    form: { id: form.id, name: form.name, version: form.versions[form.versions.length - 1].version },
+    responses: feedback.length,
+    questions: results
+  };
+};
+
+// --- Trainer and cohort scorecards ---
+
+const SCORECARD_KEYWORDS = 5;
+
+// One scorecard per trainer (or cohort) for feedback sent through collection links, with the
+// phrases that set each one's comments apart. Feedback from outside any link is only counted,
+// as `untagged`. `options.text` holds the text-analysis settings and `options.states` the
+// workflow state ids, which are always counted.
+const scorecards = (feedback, { groupBy = 'trainer', text, states = [] } = {}) => {
+  const groups = new Map();
+  for (const f of feedback) {
+    const key = f[groupBy];
+    if (!key) continue;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key).push(f);
+  }
+  const tagged = [...groups.values()].flat();
+  const keys = [...groups.keys()].sort((a, b) => a.localeCompare(b));
+  const phrases = keys.length
+    ? createTextAnalyzer(text).rank(keys.map(key => ({ key, texts: groups.get(key).map(f => f.comment) })), { limit: SCORECARD_KEYWORDS })
+    : [];
+
+  return {
+    groupBy,
+    untagged: feedback.length - tagged.length,
+    overall: { responses: tagged.length, averageRating: average(tagged.map(f => f.rating)) },
+    groups: keys.map((key, i) => {
+      const items = groups.get(key);
+      const scored = items.filter(f => typeof f.sentiment_score === 'number');
+      return {
+        key,
+        responses: items.length,
+        sessions: new Set(items.map(f => f.session_date).filter(Boolean)).size,
+        averageRating: average(items.map(f => f.rating)),
+        ratingStats: countBy(items.map(f => f.rating), [1, 2, 3, 4, 5]),
+        sentimentStats: countBy(scored.map(f => f.sentiment), SENTIMENTS),
+        averageSentiment: average(scored.map(f => f.sentiment_score)),
+        mismatchCount: items.filter(f => f.sentiment_mismatch).length,
+        statusStats: countBy(items.map(f => f.status || 'open'), states),
+        resolved: items.filter(f => f.resolved_at).length,
+        keywords: phrases[i].phrases.map(({ phrase, count }) => ({ word: phrase, count }))
+      };
+    })
+  };
+};
+
+// --- Period-over-period comparison ---
+
+// Below this many responses on either side, differences are flagged as a small sample
+const SMALL_SAMPLE = 30;
+const SIGNIFICANCE_LEVEL = 0.05;
+// Keywords must appear in at least this many comments (both sides together) to be compared
+const MIN_KEYWORD_COMMENTS = 3;
+const KEYWORD_LIMIT = 8;
+
+const round = (value, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Standard normal CDF (Abramowitz & Stegun 7.1.26, accurate to ~1e-7)
+const normalCdf = (z) => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+// Two-sided p-value for a z statistic, null when it can't be computed
+const pValue = (z) => (isFinite(z) ? round(2 * (1 - normalCdf(Math.abs(z))), 4) : null);
+
+// `significant` is only claimed with a p-value below 0.05; `smallSample` warns that the
+// normal approximation behind it is rough
+const significance = (p, nA, nB) => ({
+  pValue: p,
+  significant: p !== null && p < SIGNIFICANCE_LEVEL,
+  smallSample: Math.min(nA, nB) < SMALL_SAMPLE
+});
+
+// Welch's test on the mean rating (normal approximation)
+const compareMeans = (a, b) => {
+  const stats = (values) => {
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    const variance = values.length > 1 ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length - 1) : 0;
+    return { n: values.length, mean, variance };
+  };
+  if (a.length === 0 || b.length === 0) return significance(null, a.length, b.length);
+  const sa = stats(a);
+  const sb = stats(b);
+  const se = Math.sqrt(sa.variance / sa.n + sb.variance / sb.n);
+  // Identical, constant samples: no difference to test
+  const z = se > 0 ? (sb.mean - sa.mean) / se : (sb.mean === sa.mean ? 0 : NaN);
+  return significance(pValue(z), sa.n, sb.n);
+};
+
+// Pooled two-proportion z-test: `x` of `n` on each side
+const compareProportions = (xA, nA, xB, nB) => {
+  if (nA === 0 || nB === 0) return significance(null, nA, nB);
+  const pooled = (xA + xB) / (nA + nB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / nA + 1 / nB));
+  const z = se > 0 ? (xB / nB - xA / nA) / se : 0;
+  return significance(pValue(z), nA, nB);
+};
+
+const share = (count, total) => (total > 0 ? count / total : 0);
+
+// Count and share on each side plus the change in share (percentage points) for every key
+// in either distribution
+const compareDistribution = (keys, countsA, totalA, countsB, totalB) => keys.map(key => {
+  const a = countsA[key] || 0;
+  const b = countsB[key] || 0;
+  return {
+    key,
+    a: { count: a, share: round(share(a, totalA) * 100, 1) },
+    b: { count: b, share: round(share(b, totalB) * 100, 1) },
+    deltaPoints: round((share(b, totalB) - share(a, totalA)) * 100, 1),
+    ...compareProportions(a, totalA, b, totalB)
+  };
+});
+
+// Keywords and phrases whose share of comments changed most between the two sides
+const keywordShift = (feedbackA, feedbackB, analyzer) => {
+  const statsA = analyzer.collect(feedbackA.map(f => f.comment));
+  const statsB = analyzer.collect(feedbackB.map(f => f.comment));
+  // Number of comments each phrase appears in, by stemmed key
+  const documents = (stats) => Object.fromEntries([...stats].map(([key, s]) => [key, s.documents]));
+  const countsA = documents(statsA);
+  const countsB = documents(statsB);
+  const candidates = [...new Set([...statsA.keys(), ...statsB.keys()])]
+    .filter(key => (countsA[key] || 0) + (countsB[key] || 0) >= MIN_KEYWORD_COMMENTS);
+  const shifts = compareDistribution(candidates, countsA, feedbackA.length, countsB, feedbackB.length)
+    .map(({ key, ...rest }) => ({ word: analyzer.display(statsB.get(key) || statsA.get(key)), ...rest }));
+
+  return {
+    rising: shifts.filter(s => s.deltaPoints > 0).sort((x, y) => y.deltaPoints - x.deltaPoints).slice(0, KEYWORD_LIMIT),
+    falling: shifts.filter(s => s.deltaPoints < 0).sort((x, y) => x.deltaPoints - y.deltaPoints).slice(0, KEYWORD_LIMIT)
+  };
+};
+
+const mean = (values) => (values.length ? round(values.reduce((sum, v) => sum + v, 0) / values.length) : null);
+
+// Side-by-side figures for two sets of feedback (a = baseline, b = comparison). Deltas are b - a.
+// `options.text` holds the text-analysis settings used for the keyword shift and `options.states`
+// the workflow state ids, in order.
+const compare = (feedbackA, feedbackB, categories, options = {}) => {
+  const summaryA = summarize(feedbackA, categories, options);
+  const summaryB = summarize(feedbackB, categories, options);
+  const ratingsA = feedbackA.map(f => f.rating);
+  const ratingsB = feedbackB.map(f => f.rating);
+  const totalA = feedbackA.length;
+  const totalB = feedbackB.length;
+  const averageA = mean(ratingsA);
+  const averageB = mean(ratingsB);
+
+  // Categories in display order, then ids that no longer exist
+  const ordered = [...categories].sort((x, y) => (x.order ?? 0) - (y.order ?? 0)).map(c => c.id);
+  // Workflow states, then states that have since been removed
+  const statusKeys = [...new Set([...(options.states || []), ...Object.keys(summaryA.statusStats), ...Object.keys(summaryB.statusStats)])];
+  const categoryIds = [...new Set([...ordered, ...Object.keys(summaryA.categoryStats), ...Object.keys(summaryB.categoryStats)])]
+    .filter(id => summaryA.categoryStats[id] || summaryB.categoryStats[id]);
+
+  return {
+    categoryMap: summaryA.categoryMap,
+    totals: {
+      a: totalA,
+      b: totalB,
+      delta: totalB - totalA,
+      // Percentage change; null when the baseline is empty
+      deltaPercent: totalA > 0 ? round(((totalB - totalA) / totalA) * 100, 1) : null
+    },
+    averageRating: {
+      a: averageA,
+      b: averageB,
+      delta: averageA !== null && averageB !== null ? round(averageB - averageA) : null,
+      ...compareMeans(ratingsA, ratingsB)
+    },
+    ratings: compareDistribution(['1', '2', '3', '4', '5'], summaryA.ratingStats, totalA, summaryB.ratingStats, totalB),
+    categories: compareDistribution(categoryIds, summaryA.categoryStats, totalA, summaryB.categoryStats, totalB),
+    statuses: compareDistribution(statusKeys, summaryA.statusStats, totalA, summaryB.statusStats, totalB),
+    keywords: keywordShift(feedbackA, feedbackB, createTextAnalyzer(options.text))
+  };
+};
+
+module.exports = { BUCKETS, KEYWORD_GROUPS, SCORECARD_GROUPS, summarize, compare, keywords, questionStats, scorecards };
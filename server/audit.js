@@ -0,0 +1,67 @@
+const crypto = require('crypto');
+
+// Fields that must never end up in the audit log
+const REDACTED_FIELDS = ['password_hash'];
+
+const scrub = (value) => {
+  if (!value || typeof value !== 'object') return value ?? null;
+  const copy = { ...value };
+  for (const field of REDACTED_FIELDS) {
+    if (field in copy) copy[field] = '[redacted]';
+  }
+  return copy;
+};
+
+// Only the fields that actually changed, as { before, after }
+const diff = (before, after) => {
+  const b = {};
+  const a = {};
+  for (const key of new Set([...Object.keys(before || {}), ...Object.keys(after || {})])) {
+    if (JSON.stringify(before?.[key]) !== JSON.stringify(after?.[key])) {
+      b[key] = before?.[key] ?? null;
+      a[key] = after?.[key] ?? null;
+    }
+  }
+  return { before: b, after: a };
+};
+
+const createAuditLog = (storage) => {
+  const entry = (req, { action, targetType, targetId, before, after, details }) => ({
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    actor_id: req.user?.id || null,
+    actor_username: req.user?.username || null,
+    action,
+    target_type: targetType,
+    target_id: targetId ?? null,
+    before: scrub(before),
+    after: scrub(after),
+    details: details || null
+  });
+
+  return {
+    // Record one mutation made by the signed-in admin on `req`
+    record: (req, event) => storage.audit.insert(entry(req, event)),
+
+    // Record several mutations at once (e.g. one entry per item in a bulk delete)
+    recordMany: (req, events) => storage.audit.insertMany(events.map(event => entry(req, event))),
+
+    // Record an update, keeping only the fields that changed
+    recordChange: (req, { action, targetType, targetId, before, after, details }) => {
+      // Diff before scrubbing so a changed password still shows up (as "[redacted]")
+      const changed = diff(before, after);
+      if (Object.keys(changed.after).length === 0) return Promise.resolve(null);
+      return storage.audit.insert(entry(req, { action, targetType, targetId, ...changed, details }));
+    },
+
+    // Record several updates at once, like recordChange; events that change nothing are left out
+    recordChanges: (req, events) => {
+      const changed = events
+        .map(({ before, after, ...event }) => ({ ...event, ...diff(before, after) }))
+        .filter(event => Object.keys(event.after).length > 0);
+      return storage.audit.insertMany(changed.map(event => entry(req, event)));
+    }
+  };
+};
+
+module.exports = { createAuditLog };
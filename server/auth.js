@@ -0,0 +1,94 @@
+const bcrypt = require('bcryptjs');
+const crypto = require('crypto');
+
+// Roles are ordered: each role can do everything the roles before it can.
+//   viewer    - read feedback, analytics and categories
+//   moderator - also update/delete feedback and manage categories
+//   owner     - also manage admin accounts
+const ROLES = ['viewer', 'moderator', 'owner'];
+const MIN_PASSWORD_LENGTH = 8;
+
+const hasRole = (user, role) => !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(role);
+
+const hashPassword = (password) => bcrypt.hash(password, 12);
+
+// Compared against when the username doesn't exist, so unknown users take as long as wrong passwords
+const DUMMY_HASH = bcrypt.hashSync(crypto.randomBytes(16).toString('hex'), 12);
+
+const verifyPassword = (password, hash) => bcrypt.compare(String(password || ''), hash || DUMMY_HASH);
+
+const validatePassword = (password) => {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters long`;
+  }
+  return null;
+};
+
+// The account as returned to the client (never includes the hash)
+const publicUser = (user) => ({
+  id: user.id,
+  username: user.username,
+  role: user.role,
+  created_at: user.created_at,
+  last_login: user.last_login || null
+});
+
+const createUserRecord = async ({ username, password, role }) => ({
+  id: crypto.randomUUID(),
+  username: String(username).trim(),
+  role,
+  password_hash: await hashPassword(password),
+  created_at: new Date().toISOString(),
+  last_login: null
+});
+
+const createAuth = (storage) => {
+  // Loads the signed-in user on every request so role changes and removals apply immediately
+  const requireRole = (role) => async (req, res, next) => {
+    try {
+      const user = req.session.userId ? await storage.users.get(req.session.userId) : null;
+      if (!user) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      if (!hasRole(user, role)) {
+        return res.status(403).json({ error: 'Forbidden' });
+      }
+      req.user = user;
+      next();
+    } catch (error) {
+      console.error('Error checking session:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+
+  // First run: create the initial owner from ADMIN_USERNAME / ADMIN_PASSWORD when both are set.
+  // Otherwise the login page offers a one-time setup form (POST /api/admin/setup).
+  const bootstrapOwner = async (env = process.env) => {
+    if ((await storage.users.count()) > 0) return;
+    const { ADMIN_USERNAME, ADMIN_PASSWORD } = env;
+    if (!ADMIN_USERNAME || !ADMIN_PASSWORD) {
+      console.log('No admin accounts yet; open /admin/login to create the owner account');
+      return;
+    }
+    const problem = validatePassword(ADMIN_PASSWORD);
+    if (problem) {
+      console.warn(`Not creating owner from ADMIN_PASSWORD: ${problem}`);
+      return;
+    }
+    await storage.users.insert(await createUserRecord({ username: ADMIN_USERNAME, password: ADMIN_PASSWORD, role: 'owner' }));
+    console.log(`Created owner account "${ADMIN_USERNAME}"; ADMIN_PASSWORD is no longer read and can be removed`);
+  };
+
+  return { requireRole, bootstrapOwner };
+};
+
+module.exports = {
+  ROLES,
+  hasRole,
+  verifyPassword,
+  hashPassword,
+  validatePassword,
+  publicUser,
+  createUserRecord,
+  createAuth
+};
@@ -0,0 +1,143 @@
+// The public "You said, we did" board: feedback shown with what was done about it. An admin
+// puts an item forward with the comment text to show (the stored comment by default) and its
+// public response; it appears only once a moderator approves it in the review queue, and goes
+// back to the queue whenever the response changes. Personal information is masked from the
+// comment when it is put forward and again on approval, in case the redaction rules have
+// grown since.
+const { createRedactor } = require('./redaction');
+
+const MAX_PUBLIC_COMMENT_LENGTH = 2000;
+
+class BoardValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'BoardValidationError';
+  }
+}
+
+// What the board shows for one item
+const boardEntry = (f) => ({
+  id: f.feedback_id,
+  comment: f.public_comment,
+  response: f.public_response,
+  status: f.status || 'open',
+  // Whether the feedback is in a closed state of the workflow ("We did" rather than "We are doing")
+  resolved: !!f.resolved_at,
+  submitted_at: f.timestamp,
+  published_at: f.published_at
+});
+
+const createBoard = (storage, audit, settings) => {
+  const redact = async (text) => createRedactor(await settings.get('redaction')).redact(text).text;
+
+  // Load the given ids, keeping live entries whose publication state is `state`
+  const load = async (ids, state) =>
+    (await Promise.all([...new Set(ids.map(String))].map(id => storage.feedback.get(id))))
+      .filter(f => f && !f.deleted_at && !f.held && (f.publish_state || null) === state);
+
+  const bulkDetails = (items) => (items.length > 1 ? { bulk: true, count: items.length } : null);
+
+  // Put an item forward for the board (or change the text of one already put forward or
+  // published, which sends it back for review). Returns the updated feedback, or null if missing.
+  const submit = async (req, id, { comment } = {}) => {
+    const existing = await storage.feedback.get(id);
+    if (!existing || existing.deleted_at) return null;
+    if (existing.held) throw new BoardValidationError('Approve this submission in the review queue first');
+    if (!existing.public_response) throw new BoardValidationError('Write a public response before putting this on the board');
+    const text = String(comment ?? existing.comment ?? '').trim();
+    if (!text) throw new BoardValidationError('There is no comment to show on the board');
+    if (text.length > MAX_PUBLIC_COMMENT_LENGTH) {
+      throw new BoardValidationError(`The comment can be at most ${MAX_PUBLIC_COMMENT_LENGTH} characters`);
+    }
+    const changes = {
+      publish_state: 'pending',
+      public_comment: await redact(text),
+      publish_requested_at: new Date().toISOString(),
+      publish_requested_by: req.user?.id || null,
+      published_at: null
+    };
+    const updated = await storage.feedback.update(id, changes);
+    await audit.record(req, {
+      action: 'feedback.publish_request',
+      targetType: 'feedback',
+      targetId: id,
+      before: { publish_state: existing.publish_state || null },
+      after: { publish_state: 'pending', public_comment: changes.public_comment }
+    });
+    return updated;
+  };
+
+  // Items waiting for review, oldest request first
+  const pending = async () =>
+    (await storage.feedback.query({ filters: { publication: 'pending', trashed: false, held: false } }))
+      .sort((a, b) => String(a.publish_requested_at).localeCompare(String(b.publish_requested_at)));
+
+  // Show pending items on the board; returns how many were published
+  const approve = async (req, ids) => {
+    const items = await load(ids, 'pending');
+    const now = new Date().toISOString();
+    for (const f of items) {
+      await storage.feedback.update(f.feedback_id, {
+        publish_state: 'published',
+        public_comment: await redact(f.public_comment || ''),
+        published_at: now,
+        published_by: req.user?.id || null
+      });
+    }
+    await audit.recordMany(req, items.map(f => ({
+      action: 'feedback.publish',
+      targetType: 'feedback',
+      targetId: f.feedback_id,
+      before: { publish_state: 'pending' },
+      after: { publish_state: 'published' },
+      details: bulkDetails(items)
+    })));
+    return items.length;
+  };
+
+  // Turn down pending items, or take published ones off the board; returns how many changed
+  const withdraw = async (req, ids, state, action) => {
+    const items = await load(ids, state);
+    for (const f of items) {
+      await storage.feedback.update(f.feedback_id, { publish_state: null, published_at: null });
+    }
+    await audit.recordMany(req, items.map(f => ({
+      action,
+      targetType: 'feedback',
+      targetId: f.feedback_id,
+      before: { publish_state: state },
+      after: { publish_state: null },
+      details: bulkDetails(items)
+    })));
+    return items.length;
+  };
+
+  const reject = (req, ids) => withdraw(req, ids, 'pending', 'feedback.publish_reject');
+  const unpublish = (req, ids) => withdraw(req, ids, 'published', 'feedback.unpublish');
+
+  // Published items grouped by category in display order, newest first within each
+  const published = async () => {
+    const [items, categories] = await Promise.all([
+      storage.feedback.query({ filters: { publication: 'published', trashed: false, held: false } }),
+      storage.categories.all()
+    ]);
+    const byCategory = new Map();
+    for (const f of items) {
+      if (!byCategory.has(f.category)) byCategory.set(f.category, []);
+      byCategory.get(f.category).push(f);
+    }
+    return categories
+      .filter(c => byCategory.has(c.id))
+      .sort((a, b) => (a.order ?? 0) - (b.order ?? 0))
+      .map(c => ({
+        category: { id: c.id, name: c.name },
+        items: byCategory.get(c.id)
+          .sort((a, b) => String(b.published_at).localeCompare(String(a.published_at)))
+          .map(boardEntry)
+      }));
+  };
+
+  return { submit, pending, approve, reject, unpublish, published };
+};
+
+module.exports = { BoardValidationError, createBoard };
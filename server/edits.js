@@ -0,0 +1,222 @@
+// Admin edits to feedback: status (as the workflow allows), category, assignee, due date, tags
+// and the public response, to one item or many at once. An edit is checked in two steps:
+// `prepare` checks what is the same for every item (e.g. that the status and category exist)
+// and refuses the whole edit if any of it is wrong, then `changesFor` works out one item's
+// changes (e.g. whether its status may move), so a bulk edit checks each item exactly as
+// editing it alone would. A bulk edit can also add an internal note.
+//
+// A single edit can say which values it expects the changed fields to have (`expected`), as
+// last seen by the admin making it; if another admin has changed one of them since, the edit is
+// refused with EditConflictError instead of silently overwriting their change.
+const crypto = require('crypto');
+const { findState, canMove, moveTo, parseDueDate, slaChanges } = require('./workflow');
+const { NoteValidationError } = require('./notes');
+
+// Longest public response to a feedback item
+const MAX_PUBLIC_RESPONSE_LENGTH = 2000;
+
+class EditValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'EditValidationError';
+  }
+}
+
+// Thrown when `expected` no longer matches; `current` is set to the item as it is now
+class EditConflictError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'EditConflictError';
+    this.current = null;
+  }
+}
+
+// Fields an edit can change, as stored
+const EDITABLE = ['status', 'public_response', 'category', 'assignee_id', 'due_at', 'tags'];
+
+// Values compared for conflicts: missing and empty count as the same
+const comparable = (value) =>
+  JSON.stringify(value === undefined || value === '' || (Array.isArray(value) && value.length === 0) ? null : value);
+
+// The fields of `expected` that `f` no longer has
+const conflicting = (f, expected) =>
+  EDITABLE.filter(field => expected[field] !== undefined && comparable(expected[field]) !== comparable(f[field]));
+
+const createEdits = (storage, audit, settings, tags, notes) => {
+  // Check the parts of an edit that don't depend on the item; throws EditValidationError (or
+  // TagValidationError for `tags`)
+  const prepare = async ({ status, public_response, category, assignee_id, due_at, tags: tagIds } = {}) => {
+    const edit = {};
+
+    if (status !== undefined) {
+      edit.status = status;
+      edit.workflow = await settings.get('workflow');
+      if (!findState(edit.workflow, status)) throw new EditValidationError('Invalid status');
+    }
+
+    // The response the submitter sees with their receipt code
+    if (public_response !== undefined) {
+      edit.public_response = String(public_response).trim();
+      if (edit.public_response.length > MAX_PUBLIC_RESPONSE_LENGTH) {
+        throw new EditValidationError(`The public response can be at most ${MAX_PUBLIC_RESPONSE_LENGTH} characters`);
+      }
+    }
+
+    if (category !== undefined) {
+      edit.category = await storage.categories.get(category);
+      if (!edit.category) throw new EditValidationError('Invalid category');
+    }
+
+    // Admin responsible for following the feedback up; empty to unassign
+    if (assignee_id !== undefined) {
+      if (assignee_id === null || assignee_id === '') {
+        edit.assignee_id = null;
+      } else if (await storage.users.get(assignee_id)) {
+        edit.assignee_id = assignee_id;
+      } else {
+        throw new EditValidationError('Invalid assignee');
+      }
+    }
+
+    // A due date set by hand, or null to go back to the category's SLA
+    if (due_at !== undefined) {
+      if (due_at === null || due_at === '') {
+        edit.due_at = null;
+        edit.categories = new Map((await storage.categories.all()).map(c => [c.id, c]));
+      } else {
+        edit.due_at = parseDueDate(due_at);
+        if (!edit.due_at) throw new EditValidationError('Invalid due date');
+      }
+    }
+
+    // The full list of tag ids the feedback should have
+    if (tagIds !== undefined) {
+      edit.tags = await tags.validIds(tagIds);
+    }
+
+    return edit;
+  };
+
+  // The changes a prepared edit makes to feedback `f`; throws EditValidationError
+  const changesFor = (f, edit) => {
+    const changes = {};
+
+    if (edit.status !== undefined && edit.status !== f.status) {
+      const { workflow, status } = edit;
+      if (!canMove(workflow, f.status, status)) {
+        throw new EditValidationError(`Feedback cannot move from ${findState(workflow, f.status).label} to ${findState(workflow, status).label}`);
+      }
+      Object.assign(changes, moveTo(workflow, f, status));
+    }
+
+    if (edit.public_response !== undefined && edit.public_response !== (f.public_response || '')) {
+      const response = edit.public_response;
+      changes.public_response = response;
+      changes.responded_at = response ? new Date().toISOString() : null;
+      // A changed response is reviewed again before the board shows it; without one there is
+      // nothing to show
+      if (f.publish_state) {
+        changes.publish_state = response ? 'pending' : null;
+        changes.published_at = null;
+      }
+    }
+
+    if (edit.category) {
+      changes.category = edit.category.id;
+      Object.assign(changes, slaChanges(f, edit.category));
+    }
+
+    if (edit.assignee_id !== undefined) changes.assignee_id = edit.assignee_id;
+
+    if (edit.due_at === null) {
+      const current = edit.category || edit.categories.get(f.category);
+      Object.assign(changes, { due_manual: false }, slaChanges({ ...f, due_manual: false }, current));
+    } else if (edit.due_at !== undefined) {
+      Object.assign(changes, { due_at: edit.due_at, due_manual: true });
+    }
+
+    if (edit.tags) changes.tags = edit.tags;
+
+    return changes;
+  };
+
+  // Edit one item with the fields of `body`, checked against `body.expected` if given; returns
+  // it, or null if it is missing
+  const update = async (req, id, body) => {
+    const existing = await storage.feedback.get(id);
+    if (!existing) return null;
+    if (existing.deleted_at) {
+      throw new EditValidationError('Restore this feedback from the trash before editing it');
+    }
+    const { expected } = body;
+    if (expected !== undefined && (!expected || typeof expected !== 'object' || Array.isArray(expected))) {
+      throw new EditValidationError('expected must be an object of field values');
+    }
+    const edit = await prepare(body);
+
+    // Checked and changed on the stored record, so an edit made in between can't slip through
+    let before = null;
+    let failure = null;
+    await storage.feedback.updateWhere({ ids: [id], trashed: false }, (f) => {
+      try {
+        if (expected && conflicting(f, expected).length > 0) {
+          throw new EditConflictError('Another admin has changed this feedback since you opened it');
+        }
+        const changes = changesFor(f, edit);
+        before = { ...f };
+        return changes;
+      } catch (error) {
+        failure = error;
+        return {};
+      }
+    });
+    if (failure instanceof EditConflictError) failure.current = await storage.feedback.get(id);
+    if (failure) throw failure;
+    if (!before) return null;
+
+    const updated = await storage.feedback.get(id);
+    await audit.recordChange(req, { action: 'feedback.update', targetType: 'feedback', targetId: id, before, after: updated });
+    return updated;
+  };
+
+  // Edit live items `ids` with the fields of `body`, plus `note` (text to add to each one's
+  // internal notes). Items the edit doesn't apply to are left as they are; the rest are saved in
+  // one write, so either all of them change or none do. Returns `{ id, ok, error }` per id.
+  const bulkUpdate = async (req, ids, body = {}) => {
+    const edit = await prepare(body);
+    const note = body.note !== undefined ? await notes.compose(req, body.note) : null;
+    if (Object.keys(edit).length === 0 && !note) throw new EditValidationError('Nothing to change');
+
+    const unique = [...new Set(ids.map(String))];
+    const results = new Map(unique.map(id => [id, { id, ok: false, error: 'Feedback not found or in the trash' }]));
+    const events = [];
+    const noteEvents = [];
+    await storage.feedback.updateWhere({ ids: unique, trashed: false }, (f) => {
+      try {
+        const changes = changesFor(f, edit);
+        // Each item gets its own copy of the note, so it can be edited or deleted there alone
+        const copy = note && { ...note, id: crypto.randomUUID() };
+        const thread = note && notes.append(f.notes || [], copy);
+        events.push({ action: 'feedback.update', targetType: 'feedback', targetId: f.feedback_id, before: { ...f }, after: { ...f, ...changes } });
+        if (note) {
+          noteEvents.push({ action: 'feedback.note_add', targetType: 'feedback', targetId: f.feedback_id, after: { note_id: copy.id, text: copy.text } });
+        }
+        results.set(f.feedback_id, { id: f.feedback_id, ok: true, error: null });
+        return note ? { ...changes, notes: thread } : changes;
+      } catch (error) {
+        if (!(error instanceof EditValidationError || error instanceof NoteValidationError)) throw error;
+        results.set(f.feedback_id, { id: f.feedback_id, ok: false, error: error.message });
+        return {};
+      }
+    });
+
+    const details = { bulk: true, count: events.length };
+    await audit.recordChanges(req, events.map(event => ({ ...event, details })));
+    if (noteEvents.length) await audit.recordMany(req, noteEvents.map(event => ({ ...event, details })));
+    return [...results.values()];
+  };
+
+  return { update, bulkUpdate };
+};
+
+module.exports = { EditValidationError, EditConflictError, createEdits };
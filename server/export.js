@@ -0,0 +1,177 @@
+// Streams filtered feedback as CSV, newline-delimited JSON or XLSX. Records are read from
+// storage a page at a time and written as they arrive, so exports of any size use a
+// bounded amount of memory on the server and are saved straight to disk by the browser.
+const ExcelJS = require('exceljs');
+const { DEFAULT_FORM_ID, answersOf, formatAnswer } = require('./forms');
+
+const BATCH_SIZE = 500;
+
+// Every column an export can include, in default order
+const COLUMNS = {
+  feedback_id: { header: 'ID', value: (f) => f.feedback_id },
+  timestamp: { header: 'Timestamp', value: (f) => f.timestamp },
+  category: { header: 'Category', value: (f, ctx) => ctx.categoryNames[f.category] || f.category },
+  category_id: { header: 'Category ID', value: (f) => f.category },
+  rating: { header: 'Rating', value: (f) => f.rating },
+  comment: { header: 'Comment', value: (f) => f.comment || '' },
+  status: { header: 'Status', value: (f) => f.status || 'open' },
+  assignee: { header: 'Assignee', value: (f, ctx) => (f.assignee_id ? ctx.userNames[f.assignee_id] || f.assignee_id : '') },
+  due_at: { header: 'Due', value: (f) => f.due_at || '' },
+  resolved_at: { header: 'Resolved', value: (f) => f.resolved_at || '' },
+  tags: { header: 'Tags', value: (f, ctx) => (f.tags || []).map(id => ctx.tagNames[id] || id).join(', ') },
+  // The internal discussion, one note per line
+  notes: {
+    header: 'Internal Notes',
+    value: (f) => (f.notes || []).map(n => `[${n.created_at}] ${n.author || 'admin note'}: ${n.text}`).join('\n')
+  },
+  public_response: { header: 'Public Response', value: (f) => f.public_response || '' },
+  follow_ups: {
+    header: 'Follow-ups',
+    value: (f) => (f.follow_ups || []).map(u => `[${u.timestamp}] ${u.message}`).join('\n')
+  },
+  sentiment: { header: 'Sentiment', value: (f) => f.sentiment || '' },
+  sentiment_score: { header: 'Sentiment Score', value: (f) => f.sentiment_score ?? '' },
+  sentiment_mismatch: { header: 'Rating/Comment Mismatch', value: (f) => (f.sentiment_mismatch ? 'yes' : 'no') },
+  form: {
+    header: 'Form',
+    value: (f, ctx) => {
+      const form = ctx.forms.get(f.form_id || DEFAULT_FORM_ID);
+      return form ? `${form.name} (v${f.form_version || 1})` : f.form_id;
+    }
+  },
+  // "Question: answer" for every question besides the overall rating and main comment
+  answers: {
+    header: 'Answers',
+    value: (f, ctx) => {
+      const form = ctx.forms.get(f.form_id || DEFAULT_FORM_ID);
+      const version = form?.versions.find(v => v.version === (f.form_version || 1));
+      if (!version) return '';
+      const answers = answersOf(f);
+      return version.questions
+        .filter(q => !q.role && answers[q.id] !== undefined)
+        .map(q => `${q.label}: ${formatAnswer(q, answers[q.id])}`)
+        .join('; ');
+    }
+  },
+  cohort: { header: 'Cohort', value: (f) => f.cohort || '' },
+  trainer: { header: 'Trainer', value: (f) => f.trainer || '' },
+  session_date: { header: 'Session Date', value: (f) => f.session_date || '' },
+  redacted: { header: 'Redacted', value: (f) => (f.redacted || []).join(', ') },
+  hash: { header: 'Device Token', value: (f) => f.hash || '' }
+};
+
+const EXPORT_FORMATS = {
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  ndjson: { extension: 'ndjson', contentType: 'application/x-ndjson; charset=utf-8' },
+  xlsx: { extension: 'xlsx', contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }
+};
+
+// Comma-separated column keys from the query string; unknown keys are an error, none means all
+const parseExportColumns = (raw) => {
+  if (!raw) return { columns: Object.keys(COLUMNS) };
+  const columns = [...new Set(String(raw).split(',').map(c => c.trim()).filter(Boolean))];
+  const unknown = columns.filter(c => !COLUMNS[c]);
+  if (unknown.length) return { error: `Unknown export column(s): ${unknown.join(', ')}` };
+  if (columns.length === 0) return { error: 'At least one column is required' };
+  return { columns };
+};
+
+// Text a spreadsheet would run as a formula when opening a CSV file
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// RFC 4180: quote fields containing separators, quotes or line breaks; double embedded quotes.
+// Text that starts like a formula gets a leading ' so spreadsheets show it instead of running it.
+const csvField = (value) => {
+  let s = value === null || value === undefined ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+// A cell value for XLSX: numbers stay numbers, everything else is an inline string, so no
+// spreadsheet reads it as a formula
+const xlsxCell = (value) => {
+  if (typeof value === 'number') return value;
+  return { richText: [{ text: value === null || value === undefined ? '' : String(value) }] };
+};
+
+// Resolves once the response can take more data, or the client has gone away
+const drained = (res) => new Promise(resolve => {
+  const done = () => {
+    res.off('drain', done);
+    res.off('close', done);
+    resolve();
+  };
+  res.on('drain', done);
+  res.on('close', done);
+});
+
+// Yields matching records in sort order, one storage page at a time
+async function* batches(storage, filters, sort) {
+  let after;
+  for (;;) {
+    const page = await storage.feedback.query({ filters, sort, limit: BATCH_SIZE, after });
+    if (page.length === 0) return;
+    yield page;
+    if (page.length < BATCH_SIZE) return;
+    const last = page[page.length - 1];
+    after = { value: await storage.feedback.sortValue(last, sort), key: last.feedback_id };
+  }
+}
+
+const writeText = async (res, rows, format, columns, ctx) => {
+  if (format === 'csv') {
+    // BOM so Excel opens the file as UTF-8
+    res.write('\uFEFF' + columns.map(c => csvField(COLUMNS[c].header)).join(',') + '\r\n');
+  }
+  for await (const page of rows) {
+    if (res.destroyed) return;
+    const chunk = page.map(f => {
+      if (format === 'csv') return columns.map(c => csvField(COLUMNS[c].value(f, ctx))).join(',') + '\r\n';
+      return JSON.stringify(Object.fromEntries(columns.map(c => [c, COLUMNS[c].value(f, ctx)]))) + '\n';
+    }).join('');
+    if (!res.write(chunk)) await drained(res);
+  }
+  res.end();
+};
+
+const writeXlsx = async (res, rows, columns, ctx) => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res, useSharedStrings: false, useStyles: true });
+  const sheet = workbook.addWorksheet('Feedback');
+  sheet.columns = columns.map(c => ({ header: COLUMNS[c].header, key: c, width: ['comment', 'notes', 'public_response', 'follow_ups', 'answers'].includes(c) ? 60 : 20 }));
+  sheet.getRow(1).font = { bold: true };
+  for await (const page of rows) {
+    if (res.destroyed) return;
+    for (const f of page) {
+      sheet.addRow(Object.fromEntries(columns.map(c => [c, xlsxCell(COLUMNS[c].value(f, ctx))]))).commit();
+    }
+  }
+  sheet.commit();
+  await workbook.commit();
+};
+
+// Write the export to `res`. Filters and sort are already parsed; `format` must be an EXPORT_FORMATS
+// key. `forms` lists every survey form with its versions, to describe the answers.
+const streamExport = async (res, storage, { filters, sort, format, columns, forms }) => {
+  const [categories, users, tags] = await Promise.all([storage.categories.all(), storage.users.all(), storage.tags.all()]);
+  const ctx = {
+    categoryNames: Object.fromEntries(categories.map(c => [c.id, c.name])),
+    userNames: Object.fromEntries(users.map(u => [u.id, u.username])),
+    tagNames: Object.fromEntries(tags.map(t => [t.id, t.name])),
+    forms: new Map(forms.map(form => [form.id, form]))
+  };
+  const { extension, contentType } = EXPORT_FORMATS[format];
+  const date = new Date().toISOString().split('T')[0];
+
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="feedback-export-${date}.${extension}"`);
+  res.setHeader('Cache-Control', 'no-store');
+
+  const rows = batches(storage, filters, sort);
+  if (format === 'xlsx') {
+    await writeXlsx(res, rows, columns, ctx);
+  } else {
+    await writeText(res, rows, format, columns, ctx);
+  }
+};
+
+module.exports = { EXPORT_FORMATS, parseExportColumns, streamExport };
@@ -0,0 +1,263 @@
+// Survey forms. A form is a list of questions; saving changed questions adds a new version,
+// and every submission records the form and version it answered, so older answers keep their
+// meaning after the form is edited. The public page shows the active form; while no form is
+// marked active it shows the built-in standard form, which asks for the rating and comment
+// the portal has always collected.
+//
+// Two questions have a role. The "rating" question (required, 1-5) becomes the feedback's
+// overall `rating` and the optional "comment" question its `comment`, so the list, sentiment,
+// keywords, exports and reports work the same whichever form was answered.
+const crypto = require('crypto');
+
+class FormValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'FormValidationError';
+  }
+}
+
+const QUESTION_TYPES = ['rating', 'nps', 'choice', 'yes_no', 'text'];
+const ROLES = { rating: 'rating', comment: 'text' }; // role -> the question type it needs
+
+const MAX_QUESTIONS = 30;
+const MAX_LABEL_LENGTH = 200;
+const MAX_OPTIONS = 20;
+const MAX_OPTION_LENGTH = 100;
+const MAX_NAME_LENGTH = 100;
+const MAX_DESCRIPTION_LENGTH = 500;
+const MAX_TEXT_ANSWER_LENGTH = 5000;
+const QUESTION_ID = /^[\w-]{1,40}$/;
+
+const DEFAULT_FORM_ID = 'default';
+
+// Question ids match the fields of feedback submitted before forms existed (see answersOf)
+const DEFAULT_QUESTIONS = [
+  { id: 'rating', type: 'rating', label: 'Rating', required: true, role: 'rating' },
+  { id: 'comment', type: 'text', label: 'Your Feedback', required: true, role: 'comment', minLength: 5 }
+];
+
+const builtInForm = () => ({
+  id: DEFAULT_FORM_ID,
+  name: 'Standard feedback',
+  description: '',
+  active: false,
+  created_at: null,
+  versions: [{ version: 1, questions: DEFAULT_QUESTIONS, created_at: null, created_by: null }]
+});
+
+const latestVersion = (form) => form.versions[form.versions.length - 1];
+
+const questionWithRole = (questions, role) => questions.find(q => q.role === role);
+
+// A submission's answers; feedback from before forms existed answered the standard form
+const answersOf = (f) => f.answers || { rating: f.rating, comment: f.comment };
+
+// An answer as plain text, e.g. for exports
+const formatAnswer = (q, value) => {
+  if (q.type === 'rating') return `${value}/5`;
+  if (q.type === 'nps') return `${value}/10`;
+  if (q.type === 'yes_no') return value ? 'Yes' : 'No';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+};
+
+const text = (value, name, max) => {
+  const s = String(value ?? '').trim();
+  if (s.length > max) throw new FormValidationError(`${name} can be at most ${max} characters`);
+  return s;
+};
+
+const validateQuestion = (q, index) => {
+  if (!q || typeof q !== 'object') throw new FormValidationError(`Question ${index + 1} is invalid`);
+  if (!QUESTION_TYPES.includes(q.type)) throw new FormValidationError(`Question ${index + 1} has an unknown type`);
+  const label = text(q.label, `Question ${index + 1}'s label`, MAX_LABEL_LENGTH);
+  if (!label) throw new FormValidationError(`Question ${index + 1} needs a label`);
+  const id = q.id ? String(q.id) : `q_${crypto.randomBytes(4).toString('hex')}`;
+  if (!QUESTION_ID.test(id)) throw new FormValidationError(`"${label}" has an invalid id`);
+
+  const question = { id, type: q.type, label, required: q.required === true };
+  if (q.role !== undefined && q.role !== null && q.role !== '') {
+    if (ROLES[q.role] !== q.type) throw new FormValidationError(`"${label}" can't be the form's ${q.role} question`);
+    question.role = q.role;
+  }
+  if (q.type === 'choice') {
+    const options = Array.isArray(q.options) ? [...new Set(q.options.map(o => text(o, 'Options', MAX_OPTION_LENGTH)).filter(Boolean))] : [];
+    if (options.length < 2 || options.length > MAX_OPTIONS) {
+      throw new FormValidationError(`"${label}" needs between 2 and ${MAX_OPTIONS} options`);
+    }
+    question.options = options;
+    question.multiple = q.multiple === true;
+  }
+  if (q.type === 'text') {
+    const minLength = q.minLength === undefined ? 0 : Number(q.minLength);
+    if (!Number.isInteger(minLength) || minLength < 0 || minLength > 1000) {
+      throw new FormValidationError(`"${label}" minimum length must be a whole number from 0 to 1000`);
+    }
+    question.minLength = minLength;
+  }
+  return question;
+};
+
+// Normalized questions; throws FormValidationError when the list can't make a valid form
+const validateQuestions = (input) => {
+  if (!Array.isArray(input) || input.length === 0) throw new FormValidationError('A form needs at least one question');
+  if (input.length > MAX_QUESTIONS) throw new FormValidationError(`A form can have at most ${MAX_QUESTIONS} questions`);
+  const questions = input.map(validateQuestion);
+  if (new Set(questions.map(q => q.id)).size !== questions.length) throw new FormValidationError('Question ids must be unique');
+  const rated = questions.filter(q => q.role === 'rating');
+  if (rated.length !== 1) throw new FormValidationError('Mark exactly one rating question as the overall rating');
+  rated[0].required = true;
+  if (questions.filter(q => q.role === 'comment').length > 1) throw new FormValidationError('Only one text question can be the main comment');
+  return questions;
+};
+
+const isEmpty = (value) => value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
+
+const integerIn = (value, min, max) => {
+  const n = Number(value);
+  return Number.isInteger(n) && n >= min && n <= max ? n : undefined;
+};
+
+// Check answers ({ questionId: value }) against one version's questions. Returns { answers }
+// with normalized values (unknown and empty optional answers dropped) or { error }.
+const validateAnswers = (questions, input) => {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) return { error: 'answers must be an object' };
+  const answers = {};
+  for (const q of questions) {
+    const value = input[q.id];
+    if (isEmpty(value) || (q.type === 'text' && typeof value === 'string' && !value.trim())) {
+      if (q.required) return { error: `"${q.label}" is required` };
+      continue;
+    }
+    let valid;
+    switch (q.type) {
+      case 'rating':
+        valid = integerIn(value, 1, 5);
+        break;
+      case 'nps':
+        valid = integerIn(value, 0, 10);
+        break;
+      case 'yes_no':
+        valid = typeof value === 'boolean' ? value : undefined;
+        break;
+      case 'choice': {
+        const picked = q.multiple ? (Array.isArray(value) ? [...new Set(value)] : undefined) : value;
+        if (q.multiple) valid = picked && picked.every(o => q.options.includes(o)) ? picked : undefined;
+        else valid = q.options.includes(picked) ? picked : undefined;
+        break;
+      }
+      case 'text':
+        if (typeof value !== 'string') break;
+        if (value.trim().length < (q.minLength || 0)) return { error: `"${q.label}" must be at least ${q.minLength} characters long` };
+        if (value.length > MAX_TEXT_ANSWER_LENGTH) return { error: `"${q.label}" can be at most ${MAX_TEXT_ANSWER_LENGTH} characters long` };
+        valid = value;
+        break;
+    }
+    if (valid === undefined) return { error: `"${q.label}" has an invalid answer` };
+    answers[q.id] = valid;
+  }
+  return { answers };
+};
+
+const createForms = (storage, audit) => {
+  // Stored forms, plus the built-in standard form until it has been edited (and so stored)
+  const all = async () => {
+    const stored = await storage.forms.all();
+    return stored.some(f => f.id === DEFAULT_FORM_ID) ? stored : [builtInForm(), ...stored];
+  };
+
+  const get = async (id) => (await storage.forms.get(id)) || (id === DEFAULT_FORM_ID ? builtInForm() : null);
+
+  // The form the public page shows
+  const active = async () => {
+    const forms = await all();
+    return forms.find(f => f.active) || forms.find(f => f.id === DEFAULT_FORM_ID);
+  };
+
+  const details = (input) => {
+    const name = text(input.name, 'Name', MAX_NAME_LENGTH);
+    if (!name) throw new FormValidationError('Name is required');
+    return { name, description: text(input.description, 'Description', MAX_DESCRIPTION_LENGTH) };
+  };
+
+  const newVersion = (req, version, questions) =>
+    ({ version, questions, created_at: new Date().toISOString(), created_by: req.user?.id || null });
+
+  const create = async (req, input = {}) => {
+    const form = {
+      id: crypto.randomUUID(),
+      ...details(input),
+      active: false,
+      created_at: new Date().toISOString(),
+      versions: [newVersion(req, 1, validateQuestions(input.questions))]
+    };
+    await storage.forms.insert(form);
+    await audit.record(req, { action: 'form.create', targetType: 'form', targetId: form.id, after: form });
+    return form;
+  };
+
+  // Rename or describe a form and, when its questions changed, add a version with them
+  const update = async (req, id, input = {}) => {
+    const existing = await get(id);
+    if (!existing) return null;
+    const changes = {};
+    if (input.name !== undefined || input.description !== undefined) {
+      Object.assign(changes, details({ name: existing.name, description: existing.description, ...input }));
+    }
+    if (input.questions !== undefined) {
+      const questions = validateQuestions(input.questions);
+      const latest = latestVersion(existing);
+      if (JSON.stringify(questions) !== JSON.stringify(latest.questions)) {
+        changes.versions = [...existing.versions, newVersion(req, latest.version + 1, questions)];
+      }
+    }
+    const updated = (await storage.forms.get(id))
+      ? await storage.forms.update(id, changes)
+      : await storage.forms.insert({ ...existing, ...changes });
+    await audit.recordChange(req, {
+      action: 'form.update',
+      targetType: 'form',
+      targetId: id,
+      before: { name: existing.name, description: existing.description, version: latestVersion(existing).version },
+      after: { name: updated.name, description: updated.description, version: latestVersion(updated).version }
+    });
+    return updated;
+  };
+
+  // Make this the form the public page shows
+  const activate = async (req, id) => {
+    const form = await get(id);
+    if (!form) return null;
+    const previous = await active();
+    if (!(await storage.forms.get(id))) await storage.forms.insert(form);
+    for (const f of await storage.forms.all()) {
+      if (f.active !== (f.id === id)) await storage.forms.update(f.id, { active: f.id === id });
+    }
+    await audit.record(req, { action: 'form.activate', targetType: 'form', targetId: id, details: { previous: previous.id } });
+    return storage.forms.get(id);
+  };
+
+  // Only forms nobody has answered can be deleted; the standard form and the active one never
+  const remove = async (req, id) => {
+    const form = await storage.forms.get(id);
+    if (!form && id !== DEFAULT_FORM_ID) return null;
+    if (id === DEFAULT_FORM_ID) throw new FormValidationError('The standard form cannot be deleted');
+    if (form.active) throw new FormValidationError('Activate another form before deleting this one');
+    if ((await storage.feedback.count({ form: id })) > 0) throw new FormValidationError('This form has responses and cannot be deleted');
+    await storage.forms.remove(id);
+    await audit.record(req, { action: 'form.delete', targetType: 'form', targetId: id, before: form });
+    return form;
+  };
+
+  return { all, get, active, create, update, activate, remove };
+};
+
+module.exports = {
+  DEFAULT_FORM_ID,
+  FormValidationError,
+  latestVersion,
+  questionWithRole,
+  answersOf,
+  formatAnswer,
+  validateAnswers,
+  createForms
+};
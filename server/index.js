@@ -1,10 +1,44 @@
 const express = require('express');
 const cors = require('cors');
 const session = require('express-session');
-const bcrypt = require('bcryptjs');
-const fs = require('fs');
-const path = require('path');
 const crypto = require('crypto');
+const { createStorage, parseFilters } = require('./storage');
+const {
+  ROLES,
+  verifyPassword,
+  hashPassword,
+  validatePassword,
+  publicUser,
+  createUserRecord,
+  createAuth
+} = require('./auth');
+const { createAuditLog } = require('./audit');
+const { BUCKETS, KEYWORD_GROUPS, SCORECARD_GROUPS, summarize, compare, keywords, questionStats, scorecards } = require('./analytics');
+const { streamReport } = require('./report');
+const { createTrash } = require('./trash');
+const { EXPORT_FORMATS, parseExportColumns, streamExport } = require('./export');
+const { createSettings, SettingsValidationError } = require('./settings');
+const { DEFAULT_TEXT_SETTINGS, validateTextSettings } = require('./text');
+const { scoreFeedback } = require('./sentiment');
+const { DEFAULT_ABUSE_SETTINGS, validateAbuseSettings, createAbuseGuard } = require('./abuse');
+const { DEFAULT_REDACTION_SETTINGS, validateRedactionSettings, createRedactor } = require('./redaction');
+const { FormValidationError, latestVersion, questionWithRole, validateAnswers, createForms } = require('./forms');
+const { LinkValidationError, linkState, publicLink, linkTags, createLinks } = require('./links');
+const { ReceiptValidationError, createReceiptCode, hashReceipt, receiptView, followUp } = require('./receipts');
+const { BoardValidationError, createBoard } = require('./board');
+const { NoteValidationError, NoteForbiddenError, migratedNote, createNotes } = require('./notes');
+const {
+  DEFAULT_WORKFLOW_SETTINGS,
+  validateWorkflowSettings,
+  initialState,
+  findState,
+  validateSlaDays,
+  toSlaDays,
+  slaDueDate,
+  slaChanges
+} = require('./workflow');
+const { TagValidationError, createTags } = require('./tags');
+const { EditValidationError, EditConflictError, createEdits } = require('./edits');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -46,102 +80,151 @@ if (process.env.NODE_ENV === 'production') {
 
 app.use(session(sessionConfig));
 
-// Create data directory if it doesn't exist
-const dataDir = path.join(__dirname, 'data');
-if (!fs.existsSync(dataDir)) {
-  fs.mkdirSync(dataDir, { recursive: true });
+// Persistence: JSON files by default, SQLite with STORAGE_DRIVER=sqlite (see storage/index.js)
+let storage;
+try {
+  storage = createStorage();
+} catch (error) {
+  // Never fall back to an empty store: the next write would overwrite the real data
+  console.error('Failed to open storage:', error.message);
+  process.exit(1);
 }
 
-const feedbackFile = path.join(dataDir, 'feedback.json');
+const sortCategories = (categories) =>
+  [...categories].sort((a, b) => (a.order ?? 0) - (b.order ?? 0) || a.name.localeCompare(b.name));
 
-// Initialize feedback file if it doesn't exist
-if (!fs.existsSync(feedbackFile)) {
-  fs.writeFileSync(feedbackFile, JSON.stringify([], null, 2));
-}
-
-// Categories storage
-const categoriesFile = path.join(dataDir, 'categories.json');
-
-// Initialize categories file if it doesn't exist
-if (!fs.existsSync(categoriesFile)) {
-  const defaultCategories = [
-    { id: 'general', name: 'General', description: 'General feedback' }
-  ];
-  fs.writeFileSync(categoriesFile, JSON.stringify(defaultCategories, null, 2));
-}
-
-// Helper functions
-const readFeedback = () => {
-  try {
-    const data = fs.readFileSync(feedbackFile, 'utf8');
-    return JSON.parse(data);
-  } catch (error) {
-    return [];
-  }
-};
-
-const writeFeedback = (feedback) => {
-  fs.writeFileSync(feedbackFile, JSON.stringify(feedback, null, 2));
-};
-
-// Category helpers
-const readCategories = () => {
+// One-time normalization to keep feedback categories as ids, ensure status exists, score sentiment,
+// turn single admin notes into note threads and fill in resolution times and due dates
+const normalizeData = async () => {
   try {
-    const data = fs.readFileSync(categoriesFile, 'utf8');
-    return JSON.parse(data);
-  } catch (error) {
-    return [];
-  }
-};
-
-const writeCategories = (categories) => {
-  fs.writeFileSync(categoriesFile, JSON.stringify(categories, null, 2));
-};
-
-const hashIdentifier = (req) => {
-  const userAgent = req.headers['user-agent'] || '';
-  const timestamp = Date.now().toString();
-  return crypto.createHash('sha256').update(userAgent + timestamp).digest('hex');
-};
+    const categories = await storage.categories.all();
+    // Ensure every category has an explicit position and archive flag
+    for (const [i, c] of categories.entries()) {
+      const changes = {};
+      if (typeof c.order !== 'number') changes.order = i;
+      if (typeof c.archived !== 'boolean') changes.archived = false;
+      if (c.description === undefined) changes.description = '';
+      if (Object.keys(changes).length) {
+        await storage.categories.update(c.id, changes);
+      }
+    }
 
-// One-time normalization to keep feedback categories as ids and ensure status exists
-(function normalizeData() {
-  try {
-    const categories = readCategories();
     const byName = Object.fromEntries(categories.map(c => [c.name.toLowerCase(), c.id]));
     const byId = new Set(categories.map(c => c.id));
-    const feedback = readFeedback();
-    let changed = false;
-    for (const f of feedback) {
+    const workflow = await settings.get('workflow');
+    await storage.feedback.updateWhere({}, (f) => {
+      const changes = {};
       // Normalize category: if not an id but matches a name, convert to id
       if (!byId.has(f.category) && typeof f.category === 'string') {
         const id = byName[f.category.toLowerCase()];
-        if (id) {
-          f.category = id;
-          changed = true;
-        }
+        if (id) changes.category = id;
       }
-      // Ensure status and admin_note
-      if (!f.status) { f.status = 'open'; changed = true; }
-      if (f.admin_note === undefined) { f.admin_note = ''; changed = true; }
-    }
-    if (changed) {
-      writeFeedback(feedback);
-    }
+      // Ensure status
+      if (!f.status) changes.status = 'open';
+      // The old single admin note becomes the first note of the thread
+      if (f.notes === undefined) {
+        changes.notes = f.admin_note ? [migratedNote(f)] : [];
+      }
+      // Feedback closed before resolution times were kept counts as resolved when last answered
+      if (f.resolved_at === undefined) {
+        changes.resolved_at = findState(workflow, f.status || 'open')?.closed ? f.responded_at || f.timestamp : null;
+      }
+      if (f.due_at === undefined) {
+        changes.due_at = slaDueDate(f.timestamp, categories.find(c => c.id === f.category)?.sla_days);
+      }
+      // Score comments submitted before sentiment analysis existed
+      if (f.sentiment === undefined) Object.assign(changes, scoreFeedback(f));
+      return changes;
+    });
   } catch (e) {
     console.warn('Normalization skipped:', e?.message || e);
   }
-})();
+};
+
+// Admin accounts and role checks (see auth.js)
+const { requireRole, bootstrapOwner } = createAuth(storage);
+
+// Append-only log of who changed what (see audit.js)
+const audit = createAuditLog(storage);
+
+// Soft delete with restore and timed purge (see trash.js)
+const trash = createTrash(storage, audit);
+
+// Admin-editable settings per feature (see settings.js)
+const settings = createSettings(storage, audit, {
+  'text-analysis': { defaults: DEFAULT_TEXT_SETTINGS, validate: validateTextSettings },
+  'abuse-protection': { defaults: DEFAULT_ABUSE_SETTINGS, validate: validateAbuseSettings },
+  redaction: { defaults: DEFAULT_REDACTION_SETTINGS, validate: validateRedactionSettings },
+  workflow: { defaults: DEFAULT_WORKFLOW_SETTINGS, validate: validateWorkflowSettings }
+});
+
+// Versioned survey forms; the active one is what the public page asks (see forms.js)
+const forms = createForms(storage, audit);
+
+// Per-cohort, per-trainer feedback links (see links.js)
+const links = createLinks(storage, audit);
+
+// The public "You said, we did" board (see board.js)
+const board = createBoard(storage, audit, settings);
+
+// Internal discussion threads on feedback items (see notes.js)
+const notes = createNotes(storage, audit);
+
+// Coloured tags for themes across categories (see tags.js)
+const tags = createTags(storage, audit);
+
+// Checked edits to feedback, one item or many at once (see edits.js)
+const edits = createEdits(storage, audit, settings, tags, notes);
+
+// Rate limits, form tokens and duplicate checks for anonymous submissions (see abuse.js)
+const abuse = createAbuseGuard(storage, settings);
+
+// Prevent the last owner from being removed or demoted, which would lock everyone out of user management
+const isLastOwner = async (user) =>
+  user.role === 'owner' && (await storage.users.count({ role: 'owner' })) <= 1;
+
+// Page size from ?limit= (default 50, at most 200)
+const pageLimit = (query) => Math.min(Math.max(parseInt(query.limit) || 50, 1), 200);
+
+const FEEDBACK_SORTS = ['timestamp', 'rating', 'category', 'status', 'sentiment', 'due'];
+
+// ?sort= and ?direction= for feedback listings; newest first by default
+const parseFeedbackSort = (query) => ({
+  field: FEEDBACK_SORTS.includes(query.sort) ? query.sort : 'timestamp',
+  direction: query.direction === 'asc' ? 'asc' : 'desc'
+});
+
+// Opaque cursor for keyset paging: the sort it belongs to plus the sort value and key of the last
+// item returned, so the next page doesn't depend on that item still existing or sorting the same way
+const encodeCursor = async (sort, last) =>
+  Buffer.from(JSON.stringify([sort.field, sort.direction, await storage.feedback.sortValue(last, sort), last.feedback_id])).toString('base64url');
+
+const decodeCursor = (cursor) => {
+  try {
+    const [field, direction, value, key] = JSON.parse(Buffer.from(String(cursor), 'base64url').toString());
+    if (!FEEDBACK_SORTS.includes(field) || !['asc', 'desc'].includes(direction) || typeof key !== 'string') return null;
+    if (value !== null && typeof value !== 'string' && typeof value !== 'number') return null;
+    return { sort: { field, direction }, after: { value, key } };
+  } catch (error) {
+    return null;
+  }
+};
+
+// List filters from a query-string-shaped object, limited to published feedback: not in the
+// trash and not held for moderation
+const liveFilters = (query) => ({ ...parseFilters('feedback', query || {}), trashed: false, held: false });
 
-// Admin credentials (hardcoded for now)
-const ADMIN_USERNAME = process.env.ADMIN_USERNAME || 'admin';
-const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || 'admin123';
+// Live feedback ids matching a filter object shaped like the list query string
+const matchingFeedbackIds = async (filter) => {
+  const filters = liveFilters(filter);
+  return (await storage.feedback.query({ filters })).map(f => f.feedback_id);
+};
 
 // Routes
-// Public: list categories
-app.get('/api/categories', (req, res) => {
+// Public: list active categories in display order
+app.get('/api/categories', async (req, res) => {
   try {
-    const categories = readCategories();
+    const categories = sortCategories(await storage.categories.all()).filter(c => !c.archived);
     res.json(categories);
   } catch (error) {
     console.error('Error fetching categories:', error);
@@ -150,31 +233,41 @@ app.get('/api/categories', (req, res) => {
 });
 
 // Admin: Categories CRUD
-app.get('/api/admin/categories', (req, res) => {
-  if (!req.session.isAdmin) {
-    return res.status(401).json({ error: 'Unauthorized' });
+app.get('/api/admin/categories', requireRole('viewer'), async (req, res) => {
+  try {
+    const categories = sortCategories(await storage.categories.all());
+    res.json(categories);
+  } catch (error) {
+    console.error('Error fetching categories:', error);
+    res.status(500).json({ error: 'Internal server error' });
   }
-  const categories = readCategories();
-  res.json(categories);
 });
 
-app.post('/api/admin/categories', (req, res) => {
+app.post('/api/admin/categories', requireRole('moderator'), async (req, res) => {
   try {
-    if (!req.session.isAdmin) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
-    const { name, description } = req.body;
+    const { name, description, sla_days } = req.body;
     if (!name) {
       return res.status(400).json({ error: 'Name is required' });
     }
-    const categories = readCategories();
+    const slaProblem = sla_days !== undefined && validateSlaDays(sla_days);
+    if (slaProblem) {
+      return res.status(400).json({ error: slaProblem });
+    }
+    const categories = await storage.categories.all();
+    if (categories.some(c => c.name.toLowerCase() === String(name).trim().toLowerCase())) {
+      return res.status(400).json({ error: 'A category with this name already exists' });
+    }
     const newCategory = {
       id: crypto.randomUUID(),
-      name,
-      description: description || ''
+      name: String(name).trim(),
+      description: description || '',
+      order: categories.reduce((max, c) => Math.max(max, c.order ?? 0), -1) + 1,
+      archived: false,
+      // Days feedback in this category has to be resolved in (see workflow.js)
+      sla_days: sla_days === undefined ? null : toSlaDays(sla_days)
     };
-    categories.push(newCategory);
-    writeCategories(categories);
+    await storage.categories.insert(newCategory);
+    await audit.record(req, { action: 'category.create', targetType: 'category', targetId: newCategory.id, after: newCategory });
     res.status(201).json(newCategory);
   } catch (error) {
     console.error('Error creating category:', error);
@@ -182,46 +275,59 @@ app.post('/api/admin/categories', (req, res) => {
   }
 });
 
-app.put('/api/admin/categories/:id', (req, res) => {
+app.put('/api/admin/categories/:id', requireRole('moderator'), async (req, res) => {
   try {
-    if (!req.session.isAdmin) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
     const { id } = req.params;
-    const { name, description } = req.body;
-    const categories = readCategories();
-    const idx = categories.findIndex(c => c.id === id);
-    if (idx === -1) {
+    const { name, description, archived, sla_days } = req.body;
+    const categories = await storage.categories.all();
+    const existing = categories.find(c => c.id === id);
+    if (!existing) {
       return res.status(404).json({ error: 'Category not found' });
     }
-    if (name) categories[idx].name = name;
-    if (description !== undefined) categories[idx].description = description;
-    writeCategories(categories);
-    res.json(categories[idx]);
+    const changes = {};
+    if (name) {
+      const trimmed = String(name).trim();
+      const clash = categories.some(c => c.id !== id && c.name.toLowerCase() === trimmed.toLowerCase());
+      if (clash) {
+        return res.status(400).json({ error: 'A category with this name already exists' });
+      }
+      changes.name = trimmed;
+    }
+    if (description !== undefined) changes.description = description;
+    if (archived !== undefined) changes.archived = !!archived;
+    if (sla_days !== undefined) {
+      const problem = validateSlaDays(sla_days);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+      changes.sla_days = toSlaDays(sla_days);
+    }
+    const updated = await storage.categories.update(id, changes);
+    // A new SLA moves the due dates of the category's feedback, except those set by hand
+    if ((updated.sla_days ?? null) !== (existing.sla_days ?? null)) {
+      await storage.feedback.updateWhere({ category: id }, (f) => slaChanges(f, updated));
+    }
+    await audit.recordChange(req, { action: 'category.update', targetType: 'category', targetId: id, before: existing, after: updated });
+    res.json(updated);
   } catch (error) {
     console.error('Error updating category:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.delete('/api/admin/categories/:id', (req, res) => {
+app.delete('/api/admin/categories/:id', requireRole('moderator'), async (req, res) => {
   try {
-    if (!req.session.isAdmin) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
     const { id } = req.params;
-    const categories = readCategories();
-    const exists = categories.some(c => c.id === id);
+    const exists = await storage.categories.get(id);
     if (!exists) {
       return res.status(404).json({ error: 'Category not found' });
     }
-    const feedback = readFeedback();
-    const inUse = feedback.some(f => f.category === id);
-    if (inUse) {
-      return res.status(400).json({ error: 'Cannot delete category in use by feedback' });
+    const inUse = await storage.feedback.count({ category: id });
+    if (inUse > 0) {
+      return res.status(400).json({ error: 'Category is in use by feedback (including the trash); archive it or merge it into another category' });
     }
-    const updated = categories.filter(c => c.id !== id);
-    writeCategories(updated);
+    await storage.categories.remove(id);
+    await audit.record(req, { action: 'category.delete', targetType: 'category', targetId: id, before: exists });
     res.json({ success: true });
   } catch (error) {
     console.error('Error deleting category:', error);
@@ -229,312 +335,1336 @@ app.delete('/api/admin/categories/:id', (req, res) => {
   }
 });
 
-app.post('/api/feedback', (req, res) => {
+// Admin: set display order from an ordered list of category ids
+app.post('/api/admin/categories/reorder', requireRole('moderator'), async (req, res) => {
   try {
-    const { category, rating, comment } = req.body;
-
-    // Validation
-    if (!category || !rating || !comment) {
-      return res.status(400).json({ error: 'All fields are required' });
-    }
-
-    if (comment.length < 5) {
-      return res.status(400).json({ error: 'Comment must be at least 5 characters long' });
+    const { ids } = req.body || {};
+    if (!Array.isArray(ids)) {
+      return res.status(400).json({ error: 'ids array is required' });
     }
-
-    if (rating < 1 || rating > 5) {
-      return res.status(400).json({ error: 'Rating must be between 1 and 5' });
+    const categories = await storage.categories.all();
+    const before = sortCategories(categories).map(c => c.id);
+    const position = new Map(ids.map((id, i) => [id, i]));
+    // Categories missing from the list keep their relative order after the listed ones
+    const ordered = sortCategories(categories).sort((a, b) =>
+      (position.has(a.id) ? position.get(a.id) : ids.length) - (position.has(b.id) ? position.get(b.id) : ids.length)
+    );
+    for (const [i, c] of ordered.entries()) {
+      if (c.order !== i) {
+        c.order = i;
+        await storage.categories.update(c.id, { order: i });
+      }
     }
+    await audit.recordChange(req, {
+      action: 'category.reorder',
+      targetType: 'category',
+      before: { order: before },
+      after: { order: ordered.map(c => c.id) }
+    });
+    res.json(ordered);
+  } catch (error) {
+    console.error('Error reordering categories:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Ensure category exists (accept id or name for backward compatibility)
-    const categories = readCategories();
-    let categoryId = null;
-    const byId = categories.find(c => c.id === category);
-    if (byId) {
-      categoryId = byId.id;
-    } else {
-      const byName = categories.find(c => c.name.toLowerCase() === String(category).toLowerCase());
-      if (byName) categoryId = byName.id;
+// Admin: merge one category into another, reassigning its feedback, then remove it
+app.post('/api/admin/categories/:id/merge', requireRole('moderator'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { targetId } = req.body || {};
+    if (!targetId || targetId === id) {
+      return res.status(400).json({ error: 'A different target category is required' });
     }
-    if (!categoryId) {
-      return res.status(400).json({ error: 'Invalid category' });
+    const source = await storage.categories.get(id);
+    const target = await storage.categories.get(targetId);
+    if (!source || !target) {
+      return res.status(404).json({ error: 'Category not found' });
     }
+    const moved = await storage.feedback.updateWhere({ category: id }, (f) => ({ category: targetId, ...slaChanges(f, target) }));
+    await storage.categories.remove(id);
+    await audit.record(req, {
+      action: 'category.merge',
+      targetType: 'category',
+      targetId: id,
+      before: source,
+      details: { target_id: targetId, target_name: target.name, moved }
+    });
+    res.json({ success: true, moved, target });
+  } catch (error) {
+    console.error('Error merging categories:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    const feedback = readFeedback();
-    const newFeedback = {
-      feedback_id: crypto.randomUUID(),
-      category: categoryId, // store category id
-      rating: parseInt(rating),
-      comment,
-      status: 'open', // track admin resolution status
-      admin_note: '',
-      timestamp: new Date().toISOString(),
-      hash: hashIdentifier(req)
-    };
-
-    feedback.push(newFeedback);
-    writeFeedback(feedback);
-
-    res.status(201).json({ message: 'Feedback submitted successfully', feedback_id: newFeedback.feedback_id });
+// Admin: all tags by name, with how many live feedback items carry each
+app.get('/api/admin/tags', requireRole('viewer'), async (req, res) => {
+  try {
+    const all = await storage.tags.query({});
+    res.json(await Promise.all(all.map(async tag => ({
+      ...tag,
+      count: await storage.feedback.count(liveFilters({ tags: tag.id }))
+    }))));
   } catch (error) {
-    console.error('Error submitting feedback:', error);
+    console.error('Error fetching tags:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.post('/api/admin/login', (req, res) => {
+// Admin: create a tag with a `name` and optional `color` (#rrggbb; one is picked otherwise)
+app.post('/api/admin/tags', requireRole('moderator'), async (req, res) => {
   try {
-    const { username, password } = req.body;
+    const tag = await tags.create(req, req.body || {});
+    res.status(201).json({ ...tag, count: 0 });
+  } catch (error) {
+    if (error instanceof TagValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error creating tag:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    if (username === ADMIN_USERNAME && password === ADMIN_PASSWORD) {
-      req.session.isAdmin = true;
-      res.json({ success: true, message: 'Login successful' });
-    } else {
-      res.status(401).json({ error: 'Invalid credentials' });
+app.put('/api/admin/tags/:id', requireRole('moderator'), async (req, res) => {
+  try {
+    const tag = await tags.update(req, req.params.id, req.body || {});
+    if (!tag) {
+      return res.status(404).json({ error: 'Tag not found' });
     }
+    res.json(tag);
   } catch (error) {
-    console.error('Error during login:', error);
+    if (error instanceof TagValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating tag:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.post('/api/admin/logout', (req, res) => {
-  req.session.destroy();
-  res.json({ message: 'Logged out successfully' });
+// Admin: delete a tag, taking it off every feedback item that has it
+app.delete('/api/admin/tags/:id', requireRole('moderator'), async (req, res) => {
+  try {
+    const untagged = await tags.remove(req, req.params.id);
+    if (untagged === null) {
+      return res.status(404).json({ error: 'Tag not found' });
+    }
+    res.json({ success: true, untagged });
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-app.get('/api/admin/feedback', (req, res) => {
+// Public: the survey form to show, in its latest version
+app.get('/api/forms/active', async (req, res) => {
   try {
-    if (!req.session.isAdmin) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
+    const form = await forms.active();
+    const { version, questions } = latestVersion(form);
+    res.json({ id: form.id, name: form.name, description: form.description, version, questions });
+  } catch (error) {
+    console.error('Error fetching active form:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    const feedback = readFeedback();
-    const { category, rating, search, startDate, endDate, status } = req.query;
+// Admin: every form with its latest questions, whether it is active and how many responses it has
+app.get('/api/admin/forms', requireRole('viewer'), async (req, res) => {
+  try {
+    const [all, active] = await Promise.all([forms.all(), forms.active()]);
+    const summaries = await Promise.all(all.map(async ({ versions, ...form }) => ({
+      ...form,
+      active: form.id === active.id,
+      version: versions[versions.length - 1].version,
+      questions: versions[versions.length - 1].questions,
+      responses: await storage.feedback.count(liveFilters({ form: form.id }))
+    })));
+    res.json(summaries);
+  } catch (error) {
+    console.error('Error fetching forms:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    let filteredFeedback = feedback;
+// Admin: one form with all of its versions
+app.get('/api/admin/forms/:id', requireRole('viewer'), async (req, res) => {
+  try {
+    const form = await forms.get(req.params.id);
+    if (!form) {
+      return res.status(404).json({ error: 'Form not found' });
+    }
+    res.json(form);
+  } catch (error) {
+    console.error('Error fetching form:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Filter by category (expects category id)
-    if (category && category !== 'all') {
-      filteredFeedback = filteredFeedback.filter(f => f.category === category);
+app.post('/api/admin/forms', requireRole('moderator'), async (req, res) => {
+  try {
+    res.status(201).json(await forms.create(req, req.body || {}));
+  } catch (error) {
+    if (error instanceof FormValidationError) {
+      return res.status(400).json({ error: error.message });
     }
+    console.error('Error creating form:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Filter by rating
-    if (rating && rating !== 'all') {
-      filteredFeedback = filteredFeedback.filter(f => f.rating === parseInt(rating));
+// Admin: rename a form or change its questions; changed questions become a new version and
+// responses keep the version they answered
+app.put('/api/admin/forms/:id', requireRole('moderator'), async (req, res) => {
+  try {
+    const form = await forms.update(req, req.params.id, req.body || {});
+    if (!form) {
+      return res.status(404).json({ error: 'Form not found' });
+    }
+    res.json(form);
+  } catch (error) {
+    if (error instanceof FormValidationError) {
+      return res.status(400).json({ error: error.message });
     }
+    console.error('Error updating form:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Filter by status
-    if (status && status !== 'all') {
-      filteredFeedback = filteredFeedback.filter(f => (f.status || 'open') === status);
+// Admin: show this form on the public page from now on
+app.post('/api/admin/forms/:id/activate', requireRole('moderator'), async (req, res) => {
+  try {
+    const form = await forms.activate(req, req.params.id);
+    if (!form) {
+      return res.status(404).json({ error: 'Form not found' });
     }
+    res.json(form);
+  } catch (error) {
+    console.error('Error activating form:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Filter by date range
-    if (startDate) {
-      filteredFeedback = filteredFeedback.filter(f => new Date(f.timestamp) >= new Date(startDate));
+// Admin: delete a form nobody has answered yet
+app.delete('/api/admin/forms/:id', requireRole('moderator'), async (req, res) => {
+  try {
+    const form = await forms.remove(req, req.params.id);
+    if (!form) {
+      return res.status(404).json({ error: 'Form not found' });
     }
-    if (endDate) {
-      filteredFeedback = filteredFeedback.filter(f => new Date(f.timestamp) <= new Date(endDate));
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof FormValidationError) {
+      return res.status(400).json({ error: error.message });
     }
+    console.error('Error deleting form:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Search in comments and admin notes
-    if (search) {
-      const q = search.toLowerCase();
-      filteredFeedback = filteredFeedback.filter(f => 
-        (f.comment && f.comment.toLowerCase().includes(q)) ||
-        (f.admin_note && f.admin_note.toLowerCase().includes(q))
-      );
+// Public: the cohort, trainer and session a collection link is for, and whether it is open
+app.get('/api/links/:code', async (req, res) => {
+  try {
+    const link = await links.byCode(req.params.code);
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
     }
-
-    // Sort by timestamp (newest first)
-    filteredFeedback.sort((a, b) => new Date(b.timestamp) - new Date(a.timestamp));
-
-    res.json(filteredFeedback);
+    res.json(publicLink(link));
   } catch (error) {
-    console.error('Error fetching feedback:', error);
+    console.error('Error fetching link:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Admin: Get single feedback by ID
-app.get('/api/admin/feedback/:id', (req, res) => {
+// Public: the "You said, we did" board, published items grouped by category
+app.get('/api/board', async (req, res) => {
   try {
-    if (!req.session.isAdmin) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
-    const { id } = req.params;
-    const feedback = readFeedback();
-    const item = feedback.find(f => f.feedback_id === id);
-    if (!item) {
-      return res.status(404).json({ error: 'Feedback not found' });
-    }
-    res.json(item);
+    res.json(await board.published());
   } catch (error) {
-    console.error('Error fetching feedback by id:', error);
+    console.error('Error fetching board:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Admin: Update feedback status, note, or category
-app.put('/api/admin/feedback/:id', (req, res) => {
+// Admin: every collection link, newest first, with its state and number of live responses
+app.get('/api/admin/links', requireRole('viewer'), async (req, res) => {
   try {
-    if (!req.session.isAdmin) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
-    const { id } = req.params;
-    const { status, admin_note, category } = req.body;
+    const all = await storage.links.query({});
+    res.json(await Promise.all(all.map(async link => ({
+      ...link,
+      state: linkState(link),
+      responses: await storage.feedback.count(liveFilters({ link: link.id }))
+    }))));
+  } catch (error) {
+    console.error('Error fetching links:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    const feedback = readFeedback();
-    const idx = feedback.findIndex(f => f.feedback_id === id);
-    if (idx === -1) {
-      return res.status(404).json({ error: 'Feedback not found' });
+// Admin: create a link for a cohort, trainer and session date, with an optional open/close
+// window and custom code (a random one otherwise)
+app.post('/api/admin/links', requireRole('moderator'), async (req, res) => {
+  try {
+    const link = await links.create(req, req.body || {});
+    res.status(201).json({ ...link, state: linkState(link), responses: 0 });
+  } catch (error) {
+    if (error instanceof LinkValidationError) {
+      return res.status(400).json({ error: error.message });
     }
+    console.error('Error creating link:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Validate and update status
-    if (status !== undefined) {
-      const allowed = ['open', 'in_progress', 'completed'];
-      if (!allowed.includes(status)) {
-        return res.status(400).json({ error: 'Invalid status' });
-      }
-      feedback[idx].status = status;
+app.put('/api/admin/links/:id', requireRole('moderator'), async (req, res) => {
+  try {
+    const link = await links.update(req, req.params.id, req.body || {});
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
     }
-
-    // Update admin note
-    if (admin_note !== undefined) {
-      feedback[idx].admin_note = String(admin_note);
+    res.json({ ...link, state: linkState(link) });
+  } catch (error) {
+    if (error instanceof LinkValidationError) {
+      return res.status(400).json({ error: error.message });
     }
+    console.error('Error updating link:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
 
-    // Reassign category if provided
-    if (category !== undefined) {
-      const categories = readCategories();
-      const valid = categories.some(c => c.id === category);
-      if (!valid) {
-        return res.status(400).json({ error: 'Invalid category' });
-      }
-      feedback[idx].category = category;
+// Admin: stop or resume taking feedback through a link
+app.post('/api/admin/links/:id/:action(close|reopen)', requireRole('moderator'), async (req, res) => {
+  try {
+    const link = await links[req.params.action](req, req.params.id);
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
     }
-
-    writeFeedback(feedback);
-    res.json(feedback[idx]);
+    res.json({ ...link, state: linkState(link) });
   } catch (error) {
-    console.error('Error updating feedback:', error);
+    console.error('Error changing link state:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Admin: delete a single feedback by id
-app.delete('/api/admin/feedback/:id', (req, res) => {
+// Admin: delete a link nobody has used yet
+app.delete('/api/admin/links/:id', requireRole('moderator'), async (req, res) => {
   try {
-    if (!req.session.isAdmin) {
-      return res.status(401).json({ error: 'Unauthorized' });
+    const link = await links.remove(req, req.params.id);
+    if (!link) {
+      return res.status(404).json({ error: 'Link not found' });
     }
-    const { id } = req.params;
-    const feedback = readFeedback();
-    const exists = feedback.some(f => f.feedback_id === id);
-    if (!exists) {
-      return res.status(404).json({ error: 'Feedback not found' });
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof LinkValidationError) {
+      return res.status(400).json({ error: error.message });
     }
-    const updated = feedback.filter(f => f.feedback_id !== id);
-    writeFeedback(updated);
-    res.json({ success: true, deleted: 1 });
+    console.error('Error deleting link:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Public: a signed form token to submit with the next feedback, plus the proof-of-work
+// puzzle to solve when that protection is on
+app.get('/api/feedback/challenge', async (req, res) => {
+  try {
+    res.json(await abuse.issueChallenge());
   } catch (error) {
-    console.error('Error deleting feedback:', error);
+    console.error('Error issuing form challenge:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-// Admin: bulk delete feedbacks by ids
-app.post('/api/admin/feedback/bulk-delete', (req, res) => {
+// Public: what redaction would remove from a comment, so the form can warn before submitting.
+// Nothing is stored. Only the patterns (emails, phone and roll numbers) are checked here: the
+// names list is matched when the feedback is submitted, so it can't be probed one name at a time.
+app.post('/api/feedback/redaction', async (req, res) => {
   try {
-    if (!req.session.isAdmin) {
-      return res.status(401).json({ error: 'Unauthorized' });
-    }
-    const { ids } = req.body || {};
-    if (!Array.isArray(ids) || ids.length === 0) {
-      return res.status(400).json({ error: 'ids array is required' });
+    const { comment } = req.body || {};
+    if (typeof comment !== 'string') {
+      return res.status(400).json({ error: 'comment is required' });
     }
-    const set = new Set(ids);
-    const feedback = readFeedback();
-    const before = feedback.length;
-    const updated = feedback.filter(f => !set.has(f.feedback_id));
-    const deleted = before - updated.length;
-    writeFeedback(updated);
-    res.json({ success: true, deleted });
+    const { text, redacted } = createRedactor({ ...(await settings.get('redaction')), names: [] }).redact(comment);
+    res.json({ comment: text, redacted });
   } catch (error) {
-    console.error('Error bulk deleting feedback:', error);
+    console.error('Error checking comment for personal information:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.get('/api/admin/analytics', (req, res) => {
+app.post('/api/feedback', async (req, res) => {
   try {
-    if (!req.session.isAdmin) {
-      return res.status(401).json({ error: 'Unauthorized' });
+    const { category, formId, formVersion, link: linkCode, formToken, solution, website } = req.body;
+
+    // Validation
+    if (!category) {
+      return res.status(400).json({ error: 'Category is required' });
+    }
+
+    // Feedback through a collection link is tagged with its cohort, trainer and session
+    let link = null;
+    if (linkCode) {
+      link = await links.byCode(linkCode);
+      if (!link) {
+        return res.status(400).json({ error: 'This feedback link does not exist', code: 'link_invalid' });
+      }
+      if (linkState(link) !== 'open') {
+        return res.status(403).json({ error: 'This feedback link is not accepting feedback', code: 'link_closed' });
+      }
+    }
+
+    // Answers must be for the form the page currently shows, in any of its versions
+    const form = await forms.active();
+    const version = formVersion === undefined
+      ? latestVersion(form)
+      : form.versions.find(v => v.version === Number(formVersion));
+    if ((formId !== undefined && formId !== form.id) || !version) {
+      return res.status(409).json({ error: 'The feedback form has changed. Please reload the page.', code: 'form_changed' });
     }
+    const ratingQuestion = questionWithRole(version.questions, 'rating');
+    const commentQuestion = questionWithRole(version.questions, 'comment');
 
-    const feedback = readFeedback();
-    
-    // Basic analytics
-    const totalFeedback = feedback.length;
-    const averageRating = totalFeedback > 0 
-      ? (feedback.reduce((sum, f) => sum + f.rating, 0) / totalFeedback).toFixed(1)
-      : 0;
+    // Clients from before forms existed send just a rating and a comment
+    const given = req.body.answers ?? {
+      [ratingQuestion.id]: req.body.rating,
+      ...(commentQuestion && { [commentQuestion.id]: req.body.comment })
+    };
+    const { answers, error } = validateAnswers(version.questions, given);
+    if (error) {
+      return res.status(400).json({ error });
+    }
 
-    // Category distribution (by id)
-    const categoryStats = feedback.reduce((acc, f) => {
-      acc[f.category] = (acc[f.category] || 0) + 1;
-      return acc;
-    }, {});
+    // Ensure category exists (accept id or name for backward compatibility)
+    const categories = await storage.categories.all();
+    let categoryId = null;
+    const active = categories.filter(c => !c.archived);
+    const byId = active.find(c => c.id === category);
+    if (byId) {
+      categoryId = byId.id;
+    } else {
+      const byName = active.find(c => c.name.toLowerCase() === String(category).toLowerCase());
+      if (byName) categoryId = byName.id;
+    }
+    if (!categoryId) {
+      return res.status(400).json({ error: 'Invalid category' });
+    }
+    const workflow = await settings.get('workflow');
 
-    // Category id->name map for UI convenience
-    const categories = readCategories();
-    const categoryMap = Object.fromEntries(categories.map(c => [c.id, c.name]));
+    // Mask emails, phone numbers, roll numbers and listed names in every text answer; only the
+    // kinds removed are kept
+    const redactor = createRedactor(await settings.get('redaction'));
+    const found = new Set();
+    for (const q of version.questions) {
+      if (q.type !== 'text' || answers[q.id] === undefined) continue;
+      const { text, redacted } = redactor.redact(answers[q.id]);
+      answers[q.id] = text;
+      redacted.forEach(kind => found.add(kind));
+    }
 
-    // Rating distribution
-    const ratingStats = feedback.reduce((acc, f) => {
-      acc[f.rating] = (acc[f.rating] || 0) + 1;
-      return acc;
-    }, {});
+    const rating = answers[ratingQuestion.id];
+    const comment = (commentQuestion && answers[commentQuestion.id]) || '';
+    // Shown once on the confirmation screen; only its hash is kept
+    const receipt = createReceiptCode();
+    const timestamp = new Date().toISOString();
 
-    // Status distribution
-    const statusStats = feedback.reduce((acc, f) => {
-      const st = f.status || 'open';
-      acc[st] = (acc[st] || 0) + 1;
-      return acc;
-    }, {});
+    const newFeedback = {
+      feedback_id: crypto.randomUUID(),
+      category: categoryId, // store category id
+      rating,
+      comment,
+      status: initialState(workflow), // track admin resolution status (see workflow.js)
+      resolved_at: null,
+      assignee_id: null,
+      due_at: slaDueDate(timestamp, categories.find(c => c.id === categoryId).sla_days),
+      notes: [], // internal discussion (see notes.js)
+      tags: [], // tag ids (see tags.js)
+      timestamp,
+      redacted: [...found],
+      // The form as answered, so later edits to it don't change what the answers mean
+      form_id: form.id,
+      form_version: version.version,
+      answers,
+      ...(link && linkTags(link)),
+      receipt_hash: hashReceipt(receipt),
+      // Lexicon-based comment sentiment and whether it contradicts the rating
+      ...scoreFeedback({ comment, rating })
+    };
 
-    // Most common words (simple implementation)
-    const allComments = feedback.map(f => f.comment).join(' ').toLowerCase();
-    const words = allComments.match(/\b\w{4,}\b/g) || [];
-    const wordCount = words.reduce((acc, word) => {
-      acc[word] = (acc[word] || 0) + 1;
-      return acc;
-    }, {});
-    
-    const commonWords = Object.entries(wordCount)
-      .sort(([,a], [,b]) => b - a)
-      .slice(0, 10)
-      .map(([word, count]) => ({ word, count }));
+    // Rate limits and spam checks; stores the feedback with its device token, held for
+    // moderation if it looks automated or repeated. Held submissions get the same answer
+    // so bots can't tell.
+    const screening = await abuse.screen(req, { comment, formToken, solution, website }, (fields) =>
+      storage.feedback.insert({ ...newFeedback, ...fields })
+    );
+    if (screening.error) {
+      return res.status(screening.status).json({ error: screening.error, code: screening.code });
+    }
 
-    res.json({
-      totalFeedback,
-      averageRating,
-      categoryStats,
-      categoryMap,
-      ratingStats,
-      statusStats,
-      commonWords
-    });
+    res.status(201).json({ message: 'Feedback submitted successfully', feedback_id: newFeedback.feedback_id, receipt });
   } catch (error) {
-    console.error('Error fetching analytics:', error);
+    console.error('Error submitting feedback:', error);
     res.status(500).json({ error: 'Internal server error' });
   }
 });
 
-app.get('/api/admin/check', (req, res) => {
-  res.json({ isAdmin: !!req.session.isAdmin });
+// The live or held feedback a receipt code belongs to; trashed feedback is gone as far as
+// the submitter is concerned
+const feedbackForReceipt = async (code) => {
+  const [f] = code ? await storage.feedback.query({ filters: { receipt: hashReceipt(code), trashed: false }, limit: 1 }) : [];
+  return f || null;
+};
+
+const receiptResponse = async (f) =>
+  receiptView(f, (await storage.categories.get(f.category))?.name, await settings.get('workflow'));
+
+// Public: where the feedback behind a receipt code stands. The code is sent in the body so it
+// stays out of URLs and access logs.
+app.post('/api/feedback/receipt', async (req, res) => {
+  try {
+    const f = await feedbackForReceipt(req.body?.code);
+    if (!f) {
+      return res.status(404).json({ error: 'No feedback found for this receipt code' });
+    }
+    res.json(await receiptResponse(f));
+  } catch (error) {
+    console.error('Error checking receipt:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
 });
 
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
+// Public: add an anonymous follow-up message to the feedback behind a receipt code
+app.post('/api/feedback/receipt/follow-ups', async (req, res) => {
+  try {
+    const { code, message } = req.body || {};
+    const f = await feedbackForReceipt(code);
+    if (!f) {
+      return res.status(404).json({ error: 'No feedback found for this receipt code' });
+    }
+    const redactor = createRedactor(await settings.get('redaction'));
+    // Appended to the stored record, so messages sent at the same time all count toward the limit
+    let failure = null;
+    const changed = await storage.feedback.updateWhere({ ids: [f.feedback_id], trashed: false }, (stored) => {
+      try {
+        return { follow_ups: [...(stored.follow_ups || []), followUp(stored, message, redactor)] };
+      } catch (error) {
+        failure = error;
+        return {};
+      }
+    });
+    if (failure) throw failure;
+    if (!changed) {
+      return res.status(404).json({ error: 'No feedback found for this receipt code' });
+    }
+    res.status(201).json(await receiptResponse(await storage.feedback.get(f.feedback_id)));
+  } catch (error) {
+    if (error instanceof ReceiptValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error adding follow-up:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Start a fresh session for the given user (avoids session fixation)
+const signIn = (req, user) => new Promise((resolve, reject) => {
+  req.session.regenerate((err) => {
+    if (err) return reject(err);
+    req.session.userId = user.id;
+    resolve();
+  });
+});
+
+app.post('/api/admin/login', async (req, res) => {
+  try {
+    const { username, password } = req.body;
+
+    const [user] = username ? await storage.users.query({ filters: { username: String(username).toLowerCase() } }) : [];
+    const valid = await verifyPassword(password, user?.password_hash);
+
+    if (user && valid) {
+      const updated = await storage.users.update(user.id, { last_login: new Date().toISOString() });
+      await signIn(req, updated);
+      res.json({ success: true, message: 'Login successful', user: publicUser(updated) });
+    } else {
+      res.status(401).json({ error: 'Invalid credentials' });
+    }
+  } catch (error) {
+    console.error('Error during login:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/admin/logout', (req, res) => {
+  req.session.destroy();
+  res.json({ message: 'Logged out successfully' });
+});
+
+// First run only: create the initial owner account when none exists yet
+let setupInProgress = false;
+app.post('/api/admin/setup', async (req, res) => {
+  if (setupInProgress) {
+    return res.status(409).json({ error: 'Setup already in progress' });
+  }
+  setupInProgress = true;
+  try {
+    if ((await storage.users.count()) > 0) {
+      return res.status(409).json({ error: 'Setup has already been completed' });
+    }
+    const { username, password } = req.body || {};
+    if (!username || !String(username).trim()) {
+      return res.status(400).json({ error: 'Username is required' });
+    }
+    const problem = validatePassword(password);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+    const owner = await createUserRecord({ username, password, role: 'owner' });
+    owner.last_login = new Date().toISOString();
+    await storage.users.insert(owner);
+    await signIn(req, owner);
+    req.user = owner;
+    await audit.record(req, { action: 'user.create', targetType: 'user', targetId: owner.id, after: publicUser(owner), details: { setup: true } });
+    res.status(201).json({ success: true, user: publicUser(owner) });
+  } catch (error) {
+    console.error('Error during setup:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  } finally {
+    setupInProgress = false;
+  }
+});
+
+// Any signed-in admin: change own password
+app.post('/api/admin/me/password', requireRole('viewer'), async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body || {};
+    if (!(await verifyPassword(currentPassword, req.user.password_hash))) {
+      return res.status(400).json({ error: 'Current password is incorrect' });
+    }
+    const problem = validatePassword(newPassword);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+    await storage.users.update(req.user.id, { password_hash: await hashPassword(newPassword) });
+    await audit.record(req, { action: 'user.password_change', targetType: 'user', targetId: req.user.id });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error changing password:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Owner: manage admin accounts
+app.get('/api/admin/users', requireRole('owner'), async (req, res) => {
+  try {
+    const users = await storage.users.query();
+    res.json(users.map(publicUser));
+  } catch (error) {
+    console.error('Error fetching users:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: every admin's id and username, to write and show @mentions in notes
+app.get('/api/admin/users/mentionable', requireRole('viewer'), async (req, res) => {
+  try {
+    const users = await storage.users.query();
+    res.json(users.map(u => ({ id: u.id, username: u.username })));
+  } catch (error) {
+    console.error('Error fetching mentionable users:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.post('/api/admin/users', requireRole('owner'), async (req, res) => {
+  try {
+    const { username, password, role } = req.body || {};
+    if (!username || !String(username).trim()) {
+      return res.status(400).json({ error: 'Username is required' });
+    }
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({ error: 'Invalid role' });
+    }
+    const problem = validatePassword(password);
+    if (problem) {
+      return res.status(400).json({ error: problem });
+    }
+    const taken = await storage.users.count({ username: String(username).trim().toLowerCase() });
+    if (taken > 0) {
+      return res.status(400).json({ error: 'Username is already taken' });
+    }
+    const user = await createUserRecord({ username, password, role });
+    await storage.users.insert(user);
+    await audit.record(req, { action: 'user.create', targetType: 'user', targetId: user.id, after: publicUser(user) });
+    res.status(201).json(publicUser(user));
+  } catch (error) {
+    console.error('Error creating user:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Owner: change a user's role or reset their password
+app.put('/api/admin/users/:id', requireRole('owner'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { role, password } = req.body || {};
+    const user = await storage.users.get(id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    const changes = {};
+    if (role !== undefined) {
+      if (!ROLES.includes(role)) {
+        return res.status(400).json({ error: 'Invalid role' });
+      }
+      if (role !== 'owner' && await isLastOwner(user)) {
+        return res.status(400).json({ error: 'There must be at least one owner' });
+      }
+      changes.role = role;
+    }
+    if (password !== undefined) {
+      const problem = validatePassword(password);
+      if (problem) {
+        return res.status(400).json({ error: problem });
+      }
+      changes.password_hash = await hashPassword(password);
+    }
+    const updated = await storage.users.update(id, changes);
+    await audit.recordChange(req, { action: 'user.update', targetType: 'user', targetId: id, before: user, after: updated });
+    res.json(publicUser(updated));
+  } catch (error) {
+    console.error('Error updating user:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/admin/users/:id', requireRole('owner'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    if (id === req.user.id) {
+      return res.status(400).json({ error: 'You cannot delete your own account' });
+    }
+    const user = await storage.users.get(id);
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    if (await isLastOwner(user)) {
+      return res.status(400).json({ error: 'There must be at least one owner' });
+    }
+    await storage.users.remove(id);
+    await audit.record(req, { action: 'user.delete', targetType: 'user', targetId: id, before: publicUser(user) });
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting user:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/api/admin/feedback', requireRole('viewer'), async (req, res) => {
+  try {
+    // Filters: category (id), rating, status, form, cohort, trainer, link, mentions (user id),
+    // startDate, endDate and search in comments/notes.
+    // Trashed and held entries are never included. Sorted by `sort` (timestamp, rating, category or
+    // status) in `direction` order, newest first by default. Paged with `limit` and the
+    // `nextCursor` from the previous page; a cursor keeps the sort it was issued for.
+    const filters = liveFilters(req.query);
+    const limit = pageLimit(req.query);
+    let sort = parseFeedbackSort(req.query);
+    let after;
+    if (req.query.cursor) {
+      const cursor = decodeCursor(req.query.cursor);
+      if (!cursor) {
+        return res.status(400).json({ error: 'Invalid cursor' });
+      }
+      ({ sort, after } = cursor);
+    }
+
+    // One extra item tells us whether there is a next page
+    const [page, total] = await Promise.all([
+      storage.feedback.query({ filters, sort, limit: limit + 1, after }),
+      storage.feedback.count(filters)
+    ]);
+    const items = page.slice(0, limit);
+    const nextCursor = page.length > limit ? await encodeCursor(sort, items[items.length - 1]) : null;
+
+    res.json({ items, total, nextCursor });
+  } catch (error) {
+    console.error('Error fetching feedback:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: download matching feedback as CSV, NDJSON or XLSX. Takes the same filters and sort
+// as the list, plus `format` (csv by default) and `columns` (comma-separated, all by default).
+app.get('/api/admin/export', requireRole('viewer'), async (req, res) => {
+  try {
+    const format = req.query.format || 'csv';
+    if (!EXPORT_FORMATS[format]) {
+      return res.status(400).json({ error: `Unsupported format; use one of ${Object.keys(EXPORT_FORMATS).join(', ')}` });
+    }
+    const { columns, error } = parseExportColumns(req.query.columns);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+    const filters = liveFilters(req.query);
+    await streamExport(res, storage, { filters, sort: parseFeedbackSort(req.query), format, columns, forms: await forms.all() });
+  } catch (error) {
+    console.error('Error exporting feedback:', error);
+    // Once streaming has started the status is gone; cut the download short so it isn't mistaken for complete
+    if (res.headersSent) {
+      res.destroy(error);
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Admin: PDF report for a date range (startDate, endDate) and optional set of category ids
+// (categories, comma-separated): headline numbers, charts, keywords and every comment
+app.get('/api/admin/report', requireRole('viewer'), async (req, res) => {
+  try {
+    const { startDate, endDate, categories } = req.query;
+    const filters = liveFilters({ startDate, endDate, categories });
+    const [text, workflow] = await Promise.all([settings.get('text-analysis'), settings.get('workflow')]);
+    await streamReport(res, storage, { filters, text, workflow, generatedBy: req.user.username });
+  } catch (error) {
+    console.error('Error generating report:', error);
+    if (res.headersSent) {
+      res.destroy(error);
+    } else {
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+});
+
+// Admin: Get single feedback by ID
+app.get('/api/admin/feedback/:id', requireRole('viewer'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const item = await storage.feedback.get(id);
+    if (!item) {
+      return res.status(404).json({ error: 'Feedback not found' });
+    }
+    res.json(item);
+  } catch (error) {
+    console.error('Error fetching feedback by id:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: Update feedback status, public response, category, assignee, due date or tags
+// (see edits.js). `expected` holds the values the admin last saw; if another admin has changed
+// them since, nothing is saved and the answer is a 409 with the feedback as it is now.
+app.put('/api/admin/feedback/:id', requireRole('moderator'), async (req, res) => {
+  try {
+    const updated = await edits.update(req, req.params.id, req.body || {});
+    if (!updated) {
+      return res.status(404).json({ error: 'Feedback not found' });
+    }
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof EditConflictError) {
+      return res.status(409).json({ error: error.message, code: 'conflict', current: error.current });
+    }
+    if (error instanceof EditValidationError || error instanceof TagValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating feedback:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: add a note to the internal discussion of a feedback item. `@username` mentions other admins.
+app.post('/api/admin/feedback/:id/notes', requireRole('moderator'), async (req, res) => {
+  try {
+    const updated = await notes.add(req, req.params.id, req.body || {});
+    if (!updated) {
+      return res.status(404).json({ error: 'Feedback not found' });
+    }
+    res.status(201).json(updated);
+  } catch (error) {
+    if (error instanceof NoteValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error adding note:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: edit or delete one of your own notes
+app.put('/api/admin/feedback/:id/notes/:noteId', requireRole('moderator'), async (req, res) => {
+  try {
+    const updated = await notes.edit(req, req.params.id, req.params.noteId, req.body || {});
+    if (!updated) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof NoteValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof NoteForbiddenError) {
+      return res.status(403).json({ error: error.message });
+    }
+    console.error('Error editing note:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.delete('/api/admin/feedback/:id/notes/:noteId', requireRole('moderator'), async (req, res) => {
+  try {
+    const updated = await notes.remove(req, req.params.id, req.params.noteId);
+    if (!updated) {
+      return res.status(404).json({ error: 'Note not found' });
+    }
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof NoteValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof NoteForbiddenError) {
+      return res.status(403).json({ error: error.message });
+    }
+    console.error('Error deleting note:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: move a single feedback to the trash
+app.delete('/api/admin/feedback/:id', requireRole('moderator'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const existing = await storage.feedback.get(id);
+    if (!existing || existing.deleted_at) {
+      return res.status(404).json({ error: 'Feedback not found' });
+    }
+    const deleted = await trash.moveToTrash(req, [id]);
+    res.json({ success: true, deleted });
+  } catch (error) {
+    console.error('Error deleting feedback:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: move several feedbacks to the trash, either by `ids` or by `filter`
+// (the list filters, e.g. { category, status, search }; {} means every live entry)
+app.post('/api/admin/feedback/bulk-delete', requireRole('moderator'), async (req, res) => {
+  try {
+    const { ids, filter } = req.body || {};
+    let targets;
+    if (Array.isArray(ids) && ids.length > 0) {
+      targets = ids.map(String);
+    } else if (filter && typeof filter === 'object' && !Array.isArray(filter)) {
+      targets = await matchingFeedbackIds(filter);
+    } else {
+      return res.status(400).json({ error: 'ids array or filter object is required' });
+    }
+    const deleted = await trash.moveToTrash(req, targets);
+    res.json({ success: true, deleted });
+  } catch (error) {
+    console.error('Error bulk deleting feedback:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: edit several feedbacks at once, picked by `ids` or `filter` as for bulk-delete. `changes`
+// takes the fields of PUT /api/admin/feedback/:id plus `note`, an internal note to add to each.
+// Each item is checked as if edited alone; those that pass are saved together, and `results`
+// says for every item whether it changed or why not.
+app.post('/api/admin/feedback/bulk-update', requireRole('moderator'), async (req, res) => {
+  try {
+    const { ids, filter, changes } = req.body || {};
+    if (!changes || typeof changes !== 'object' || Array.isArray(changes)) {
+      return res.status(400).json({ error: 'changes object is required' });
+    }
+    let targets;
+    if (Array.isArray(ids) && ids.length > 0) {
+      targets = ids.map(String);
+    } else if (filter && typeof filter === 'object' && !Array.isArray(filter)) {
+      targets = await matchingFeedbackIds(filter);
+    } else {
+      return res.status(400).json({ error: 'ids array or filter object is required' });
+    }
+    const results = await edits.bulkUpdate(req, targets, changes);
+    const updated = results.filter(r => r.ok).length;
+    res.json({ success: true, updated, failed: results.length - updated, results });
+  } catch (error) {
+    if (error instanceof EditValidationError || error instanceof TagValidationError || error instanceof NoteValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error bulk updating feedback:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: trashed feedback, most recently deleted first, with when each will be purged
+app.get('/api/admin/trash', requireRole('moderator'), async (req, res) => {
+  try {
+    const items = await storage.feedback.query({
+      filters: { trashed: true },
+      sort: { field: 'deleted_at', direction: 'desc' }
+    });
+    res.json({
+      items: items.map(f => ({ ...f, purge_at: trash.purgeDate(f) })),
+      retentionDays: trash.retentionDays
+    });
+  } catch (error) {
+    console.error('Error fetching trash:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: restore trashed feedback by ids
+app.post('/api/admin/trash/restore', requireRole('moderator'), async (req, res) => {
+  try {
+    const { ids } = req.body || {};
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({ error: 'ids array is required' });
+    }
+    const restored = await trash.restore(req, ids.map(String));
+    res.json({ success: true, restored });
+  } catch (error) {
+    console.error('Error restoring feedback:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: permanently delete trashed feedback by ids (entries not in the trash are ignored)
+app.post('/api/admin/trash/purge', requireRole('moderator'), async (req, res) => {
+  try {
+    const { ids } = req.body || {};
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({ error: 'ids array is required' });
+    }
+    const purged = await trash.purge(req, ids.map(String));
+    res.json({ success: true, purged });
+  } catch (error) {
+    console.error('Error purging feedback:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: submissions held for moderation by the spam checks, newest first
+app.get('/api/admin/moderation', requireRole('moderator'), async (req, res) => {
+  try {
+    const items = await storage.feedback.query({ filters: { held: true, trashed: false } });
+    res.json({ items, total: items.length });
+  } catch (error) {
+    console.error('Error fetching moderation queue:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: publish held submissions by ids (entries not in the queue are ignored)
+app.post('/api/admin/moderation/approve', requireRole('moderator'), async (req, res) => {
+  try {
+    const { ids } = req.body || {};
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({ error: 'ids array is required' });
+    }
+    const held = (await Promise.all([...new Set(ids.map(String))].map(id => storage.feedback.get(id))))
+      .filter(f => f && f.held && !f.deleted_at);
+    await Promise.all(held.map(f => storage.feedback.update(f.feedback_id, { held: false })));
+    await audit.recordMany(req, held.map(f => ({
+      action: 'feedback.approve',
+      targetType: 'feedback',
+      targetId: f.feedback_id,
+      before: { held: true },
+      after: { held: false },
+      details: { held_reasons: f.held_reasons || [] }
+    })));
+    res.json({ success: true, approved: held.length });
+  } catch (error) {
+    console.error('Error approving feedback:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: reject held submissions by ids; they go to the trash like any deleted feedback
+app.post('/api/admin/moderation/reject', requireRole('moderator'), async (req, res) => {
+  try {
+    const { ids } = req.body || {};
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({ error: 'ids array is required' });
+    }
+    const held = (await Promise.all([...new Set(ids.map(String))].map(id => storage.feedback.get(id))))
+      .filter(f => f && f.held);
+    const rejected = await trash.moveToTrash(req, held.map(f => f.feedback_id));
+    res.json({ success: true, rejected });
+  } catch (error) {
+    console.error('Error rejecting feedback:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: put a feedback item forward for the public board with its public response; `comment`
+// is the text to show (the stored comment by default). It waits for review like held submissions.
+app.post('/api/admin/feedback/:id/publish', requireRole('moderator'), async (req, res) => {
+  try {
+    const updated = await board.submit(req, req.params.id, req.body || {});
+    if (!updated) {
+      return res.status(404).json({ error: 'Feedback not found' });
+    }
+    res.json(updated);
+  } catch (error) {
+    if (error instanceof BoardValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error submitting feedback for the board:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: items waiting to go on the public board, oldest first
+app.get('/api/admin/board/pending', requireRole('moderator'), async (req, res) => {
+  try {
+    const items = await board.pending();
+    res.json({ items, total: items.length });
+  } catch (error) {
+    console.error('Error fetching board queue:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: approve or reject waiting items, or take published ones off the board, by ids
+// (entries in another state are ignored)
+app.post('/api/admin/board/:action(approve|reject|unpublish)', requireRole('moderator'), async (req, res) => {
+  try {
+    const { ids } = req.body || {};
+    if (!Array.isArray(ids) || ids.length === 0) {
+      return res.status(400).json({ error: 'ids array is required' });
+    }
+    const changed = await board[req.params.action](req, ids);
+    res.json({ success: true, changed });
+  } catch (error) {
+    console.error('Error updating board:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: browse the audit log, newest first. Filters: actor (user id), action, targetType,
+// target (id), startDate, endDate. Paged with limit (default 50, max 200) and offset.
+app.get('/api/admin/audit', requireRole('moderator'), async (req, res) => {
+  try {
+    const filters = parseFilters('audit', req.query);
+    const limit = pageLimit(req.query);
+    const offset = Math.max(parseInt(req.query.offset) || 0, 0);
+    const [entries, total] = await Promise.all([
+      storage.audit.query({ filters, limit, offset }),
+      storage.audit.count(filters)
+    ]);
+    res.json({ entries, total, limit, offset });
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: totals, distributions and a time series for feedback matching the list filters.
+// `bucket` (day, week or month) sets the time series resolution; by default it is chosen
+// from the length of the period.
+app.get('/api/admin/analytics', requireRole('viewer'), async (req, res) => {
+  try {
+    const { bucket } = req.query;
+    if (bucket !== undefined && !BUCKETS.includes(bucket)) {
+      return res.status(400).json({ error: `bucket must be one of ${BUCKETS.join(', ')}` });
+    }
+    const filters = liveFilters(req.query);
+    const [feedback, categories, text, tagList] = await Promise.all([
+      storage.feedback.query({ filters }),
+      storage.categories.all(),
+      settings.get('text-analysis'),
+      storage.tags.all()
+    ]);
+    res.json(summarize(feedback, categories, { bucket, text, tags: tagList, from: filters.startDate, to: filters.endDate }));
+  } catch (error) {
+    console.error('Error fetching analytics:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: compare two slices of feedback, e.g. this batch against the last one. Unprefixed
+// list filters apply to both sides; `a.<filter>` / `b.<filter>` (typically startDate, endDate
+// and categories) override them for the baseline (a) and the comparison (b).
+app.get('/api/admin/analytics/compare', requireRole('viewer'), async (req, res) => {
+  try {
+    const side = (prefix) => {
+      const overrides = Object.entries(req.query)
+        .filter(([key]) => key.startsWith(`${prefix}.`))
+        .map(([key, value]) => [key.slice(prefix.length + 1), value]);
+      return liveFilters({ ...req.query, ...Object.fromEntries(overrides) });
+    };
+    const [feedbackA, feedbackB, categories, text, workflow] = await Promise.all([
+      storage.feedback.query({ filters: side('a') }),
+      storage.feedback.query({ filters: side('b') }),
+      storage.categories.all(),
+      settings.get('text-analysis'),
+      settings.get('workflow')
+    ]);
+    res.json(compare(feedbackA, feedbackB, categories, { text, states: workflow.states.map(s => s.id) }));
+  } catch (error) {
+    console.error('Error comparing analytics:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: keywords and phrases ranked by TF-IDF for feedback matching the list filters, either
+// overall (`groupBy=none`) or per category / per time bucket, where each list shows what
+// sets that group apart. `limit` caps each list (default 30, max 100).
+app.get('/api/admin/analytics/keywords', requireRole('viewer'), async (req, res) => {
+  try {
+    const { groupBy = 'none', bucket } = req.query;
+    if (!KEYWORD_GROUPS.includes(groupBy)) {
+      return res.status(400).json({ error: `groupBy must be one of ${KEYWORD_GROUPS.join(', ')}` });
+    }
+    if (bucket !== undefined && !BUCKETS.includes(bucket)) {
+      return res.status(400).json({ error: `bucket must be one of ${BUCKETS.join(', ')}` });
+    }
+    const limit = Math.min(Math.max(parseInt(req.query.limit) || 30, 1), 100);
+    const filters = liveFilters(req.query);
+    const [feedback, categories, text] = await Promise.all([
+      storage.feedback.query({ filters }),
+      storage.categories.all(),
+      settings.get('text-analysis')
+    ]);
+    res.json(keywords(feedback, categories, { groupBy, bucket, text, limit, from: filters.startDate, to: filters.endDate }));
+  } catch (error) {
+    console.error('Error extracting keywords:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: results per question of one survey form (`form`, the active form by default) for
+// feedback matching the list filters
+app.get('/api/admin/analytics/questions', requireRole('viewer'), async (req, res) => {
+  try {
+    const form = req.query.form ? await forms.get(String(req.query.form)) : await forms.active();
+    if (!form) {
+      return res.status(404).json({ error: 'Form not found' });
+    }
+    const [feedback, text] = await Promise.all([
+      storage.feedback.query({ filters: liveFilters({ ...req.query, form: form.id }) }),
+      settings.get('text-analysis')
+    ]);
+    res.json(questionStats(feedback, form, { text }));
+  } catch (error) {
+    console.error('Error fetching question analytics:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: a scorecard per trainer or cohort (`groupBy`, trainer by default) for feedback
+// matching the list filters that came through collection links
+app.get('/api/admin/analytics/scorecards', requireRole('viewer'), async (req, res) => {
+  try {
+    const { groupBy = 'trainer' } = req.query;
+    if (!SCORECARD_GROUPS.includes(groupBy)) {
+      return res.status(400).json({ error: `groupBy must be one of ${SCORECARD_GROUPS.join(', ')}` });
+    }
+    const [feedback, text, workflow] = await Promise.all([
+      storage.feedback.query({ filters: liveFilters(req.query) }),
+      settings.get('text-analysis'),
+      settings.get('workflow')
+    ]);
+    res.json(scorecards(feedback, { groupBy, text, states: workflow.states.map(s => s.id) }));
+  } catch (error) {
+    console.error('Error fetching scorecards:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Admin: read or change a feature's settings: "text-analysis" (stop-word languages, extra
+// stop words and the keyword ignore list), "abuse-protection" (rate limits, minimum fill
+// time, proof-of-work and duplicate detection), "redaction" (personal information detectors)
+// or "workflow" (feedback states and the moves allowed between them). The redaction names list
+// and the spam thresholds are only shown to the admins who can change them.
+const MODERATOR_SETTINGS = ['redaction', 'abuse-protection'];
+const requireSettingsReader = (req, res, next) =>
+  requireRole(MODERATOR_SETTINGS.includes(req.params.id) ? 'moderator' : 'viewer')(req, res, next);
+
+app.get('/api/admin/settings/:id', requireSettingsReader, async (req, res) => {
+  try {
+    if (!settings.has(req.params.id)) {
+      return res.status(404).json({ error: 'Settings not found' });
+    }
+    res.json(await settings.get(req.params.id));
+  } catch (error) {
+    console.error('Error fetching settings:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.put('/api/admin/settings/:id', requireRole('moderator'), async (req, res) => {
+  try {
+    if (!settings.has(req.params.id)) {
+      return res.status(404).json({ error: 'Settings not found' });
+    }
+    res.json(await settings.update(req, req.params.id, req.body));
+  } catch (error) {
+    if (error instanceof SettingsValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error updating settings:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Matches returned by a redaction preview
+const REDACTION_PREVIEW_LIMIT = 50;
+
+// Admin: try redaction settings against the stored feedback before saving them. The body is
+// a partial "redaction" settings object applied over the current one; returns how many
+// comments it would touch, per-kind counts and the first matches with their spans.
+app.post('/api/admin/redaction/preview', requireRole('moderator'), async (req, res) => {
+  try {
+    const proposed = { ...(await settings.get('redaction')), ...validateRedactionSettings(req.body || {}) };
+    const { find } = createRedactor(proposed);
+    const feedback = await storage.feedback.query({ filters: { trashed: false } });
+    const counts = {};
+    const items = [];
+    let matched = 0;
+    for (const f of feedback) {
+      const spans = find(f.comment || '');
+      if (spans.length === 0) continue;
+      matched++;
+      for (const span of spans) counts[span.kind] = (counts[span.kind] || 0) + 1;
+      if (items.length < REDACTION_PREVIEW_LIMIT) {
+        items.push({ feedback_id: f.feedback_id, timestamp: f.timestamp, comment: f.comment, spans });
+      }
+    }
+    res.json({ scanned: feedback.length, matched, counts, items });
+  } catch (error) {
+    if (error instanceof SettingsValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error previewing redaction:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+app.get('/api/admin/check', async (req, res) => {
+  try {
+    const user = req.session.userId ? await storage.users.get(req.session.userId) : null;
+    const needsSetup = !user && (await storage.users.count()) === 0;
+    res.json({ isAdmin: !!user, user: user ? publicUser(user) : null, needsSetup });
+  } catch (error) {
+    console.error('Error checking session:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// Flush pending writes before exiting
+const shutdown = async (signal) => {
+  console.log(`${signal} received, closing storage`);
+  try {
+    await storage.close();
+  } catch (error) {
+    console.error('Error closing storage:', error);
+  }
+  process.exit(0);
+};
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+normalizeData().then(bootstrapOwner).then(() => {
+  trash.schedulePurge();
+  app.listen(PORT, () => {
+    console.log(`Server running on port ${PORT} (${storage.driver} storage)`);
+  });
 });
\ No newline at end of file
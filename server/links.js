@@ -0,0 +1,168 @@
+// Collection links: a short code (the page /f/:code) bound to a cohort, trainer and session
+// date. Feedback sent through a link is tagged with those, so the list and analytics can be
+// filtered and grouped by them. A link takes feedback while it is open: after its optional
+// opening time, before its optional closing time and until an admin closes it by hand.
+const crypto = require('crypto');
+
+class LinkValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'LinkValidationError';
+  }
+}
+
+// Custom codes: lowercase letters, digits and dashes
+const CODE = /^[a-z0-9-]{3,40}$/;
+// Generated codes leave out 0/o and 1/l/i so they can be read off a projector
+const CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789';
+const CODE_LENGTH = 6;
+const MAX_LABEL_LENGTH = 100;
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// 'scheduled' before the window opens, 'open' while it is, 'closed' after it or once closed by hand
+const linkState = (link, now = Date.now()) => {
+  if (link.closed_at) return 'closed';
+  if (link.opens_at && new Date(link.opens_at).getTime() > now) return 'scheduled';
+  if (link.closes_at && new Date(link.closes_at).getTime() <= now) return 'closed';
+  return 'open';
+};
+
+// What the feedback page shows about a link
+const publicLink = (link) => ({
+  code: link.code,
+  cohort: link.cohort,
+  trainer: link.trainer,
+  session_date: link.session_date,
+  opens_at: link.opens_at,
+  closes_at: link.closes_at,
+  state: linkState(link)
+});
+
+// The fields a submission through this link is tagged with
+const linkTags = (link) => ({
+  link_id: link.id,
+  cohort: link.cohort,
+  trainer: link.trainer,
+  session_date: link.session_date
+});
+
+const label = (value, name) => {
+  const s = String(value ?? '').trim().replace(/\s+/g, ' ');
+  if (!s) throw new LinkValidationError(`${name} is required`);
+  if (s.length > MAX_LABEL_LENGTH) throw new LinkValidationError(`${name} can be at most ${MAX_LABEL_LENGTH} characters`);
+  return s;
+};
+
+const optionalTime = (value, name) => {
+  if (value === undefined || value === null || value === '') return null;
+  const d = new Date(value);
+  if (isNaN(d.getTime())) throw new LinkValidationError(`${name} is not a valid date`);
+  return d.toISOString();
+};
+
+// Cohort, trainer, session date and window from `input` over `existing`
+const validateDetails = (input, existing = {}) => {
+  const merged = { ...existing, ...input };
+  const sessionDate = merged.session_date ? String(merged.session_date) : '';
+  if (sessionDate && (!DATE.test(sessionDate) || isNaN(new Date(sessionDate).getTime()))) {
+    throw new LinkValidationError('Session date must be a date (YYYY-MM-DD)');
+  }
+  const details = {
+    cohort: label(merged.cohort, 'Cohort'),
+    trainer: label(merged.trainer, 'Trainer'),
+    session_date: sessionDate,
+    opens_at: optionalTime(merged.opens_at, 'Opening time'),
+    closes_at: optionalTime(merged.closes_at, 'Closing time')
+  };
+  if (details.opens_at && details.closes_at && details.opens_at >= details.closes_at) {
+    throw new LinkValidationError('The closing time must be after the opening time');
+  }
+  return details;
+};
+
+const createLinks = (storage, audit) => {
+  const byCode = async (code) =>
+    (await storage.links.query({ filters: { code: String(code).toLowerCase() }, limit: 1 }))[0] || null;
+
+  const randomCode = () => Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]).join('');
+
+  // A custom code if it is valid and free, otherwise a fresh random one
+  const pickCode = async (requested) => {
+    if (requested) {
+      const code = String(requested).trim().toLowerCase();
+      if (!CODE.test(code)) throw new LinkValidationError('Codes are 3-40 lowercase letters, digits or dashes');
+      if (await byCode(code)) throw new LinkValidationError(`The code "${code}" is already in use`);
+      return code;
+    }
+    for (;;) {
+      const code = randomCode();
+      if (!(await byCode(code))) return code;
+    }
+  };
+
+  const create = async (req, input = {}) => {
+    const details = validateDetails(input);
+    const link = {
+      id: crypto.randomUUID(),
+      code: await pickCode(input.code),
+      ...details,
+      closed_at: null,
+      created_at: new Date().toISOString(),
+      created_by: req.user?.id || null
+    };
+    await storage.links.insert(link);
+    await audit.record(req, { action: 'link.create', targetType: 'link', targetId: link.id, after: link });
+    return link;
+  };
+
+  // Change the cohort, trainer, session date or window; the code stays, since it may be printed.
+  // Feedback already sent through the link is retagged, so fixing a misspelt name doesn't split it.
+  const update = async (req, id, input = {}) => {
+    const existing = await storage.links.get(id);
+    if (!existing) return null;
+    const updated = await storage.links.update(id, validateDetails(input, existing));
+    const { link_id, ...tags } = linkTags(updated);
+    if (Object.keys(tags).some(key => tags[key] !== existing[key])) {
+      await storage.feedback.updateWhere({ link: link_id }, () => tags);
+    }
+    await audit.recordChange(req, { action: 'link.update', targetType: 'link', targetId: id, before: existing, after: updated });
+    return updated;
+  };
+
+  // Stop taking feedback now, whatever the window says
+  const close = async (req, id) => {
+    const existing = await storage.links.get(id);
+    if (!existing) return null;
+    if (existing.closed_at) return existing;
+    const updated = await storage.links.update(id, { closed_at: new Date().toISOString() });
+    await audit.record(req, { action: 'link.close', targetType: 'link', targetId: id });
+    return updated;
+  };
+
+  // Take feedback again; a closing time that has already passed is cleared too
+  const reopen = async (req, id) => {
+    const existing = await storage.links.get(id);
+    if (!existing) return null;
+    const changes = { closed_at: null };
+    if (existing.closes_at && new Date(existing.closes_at).getTime() <= Date.now()) changes.closes_at = null;
+    const updated = await storage.links.update(id, changes);
+    await audit.record(req, { action: 'link.reopen', targetType: 'link', targetId: id });
+    return updated;
+  };
+
+  // Links with feedback are kept (close them instead) so cohort and trainer filters stay complete
+  const remove = async (req, id) => {
+    const existing = await storage.links.get(id);
+    if (!existing) return null;
+    if ((await storage.feedback.count({ link: id })) > 0) {
+      throw new LinkValidationError('This link has feedback and cannot be deleted; close it instead');
+    }
+    await storage.links.remove(id);
+    await audit.record(req, { action: 'link.delete', targetType: 'link', targetId: id, before: existing });
+    return existing;
+  };
+
+  return { byCode, create, update, close, reopen, remove };
+};
+
+module.exports = { LinkValidationError, linkState, publicLink, linkTags, createLinks };
@@ -0,0 +1,166 @@
+// Internal discussion on a feedback item: a thread of notes by admins, each with its author and
+// time. Authors can edit or delete their own notes. `@username` mentions of other admins are
+// resolved when a note is written and kept as user ids, so the list can show "mentions me".
+// Notes are appended and changed through updateWhere, which works on the stored record, so two
+// admins writing at once never overwrite each other.
+const crypto = require('crypto');
+
+const MAX_NOTE_LENGTH = 2000;
+const MAX_NOTES = 200;
+
+// @ followed by a username, not preceded by a word character (so emails don't count)
+const MENTION_PATTERN = /(?<![\w@.])@([\w.-]+)/g;
+
+class NoteValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'NoteValidationError';
+  }
+}
+
+class NoteForbiddenError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'NoteForbiddenError';
+  }
+}
+
+const validText = (text) => {
+  const value = String(text ?? '').trim();
+  if (!value) throw new NoteValidationError('Please write a note');
+  if (value.length > MAX_NOTE_LENGTH) {
+    throw new NoteValidationError(`Notes can be at most ${MAX_NOTE_LENGTH} characters`);
+  }
+  return value;
+};
+
+// The first note of a thread made from an item's old single `admin_note`; it has no known author
+const migratedNote = (f) => ({
+  id: crypto.randomUUID(),
+  author_id: null,
+  author: null,
+  text: f.admin_note,
+  mentions: [],
+  created_at: f.timestamp,
+  edited_at: null
+});
+
+const createNotes = (storage, audit) => {
+  // Ids of the admins mentioned in `text`, leaving out the author
+  const mentionsIn = async (text, authorId) => {
+    const names = [...new Set([...text.matchAll(MENTION_PATTERN)].map(m => m[1].replace(/[.-]+$/, '').toLowerCase()))];
+    const users = await Promise.all(names.map(name => storage.users.query({ filters: { username: name } })));
+    return [...new Set(users.flat().map(u => u.id))].filter(id => id !== authorId);
+  };
+
+  // Apply `change(notes)` to the live item's thread; returns the updated item or null if missing
+  const changeThread = async (id, change) => {
+    let failure = null;
+    const changed = await storage.feedback.updateWhere({ ids: [id], trashed: false }, (f) => {
+      try {
+        return { notes: change(f.notes || []) };
+      } catch (error) {
+        failure = error;
+        return {};
+      }
+    });
+    if (failure) throw failure;
+    return changed ? storage.feedback.get(id) : null;
+  };
+
+  const noteExists = async (id, noteId) => {
+    const f = await storage.feedback.get(id);
+    return !!f && !f.deleted_at && (f.notes || []).some(n => n.id === noteId);
+  };
+
+  // The note `noteId` of `notes`, checked to belong to the signed-in admin
+  const ownNote = (req, notes, noteId) => {
+    const note = notes.find(n => n.id === noteId);
+    if (!note) throw new NoteValidationError('This note has just been deleted');
+    if (!note.author_id || note.author_id !== req.user?.id) {
+      throw new NoteForbiddenError('You can only change your own notes');
+    }
+    return note;
+  };
+
+  // A new note by the signed-in admin, checked and with its mentions resolved
+  const compose = async (req, text) => {
+    const value = validText(text);
+    return {
+      id: crypto.randomUUID(),
+      author_id: req.user?.id || null,
+      author: req.user?.username || null,
+      text: value,
+      mentions: await mentionsIn(value, req.user?.id),
+      created_at: new Date().toISOString(),
+      edited_at: null
+    };
+  };
+
+  // `notes` with `note` added at the end
+  const append = (notes, note) => {
+    if (notes.length >= MAX_NOTES) {
+      throw new NoteValidationError(`No more than ${MAX_NOTES} notes can be added`);
+    }
+    return [...notes, note];
+  };
+
+  // Append a note by the signed-in admin; returns the updated item, or null if it is missing
+  const add = async (req, id, { text } = {}) => {
+    const note = await compose(req, text);
+    const updated = await changeThread(id, (notes) => append(notes, note));
+    if (updated) {
+      await audit.record(req, {
+        action: 'feedback.note_add',
+        targetType: 'feedback',
+        targetId: id,
+        after: { note_id: note.id, text: note.text }
+      });
+    }
+    return updated;
+  };
+
+  // Change the text of one's own note; returns the updated item, or null if the note is missing
+  const edit = async (req, id, noteId, { text } = {}) => {
+    if (!(await noteExists(id, noteId))) return null;
+    const value = validText(text);
+    const mentions = await mentionsIn(value, req.user?.id);
+    let before = null;
+    const updated = await changeThread(id, (notes) => {
+      before = ownNote(req, notes, noteId);
+      return notes.map(n => (n.id === noteId ? { ...n, text: value, mentions, edited_at: new Date().toISOString() } : n));
+    });
+    if (updated && before.text !== value) {
+      await audit.record(req, {
+        action: 'feedback.note_edit',
+        targetType: 'feedback',
+        targetId: id,
+        before: { note_id: noteId, text: before.text },
+        after: { note_id: noteId, text: value }
+      });
+    }
+    return updated;
+  };
+
+  const remove = async (req, id, noteId) => {
+    if (!(await noteExists(id, noteId))) return null;
+    let before = null;
+    const updated = await changeThread(id, (notes) => {
+      before = ownNote(req, notes, noteId);
+      return notes.filter(n => n.id !== noteId);
+    });
+    if (updated) {
+      await audit.record(req, {
+        action: 'feedback.note_delete',
+        targetType: 'feedback',
+        targetId: id,
+        before: { note_id: noteId, text: before.text }
+      });
+    }
+    return updated;
+  };
+
+  return { compose, append, add, edit, remove };
+};
+
+module.exports = { NoteValidationError, NoteForbiddenError, migratedNote, createNotes };
@@ -0,0 +1,67 @@
+// Receipt codes: each submission gets a random code the submitter can use to check on it later
+// (its status and the admins' public response) and to send anonymous follow-up messages. Only
+// a hash of the code is stored, so it can't be read back from the data, and the code isn't
+// tied to anything else about the submitter.
+//
+// Codes are 12 characters from a 31-letter alphabet (about 59 bits), far too many to guess
+// through the API, so a plain SHA-256 is enough to hide them.
+const crypto = require('crypto');
+
+// No 0/O, 1/I/L, so codes can be copied from a screenshot or read aloud
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 12;
+const GROUP_LENGTH = 4;
+const MAX_FOLLOW_UPS = 10;
+const MAX_FOLLOW_UP_LENGTH = 2000;
+
+class ReceiptValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'ReceiptValidationError';
+  }
+}
+
+// A fresh code, grouped for reading: ABCD-EFGH-JKMN
+const createReceiptCode = () => {
+  const chars = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]);
+  const groups = [];
+  for (let i = 0; i < CODE_LENGTH; i += GROUP_LENGTH) groups.push(chars.slice(i, i + GROUP_LENGTH).join(''));
+  return groups.join('-');
+};
+
+// Case, spaces and dashes don't matter when a code is typed back in
+const normalizeReceipt = (code) => String(code ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const hashReceipt = (code) => crypto.createHash('sha256').update(normalizeReceipt(code)).digest('hex');
+
+// What the code holder sees: their own (already redacted) comment, where it stands, the public
+// response and their follow-ups. Nothing internal, such as notes, assignees or held reasons.
+// The status is named as in the current `workflow`; `resolved` says whether it is closed.
+const receiptView = (f, categoryName, workflow) => ({
+  category: categoryName || f.category,
+  comment: f.comment || '',
+  submitted_at: f.timestamp,
+  status: f.status || 'open',
+  status_label: workflow?.states.find(s => s.id === (f.status || 'open'))?.label || f.status || 'open',
+  resolved: !!f.resolved_at,
+  public_response: f.public_response || '',
+  responded_at: f.responded_at || null,
+  follow_ups: (f.follow_ups || []).map(({ message, timestamp }) => ({ message, timestamp })),
+  can_follow_up: (f.follow_ups || []).length < MAX_FOLLOW_UPS
+});
+
+// The follow-up to append to `f`, with personal information masked by `redactor`
+const followUp = (f, message, redactor) => {
+  const text = String(message ?? '').trim();
+  if (!text) throw new ReceiptValidationError('Please write a message');
+  if (text.length > MAX_FOLLOW_UP_LENGTH) {
+    throw new ReceiptValidationError(`Messages can be at most ${MAX_FOLLOW_UP_LENGTH} characters`);
+  }
+  if ((f.follow_ups || []).length >= MAX_FOLLOW_UPS) {
+    throw new ReceiptValidationError(`No more than ${MAX_FOLLOW_UPS} follow-up messages can be added`);
+  }
+  const { text: masked, redacted } = redactor.redact(text);
+  return { id: crypto.randomUUID(), message: masked, redacted, timestamp: new Date().toISOString() };
+};
+
+module.exports = { ReceiptValidationError, createReceiptCode, hashReceipt, receiptView, followUp };
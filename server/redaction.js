@@ -0,0 +1,129 @@
+// Personal information redaction for submitted comments. Emails, phone numbers, roll numbers
+// (admin-configured regular expressions) and names from an admin-maintained list are replaced
+// with a placeholder such as "[email]" before the comment is stored. Only the kinds of
+// information removed are kept with the feedback, never the removed text itself.
+const { SettingsValidationError } = require('./settings');
+
+const KINDS = ['email', 'phone', 'roll_number', 'name'];
+
+const PLACEHOLDERS = {
+  email: '[email]',
+  phone: '[phone]',
+  roll_number: '[roll number]',
+  name: '[name]'
+};
+
+const DEFAULT_REDACTION_SETTINGS = {
+  email: true,
+  phone: true,
+  // Case-insensitive; the defaults cover "21CS045"-style and 12-digit university numbers
+  rollNumbers: ['\\b\\d{2}[a-z]{2,4}\\d{2,5}\\b', '\\b\\d{12}\\b'],
+  // Whole words only, case-insensitive
+  names: []
+};
+
+const MAX_PATTERNS = 20;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_NAMES = 5000;
+const MAX_NAME_LENGTH = 100;
+
+const EMAIL = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)*\.\p{L}{2,}/gu;
+// A run of digits with the usual separators; it counts as a phone number if it has 10-13 digits
+const PHONE = /(?<![\p{L}\p{N}])\+?\(?\d[\d\s().-]{7,}\d(?![\p{L}\p{N}])/gu;
+const PHONE_DIGITS = { min: 10, max: 13 };
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const compilePattern = (source) => {
+  try {
+    return new RegExp(source, 'gi');
+  } catch (error) {
+    throw new SettingsValidationError(`Invalid roll number pattern "${source}": ${error.message}`);
+  }
+};
+
+const validateRedactionSettings = (changes) => {
+  const valid = {};
+  for (const flag of ['email', 'phone']) {
+    if (changes[flag] !== undefined) valid[flag] = changes[flag] === true;
+  }
+  if (changes.rollNumbers !== undefined) {
+    if (!Array.isArray(changes.rollNumbers)) throw new SettingsValidationError('rollNumbers must be a list');
+    const patterns = [...new Set(changes.rollNumbers.map(p => String(p).trim()).filter(Boolean))];
+    if (patterns.length > MAX_PATTERNS) throw new SettingsValidationError(`rollNumbers can hold at most ${MAX_PATTERNS} patterns`);
+    for (const source of patterns) {
+      if (source.length > MAX_PATTERN_LENGTH) {
+        throw new SettingsValidationError(`Roll number patterns can be at most ${MAX_PATTERN_LENGTH} characters`);
+      }
+      // A pattern that matches nothing at all would mask empty strings everywhere
+      if (compilePattern(source).test('')) throw new SettingsValidationError(`Roll number pattern "${source}" matches empty text`);
+    }
+    valid.rollNumbers = patterns;
+  }
+  if (changes.names !== undefined) {
+    if (!Array.isArray(changes.names)) throw new SettingsValidationError('names must be a list');
+    const names = [...new Set(changes.names.map(n => String(n).normalize('NFC').trim().replace(/\s+/g, ' ')).filter(Boolean))];
+    if (names.length > MAX_NAMES) throw new SettingsValidationError(`names can hold at most ${MAX_NAMES} entries`);
+    if (names.some(n => n.length > MAX_NAME_LENGTH)) throw new SettingsValidationError(`Names can be at most ${MAX_NAME_LENGTH} characters`);
+    if (names.some(n => [...n].length < 2)) throw new SettingsValidationError('Names must be at least 2 characters');
+    valid.names = names;
+  }
+  return valid;
+};
+
+// Every non-empty match of `regex` in `text` as { start, end }
+const matchesOf = (regex, text) =>
+  [...text.matchAll(regex)].filter(m => m[0].length > 0).map(m => ({ start: m.index, end: m.index + m[0].length }));
+
+// A detector for one set of settings; build it once per request and reuse it
+const createRedactor = (settings = DEFAULT_REDACTION_SETTINGS) => {
+  const rollNumbers = (settings.rollNumbers || []).map(compilePattern);
+  // Longest first so "Priya Raman" wins over "Priya"; letters either side mean it's part of another word
+  const names = [...(settings.names || [])].sort((a, b) => b.length - a.length).map(escapeRegExp).map(n => n.replace(/ /g, '\\s+'));
+  const nameRegex = names.length
+    ? new RegExp(`(?<![\\p{L}\\p{M}\\p{N}])(?:${names.join('|')})(?![\\p{L}\\p{M}\\p{N}])`, 'giu')
+    : null;
+
+  // Detectors in priority order: where matches overlap, the earlier kind keeps the text
+  const detectors = [
+    settings.email && { kind: 'email', find: (text) => matchesOf(EMAIL, text) },
+    { kind: 'roll_number', find: (text) => rollNumbers.flatMap(regex => matchesOf(regex, text)) },
+    settings.phone && {
+      kind: 'phone',
+      find: (text) => matchesOf(PHONE, text).filter(({ start, end }) => {
+        const digits = text.slice(start, end).replace(/\D/g, '').length;
+        return digits >= PHONE_DIGITS.min && digits <= PHONE_DIGITS.max;
+      })
+    },
+    nameRegex && { kind: 'name', find: (text) => matchesOf(nameRegex, text) }
+  ].filter(Boolean);
+
+  // Non-overlapping spans of personal information, in text order, as { start, end, kind }
+  const find = (text) => {
+    const spans = [];
+    for (const { kind, find: detect } of detectors) {
+      for (const span of detect(text)) {
+        if (!spans.some(s => span.start < s.end && s.start < span.end)) spans.push({ ...span, kind });
+      }
+    }
+    return spans.sort((a, b) => a.start - b.start);
+  };
+
+  // The text with every span replaced by its placeholder, and the kinds that were found
+  const redact = (text) => {
+    const source = String(text || '');
+    const spans = find(source);
+    let result = '';
+    let position = 0;
+    for (const span of spans) {
+      result += source.slice(position, span.start) + PLACEHOLDERS[span.kind];
+      position = span.end;
+    }
+    result += source.slice(position);
+    return { text: result, redacted: KINDS.filter(kind => spans.some(s => s.kind === kind)) };
+  };
+
+  return { find, redact };
+};
+
+module.exports = { DEFAULT_REDACTION_SETTINGS, validateRedactionSettings, createRedactor };
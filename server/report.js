@@ -0,0 +1,251 @@
+// Server-generated PDF report: cover page, headline numbers, rating and category charts,
+// top keywords and an appendix with every comment. Drawn with PDFKit's vector primitives,
+// so no browser, popup or chart library is involved.
+const PDFDocument = require('pdfkit');
+const { summarize } = require('./analytics');
+
+const MARGIN = 50;
+const COLORS = {
+  text: '#111827',
+  muted: '#6b7280',
+  rule: '#e5e7eb',
+  primary: '#2563eb',
+  ratings: ['#ef4444', '#f97316', '#f59e0b', '#84cc16', '#22c55e'],
+  // Workflow states: where feedback starts, in between and closed
+  statuses: { initial: '#6b7280', active: '#f59e0b', closed: '#22c55e' },
+  sentiments: { positive: '#22c55e', neutral: '#9ca3af', negative: '#ef4444' }
+};
+
+// Label of a status in the workflow settings; states since removed show their id
+const statusLabel = (workflow, id) => workflow.states.find(s => s.id === id)?.label || id;
+
+// The built-in Helvetica only covers Latin text. Point REPORT_FONT (and optionally
+// REPORT_FONT_BOLD) at a TTF/OTF file, e.g. Noto Sans Tamil, to render other scripts.
+const registerFonts = (doc, env = process.env) => {
+  if (env.REPORT_FONT) {
+    doc.registerFont('body', env.REPORT_FONT);
+    doc.registerFont('bold', env.REPORT_FONT_BOLD || env.REPORT_FONT);
+  } else {
+    doc.registerFont('body', 'Helvetica');
+    doc.registerFont('bold', 'Helvetica-Bold');
+  }
+};
+
+const formatDate = (value) =>
+  new Date(value).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const describeRange = ({ startDate, endDate }) => {
+  if (startDate && endDate) return `${formatDate(startDate)} – ${formatDate(endDate)}`;
+  if (startDate) return `From ${formatDate(startDate)}`;
+  if (endDate) return `Until ${formatDate(endDate)}`;
+  return 'All dates';
+};
+
+const contentWidth = (doc) => doc.page.width - MARGIN * 2;
+
+// Start a new page when fewer than `needed` points are left
+const ensureSpace = (doc, needed) => {
+  if (doc.y + needed > doc.page.height - MARGIN) doc.addPage();
+};
+
+const heading = (doc, text) => {
+  ensureSpace(doc, 60);
+  doc.font('bold').fontSize(16).fillColor(COLORS.text).text(text, MARGIN, doc.y);
+  doc.moveDown(0.5);
+};
+
+const coverPage = (doc, { range, categoryNames, generatedBy, total }) => {
+  doc.rect(0, 0, doc.page.width, 8).fill(COLORS.primary);
+  doc.y = 200;
+  doc.font('bold').fontSize(28).fillColor(COLORS.text)
+    .text('Career Development Feedback Survey', MARGIN, doc.y, { width: contentWidth(doc) });
+  doc.moveDown(0.3);
+  doc.font('body').fontSize(18).fillColor(COLORS.primary).text('Feedback Report');
+  doc.moveDown(2);
+
+  const line = (label, value) => {
+    doc.font('bold').fontSize(11).fillColor(COLORS.muted).text(label.toUpperCase());
+    doc.font('body').fontSize(13).fillColor(COLORS.text).text(value, { width: contentWidth(doc) });
+    doc.moveDown(0.8);
+  };
+  line('Period', describeRange(range));
+  line('Categories', categoryNames.length ? categoryNames.join(', ') : 'All categories');
+  line('Responses', String(total));
+  line('Generated', `${new Date().toUTCString()} by ${generatedBy}`);
+};
+
+// Row of headline numbers drawn as boxes
+const statBoxes = (doc, stats) => {
+  const gap = 12;
+  const width = (contentWidth(doc) - gap * (stats.length - 1)) / stats.length;
+  const top = doc.y;
+  stats.forEach(({ label, value }, i) => {
+    const x = MARGIN + i * (width + gap);
+    doc.roundedRect(x, top, width, 64, 6).lineWidth(1).strokeColor(COLORS.rule).stroke();
+    doc.font('bold').fontSize(22).fillColor(COLORS.text).text(value, x, top + 12, { width, align: 'center' });
+    doc.font('body').fontSize(9).fillColor(COLORS.muted).text(label, x, top + 42, { width, align: 'center' });
+  });
+  doc.x = MARGIN;
+  doc.y = top + 84;
+};
+
+// Horizontal bar chart; rows are { label, value, color? }
+const barChart = (doc, rows, { color = COLORS.primary } = {}) => {
+  const labelWidth = 130;
+  const valueWidth = 60;
+  const barHeight = 16;
+  const rowGap = 8;
+  const barMax = contentWidth(doc) - labelWidth - valueWidth;
+  const max = Math.max(1, ...rows.map(r => r.value));
+  const total = rows.reduce((sum, r) => sum + r.value, 0);
+
+  if (rows.length === 0) {
+    doc.font('body').fontSize(10).fillColor(COLORS.muted).text('No data', MARGIN, doc.y);
+    doc.moveDown();
+    return;
+  }
+  ensureSpace(doc, Math.min(rows.length, 6) * (barHeight + rowGap));
+  for (const row of rows) {
+    ensureSpace(doc, barHeight + rowGap);
+    const y = doc.y;
+    doc.font('body').fontSize(10).fillColor(COLORS.text)
+      .text(row.label, MARGIN, y + 3, { width: labelWidth - 10, ellipsis: true, lineBreak: false });
+    const width = Math.max((row.value / max) * barMax, row.value > 0 ? 2 : 0);
+    doc.rect(MARGIN + labelWidth, y, barMax, barHeight).fill('#f3f4f6');
+    if (width > 0) doc.rect(MARGIN + labelWidth, y, width, barHeight).fill(row.color || color);
+    const share = total > 0 ? Math.round((row.value / total) * 100) : 0;
+    doc.font('body').fontSize(10).fillColor(COLORS.muted)
+      .text(`${row.value} (${share}%)`, MARGIN + labelWidth + barMax + 8, y + 3, { width: valueWidth - 8, lineBreak: false });
+    doc.x = MARGIN;
+    doc.y = y + barHeight + rowGap;
+  }
+  doc.moveDown();
+};
+
+const summaryPages = (doc, stats, categories, workflow) => {
+  const closed = workflow.states.filter(s => s.closed).reduce((sum, s) => sum + (stats.statusStats[s.id] || 0), 0);
+  doc.addPage();
+  heading(doc, 'Summary');
+  statBoxes(doc, [
+    { label: 'Responses', value: String(stats.totalFeedback) },
+    { label: 'Average rating (of 5)', value: String(stats.averageRating) },
+    { label: 'Unresolved', value: String(stats.totalFeedback - closed) },
+    { label: 'Resolved', value: String(closed) }
+  ]);
+  if (stats.sla.tracked > 0) {
+    doc.font('body').fontSize(10).fillColor(COLORS.muted)
+      .text(`${stats.sla.breached} of ${stats.sla.tracked} response(s) with a due date missed it; ${stats.sla.overdue} still overdue.`, MARGIN, doc.y, { width: contentWidth(doc) });
+    doc.moveDown();
+  }
+
+  heading(doc, 'Ratings');
+  barChart(doc, [5, 4, 3, 2, 1].map(r => ({
+    label: `${r} star${r === 1 ? '' : 's'}`,
+    value: stats.ratingStats[r] || 0,
+    color: COLORS.ratings[r - 1]
+  })));
+
+  heading(doc, 'Categories');
+  // Display order first, then anything left over (e.g. feedback in a deleted category)
+  const known = categories.filter(c => stats.categoryStats[c.id]).map(c => ({ label: c.name, value: stats.categoryStats[c.id] }));
+  const unknown = Object.entries(stats.categoryStats)
+    .filter(([id]) => !stats.categoryMap[id])
+    .map(([id, value]) => ({ label: id, value }));
+  barChart(doc, [...known, ...unknown]);
+
+  heading(doc, 'Status');
+  barChart(doc, workflow.states.map((s, i) => ({
+    label: s.label,
+    value: stats.statusStats[s.id] || 0,
+    color: COLORS.statuses[s.closed ? 'closed' : i === 0 ? 'initial' : 'active']
+  })));
+
+  heading(doc, 'Comment sentiment');
+  barChart(doc, ['positive', 'neutral', 'negative'].map(s => ({
+    label: s[0].toUpperCase() + s.slice(1),
+    value: stats.sentimentStats[s] || 0,
+    color: COLORS.sentiments[s]
+  })));
+  doc.font('body').fontSize(10).fillColor(COLORS.muted)
+    .text(`${stats.mismatchCount} response(s) where the rating contradicts the comment (e.g. five stars with a complaint).`, MARGIN, doc.y, { width: contentWidth(doc) });
+  doc.moveDown();
+
+  heading(doc, 'Top keywords');
+  barChart(doc, stats.commonWords.map(({ word, count }) => ({ label: word, value: count })), { color: '#8b5cf6' });
+};
+
+const commentsAppendix = (doc, feedback, categoryNames, workflow) => {
+  doc.addPage();
+  heading(doc, `Appendix: comments (${feedback.length})`);
+  if (feedback.length === 0) {
+    doc.font('body').fontSize(10).fillColor(COLORS.muted).text('No feedback in this period.');
+    return;
+  }
+  for (const f of feedback) {
+    ensureSpace(doc, 70);
+    const status = f.status || 'open';
+    doc.font('bold').fontSize(9).fillColor(COLORS.muted).text(
+      `${formatDate(f.timestamp)}  ·  ${categoryNames[f.category] || f.category}  ·  ${f.rating}/5  ·  ${statusLabel(workflow, status)}`,
+      MARGIN, doc.y, { width: contentWidth(doc) }
+    );
+    doc.moveDown(0.2);
+    doc.font('body').fontSize(10).fillColor(COLORS.text).text(f.comment || '', { width: contentWidth(doc) });
+    for (const note of f.notes || []) {
+      doc.moveDown(0.2);
+      doc.font('body').fontSize(9).fillColor(COLORS.primary).text(`${note.author || 'Admin note'}: ${note.text}`, { width: contentWidth(doc) });
+    }
+    doc.moveDown(0.4);
+    doc.moveTo(MARGIN, doc.y).lineTo(doc.page.width - MARGIN, doc.y).lineWidth(0.5).strokeColor(COLORS.rule).stroke();
+    doc.moveDown(0.6);
+  }
+};
+
+// "Page x of y" on every page after the cover
+const pageNumbers = (doc) => {
+  const { start, count } = doc.bufferedPageRange();
+  for (let i = start + 1; i < start + count; i++) {
+    doc.switchToPage(i);
+    // Writing inside the bottom margin would otherwise start a new page
+    const bottom = doc.page.margins.bottom;
+    doc.page.margins.bottom = 0;
+    doc.font('body').fontSize(8).fillColor(COLORS.muted)
+      .text(`Page ${i + 1} of ${count}`, MARGIN, doc.page.height - 30, { width: contentWidth(doc), align: 'right', lineBreak: false });
+    doc.page.margins.bottom = bottom;
+  }
+};
+
+// Write the report for the given (already parsed) feedback filters to `res`; `text` holds the
+// text-analysis settings for the keyword chart and `workflow` the states to chart
+const streamReport = async (res, storage, { filters, text, workflow, generatedBy }) => {
+  const [feedback, categories] = await Promise.all([
+    storage.feedback.query({ filters, sort: { field: 'timestamp', direction: 'asc' } }),
+    storage.categories.all()
+  ]);
+  categories.sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  const stats = summarize(feedback, categories, { text });
+  const selectedNames = (filters.categories || []).map(id => stats.categoryMap[id] || id);
+  const range = { startDate: filters.startDate, endDate: filters.endDate };
+
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: MARGIN,
+    bufferPages: true,
+    info: { Title: 'Feedback Report', Author: generatedBy }
+  });
+  registerFonts(doc);
+
+  const stamp = [range.startDate, range.endDate].filter(Boolean).map(d => d.toISOString().split('T')[0]).join('-to-')
+    || new Date().toISOString().split('T')[0];
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="feedback-report-${stamp}.pdf"`);
+  res.setHeader('Cache-Control', 'no-store');
+  doc.pipe(res);
+
+  coverPage(doc, { range, categoryNames: selectedNames, generatedBy, total: feedback.length });
+  summaryPages(doc, stats, categories, workflow);
+  commentsAppendix(doc, feedback, stats.categoryMap, workflow);
+  pageNumbers(doc);
+  doc.end();
+};
+
+module.exports = { streamReport };
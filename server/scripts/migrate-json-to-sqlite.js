@@ -0,0 +1,39 @@
+// One-shot migration of the JSON data files into the SQLite database.
+//
+//   node scripts/migrate-json-to-sqlite.js
+//
+// Uses the same DATA_DIR / SQLITE_FILE settings as the server. Records whose id
+// already exists in the database are overwritten with the JSON copy, so the
+// script is safe to re-run.
+const { entities } = require('../storage/entities');
+const { createJsonStorage } = require('../storage/json');
+const { createSqliteStorage } = require('../storage/sqlite');
+const { storageConfig } = require('../storage');
+
+const migrate = async () => {
+  const config = storageConfig();
+  const source = createJsonStorage({ dataDir: config.dataDir });
+  const target = createSqliteStorage({ file: config.sqliteFile });
+
+  try {
+    for (const [name, spec] of Object.entries(entities)) {
+      const records = await source[name].all();
+      const existing = new Set((await target[name].all()).map(r => r[spec.key]));
+      const fresh = records.filter(r => !existing.has(r[spec.key]));
+      const present = records.filter(r => existing.has(r[spec.key]));
+      await target[name].insertMany(fresh);
+      for (const record of present) {
+        await target[name].update(record[spec.key], record);
+      }
+      console.log(`${name}: ${fresh.length} inserted, ${present.length} updated`);
+    }
+    console.log(`Done. Start the server with STORAGE_DRIVER=sqlite to use ${config.sqliteFile}`);
+  } finally {
+    await target.close();
+  }
+};
+
+migrate().catch((error) => {
+  console.error('Migration failed:', error);
+  process.exit(1);
+});
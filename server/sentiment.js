@@ -0,0 +1,109 @@
+// Offline, dependency-free sentiment scoring for feedback comments. Each word in a small
+// valence lexicon (English and Tamil, -3..+3, tuned for course feedback) contributes its
+// score; a preceding negator ("not", "never") flips and dampens it, a following Tamil
+// negator ("இல்லை") does the same, intensifiers ("very", "மிகவும்") scale it, and after
+// "but" / "ஆனால்" the later clause counts for more, as it usually carries the point. The
+// sum is squashed into -1..1 the way VADER does it.
+const { tokenize, stem } = require('./text');
+
+const LEXICON = {
+  // English, positive
+  amazing: 3, awesome: 3, brilliant: 3, excellent: 3, exceptional: 3, fantastic: 3, outstanding: 3, superb: 3,
+  wonderful: 3, perfect: 3, love: 3, loved: 3, best: 3, incredible: 3, inspiring: 3,
+  good: 2, great: 2, helpful: 2, useful: 2, clear: 2, enjoyed: 2, enjoy: 2, enjoyable: 2, engaging: 2,
+  interesting: 2, informative: 2, insightful: 2, knowledgeable: 2, supportive: 2, friendly: 2, patient: 2,
+  valuable: 2, effective: 2, impressive: 2, happy: 2, glad: 2, satisfied: 2, recommend: 2, thank: 2, thanks: 2,
+  beneficial: 2, organized: 2, organised: 2, approachable: 2, motivating: 2, motivated: 2,
+  easy: 1, fine: 1, nice: 1, ok: 1, okay: 1, decent: 1, fair: 1, liked: 1, improved: 1,
+  better: 1, relevant: 1, practical: 1, comfortable: 1, fun: 2, pleasant: 2, smooth: 1, quick: 1, responsive: 1,
+  understandable: 1, learned: 1, learnt: 1, interactive: 1, appreciate: 2, appreciated: 2, worth: 1, works: 1,
+  // English, negative
+  terrible: -3, horrible: -3, awful: -3, worst: -3, useless: -3, pathetic: -3, hate: -3, hated: -3, disgusting: -3,
+  waste: -3, wasted: -3, unacceptable: -3, rude: -3, disaster: -3, nightmare: -3, abusive: -3,
+  bad: -2, poor: -2, boring: -2, confusing: -2, confused: -2, difficult: -1, hard: -1, unclear: -2, slow: -1,
+  disappointed: -2, disappointing: -2, frustrating: -2, frustrated: -2, annoying: -2, annoyed: -2, unhelpful: -2,
+  irrelevant: -2, outdated: -2, broken: -2, problem: -1, problems: -1, issue: -1, issues: -1, complaint: -2,
+  unfair: -2, unprofessional: -2, disorganized: -2, disorganised: -2, chaotic: -2, rushed: -2, late: -1,
+  noisy: -1, crowded: -1, overcrowded: -2, dirty: -2, uncomfortable: -2, hot: -1, cancelled: -1, canceled: -1,
+  missing: -1, lack: -1, lacking: -1, lacks: -1, fail: -2, failed: -2, fails: -2, failure: -2, wrong: -2,
+  worse: -2, hopeless: -3, stressful: -2, stress: -2, tired: -1, tiring: -1, tedious: -2, monotonous: -2,
+  repetitive: -1, unresponsive: -2, ignored: -2, ignore: -1, sad: -2, angry: -3,
+  upset: -2, worried: -1, afraid: -1, scared: -2, inadequate: -2, insufficient: -2,
+  // Tamil
+  'அருமை': 3, 'அருமையான': 3, 'சிறப்பு': 3, 'சிறப்பான': 3, 'சிறந்த': 3, 'மிகச்சிறந்த': 3, 'அற்புதம்': 3,
+  'அற்புதமான': 3, 'நல்ல': 2, 'நன்று': 2, 'நன்றாக': 2, 'நன்றி': 2, 'பயனுள்ள': 2, 'உதவியாக': 2, 'பிடித்தது': 2,
+  'மகிழ்ச்சி': 2, 'தெளிவாக': 2, 'தெளிவான': 2, 'சுவாரசியமான': 2, 'எளிதாக': 1,
+  'மோசம்': -3, 'மோசமான': -3, 'மோசமாக': -3, 'கேவலம்': -3, 'வீண்': -3, 'பயனற்ற': -3, 'கஷ்டம்': -2,
+  'கடினம்': -1, 'கடினமான': -1, 'சலிப்பு': -2, 'சலிப்பான': -2, 'குழப்பம்': -2, 'குழப்பமான': -2,
+  'பிரச்சனை': -1, 'பிரச்சினை': -1, 'தாமதம்': -1, 'வருத்தம்': -2, 'ஏமாற்றம்': -2, 'கோபம்': -2, 'புரியவில்லை': -2
+};
+
+// Negators that come before the word they negate ("not good")
+const NEGATORS_BEFORE = new Set([
+  'not', 'no', 'never', "isn't", "wasn't", "aren't", "weren't", "don't", "doesn't", "didn't", "can't", 'cannot',
+  "couldn't", "won't", "wouldn't", "shouldn't", "haven't", "hasn't", "hadn't", 'hardly', 'barely', 'without',
+  'neither', 'nor', 'isnt', 'wasnt', 'dont', 'doesnt', 'didnt', 'cant', 'couldnt', 'wont'
+]);
+// Tamil negates after the word ("நன்றாக இல்லை", "not good")
+const NEGATORS_AFTER = new Set(['இல்லை', 'அல்ல', 'இல்ல']);
+
+const INTENSIFIERS = new Map(Object.entries({
+  very: 1.3, really: 1.3, so: 1.2, too: 1.2, extremely: 1.5, highly: 1.4, absolutely: 1.5, totally: 1.4,
+  completely: 1.4, incredibly: 1.5, super: 1.3, quite: 1.1, most: 1.2, 'மிகவும்': 1.4, 'மிக': 1.3, 'ரொம்ப': 1.4,
+  somewhat: 0.7, slightly: 0.6, little: 0.8, bit: 0.8, kinda: 0.8, 'கொஞ்சம்': 0.8
+}));
+const CONTRASTS = new Set(['but', 'however', 'although', 'though', 'yet', 'ஆனால்', 'ஆனாலும்']);
+
+// A negated word keeps some of its weight in the opposite direction ("not bad" is mildly positive)
+const NEGATION_FACTOR = -0.74;
+// Words this far before a sentiment word can still negate or intensify it
+const LOOKBACK = 3;
+// Before a contrast word counts half, after it one and a half
+const BEFORE_CONTRAST = 0.5;
+const AFTER_CONTRAST = 1.5;
+const NORMALIZE_ALPHA = 15;
+
+const THRESHOLD = 0.05;
+// |score| at least this much counts as "strongly" positive or negative for mismatch detection
+const STRONG = 0.5;
+
+// Maps rather than object lookups, so words like "constructor" don't hit Object.prototype.
+// Unlisted inflections are matched by stem ("disappoints" scores like "disappointed"); listed words win.
+const exact = new Map(Object.entries(LEXICON));
+const byStem = new Map(Object.entries(LEXICON).map(([w, v]) => [stem(w), v]));
+const valence = (token) => exact.get(token) ?? byStem.get(stem(token)) ?? 0;
+
+// Score in -1..1 (rounded to 3 places) for a piece of text
+const scoreText = (text) => {
+  const tokens = tokenize(text);
+  const contrastAt = tokens.reduce((last, t, i) => (CONTRASTS.has(t) ? i : last), -1);
+  let sum = 0;
+  tokens.forEach((token, i) => {
+    let value = valence(token);
+    if (value === 0) return;
+    for (let j = Math.max(0, i - LOOKBACK); j < i; j++) {
+      const previous = tokens[j];
+      if (NEGATORS_BEFORE.has(previous)) value *= NEGATION_FACTOR;
+      else if (j === i - 1 && INTENSIFIERS.has(previous)) value *= INTENSIFIERS.get(previous);
+    }
+    if (NEGATORS_AFTER.has(tokens[i + 1])) value *= NEGATION_FACTOR;
+    if (contrastAt !== -1) value *= i < contrastAt ? BEFORE_CONTRAST : AFTER_CONTRAST;
+    sum += value;
+  });
+  return Math.round((sum / Math.sqrt(sum * sum + NORMALIZE_ALPHA)) * 1000) / 1000;
+};
+
+const SENTIMENTS = ['positive', 'neutral', 'negative'];
+
+const label = (score) => (score >= THRESHOLD ? 'positive' : score <= -THRESHOLD ? 'negative' : 'neutral');
+
+// High rating with a strongly negative comment, or the reverse
+const isMismatch = (rating, score) => (rating >= 4 && score <= -STRONG) || (rating <= 2 && score >= STRONG);
+
+// The sentiment fields stored on a feedback record
+const scoreFeedback = ({ comment, rating }) => {
+  const score = scoreText(comment);
+  return { sentiment: label(score), sentiment_score: score, sentiment_mismatch: isMismatch(rating, score) };
+};
+
+module.exports = { SENTIMENTS, scoreText, scoreFeedback };
@@ -0,0 +1,45 @@
+// Admin-editable settings, stored as one record per feature in the `settings` collection.
+// Each feature registers its defaults and a validator; stored values are merged over the
+// defaults so new fields pick up their default until someone changes them.
+
+class SettingsValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'SettingsValidationError';
+  }
+}
+
+const createSettings = (storage, audit, definitions) => {
+  const has = (id) => Object.hasOwn(definitions, id);
+
+  const definition = (id) => {
+    if (!has(id)) throw new Error(`Unknown settings "${id}"`);
+    return definitions[id];
+  };
+
+  // Current values for a feature, defaults filled in
+  const get = async (id) => {
+    const { defaults } = definition(id);
+    const stored = (await storage.settings.get(id)) || {};
+    delete stored.id;
+    return { ...defaults, ...stored };
+  };
+
+  // Validate and store a partial update; throws SettingsValidationError for bad input
+  const update = async (req, id, changes) => {
+    const { validate } = definition(id);
+    const before = await get(id);
+    const after = { ...before, ...validate(changes || {}) };
+    if (await storage.settings.get(id)) {
+      await storage.settings.update(id, after);
+    } else {
+      await storage.settings.insert({ id, ...after });
+    }
+    await audit.recordChange(req, { action: 'settings.update', targetType: 'settings', targetId: id, before, after });
+    return after;
+  };
+
+  return { has, get, update };
+};
+
+module.exports = { createSettings, SettingsValidationError };
@@ -0,0 +1,450 @@
+// Entity definitions shared by every storage backend.
+//
+// Each entity describes its primary key, the JSON file / SQLite table it lives in,
+// the columns the SQLite backend extracts (and indexes) from each record, and the
+// filters and sorts its repository supports. Filters have two forms: `match` for
+// backends that scan in memory and `sql` for backends that push the filter down.
+// Sorts likewise give a `value` for in-memory backends (which may look up related
+// records through its second argument) and a `column` or `sql` expression for SQL.
+// Adding a new entity, filter or sort only means extending this file.
+
+const toTime = (value) => {
+  const d = new Date(value);
+  return isNaN(d.getTime()) ? undefined : d;
+};
+
+// Like toTime, but a bare date (YYYY-MM-DD) means the end of that day so date ranges are inclusive
+const toEndTime = (value) => {
+  const d = toTime(value);
+  if (d && /^\d{4}-\d{2}-\d{2}$/.test(String(value))) d.setUTCHours(23, 59, 59, 999);
+  return d;
+};
+
+// Default workflow order (see workflow.js), for statuses the saved workflow doesn't list
+const STATUS_ORDER = ['open', 'in_progress', 'completed'];
+
+const feedbackFilters = {
+  // Category id
+  category: {
+    parse: (v) => String(v),
+    match: (f, v) => f.category === v,
+    sql: (v) => ['category = ?', [v]]
+  },
+  // Any of several category ids (comma-separated in query strings)
+  categories: {
+    parse: (v) => {
+      const ids = (Array.isArray(v) ? v : String(v).split(',')).map(id => String(id).trim()).filter(Boolean);
+      return ids.length ? ids : undefined;
+    },
+    match: (f, ids) => ids.includes(f.category),
+    sql: (ids) => [`category IN (${ids.map(() => '?').join(', ')})`, ids]
+  },
+  rating: {
+    parse: (v) => {
+      const n = parseInt(v);
+      return isNaN(n) ? undefined : n;
+    },
+    match: (f, v) => f.rating === v,
+    sql: (v) => ['rating = ?', [v]]
+  },
+  status: {
+    parse: (v) => String(v),
+    match: (f, v) => (f.status || 'open') === v,
+    sql: (v) => ['status = ?', [v]]
+  },
+  startDate: {
+    parse: toTime,
+    match: (f, v) => new Date(f.timestamp) >= v,
+    sql: (v) => ['timestamp >= ?', [v.toISOString()]]
+  },
+  endDate: {
+    parse: toEndTime,
+    match: (f, v) => new Date(f.timestamp) <= v,
+    sql: (v) => ['timestamp <= ?', [v.toISOString()]]
+  },
+  // true: only entries in the trash; false: only live entries
+  trashed: {
+    parse: (v) => (v === true || v === 'true' ? true : v === false || v === 'false' ? false : undefined),
+    match: (f, v) => !!f.deleted_at === v,
+    sql: (v) => [v ? 'deleted_at IS NOT NULL' : 'deleted_at IS NULL', []]
+  },
+  // Comment sentiment label (positive, neutral or negative; see sentiment.js)
+  sentiment: {
+    parse: (v) => String(v),
+    match: (f, v) => f.sentiment === v,
+    sql: (v) => ['sentiment = ?', [v]]
+  },
+  // true: only entries whose rating contradicts their comment's sentiment
+  mismatch: {
+    parse: (v) => (v === true || v === 'true' ? true : v === false || v === 'false' ? false : undefined),
+    match: (f, v) => !!f.sentiment_mismatch === v,
+    sql: (v) => ['sentiment_mismatch = ?', [v ? 1 : 0]]
+  },
+  // true: only submissions held for moderation (see abuse.js); false: only published ones
+  held: {
+    parse: (v) => (v === true || v === 'true' ? true : v === false || v === 'false' ? false : undefined),
+    match: (f, v) => !!f.held === v,
+    sql: (v) => ['held = ?', [v ? 1 : 0]]
+  },
+  // Submitted from any of these device tokens (comma-separated in query strings)
+  devices: {
+    parse: (v) => {
+      const tokens = (Array.isArray(v) ? v : String(v).split(',')).map(t => String(t).trim()).filter(Boolean);
+      return tokens.length ? tokens : undefined;
+    },
+    match: (f, tokens) => tokens.includes(f.hash),
+    sql: (tokens) => [`hash IN (${tokens.map(() => '?').join(', ')})`, tokens]
+  },
+  // Survey form id (see forms.js); feedback from before forms existed answered "default"
+  form: {
+    parse: (v) => String(v),
+    match: (f, v) => (f.form_id || 'default') === v,
+    sql: (v) => ['form_id = ?', [v]]
+  },
+  // Cohort and trainer of the collection link it came through (see links.js); exact match
+  cohort: {
+    parse: (v) => String(v),
+    match: (f, v) => f.cohort === v,
+    sql: (v) => ['cohort = ?', [v]]
+  },
+  trainer: {
+    parse: (v) => String(v),
+    match: (f, v) => f.trainer === v,
+    sql: (v) => ['trainer = ?', [v]]
+  },
+  // Collection link id
+  link: {
+    parse: (v) => String(v),
+    match: (f, v) => f.link_id === v,
+    sql: (v) => ['link_id = ?', [v]]
+  },
+  // Assigned admin (user id), or "none" for unassigned feedback
+  assignee: {
+    parse: (v) => String(v),
+    match: (f, v) => (v === 'none' ? !f.assignee_id : f.assignee_id === v),
+    sql: (v) => (v === 'none' ? ['assignee_id IS NULL', []] : ['assignee_id = ?', [v]])
+  },
+  // true: only unresolved feedback whose due date has passed (see workflow.js)
+  overdue: {
+    parse: (v) => (v === true || v === 'true' ? true : undefined),
+    match: (f) => !f.resolved_at && !!f.due_at && new Date(f.due_at) < new Date(),
+    sql: () => ['resolved_at IS NULL AND due_at < ?', [new Date().toISOString()]]
+  },
+  // Public board state: 'pending' review or 'published' (see board.js)
+  publication: {
+    parse: (v) => (v === 'pending' || v === 'published' ? v : undefined),
+    match: (f, v) => f.publish_state === v,
+    sql: (v) => ['publish_state = ?', [v]]
+  },
+  // SHA-256 of a receipt code (see receipts.js)
+  receipt: {
+    parse: (v) => String(v),
+    match: (f, v) => f.receipt_hash === v,
+    sql: (v) => ['receipt_hash = ?', [v]]
+  },
+  // Trashed on or before this time (used by the retention purge)
+  deletedBefore: {
+    parse: toTime,
+    match: (f, v) => !!f.deleted_at && new Date(f.deleted_at) <= v,
+    sql: (v) => ['deleted_at <= ?', [v.toISOString()]]
+  },
+  // Internal notes mentioning this admin (user id; see notes.js)
+  mentions: {
+    parse: (v) => String(v),
+    match: (f, v) => (f.notes || []).some(n => (n.mentions || []).includes(v)),
+    sql: (v) => [
+      "EXISTS (SELECT 1 FROM json_each(data, '$.notes') AS n, json_each(n.value, '$.mentions') AS m WHERE m.value = ?)",
+      [v]
+    ]
+  },
+  // Tagged with any of several tag ids (see tags.js)
+  tags: {
+    parse: (v) => {
+      const ids = (Array.isArray(v) ? v : String(v).split(',')).map(id => String(id).trim()).filter(Boolean);
+      return ids.length ? ids : undefined;
+    },
+    match: (f, ids) => (f.tags || []).some(id => ids.includes(id)),
+    sql: (ids) => [
+      `EXISTS (SELECT 1 FROM json_each(data, '$.tags') AS t WHERE t.value IN (${ids.map(() => '?').join(', ')}))`,
+      ids
+    ]
+  },
+  // Tagged with all of several tag ids
+  allTags: {
+    parse: (v) => {
+      const ids = [...new Set((Array.isArray(v) ? v : String(v).split(',')).map(id => String(id).trim()).filter(Boolean))];
+      return ids.length ? ids : undefined;
+    },
+    match: (f, ids) => ids.every(id => (f.tags || []).includes(id)),
+    sql: (ids) => [
+      `(SELECT count(DISTINCT t.value) FROM json_each(data, '$.tags') AS t WHERE t.value IN (${ids.map(() => '?').join(', ')})) = ?`,
+      [...ids, ids.length]
+    ]
+  },
+  // Any of several feedback ids
+  ids: {
+    parse: (v) => {
+      const ids = (Array.isArray(v) ? v : String(v).split(',')).map(id => String(id).trim()).filter(Boolean);
+      return ids.length ? ids : undefined;
+    },
+    match: (f, ids) => ids.includes(f.feedback_id),
+    sql: (ids) => [`id IN (${ids.map(() => '?').join(', ')})`, ids]
+  },
+  // Case-insensitive substring search in comments and the internal notes thread
+  search: {
+    parse: (v) => String(v).toLowerCase(),
+    match: (f, q) =>
+      (f.comment && f.comment.toLowerCase().includes(q)) ||
+      (f.notes || []).some(n => n.text.toLowerCase().includes(q)),
+    sql: (q) => [
+      "(instr(lower(json_extract(data, '$.comment')), ?) > 0 OR EXISTS (SELECT 1 FROM json_each(data, '$.notes') AS n WHERE instr(lower(json_extract(n.value, '$.text')), ?) > 0))",
+      [q, q]
+    ]
+  }
+};
+
+const entities = {
+  feedback: {
+    key: 'feedback_id',
+    file: 'feedback.json',
+    table: 'feedback',
+    columns: {
+      timestamp: { type: 'TEXT', value: (f) => f.timestamp, index: true },
+      category: { type: 'TEXT', value: (f) => f.category, index: true },
+      status: { type: 'TEXT', value: (f) => f.status || 'open', index: true },
+      rating: { type: 'INTEGER', value: (f) => f.rating, index: true },
+      deleted_at: { type: 'TEXT', value: (f) => f.deleted_at || null, index: true },
+      sentiment: { type: 'TEXT', value: (f) => f.sentiment || null, index: true },
+      sentiment_score: { type: 'REAL', value: (f) => f.sentiment_score ?? null, index: true },
+      sentiment_mismatch: { type: 'INTEGER', value: (f) => (f.sentiment_mismatch ? 1 : 0), index: true },
+      held: { type: 'INTEGER', value: (f) => (f.held ? 1 : 0), index: true },
+      hash: { type: 'TEXT', value: (f) => f.hash || null, index: true },
+      form_id: { type: 'TEXT', value: (f) => f.form_id || 'default', index: true },
+      link_id: { type: 'TEXT', value: (f) => f.link_id || null, index: true },
+      cohort: { type: 'TEXT', value: (f) => f.cohort || null, index: true },
+      trainer: { type: 'TEXT', value: (f) => f.trainer || null, index: true },
+      receipt_hash: { type: 'TEXT', value: (f) => f.receipt_hash || null, index: true },
+      publish_state: { type: 'TEXT', value: (f) => f.publish_state || null, index: true },
+      assignee_id: { type: 'TEXT', value: (f) => f.assignee_id || null, index: true },
+      due_at: { type: 'TEXT', value: (f) => f.due_at || null, index: true },
+      resolved_at: { type: 'TEXT', value: (f) => f.resolved_at || null, index: true }
+    },
+    filters: feedbackFilters,
+    sorts: {
+      timestamp: { column: 'timestamp', value: (f) => new Date(f.timestamp).getTime() },
+      rating: { column: 'rating', value: (f) => f.rating },
+      // By the category's display position; feedback with an unknown category sorts last
+      category: {
+        sql: '(SELECT position FROM categories WHERE categories.id = feedback.category)',
+        value: (f, related) => related('categories', f.category)?.order ?? null
+      },
+      // In the order of the saved workflow's states
+      status: {
+        sql: `coalesce(
+          (SELECT s.key FROM settings, json_each(settings.data, '$.states') AS s
+            WHERE settings.id = 'workflow' AND json_extract(s.value, '$.id') = feedback.status),
+          CASE status ${STATUS_ORDER.map((s, i) => `WHEN '${s}' THEN ${i}`).join(' ')} END
+        )`,
+        value: (f, related) => {
+          const status = f.status || 'open';
+          const saved = related('settings', 'workflow')?.states?.findIndex(s => s.id === status) ?? -1;
+          const i = saved === -1 ? STATUS_ORDER.indexOf(status) : saved;
+          return i === -1 ? null : i;
+        }
+      },
+      // Soonest first when ascending; feedback without a due date sorts last
+      due: { column: 'due_at', value: (f) => (f.due_at ? new Date(f.due_at).getTime() : null) },
+      deleted_at: { column: 'deleted_at', value: (f) => (f.deleted_at ? new Date(f.deleted_at).getTime() : 0) },
+      // Most negative first when ascending; unscored entries sort last
+      sentiment: { column: 'sentiment_score', value: (f) => f.sentiment_score ?? null }
+    },
+    defaultSort: { field: 'timestamp', direction: 'desc' },
+    seed: []
+  },
+
+  categories: {
+    key: 'id',
+    file: 'categories.json',
+    table: 'categories',
+    columns: {
+      position: { type: 'INTEGER', value: (c) => c.order ?? 0 }
+    },
+    filters: {},
+    sorts: {
+      order: { column: 'position', value: (c) => c.order ?? 0 }
+    },
+    defaultSort: { field: 'order', direction: 'asc' },
+    seed: [
+      { id: 'general', name: 'General', description: 'General feedback', order: 0, archived: false }
+    ]
+  },
+
+  // Admin accounts; passwords are stored only as bcrypt hashes
+  users: {
+    key: 'id',
+    file: 'users.json',
+    table: 'users',
+    columns: {
+      username: { type: 'TEXT', value: (u) => u.username.toLowerCase(), index: true }
+    },
+    filters: {
+      // Case-insensitive exact match
+      username: {
+        parse: (v) => String(v).toLowerCase(),
+        match: (u, v) => u.username.toLowerCase() === v,
+        sql: (v) => ['username = ?', [v]]
+      },
+      role: {
+        parse: (v) => String(v),
+        match: (u, v) => u.role === v,
+        sql: (v) => ["json_extract(data, '$.role') = ?", [v]]
+      }
+    },
+    sorts: {
+      username: { column: 'username', value: (u) => u.username.toLowerCase() }
+    },
+    defaultSort: { field: 'username', direction: 'asc' },
+    seed: []
+  },
+
+  // Admin-editable configuration, one record per feature (e.g. id "text-analysis")
+  settings: {
+    key: 'id',
+    file: 'settings.json',
+    table: 'settings',
+    columns: {},
+    filters: {},
+    sorts: {
+      id: { column: 'id', value: (s) => s.id }
+    },
+    defaultSort: { field: 'id', direction: 'asc' },
+    seed: []
+  },
+
+  // Survey forms with every version of their questions (see forms.js)
+  forms: {
+    key: 'id',
+    file: 'forms.json',
+    table: 'forms',
+    columns: {
+      name: { type: 'TEXT', value: (f) => f.name.toLowerCase() }
+    },
+    filters: {},
+    sorts: {
+      name: { column: 'name', value: (f) => f.name.toLowerCase() }
+    },
+    defaultSort: { field: 'name', direction: 'asc' },
+    seed: []
+  },
+
+  // Collection links (/f/:code) for a cohort, trainer and session (see links.js)
+  links: {
+    key: 'id',
+    file: 'links.json',
+    table: 'links',
+    columns: {
+      code: { type: 'TEXT', value: (l) => l.code, index: true },
+      created_at: { type: 'TEXT', value: (l) => l.created_at, index: true }
+    },
+    filters: {
+      code: {
+        parse: (v) => String(v).toLowerCase(),
+        match: (l, v) => l.code === v,
+        sql: (v) => ['code = ?', [v]]
+      }
+    },
+    sorts: {
+      created_at: { column: 'created_at', value: (l) => new Date(l.created_at).getTime() }
+    },
+    defaultSort: { field: 'created_at', direction: 'desc' },
+    seed: []
+  },
+
+  // Admin-defined tags with a colour, attached to feedback by id (see tags.js)
+  tags: {
+    key: 'id',
+    file: 'tags.json',
+    table: 'tags',
+    columns: {
+      name: { type: 'TEXT', value: (t) => t.name.toLowerCase(), index: true }
+    },
+    filters: {
+      // Case-insensitive exact match
+      name: {
+        parse: (v) => String(v).toLowerCase(),
+        match: (t, v) => t.name.toLowerCase() === v,
+        sql: (v) => ['name = ?', [v]]
+      }
+    },
+    sorts: {
+      name: { column: 'name', value: (t) => t.name.toLowerCase() }
+    },
+    defaultSort: { field: 'name', direction: 'asc' },
+    seed: []
+  },
+
+  // Append-only record of admin mutations; entries are inserted, never updated or removed
+  audit: {
+    key: 'id',
+    file: 'audit.json',
+    table: 'audit',
+    columns: {
+      timestamp: { type: 'TEXT', value: (a) => a.timestamp, index: true },
+      actor_id: { type: 'TEXT', value: (a) => a.actor_id, index: true },
+      action: { type: 'TEXT', value: (a) => a.action, index: true },
+      target_id: { type: 'TEXT', value: (a) => a.target_id, index: true }
+    },
+    filters: {
+      actor: {
+        parse: (v) => String(v),
+        match: (a, v) => a.actor_id === v,
+        sql: (v) => ['actor_id = ?', [v]]
+      },
+      action: {
+        parse: (v) => String(v),
+        match: (a, v) => a.action === v,
+        sql: (v) => ['action = ?', [v]]
+      },
+      // All actions on one kind of record, e.g. "feedback" or "category"
+      targetType: {
+        parse: (v) => String(v),
+        match: (a, v) => a.target_type === v,
+        sql: (v) => ["json_extract(data, '$.target_type') = ?", [v]]
+      },
+      target: {
+        parse: (v) => String(v),
+        match: (a, v) => a.target_id === v,
+        sql: (v) => ['target_id = ?', [v]]
+      },
+      startDate: {
+        parse: toTime,
+        match: (a, v) => new Date(a.timestamp) >= v,
+        sql: (v) => ['timestamp >= ?', [v.toISOString()]]
+      },
+      endDate: {
+        parse: toEndTime,
+        match: (a, v) => new Date(a.timestamp) <= v,
+        sql: (v) => ['timestamp <= ?', [v.toISOString()]]
+      }
+    },
+    sorts: {
+      timestamp: { column: 'timestamp', value: (a) => a.timestamp }
+    },
+    defaultSort: { field: 'timestamp', direction: 'desc' },
+    seed: []
+  }
+};
+
+// Turn raw request query values into typed filter values, dropping empty, "all" and unparseable ones
+const parseFilters = (entity, query = {}) => {
+  const parsed = {};
+  for (const [name, def] of Object.entries(entities[entity].filters)) {
+    const raw = query[name];
+    if (raw === undefined || raw === null || raw === '' || raw === 'all') continue;
+    const value = def.parse(raw);
+    if (value !== undefined) parsed[name] = value;
+  }
+  return parsed;
+};
+
+module.exports = { entities, parseFilters };
@@ -0,0 +1,28 @@
+const path = require('path');
+const { createJsonStorage } = require('./json');
+const { createSqliteStorage } = require('./sqlite');
+const { parseFilters } = require('./entities');
+
+// Storage is selected with STORAGE_DRIVER ("json" by default, or "sqlite").
+// DATA_DIR and SQLITE_FILE override where each backend keeps its data.
+const storageConfig = (env = process.env) => {
+  const dataDir = env.DATA_DIR || path.join(__dirname, '..', 'data');
+  return {
+    driver: (env.STORAGE_DRIVER || 'json').toLowerCase(),
+    dataDir,
+    sqliteFile: env.SQLITE_FILE || path.join(dataDir, 'feedback.db')
+  };
+};
+
+const createStorage = (config = storageConfig()) => {
+  switch (config.driver) {
+    case 'json':
+      return createJsonStorage({ dataDir: config.dataDir });
+    case 'sqlite':
+      return createSqliteStorage({ file: config.sqliteFile });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${config.driver}" (expected "json" or "sqlite")`);
+  }
+};
+
+module.exports = { createStorage, storageConfig, parseFilters };
@@ -0,0 +1,311 @@
+const fs = require('fs');
+const path = require('path');
+const { entities } = require('./entities');
+
+// Each collection is a JSON snapshot file plus an append-only journal next to it
+// (`feedback.json` + `feedback.json.journal`). Every mutation is appended to the
+// journal and fsynced before it is acknowledged; the snapshot is rewritten
+// atomically (temp file + rename) once the journal grows past a threshold or the
+// store goes idle. On startup the journal is replayed on top of the snapshot.
+const COMPACT_AFTER_OPS = 200;
+const COMPACT_IDLE_MS = 5000;
+
+class StorageCorruptError extends Error {
+  constructor(file, reason) {
+    super(`Data file ${file} is corrupt (${reason}); refusing to start. Restore it from a backup or fix it by hand.`);
+    this.name = 'StorageCorruptError';
+    this.file = file;
+  }
+}
+
+// Write via a temp file and rename so readers never see a half-written file
+const writeFileAtomic = (file, contents) => {
+  const tmp = `${file}.${process.pid}.tmp`;
+  const fd = fs.openSync(tmp, 'w');
+  try {
+    fs.writeSync(fd, contents);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tmp, file);
+  try {
+    // Persist the rename itself; not supported on every platform
+    const dirFd = fs.openSync(path.dirname(file), 'r');
+    fs.fsyncSync(dirFd);
+    fs.closeSync(dirFd);
+  } catch (error) {
+    // ignore
+  }
+};
+
+// Runs async tasks one at a time in submission order
+const createWriteQueue = () => {
+  let tail = Promise.resolve();
+  return (task) => {
+    const result = tail.then(task);
+    tail = result.catch(() => {});
+    return result;
+  };
+};
+
+// One of the entity's declared sorts, and 1 or -1 for its direction
+const sortDef = (spec, sort) => {
+  const { field, direction } = sort || spec.defaultSort;
+  return { def: spec.sorts[field] || spec.sorts[spec.defaultSort.field], sign: direction === 'asc' ? 1 : -1 };
+};
+
+// Order two (sort value, key) positions: missing values last, ties broken by key so paging is stable
+const comparePositions = (sign, va, ka, vb, kb) => {
+  const aMissing = va === undefined || va === null;
+  const bMissing = vb === undefined || vb === null;
+  if (aMissing !== bMissing) return aMissing ? 1 : -1;
+  if (!aMissing && va !== vb) return (va < vb ? -1 : 1) * sign;
+  return ka === kb ? 0 : (ka < kb ? -1 : 1) * sign;
+};
+
+// Compare two records using one of the entity's declared sorts
+const comparator = (spec, sort, related) => {
+  const { def, sign } = sortDef(spec, sort);
+  return (a, b) => comparePositions(sign, def.value(a, related), a[spec.key], def.value(b, related), b[spec.key]);
+};
+
+// Apply one journal entry to an in-memory record list. Replaying an entry the snapshot already
+// holds must change nothing (a crash between writing the snapshot and emptying the journal
+// replays the whole journal), so inserts replace records with the same key instead of adding them.
+const applyOp = (spec, records, entry) => {
+  switch (entry.op) {
+    case 'insert': {
+      const inserted = new Map(entry.records.map(r => [r[spec.key], r]));
+      const replaced = records.map(r => inserted.get(r[spec.key]) || r);
+      const present = new Set(records.map(r => r[spec.key]));
+      return [...replaced, ...entry.records.filter(r => !present.has(r[spec.key]))];
+    }
+    case 'update': {
+      const changes = new Map(entry.changes.map(c => [c.id, c.changes]));
+      return records.map(r => (changes.has(r[spec.key]) ? { ...r, ...changes.get(r[spec.key]) } : r));
+    }
+    case 'remove': {
+      const ids = new Set(entry.ids);
+      return records.filter(r => !ids.has(r[spec.key]));
+    }
+    default:
+      throw new Error(`Unknown journal op "${entry.op}"`);
+  }
+};
+
+const readSnapshot = (file) => {
+  let parsed;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new StorageCorruptError(file, error.message);
+  }
+  if (!Array.isArray(parsed)) {
+    throw new StorageCorruptError(file, 'expected an array');
+  }
+  return parsed;
+};
+
+const readJournal = (file) => {
+  if (!fs.existsSync(file)) return [];
+  const lines = fs.readFileSync(file, 'utf8').split('\n');
+  const entries = [];
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    try {
+      entries.push(JSON.parse(line));
+    } catch (error) {
+      // A torn final line means we crashed mid-append before acknowledging it; drop it.
+      // Anything earlier was acknowledged, so losing it silently is not acceptable.
+      const isLast = lines.slice(i + 1).every(l => !l.trim());
+      if (!isLast) throw new StorageCorruptError(file, `unreadable entry on line ${i + 1}`);
+      console.warn(`Discarding incomplete journal entry at ${file}:${i + 1}`);
+    }
+  });
+  return entries;
+};
+
+const createJsonCollection = (spec, file, related) => {
+  const journalFile = `${file}.journal`;
+  const enqueue = createWriteQueue();
+
+  if (!fs.existsSync(file)) {
+    writeFileAtomic(file, JSON.stringify(spec.seed, null, 2));
+  }
+
+  // Load eagerly so a corrupt file stops the server at startup
+  let records = readSnapshot(file);
+  const journal = readJournal(journalFile);
+  for (const entry of journal) {
+    records = applyOp(spec, records, entry);
+  }
+  let pendingOps = journal.length;
+  let idleTimer = null;
+
+  const compact = () => {
+    if (idleTimer) {
+      clearTimeout(idleTimer);
+      idleTimer = null;
+    }
+    if (pendingOps === 0) return;
+    writeFileAtomic(file, JSON.stringify(records, null, 2));
+    fs.writeFileSync(journalFile, '');
+    pendingOps = 0;
+  };
+
+  if (pendingOps > 0) compact();
+
+  // Journal the change durably, then apply it in memory
+  const commit = async (entry) => {
+    const handle = await fs.promises.open(journalFile, 'a');
+    try {
+      await handle.appendFile(JSON.stringify(entry) + '\n');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    records = applyOp(spec, records, entry);
+    pendingOps++;
+    if (pendingOps >= COMPACT_AFTER_OPS) {
+      compact();
+    } else if (!idleTimer) {
+      idleTimer = setTimeout(() => enqueue(async () => compact()).catch(error => {
+        console.error(`Failed to compact ${file}:`, error);
+      }), COMPACT_IDLE_MS);
+      idleTimer.unref();
+    }
+  };
+
+  const matches = (criteria) => {
+    const active = Object.entries(criteria || {}).filter(([name]) => spec.filters[name]);
+    return (record) => active.every(([name, value]) => spec.filters[name].match(record, value));
+  };
+
+  const find = (id) => records.find(r => r[spec.key] === id) || null;
+
+  // Hand out copies so callers can't change cached records without going through the journal
+  const copy = (record) => (record ? { ...record } : null);
+
+  return {
+    async all() {
+      return records.map(copy);
+    },
+
+    async get(id) {
+      return copy(find(id));
+    },
+
+    // Synchronous, uncopied read for sorts that look at related records; never mutate the result
+    peek(id) {
+      return find(id);
+    },
+
+    // The value `sort` orders `record` by; with its key, where the record sits for keyset paging
+    async sortValue(record, sort) {
+      return sortDef(spec, sort).def.value(record, related) ?? null;
+    },
+
+    // Records matching parsed filters (see parseFilters), sorted by a declared sort, optionally paged.
+    // `after` is the position of the last record of the previous page (keyset paging), as
+    // `{ value, key }` with `value` from sortValue: only records sorting after it are returned,
+    // whether or not that record still exists or sorts the same way.
+    async query({ filters, sort, limit, offset = 0, after } = {}) {
+      const compare = comparator(spec, sort, related);
+      let candidates = records.filter(matches(filters));
+      if (after !== undefined) {
+        const { def, sign } = sortDef(spec, sort);
+        candidates = candidates.filter(r => comparePositions(sign, def.value(r, related), r[spec.key], after.value, after.key) > 0);
+      }
+      const sorted = candidates.sort(compare);
+      const page = limit === undefined ? sorted.slice(offset) : sorted.slice(offset, offset + limit);
+      return page.map(copy);
+    },
+
+    async count(filters) {
+      return records.filter(matches(filters)).length;
+    },
+
+    insert(record) {
+      return enqueue(async () => {
+        await commit({ op: 'insert', records: [record] });
+        return record;
+      });
+    },
+
+    insertMany(newRecords) {
+      return enqueue(async () => {
+        if (newRecords.length) await commit({ op: 'insert', records: newRecords });
+        return newRecords.length;
+      });
+    },
+
+    update(id, changes) {
+      return enqueue(async () => {
+        if (!find(id)) return null;
+        await commit({ op: 'update', changes: [{ id, changes }] });
+        return copy(find(id));
+      });
+    },
+
+    // Apply `changes(record)` to every record matching the filters; returns how many changed.
+    // Records for which `changes` returns an empty object are left untouched.
+    updateWhere(filters, changes) {
+      return enqueue(async () => {
+        const test = matches(filters);
+        const batch = [];
+        for (const r of records) {
+          if (!test(r)) continue;
+          const delta = changes(r);
+          if (delta && Object.keys(delta).length > 0) batch.push({ id: r[spec.key], changes: delta });
+        }
+        if (batch.length) await commit({ op: 'update', changes: batch });
+        return batch.length;
+      });
+    },
+
+    remove(id) {
+      return enqueue(async () => {
+        if (!find(id)) return false;
+        await commit({ op: 'remove', ids: [id] });
+        return true;
+      });
+    },
+
+    removeMany(ids) {
+      return enqueue(async () => {
+        const set = new Set(ids);
+        const present = records.filter(r => set.has(r[spec.key])).map(r => r[spec.key]);
+        if (present.length) await commit({ op: 'remove', ids: present });
+        return present.length;
+      });
+    },
+
+    // Flush the journal into the snapshot once every queued write has finished
+    close() {
+      return enqueue(async () => compact());
+    }
+  };
+};
+
+const createJsonStorage = ({ dataDir }) => {
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true });
+  }
+
+  const collections = {};
+  // Lets a sort order one entity by another's fields, e.g. feedback by category position
+  const related = (entity, id) => collections[entity].peek(id);
+  for (const [name, spec] of Object.entries(entities)) {
+    collections[name] = createJsonCollection(spec, path.join(dataDir, spec.file), related);
+  }
+  return {
+    driver: 'json',
+    ...collections,
+    async close() {
+      await Promise.all(Object.values(collections).map(c => c.close()));
+    }
+  };
+};
+
+module.exports = { createJsonStorage, StorageCorruptError };
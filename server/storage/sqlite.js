@@ -0,0 +1,210 @@
+const fs = require('fs');
+const path = require('path');
+const { entities } = require('./entities');
+
+// Each table stores the full record as JSON in `data`, plus the entity's declared
+// columns extracted alongside it so they can be indexed, filtered and sorted in SQL.
+const createSqliteCollection = (db, spec) => {
+  const columnNames = Object.keys(spec.columns);
+  const existed = !!db.prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?").get(spec.table);
+
+  db.exec(`CREATE TABLE IF NOT EXISTS ${spec.table} (
+    id TEXT PRIMARY KEY,
+    ${columnNames.map(c => `${c} ${spec.columns[c].type}`).join(',\n    ')}${columnNames.length ? ',' : ''}
+    data TEXT NOT NULL
+  )`);
+  // Columns declared after the table was first created are added here and filled in from `data` below
+  const present = new Set(db.prepare(`PRAGMA table_info(${spec.table})`).all().map(c => c.name));
+  const added = columnNames.filter(c => !present.has(c));
+  for (const name of added) {
+    db.exec(`ALTER TABLE ${spec.table} ADD COLUMN ${name} ${spec.columns[name].type}`);
+  }
+  for (const [name, column] of Object.entries(spec.columns)) {
+    if (column.index) {
+      db.exec(`CREATE INDEX IF NOT EXISTS idx_${spec.table}_${name} ON ${spec.table}(${name})`);
+    }
+  }
+
+  const rowValues = (record) => [
+    record[spec.key],
+    ...columnNames.map(c => {
+      const v = spec.columns[c].value(record);
+      return v === undefined ? null : v;
+    }),
+    JSON.stringify(record)
+  ];
+
+  const insertStmt = db.prepare(
+    `INSERT INTO ${spec.table} (id, ${columnNames.map(c => `${c}, `).join('')}data) VALUES (${['?', ...columnNames.map(() => '?'), '?'].join(', ')})`
+  );
+  const replaceStmt = db.prepare(
+    `UPDATE ${spec.table} SET ${columnNames.map(c => `${c} = ?, `).join('')}data = ? WHERE id = ?`
+  );
+  const getStmt = db.prepare(`SELECT data FROM ${spec.table} WHERE id = ?`);
+  const deleteStmt = db.prepare(`DELETE FROM ${spec.table} WHERE id = ?`);
+
+  const parse = (row) => JSON.parse(row.data);
+
+  const write = (record) => {
+    const [id, ...rest] = rowValues(record);
+    replaceStmt.run(...rest, id);
+  };
+
+  const where = (filters) => {
+    const clauses = [];
+    const params = [];
+    for (const [name, value] of Object.entries(filters || {})) {
+      const def = spec.filters[name];
+      if (!def) continue;
+      const [clause, clauseParams] = def.sql(value);
+      clauses.push(clause);
+      params.push(...clauseParams);
+    }
+    return { sql: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', params };
+  };
+
+  // Same order as the JSON backend: missing values last, ties broken by id
+  const sortSpec = (sort) => {
+    const { field, direction } = sort || spec.defaultSort;
+    const def = spec.sorts[field] || spec.sorts[spec.defaultSort.field];
+    return { expr: def.sql || def.column, asc: direction === 'asc' };
+  };
+
+  const orderBy = (sort) => {
+    const { expr, asc } = sortSpec(sort);
+    const dir = asc ? 'ASC' : 'DESC';
+    return `ORDER BY (${expr}) IS NULL, ${expr} ${dir}, id ${dir}`;
+  };
+
+  // Keyset condition for rows that sort after position `after` ({ value, key }; see sortValue)
+  const afterClause = (sort, { value, key }) => {
+    const { expr, asc } = sortSpec(sort);
+    const op = asc ? '>' : '<';
+    if (value === null) {
+      return { sql: `((${expr}) IS NULL AND id ${op} ?)`, params: [key] };
+    }
+    return {
+      sql: `(${expr} ${op} ? OR (${expr} = ? AND id ${op} ?) OR (${expr}) IS NULL)`,
+      params: [value, value, key]
+    };
+  };
+
+  // Works a sort expression out for one record as given: a CTE named like the table stands in
+  // for it, so the expression needn't read the stored row
+  const sortValueStmt = (sort) => db.prepare(
+    `WITH ${spec.table} (id, ${columnNames.map(c => `${c}, `).join('')}data) AS (VALUES (${['?', ...columnNames.map(() => '?'), '?'].join(', ')}))
+     SELECT ${sortSpec(sort).expr} AS v FROM ${spec.table}`
+  );
+
+  const insertAll = db.transaction((records) => {
+    for (const record of records) insertStmt.run(...rowValues(record));
+    return records.length;
+  });
+
+  if (!existed && spec.seed.length) {
+    insertAll(spec.seed);
+  }
+  if (added.length) {
+    db.transaction(() => {
+      for (const row of db.prepare(`SELECT data FROM ${spec.table}`).all()) write(parse(row));
+    })();
+  }
+
+  return {
+    async all() {
+      return db.prepare(`SELECT data FROM ${spec.table} ${orderBy()}`).all().map(parse);
+    },
+
+    async get(id) {
+      const row = getStmt.get(id);
+      return row ? parse(row) : null;
+    },
+
+    async sortValue(record, sort) {
+      return sortValueStmt(sort).get(...rowValues(record)).v;
+    },
+
+    async query({ filters, sort, limit, offset = 0, after } = {}) {
+      const w = where(filters);
+      if (after !== undefined) {
+        const a = afterClause(sort, after);
+        w.sql = w.sql ? `${w.sql} AND ${a.sql}` : `WHERE ${a.sql}`;
+        w.params.push(...a.params);
+      }
+      const page = limit === undefined ? (offset ? 'LIMIT -1 OFFSET ?' : '') : 'LIMIT ? OFFSET ?';
+      const pageParams = limit === undefined ? (offset ? [offset] : []) : [limit, offset];
+      return db.prepare(`SELECT data FROM ${spec.table} ${w.sql} ${orderBy(sort)} ${page}`)
+        .all(...w.params, ...pageParams)
+        .map(parse);
+    },
+
+    async count(filters) {
+      const w = where(filters);
+      return db.prepare(`SELECT COUNT(*) AS n FROM ${spec.table} ${w.sql}`).get(...w.params).n;
+    },
+
+    async insert(record) {
+      insertStmt.run(...rowValues(record));
+      return record;
+    },
+
+    async insertMany(records) {
+      return insertAll(records);
+    },
+
+    async update(id, changes) {
+      const row = getStmt.get(id);
+      if (!row) return null;
+      const updated = { ...parse(row), ...changes };
+      write(updated);
+      return updated;
+    },
+
+    async updateWhere(filters, changes) {
+      const w = where(filters);
+      const rows = db.prepare(`SELECT data FROM ${spec.table} ${w.sql}`).all(...w.params);
+      return db.transaction(() => {
+        let changed = 0;
+        for (const row of rows) {
+          const record = parse(row);
+          const delta = changes(record);
+          if (!delta || Object.keys(delta).length === 0) continue;
+          write({ ...record, ...delta });
+          changed++;
+        }
+        return changed;
+      })();
+    },
+
+    async remove(id) {
+      return deleteStmt.run(id).changes > 0;
+    },
+
+    async removeMany(ids) {
+      return db.transaction(() => ids.reduce((n, id) => n + deleteStmt.run(id).changes, 0))();
+    }
+  };
+};
+
+const createSqliteStorage = ({ file }) => {
+  // Loaded lazily so JSON-only deployments don't need the native module
+  const Database = require('better-sqlite3');
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+
+  const storage = {
+    driver: 'sqlite',
+    async close() {
+      db.close();
+    }
+  };
+  for (const [name, spec] of Object.entries(entities)) {
+    storage[name] = createSqliteCollection(db, spec);
+  }
+  return storage;
+};
+
+module.exports = { createSqliteStorage };
@@ -0,0 +1,101 @@
+// Admin-defined tags for themes that cut across categories (e.g. "lab equipment" or "timing
+// clash"). Each tag has a name and a colour; feedback keeps the ids of its tags in `tags`, so a
+// rename shows everywhere at once and deleting a tag takes it off every item.
+const crypto = require('crypto');
+
+const MAX_NAME_LENGTH = 40;
+const MAX_TAGS = 200;
+// Most tags one feedback item can carry
+const MAX_TAGS_PER_ITEM = 20;
+const COLOR = /^#[0-9a-f]{6}$/;
+// Given to tags created without a colour, in turn
+const DEFAULT_COLORS = ['#2563eb', '#16a34a', '#d97706', '#dc2626', '#7c3aed', '#0891b2', '#db2777', '#4b5563'];
+
+class TagValidationError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'TagValidationError';
+  }
+}
+
+const validName = (name) => {
+  const value = String(name ?? '').trim().replace(/\s+/g, ' ');
+  if (!value) throw new TagValidationError('Name is required');
+  if (value.length > MAX_NAME_LENGTH) throw new TagValidationError(`Tag names can be at most ${MAX_NAME_LENGTH} characters`);
+  return value;
+};
+
+const validColor = (color) => {
+  const value = String(color ?? '').trim().toLowerCase();
+  if (!COLOR.test(value)) throw new TagValidationError('Colour must be a hex colour such as #2563eb');
+  return value;
+};
+
+const createTags = (storage, audit) => {
+  const nameTaken = async (name, exceptId) =>
+    (await storage.tags.query({ filters: { name: name.toLowerCase() } })).some(t => t.id !== exceptId);
+
+  const create = async (req, { name, color } = {}) => {
+    const value = validName(name);
+    const count = await storage.tags.count();
+    if (count >= MAX_TAGS) throw new TagValidationError(`No more than ${MAX_TAGS} tags can be created`);
+    if (await nameTaken(value)) throw new TagValidationError('A tag with this name already exists');
+    const tag = {
+      id: crypto.randomUUID(),
+      name: value,
+      color: color === undefined || color === '' ? DEFAULT_COLORS[count % DEFAULT_COLORS.length] : validColor(color),
+      created_at: new Date().toISOString()
+    };
+    await storage.tags.insert(tag);
+    await audit.record(req, { action: 'tag.create', targetType: 'tag', targetId: tag.id, after: tag });
+    return tag;
+  };
+
+  // Rename or recolour a tag; returns it, or null if it is missing
+  const update = async (req, id, { name, color } = {}) => {
+    const existing = await storage.tags.get(id);
+    if (!existing) return null;
+    const changes = {};
+    if (name !== undefined) {
+      changes.name = validName(name);
+      if (await nameTaken(changes.name, id)) throw new TagValidationError('A tag with this name already exists');
+    }
+    if (color !== undefined) changes.color = validColor(color);
+    const updated = await storage.tags.update(id, changes);
+    await audit.recordChange(req, { action: 'tag.update', targetType: 'tag', targetId: id, before: existing, after: updated });
+    return updated;
+  };
+
+  // Delete a tag and take it off all feedback (trashed included); returns how many items had it,
+  // or null if it is missing
+  const remove = async (req, id) => {
+    const existing = await storage.tags.get(id);
+    if (!existing) return null;
+    const untagged = await storage.feedback.updateWhere({ tags: [id] }, (f) => ({ tags: f.tags.filter(t => t !== id) }));
+    await storage.tags.remove(id);
+    await audit.record(req, {
+      action: 'tag.delete',
+      targetType: 'tag',
+      targetId: id,
+      before: existing,
+      details: { untagged }
+    });
+    return untagged;
+  };
+
+  // The tag ids to store for a feedback item from the ones given, checked to exist
+  const validIds = async (ids) => {
+    if (!Array.isArray(ids)) throw new TagValidationError('tags must be a list of tag ids');
+    const unique = [...new Set(ids.map(String))];
+    if (unique.length > MAX_TAGS_PER_ITEM) {
+      throw new TagValidationError(`Feedback can have at most ${MAX_TAGS_PER_ITEM} tags`);
+    }
+    const found = await Promise.all(unique.map(id => storage.tags.get(id)));
+    if (found.some(t => !t)) throw new TagValidationError('Unknown tag');
+    return unique;
+  };
+
+  return { create, update, remove, validIds };
+};
+
+module.exports = { TagValidationError, createTags };
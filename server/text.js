@@ -0,0 +1,204 @@
+// Keyword and phrase extraction for feedback comments: Unicode-aware tokenizing, stop words
+// (English and Tamil), light stemming, 1-3 word phrases and TF-IDF ranking. Phrases never
+// span a stop word or punctuation, so "the lab was too crowded" yields "lab" and "crowded"
+// rather than "was too". Terms are grouped by their stemmed form and shown with the most
+// common spelling seen.
+const { SettingsValidationError } = require('./settings');
+
+const MAX_PHRASE_WORDS = 3;
+// Terms seen fewer times than this in a group are noise and never ranked
+const MIN_COUNT = 2;
+
+const STOP_WORDS = {
+  en: `a about above after again against all also am an and any are aren't as at be because been before being
+    below between both but by can can't cannot could couldn't did didn't do does doesn't doing don't down during
+    each etc even ever every few for from further get gets got had hadn't has hasn't have haven't having he her here
+    hers herself him himself his how i i'd i'll i'm i've if in into is isn't it it's its itself just let's like
+    lot lots make many me more most much must mustn't my myself need no nor not now of off ok okay on once one only or
+    other ought our ours ourselves out over own per quite rather really same shall she should shouldn't so some
+    something such than that that's the their theirs them themselves then there there's these they they'd they'll
+    they're they've thing things this those through thus to too under until up upon us very via was wasn't we we'd
+    we'll we're we've were weren't what what's when where which while who whom whose why will with won't would
+    wouldn't yes yet you you'd you'll you're you've your yours yourself yourselves good great nice well bit`,
+  ta: `ஒரு இந்த அந்த இது அது இவை அவை மற்றும் அல்லது ஆனால் என்று என என்ற என்பது என்பதை நான் நாம் நாங்கள் நீ நீங்கள்
+    அவர் அவள் அவன் அவர்கள் இவர் எனக்கு எங்கள் எங்களுக்கு உங்கள் உங்களுக்கு அவருக்கு அவர்களுக்கு என் உன் மிக மிகவும்
+    உள்ளது உள்ளன இருந்தது இருந்தன இருக்கிறது இருக்கும் இருந்து இல்லை வேண்டும் மட்டும் மட்டுமே பற்றி மேலும் கூட போன்ற
+    போது உடன் கொண்டு தான் ஆகும் ஆக ஆகிய இங்கு அங்கு எல்லா எல்லாம் அனைத்து செய்ய செய்து இன்னும் ஏன் என்ன எப்படி
+    எது எந்த யார் எங்கே இதில் அதில் இதை அதை இதன் அதன் நல்ல நன்றாக சில பல ஒவ்வொரு மீது கீழ் முன் பின்`
+};
+
+const LANGUAGES = Object.keys(STOP_WORDS);
+
+const DEFAULT_TEXT_SETTINGS = {
+  // Built-in stop-word lists in use
+  languages: LANGUAGES,
+  // Extra stop words; like the built-in ones they also break phrases
+  stopWords: [],
+  // Words or phrases to leave out of keyword results (matched on their stemmed form)
+  ignore: []
+};
+
+const MAX_LIST_ENTRIES = 500;
+const MAX_ENTRY_LENGTH = 100;
+
+// Apostrophes are normalised so "don’t" matches the "don't" stop word
+const normalize = (text) => String(text || '').normalize('NFC').toLowerCase().replace(/[’‘`]/g, "'");
+
+// Letters (with combining marks, which Tamil vowel signs are) and digits, allowing inner apostrophes
+const TOKEN = /[\p{L}\p{M}\p{N}]+(?:'[\p{L}\p{M}]+)*/gu;
+// Punctuation that ends a phrase
+const CLAUSE_BREAK = /[.!?;:,()[\]{}"\n\r।॥]+/u;
+
+const tokenize = (text) =>
+  (normalize(text).match(TOKEN) || []).filter(t => [...t].length > 1 && !/^\p{N}+$/u.test(t));
+
+const VOWEL = /[aeiouy]/;
+const LATIN = /^[a-z']+$/;
+
+// Light suffix stripping: enough to group "class"/"classes", "teach"/"teaching",
+// "explain"/"explained", "study"/"studies". Tamil words lose the plural "கள்".
+const stem = (word) => {
+  if (word.endsWith('கள்') && [...word].length > 4) return word.slice(0, -'கள்'.length);
+  if (!LATIN.test(word) || word.length <= 3) return word;
+  let w = word.replace(/'s$/, '');
+  if (w.endsWith('ies') && w.length > 4) w = `${w.slice(0, -3)}y`;
+  else if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (/(?:x|z|ch|sh)es$/.test(w)) w = w.slice(0, -2);
+  else if (/[^su'i]s$/.test(w)) w = w.slice(0, -1);
+
+  const strip = (suffix) => {
+    if (!w.endsWith(suffix)) return false;
+    const base = w.slice(0, -suffix.length);
+    if (base.length < 3 || !VOWEL.test(base)) return false;
+    // "running" -> "run", but keep "fall", "miss", "buzz"
+    w = /([^aeioulsz])\1$/.test(base) ? base.slice(0, -1) : base;
+    return true;
+  };
+  if (!strip('ingly') && !strip('edly') && !strip('ing') && !strip('ed')) strip('ly');
+  return w;
+};
+
+// Validate a settings update from the admin UI
+const validateTextSettings = (changes) => {
+  const list = (value, name) => {
+    if (!Array.isArray(value)) throw new SettingsValidationError(`${name} must be a list`);
+    const entries = [...new Set(value.map(v => normalize(v).trim().replace(/\s+/g, ' ')).filter(Boolean))];
+    if (entries.length > MAX_LIST_ENTRIES) throw new SettingsValidationError(`${name} can hold at most ${MAX_LIST_ENTRIES} entries`);
+    if (entries.some(e => e.length > MAX_ENTRY_LENGTH)) throw new SettingsValidationError(`${name} entries can be at most ${MAX_ENTRY_LENGTH} characters`);
+    return entries;
+  };
+  const valid = {};
+  if (changes.languages !== undefined) {
+    const languages = list(changes.languages, 'languages');
+    const unknown = languages.filter(l => !LANGUAGES.includes(l));
+    if (unknown.length) throw new SettingsValidationError(`Unknown stop-word language(s): ${unknown.join(', ')}`);
+    valid.languages = languages;
+  }
+  if (changes.stopWords !== undefined) valid.stopWords = list(changes.stopWords, 'stopWords');
+  if (changes.ignore !== undefined) valid.ignore = list(changes.ignore, 'ignore');
+  return valid;
+};
+
+// A term extractor for one set of settings; build it once per request and reuse it
+const createTextAnalyzer = (settings = DEFAULT_TEXT_SETTINGS) => {
+  const stopWords = new Set([
+    ...(settings.languages || []).flatMap(l => (STOP_WORDS[l] || '').split(/\s+/).filter(Boolean)),
+    ...(settings.stopWords || []).map(normalize)
+  ]);
+  const phraseKey = (text) => tokenize(text).map(stem).join(' ');
+  const ignored = new Set((settings.ignore || []).map(phraseKey));
+
+  // Every phrase occurrence in `text` as { key, surface, words }
+  const terms = (text) => {
+    const found = [];
+    for (const clause of normalize(text).split(CLAUSE_BREAK)) {
+      let run = [];
+      const flush = () => {
+        for (let start = 0; start < run.length; start++) {
+          for (let n = 1; n <= MAX_PHRASE_WORDS && start + n <= run.length; n++) {
+            const words = run.slice(start, start + n);
+            const key = words.map(w => w.key).join(' ');
+            if (!ignored.has(key)) found.push({ key, surface: words.map(w => w.token).join(' '), words: n });
+          }
+        }
+        run = [];
+      };
+      for (const token of tokenize(clause)) {
+        const key = stem(token);
+        // Ignored single words break phrases just like stop words
+        if (stopWords.has(token) || ignored.has(key)) flush();
+        else run.push({ token, key });
+      }
+      flush();
+    }
+    return found;
+  };
+
+  // Phrase statistics for a set of texts: key -> { count, documents, words, surfaces }
+  const collect = (texts) => {
+    const stats = new Map();
+    for (const text of texts) {
+      const seen = new Set();
+      for (const { key, surface, words } of terms(text)) {
+        let s = stats.get(key);
+        if (!s) stats.set(key, (s = { key, count: 0, documents: 0, words, surfaces: new Map() }));
+        s.count++;
+        s.surfaces.set(surface, (s.surfaces.get(surface) || 0) + 1);
+        if (!seen.has(key)) {
+          seen.add(key);
+          s.documents++;
+        }
+      }
+    }
+    return stats;
+  };
+
+  // The most common spelling of a collected phrase
+  const display = (s) => [...s.surfaces].sort(([, a], [, b]) => b - a)[0][0];
+
+  // Longer phrases are rarer but more telling; weight them up a little
+  const lengthWeight = (words) => 1 + 0.5 * (words - 1);
+  const idf = (total, df) => Math.log((1 + total) / (1 + df)) + 1;
+
+  // Drop a phrase when a longer phrase containing it occurs just as often: it adds nothing
+  const dropSubsumed = (ranked) => ranked.filter(p => !ranked.some(q =>
+    q.words > p.words && q.count === p.count && ` ${q.key} `.includes(` ${p.key} `)
+  ));
+
+  const top = (scored, limit) => dropSubsumed(scored.sort((a, b) => b.score - a.score || b.count - a.count).slice(0, limit * 3))
+    .slice(0, limit)
+    .map(({ key, phrase, words, count, comments, score }) => ({ key, phrase, words, count, comments, score: Math.round(score * 1000) / 1000 }));
+
+  // Rank phrases within each group of texts ({ key, label, texts }). With a single group,
+  // each text is a document (TF-IDF across comments); with several, each group is one
+  // (TF-IDF across groups), so a group's list shows what sets it apart from the others.
+  const rank = (groups, { limit = 30 } = {}) => {
+    const perGroup = groups.map(g => ({ ...g, stats: collect(g.texts) }));
+
+    if (perGroup.length === 1) {
+      const [g] = perGroup;
+      const scored = [...g.stats.values()].filter(s => s.count >= MIN_COUNT).map(s => ({
+        key: s.key, phrase: display(s), words: s.words, count: s.count, comments: s.documents,
+        score: s.count * idf(g.texts.length, s.documents) * lengthWeight(s.words)
+      }));
+      return [{ key: g.key, label: g.label, total: g.texts.length, phrases: top(scored, limit) }];
+    }
+
+    const groupFrequency = new Map();
+    for (const g of perGroup) {
+      for (const key of g.stats.keys()) groupFrequency.set(key, (groupFrequency.get(key) || 0) + 1);
+    }
+    return perGroup.map(g => {
+      const totalTerms = [...g.stats.values()].reduce((sum, s) => sum + s.count, 0) || 1;
+      const scored = [...g.stats.values()].filter(s => s.count >= MIN_COUNT).map(s => ({
+        key: s.key, phrase: display(s), words: s.words, count: s.count, comments: s.documents,
+        score: (s.count / totalTerms) * idf(perGroup.length, groupFrequency.get(s.key)) * lengthWeight(s.words) * 100
+      }));
+      return { key: g.key, label: g.label, total: g.texts.length, phrases: top(scored, limit) };
+    });
+  };
+
+  return { terms, collect, display, rank };
+};
+
+module.exports = { DEFAULT_TEXT_SETTINGS, LANGUAGES, tokenize, stem, validateTextSettings, createTextAnalyzer };
@@ -0,0 +1,100 @@
+// Deleted feedback is moved to the trash (marked with deleted_at/deleted_by) rather than
+// removed. Trashed entries are hidden from the feedback list, analytics and exports, can be
+// restored, and are removed for good once they are older than the retention window.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 30;
+
+// TRASH_RETENTION_DAYS=0 keeps trashed feedback until it is deleted by hand
+const parseRetentionDays = (value) => {
+  const days = parseInt(value);
+  return isNaN(days) || days < 0 ? DEFAULT_RETENTION_DAYS : days;
+};
+
+const createTrash = (storage, audit, { retentionDays = parseRetentionDays(process.env.TRASH_RETENTION_DAYS) } = {}) => {
+  // When a trashed entry will be purged automatically (null if never)
+  const purgeDate = (item) =>
+    retentionDays > 0 && item.deleted_at
+      ? new Date(new Date(item.deleted_at).getTime() + retentionDays * DAY_MS).toISOString()
+      : null;
+
+  // Load the given ids, keeping only those whose trash state matches `trashed`
+  const load = async (ids, trashed) =>
+    (await Promise.all([...new Set(ids)].map(id => storage.feedback.get(id))))
+      .filter(f => f && !!f.deleted_at === trashed);
+
+  // One audit entry per item; bulk actions are marked so they can be told apart
+  const bulkDetails = (items) => (items.length > 1 ? { bulk: true, count: items.length } : null);
+
+  const audited = (req, action, before, after) =>
+    audit.recordMany(req, before.map((f, i) => ({
+      action,
+      targetType: 'feedback',
+      targetId: f.feedback_id,
+      before: { deleted_at: f.deleted_at || null },
+      after: { deleted_at: after[i].deleted_at || null },
+      details: bulkDetails(before)
+    })));
+
+  // Move live entries to the trash; returns how many moved
+  const moveToTrash = async (req, ids) => {
+    const items = await load(ids, false);
+    const deletedAt = new Date().toISOString();
+    const updated = await Promise.all(items.map(f =>
+      storage.feedback.update(f.feedback_id, { deleted_at: deletedAt, deleted_by: req.user?.id || null })
+    ));
+    await audited(req, 'feedback.trash', items, updated);
+    return items.length;
+  };
+
+  // Bring trashed entries back; returns how many were restored
+  const restore = async (req, ids) => {
+    const items = await load(ids, true);
+    const updated = await Promise.all(items.map(f =>
+      storage.feedback.update(f.feedback_id, { deleted_at: null, deleted_by: null })
+    ));
+    await audited(req, 'feedback.restore', items, updated);
+    return items.length;
+  };
+
+  // Permanently delete trashed entries (live entries are never purged directly)
+  const purgeItems = async (req, items, details) => {
+    const purged = await storage.feedback.removeMany(items.map(f => f.feedback_id));
+    await audit.recordMany(req, items.map(f => ({
+      action: 'feedback.purge',
+      targetType: 'feedback',
+      targetId: f.feedback_id,
+      before: f,
+      details
+    })));
+    return purged;
+  };
+
+  const purge = async (req, ids) => {
+    const items = await load(ids, true);
+    return purgeItems(req, items, bulkDetails(items));
+  };
+
+  // Purge everything that has been in the trash longer than the retention window
+  const purgeExpired = async () => {
+    if (retentionDays <= 0) return 0;
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS);
+    const expired = await storage.feedback.query({ filters: { trashed: true, deletedBefore: cutoff } });
+    if (expired.length === 0) return 0;
+    const purged = await purgeItems({}, expired, { automatic: true, retentionDays });
+    console.log(`Purged ${purged} feedback entries trashed more than ${retentionDays} days ago`);
+    return purged;
+  };
+
+  // Run the purge now and then hourly; the timer doesn't keep the process alive
+  const schedulePurge = () => {
+    const run = () => purgeExpired().catch(error => console.error('Error purging trash:', error));
+    run();
+    setInterval(run, PURGE_INTERVAL_MS).unref();
+  };
+
+  return { retentionDays, purgeDate, moveToTrash, restore, purge, purgeExpired, schedulePurge };
+};
+
+module.exports = { createTrash };
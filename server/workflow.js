@@ -0,0 +1,114 @@
+// The states feedback moves through and which moves are allowed, edited as the "workflow"
+// settings. The first state is where new feedback starts; `closed` states (e.g. resolved,
+// won't fix) stop the SLA clock. Feedback records when it was closed in `resolved_at`, so a
+// state's closed flag applies to moves made after it is changed. Feedback left in a state
+// that has since been removed can be moved to any state.
+//
+// Each category can have an SLA in days; feedback is due that long after it was submitted
+// unless an admin sets its due date by hand (`due_manual`).
+const { SettingsValidationError } = require('./settings');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_STATES = 12;
+const MAX_LABEL_LENGTH = 40;
+const MAX_SLA_DAYS = 365;
+const STATE_ID = /^[a-z][a-z0-9_]{0,29}$/;
+
+// The original fixed statuses, any of which can follow any other
+const DEFAULT_WORKFLOW_SETTINGS = {
+  states: [
+    { id: 'open', label: 'Open', closed: false, next: ['in_progress', 'completed'] },
+    { id: 'in_progress', label: 'In progress', closed: false, next: ['open', 'completed'] },
+    { id: 'completed', label: 'Completed', closed: true, next: ['open', 'in_progress'] }
+  ]
+};
+
+const validateWorkflowSettings = (changes) => {
+  const valid = {};
+  if (changes.states !== undefined) {
+    const { states } = changes;
+    if (!Array.isArray(states) || states.length < 2 || states.length > MAX_STATES) {
+      throw new SettingsValidationError(`states must be a list of 2 to ${MAX_STATES} states`);
+    }
+    const ids = states.map(s => String(s?.id ?? '').trim());
+    for (const id of ids) {
+      if (!STATE_ID.test(id)) {
+        throw new SettingsValidationError(`"${id}" is not a valid state id: use lowercase letters, digits and underscores, starting with a letter`);
+      }
+    }
+    if (new Set(ids).size !== ids.length) throw new SettingsValidationError('State ids must be unique');
+    valid.states = states.map((s, i) => {
+      const label = String(s.label ?? '').trim();
+      if (!label || label.length > MAX_LABEL_LENGTH) {
+        throw new SettingsValidationError(`Each state needs a label of at most ${MAX_LABEL_LENGTH} characters`);
+      }
+      if (!Array.isArray(s.next ?? [])) throw new SettingsValidationError(`next of "${ids[i]}" must be a list of state ids`);
+      const next = [...new Set((s.next ?? []).map(String))];
+      const unknown = next.find(id => !ids.includes(id) || id === ids[i]);
+      if (unknown) throw new SettingsValidationError(`"${ids[i]}" cannot move to "${unknown}"`);
+      return { id: ids[i], label, closed: !!s.closed, next };
+    });
+    if (valid.states[0].closed) throw new SettingsValidationError('The first state is where new feedback starts and cannot be closed');
+    if (!valid.states.some(s => s.closed)) throw new SettingsValidationError('At least one state must be closed');
+  }
+  return valid;
+};
+
+const initialState = (workflow) => workflow.states[0].id;
+
+const findState = (workflow, id) => workflow.states.find(s => s.id === id) || null;
+
+// Whether feedback in `from` may be moved to `to`
+const canMove = (workflow, from, to) => {
+  if (!findState(workflow, to)) return false;
+  const current = findState(workflow, from);
+  return !current || from === to || current.next.includes(to);
+};
+
+// Changes for moving `f` to state `to`: entering a closed state records when it was resolved
+// (keeping the earlier time when moving between closed states) and leaving one clears it
+const moveTo = (workflow, f, to, now = new Date()) => {
+  const closed = findState(workflow, to).closed;
+  return { status: to, resolved_at: closed ? f.resolved_at || now.toISOString() : null };
+};
+
+// Category SLA in days (null or empty for none): a message saying what is wrong, or null
+const validateSlaDays = (value) => {
+  if (value === null || value === '') return null;
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 1 && n <= MAX_SLA_DAYS
+    ? null
+    : `The SLA must be a whole number of days from 1 to ${MAX_SLA_DAYS}`;
+};
+
+const toSlaDays = (value) => (value === null || value === '' ? null : Number(value));
+
+// When feedback submitted at `timestamp` is due under an SLA of `days` (null without one)
+const slaDueDate = (timestamp, days) =>
+  days ? new Date(new Date(timestamp).getTime() + days * DAY_MS).toISOString() : null;
+
+// A due date typed by an admin: a bare date (YYYY-MM-DD) means the end of that day
+const parseDueDate = (value) => {
+  const d = new Date(value);
+  if (isNaN(d.getTime())) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(String(value))) d.setUTCHours(23, 59, 59, 999);
+  return d.toISOString();
+};
+
+// Due-date changes for `f` when its category is (or becomes) `category`; dates set by hand stay
+const slaChanges = (f, category) =>
+  f.due_manual ? {} : { due_at: slaDueDate(f.timestamp, category?.sla_days) };
+
+module.exports = {
+  DEFAULT_WORKFLOW_SETTINGS,
+  validateWorkflowSettings,
+  initialState,
+  findState,
+  canMove,
+  moveTo,
+  validateSlaDays,
+  toSlaDays,
+  slaDueDate,
+  parseDueDate,
+  slaChanges
+};
@@ -1,25 +1,41 @@
-import React, { useState, useEffect } from 'react';
-import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
+import { useState, useEffect } from 'react';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import HomePage from './components/HomePage';
+import CheckFeedbackPage from './components/CheckFeedbackPage';
+import BoardPage from './components/BoardPage';
 import AdminLogin from './components/AdminLogin';
 import AdminDashboard from './components/AdminDashboard';
-import { API_BASE } from './lib/api';
+import { api, setUnauthorizedHandler } from './lib/api';
+import type { AdminUser } from './lib/types';
+
+// Sends signed-out visitors to the login page, remembering the admin page they asked for
+function LoginRedirect() {
+  const location = useLocation();
+  return <Navigate to="/admin/login" replace state={{ from: location.pathname }} />;
+}
+
+// After signing in, back to the admin page asked for (e.g. a feedback link) or the dashboard
+function AfterLogin() {
+  const from = (useLocation().state as { from?: string } | null)?.from;
+  return <Navigate to={from || '/admin/dashboard'} replace />;
+}
 
 function App() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [user, setUser] = useState<AdminUser | null>(null);
+  const [needsSetup, setNeedsSetup] = useState(false);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
+    // Any admin request that comes back 401 drops the session; the routes below redirect to login
+    setUnauthorizedHandler(() => setUser(null));
     checkAuthStatus();
   }, []);
 
   const checkAuthStatus = async () => {
     try {
-      const response = await fetch(`${API_BASE}/api/admin/check`, {
-        credentials: 'include'
-      });
-      const data = await response.json();
-      setIsAuthenticated(data.isAuthenticated);
+      const data = await api.auth.check();
+      setUser(data.user);
+      setNeedsSetup(data.needsSetup);
     } catch (error) {
       console.error('Auth check failed:', error);
     } finally {
@@ -40,22 +56,36 @@ function App() {
       <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
         <Routes>
           <Route path="/" element={<HomePage />} />
+          <Route path="/f/:code" element={<HomePage />} />
+          <Route path="/check" element={<CheckFeedbackPage />} />
+          <Route path="/board" element={<BoardPage />} />
           <Route 
             path="/admin/login" 
             element={
-              isAuthenticated ? 
-              <Navigate to="/admin/dashboard" replace /> : 
-              <AdminLogin onLogin={() => setIsAuthenticated(true)} />
+              user ? 
+              <AfterLogin /> : 
+              <AdminLogin
+                needsSetup={needsSetup}
+                onLogin={(signedIn) => {
+                  setNeedsSetup(false);
+                  setUser(signedIn);
+                }}
+              />
             } 
           />
           <Route 
             path="/admin/dashboard" 
             element={
-              isAuthenticated ? 
-              <AdminDashboard onLogout={() => setIsAuthenticated(false)} /> : 
-              <Navigate to="/admin/login" replace />
+              user ? 
+              <AdminDashboard user={user} onLogout={() => setUser(null)} /> : 
+              <LoginRedirect />
             } 
           />
+          {/* The dashboard with one feedback item open in the detail drawer */}
+          <Route
+            path="/admin/feedback/:id"
+            element={user ? <AdminDashboard user={user} onLogout={() => setUser(null)} /> : <LoginRedirect />}
+          />
           <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </div>
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { ShieldAlert, X, Plus, Trash2 } from 'lucide-react';
+import { api } from '../lib/api';
+import type { AbuseSettings, RateLimit } from '../lib/types';
+
+interface AbuseSettingsDialogProps {
+  settings: AbuseSettings;
+  onSaved: (settings: AbuseSettings) => void;
+  onClose: () => void;
+}
+
+const MAX_RATE_LIMITS = 5;
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+export default function AbuseSettingsDialog({ settings, onSaved, onClose }: AbuseSettingsDialogProps) {
+  const [rateLimits, setRateLimits] = useState<RateLimit[]>(settings.rateLimits);
+  const [minFillSeconds, setMinFillSeconds] = useState(settings.minFillSeconds);
+  const [proofOfWork, setProofOfWork] = useState(settings.proofOfWork);
+  const [proofOfWorkBits, setProofOfWorkBits] = useState(settings.proofOfWorkBits);
+  const [duplicateSimilarity, setDuplicateSimilarity] = useState(settings.duplicateSimilarity);
+  const [duplicateHours, setDuplicateHours] = useState(settings.duplicateHours);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const updateLimit = (index: number, changes: Partial<RateLimit>) =>
+    setRateLimits(prev => prev.map((limit, i) => (i === index ? { ...limit, ...changes } : limit)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+    try {
+      onSaved(await api.admin.abuseSettings.update({
+        rateLimits,
+        minFillSeconds,
+        proofOfWork,
+        proofOfWorkBits,
+        duplicateSimilarity,
+        duplicateHours
+      }));
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Saving settings failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <ShieldAlert className="w-5 h-5 mr-2" />
+            Spam Protection
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">
+              Rate limits <span className="font-normal text-gray-500">(per device)</span>
+            </p>
+            <div className="space-y-2">
+              {rateLimits.map((limit, index) => (
+                <div key={index} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="number"
+                    min={1}
+                    max={1000}
+                    value={limit.max}
+                    onChange={(e) => updateLimit(index, { max: Number(e.target.value) })}
+                    className={`${inputClass} w-20`}
+                  />
+                  <span>per</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={1440}
+                    value={limit.minutes}
+                    onChange={(e) => updateLimit(index, { minutes: Number(e.target.value) })}
+                    className={`${inputClass} w-24`}
+                  />
+                  <span>minutes</span>
+                  <button
+                    type="button"
+                    onClick={() => setRateLimits(prev => prev.filter((_, i) => i !== index))}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    title="Remove limit"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              {rateLimits.length < MAX_RATE_LIMITS && (
+                <button
+                  type="button"
+                  onClick={() => setRateLimits(prev => [...prev, { minutes: 60, max: 5 }])}
+                  className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-800"
+                >
+                  <Plus className="w-4 h-4" /> Add limit
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Minimum fill time <span className="font-normal text-gray-500">(seconds; faster forms are held)</span>
+            </label>
+            <input
+              type="number"
+              min={0}
+              max={600}
+              value={minFillSeconds}
+              onChange={(e) => setMinFillSeconds(Number(e.target.value))}
+              className={`${inputClass} w-24`}
+            />
+          </div>
+
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={proofOfWork}
+                onChange={(e) => setProofOfWork(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Require proof-of-work
+            </label>
+            {proofOfWork && (
+              <div className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+                <span>Difficulty</span>
+                <input
+                  type="number"
+                  min={8}
+                  max={24}
+                  value={proofOfWorkBits}
+                  onChange={(e) => setProofOfWorkBits(Number(e.target.value))}
+                  className={`${inputClass} w-20`}
+                />
+                <span className="text-gray-500">bits (each one doubles the work; 16 is about a second)</span>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Near-duplicate comments</p>
+            <div className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="number"
+                min={50}
+                max={100}
+                value={Math.round(duplicateSimilarity * 100)}
+                onChange={(e) => setDuplicateSimilarity(Number(e.target.value) / 100)}
+                className={`${inputClass} w-20`}
+              />
+              <span>% similar within</span>
+              <input
+                type="number"
+                min={0}
+                max={24}
+                value={duplicateHours}
+                onChange={(e) => setDuplicateHours(Number(e.target.value))}
+                className={`${inputClass} w-20`}
+              />
+              <span>hours</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Repeats from the same device are rejected; from other devices they are held. 0 hours turns this off.
+            </p>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+import { useState, useEffect } from 'react';
+import { History, ChevronDown, ChevronRight, X } from 'lucide-react';
+import { api } from '../lib/api';
+import type { AuditEntry, AuditFilters } from '../lib/types';
+
+const PAGE_SIZE = 50;
+
+const emptyFilters: AuditFilters = {
+  actor: '',
+  action: '',
+  targetType: '',
+  target: '',
+  startDate: '',
+  endDate: ''
+};
+
+const ACTION_LABELS: Record<string, string> = {
+  'feedback.update': 'Updated feedback',
+  'feedback.trash': 'Moved feedback to trash',
+  'feedback.restore': 'Restored feedback',
+  'feedback.purge': 'Permanently deleted feedback',
+  'feedback.approve': 'Approved held feedback',
+  'feedback.publish_request': 'Put feedback forward for the board',
+  'feedback.publish': 'Published feedback on the board',
+  'feedback.publish_reject': 'Turned down feedback for the board',
+  'feedback.unpublish': 'Took feedback off the board',
+  'feedback.note_add': 'Added an internal note',
+  'feedback.note_edit': 'Edited an internal note',
+  'feedback.note_delete': 'Deleted an internal note',
+  'category.create': 'Created category',
+  'category.update': 'Updated category',
+  'category.delete': 'Deleted category',
+  'category.reorder': 'Reordered categories',
+  'category.merge': 'Merged category',
+  'form.create': 'Created form',
+  'form.update': 'Updated form',
+  'form.activate': 'Activated form',
+  'form.delete': 'Deleted form',
+  'link.create': 'Created feedback link',
+  'link.update': 'Updated feedback link',
+  'link.close': 'Closed feedback link',
+  'link.reopen': 'Reopened feedback link',
+  'link.delete': 'Deleted feedback link',
+  'tag.create': 'Created tag',
+  'tag.update': 'Updated tag',
+  'tag.delete': 'Deleted tag',
+  'user.create': 'Added admin',
+  'user.update': 'Updated admin',
+  'user.delete': 'Removed admin',
+  'user.password_change': 'Changed password',
+  'settings.update': 'Changed settings'
+};
+
+const formatValue = (value: unknown) =>
+  value === null || value === undefined || value === '' ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+export default function ActivityLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [offset, setOffset] = useState(0);
+  const [filters, setFilters] = useState<AuditFilters>(emptyFilters);
+  const [actorName, setActorName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      setLoading(true);
+      try {
+        const page = await api.admin.audit(filters, { limit: PAGE_SIZE, offset });
+        setEntries(page.entries);
+        setTotal(page.total);
+      } catch (e) {
+        console.error('Error fetching activity:', e);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchEntries();
+  }, [filters, offset]);
+
+  const updateFilters = (next: AuditFilters) => {
+    setOffset(0);
+    setFilters(next);
+  };
+
+  const toggle = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+
+  return (
+    <div className="space-y-6">
+      {/* Filters */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Action</label>
+            <select
+              value={filters.action}
+              onChange={(e) => updateFilters({ ...filters, action: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All Actions</option>
+              {Object.entries(ACTION_LABELS).map(([action, label]) => (
+                <option key={action} value={action}>{label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Record Type</label>
+            <select
+              value={filters.targetType}
+              onChange={(e) => updateFilters({ ...filters, targetType: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All</option>
+              <option value="feedback">Feedback</option>
+              <option value="category">Categories</option>
+              <option value="form">Forms</option>
+              <option value="link">Feedback links</option>
+              <option value="tag">Tags</option>
+              <option value="user">Admins</option>
+              <option value="settings">Settings</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Record ID</label>
+            <input
+              type="text"
+              value={filters.target}
+              onChange={(e) => updateFilters({ ...filters, target: e.target.value.trim() })}
+              placeholder="e.g. a feedback id"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">From Date</label>
+            <input
+              type="date"
+              value={filters.startDate}
+              onChange={(e) => updateFilters({ ...filters, startDate: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">To Date</label>
+            <input
+              type="date"
+              value={filters.endDate}
+              onChange={(e) => updateFilters({ ...filters, endDate: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+          </div>
+        </div>
+        {filters.actor && (
+          <div className="mt-4 flex items-center gap-2 text-sm">
+            <span className="text-gray-600">Only changes by</span>
+            <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-blue-100 text-blue-800">
+              {actorName}
+              <button onClick={() => updateFilters({ ...filters, actor: '' })} title="Clear">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Entries */}
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <History className="w-5 h-5 mr-2" />
+            Activity ({total})
+          </h2>
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <span>
+              {total === 0 ? 0 : offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+            </span>
+            <button
+              onClick={() => setOffset(Math.max(offset - PAGE_SIZE, 0))}
+              disabled={offset === 0}
+              className="px-3 py-1 text-xs border rounded disabled:opacity-50"
+            >
+              Newer
+            </button>
+            <button
+              onClick={() => setOffset(offset + PAGE_SIZE)}
+              disabled={offset + PAGE_SIZE >= total}
+              className="px-3 py-1 text-xs border rounded disabled:opacity-50"
+            >
+              Older
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-12">
+            <History className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">No activity matches these filters.</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {entries.map(entry => {
+              const isOpen = expanded.has(entry.id);
+              const fields = Array.from(new Set([
+                ...Object.keys(entry.before || {}),
+                ...Object.keys(entry.after || {})
+              ]));
+              return (
+                <div key={entry.id} className="p-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <button onClick={() => toggle(entry.id)} className="flex items-start gap-2 text-left">
+                      {isOpen ? <ChevronDown className="w-4 h-4 mt-0.5 text-gray-400" /> : <ChevronRight className="w-4 h-4 mt-0.5 text-gray-400" />}
+                      <div>
+                        <p className="text-sm text-gray-900">
+                          <span className="font-medium">{ACTION_LABELS[entry.action] || entry.action}</span>
+                          {entry.target_id && (
+                            <span className="ml-2 font-mono text-xs text-gray-500">{entry.target_id}</span>
+                          )}
+                        </p>
+                        {entry.details && (
+                          <p className="text-xs text-gray-500">
+                            {Object.entries(entry.details).map(([k, v]) => `${k}: ${formatValue(v)}`).join(' · ')}
+                          </p>
+                        )}
+                      </div>
+                    </button>
+                    <div className="text-right text-sm shrink-0">
+                      {entry.actor_id ? (
+                        <button
+                          onClick={() => {
+                            setActorName(entry.actor_username || entry.actor_id || '');
+                            updateFilters({ ...filters, actor: entry.actor_id || '' });
+                          }}
+                          className="text-blue-600 hover:text-blue-800"
+                          title="Show only this admin's changes"
+                        >
+                          {entry.actor_username}
+                        </button>
+                      ) : (
+                        <span className="text-gray-500">system</span>
+                      )}
+                      <p className="text-xs text-gray-500">{formatDate(entry.timestamp)}</p>
+                    </div>
+                  </div>
+
+                  {isOpen && fields.length > 0 && (
+                    <table className="mt-3 ml-6 text-xs w-[calc(100%-1.5rem)]">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-1 pr-4 font-medium">Field</th>
+                          <th className="py-1 pr-4 font-medium">Before</th>
+                          <th className="py-1 font-medium">After</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {fields.map(field => (
+                          <tr key={field} className="align-top border-t border-gray-100">
+                            <td className="py-1 pr-4 font-mono text-gray-600">{field}</td>
+                            <td className="py-1 pr-4 text-red-700 break-all">{formatValue(entry.before?.[field])}</td>
+                            <td className="py-1 text-green-700 break-all">{formatValue(entry.after?.[field])}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
 import { 
   LogOut, 
   Filter, 
@@ -6,122 +7,323 @@ import {
   Calendar, 
   Star, 
   MessageSquare, 
-  TrendingUp,
-  Users,
   BarChart3,
   Download,
   FileText,
-  Trash2
+  Trash2,
+  Tags,
+  UserCog,
+  KeyRound,
+  History,
+  Trash,
+  AlertTriangle,
+  ShieldAlert,
+  EyeOff,
+  ClipboardList,
+  Link2,
+  Users,
+  Reply,
+  Megaphone,
+  StickyNote,
+  AtSign,
+  UserCheck,
+  Clock,
+  PanelRightOpen
 } from 'lucide-react';
-import { API_BASE } from '../lib/api';
-
-interface Feedback {
-  feedback_id: string;
-  category: string; // category id
-  rating: number;
-  comment: string;
-  status?: 'open' | 'in_progress' | 'completed';
-  admin_note?: string;
-  timestamp: string;
-}
+import CategoryManager from './CategoryManager';
+import UserManager from './UserManager';
+import ActivityLog from './ActivityLog';
+import TrashBin from './TrashBin';
+import ModerationQueue from './ModerationQueue';
+import BoardQueue from './BoardQueue';
+import AnalyticsPanel from './AnalyticsPanel';
+import ComparisonPanel from './ComparisonPanel';
+import QuestionAnalyticsPanel from './QuestionAnalyticsPanel';
+import ScorecardPanel from './ScorecardPanel';
+import FormBuilder from './FormBuilder';
+import LinkManager from './LinkManager';
+import ChangePasswordDialog from './ChangePasswordDialog';
+import ExportDialog from './ExportDialog';
+import ReportDialog from './ReportDialog';
+import RespondDialog from './RespondDialog';
+import NotesThread from './NotesThread';
+import TagManager from './TagManager';
+import TagPicker from './TagPicker';
+import BulkActionBar from './BulkActionBar';
+import FeedbackDrawer from './FeedbackDrawer';
+import { api } from '../lib/api';
+import { hasRole } from '../lib/roles';
+import { extraAnswers } from '../lib/forms';
+import { DEFAULT_WORKFLOW, isOverdue, statusBadgeClass, statusLabel } from '../lib/workflow';
+import { tagStyle } from '../lib/tags';
+import type {
+  AdminUser,
+  BulkSelection,
+  Category,
+  CollectionLink,
+  Feedback,
+  FeedbackFilters,
+  FeedbackSort,
+  FormSummary,
+  MentionableUser,
+  Role,
+  Sentiment,
+  Tag,
+  WorkflowSettings
+} from '../lib/types';
 
-interface Analytics {
-  totalFeedback: number;
-  averageRating: string;
-  categoryStats: Record<string, number>;
-  ratingStats: Record<string, number>;
-  commonWords: Array<{ word: string; count: number }>;
-}
+type Tab = 'feedback' | 'analytics' | 'categories' | 'forms' | 'links' | 'moderation' | 'trash' | 'activity' | 'users';
+
+// Tabs in display order, with the minimum role needed to see each one
+const tabs: Array<{ id: Tab; label: string; icon: typeof MessageSquare; role: Role }> = [
+  { id: 'feedback', label: 'Feedback', icon: MessageSquare, role: 'viewer' },
+  { id: 'analytics', label: 'Analytics', icon: BarChart3, role: 'viewer' },
+  { id: 'categories', label: 'Categories', icon: Tags, role: 'moderator' },
+  { id: 'forms', label: 'Forms', icon: ClipboardList, role: 'moderator' },
+  { id: 'links', label: 'Links', icon: Link2, role: 'moderator' },
+  { id: 'moderation', label: 'Review', icon: ShieldAlert, role: 'moderator' },
+  { id: 'trash', label: 'Trash', icon: Trash, role: 'moderator' },
+  { id: 'activity', label: 'Activity', icon: History, role: 'moderator' },
+  { id: 'users', label: 'Users', icon: UserCog, role: 'owner' }
+];
+
+const PAGE_SIZE = 50;
+
+const sortOptions: Array<{ label: string; sort: FeedbackSort }> = [
+  { label: 'Newest first', sort: { field: 'timestamp', direction: 'desc' } },
+  { label: 'Oldest first', sort: { field: 'timestamp', direction: 'asc' } },
+  { label: 'Highest rating', sort: { field: 'rating', direction: 'desc' } },
+  { label: 'Lowest rating', sort: { field: 'rating', direction: 'asc' } },
+  { label: 'Category', sort: { field: 'category', direction: 'asc' } },
+  { label: 'Status', sort: { field: 'status', direction: 'asc' } },
+  { label: 'Due soonest', sort: { field: 'due', direction: 'asc' } },
+  { label: 'Most negative comment', sort: { field: 'sentiment', direction: 'asc' } },
+  { label: 'Most positive comment', sort: { field: 'sentiment', direction: 'desc' } }
+];
+
+const sentimentStyles: Record<Sentiment, string> = {
+  positive: 'bg-green-100 text-green-800',
+  neutral: 'bg-gray-100 text-gray-700',
+  negative: 'bg-red-100 text-red-800'
+};
+
+const emptyFilters: FeedbackFilters = {
+  category: 'all',
+  rating: 'all',
+  status: 'all',
+  search: '',
+  startDate: '',
+  endDate: '',
+  sentiment: 'all',
+  mismatch: '',
+  cohort: 'all',
+  trainer: 'all',
+  mentions: '',
+  assignee: 'all',
+  overdue: '',
+  tags: '',
+  allTags: ''
+};
+
+// Distinct, sorted values of one field across the collection links, for the filter selects
+const linkValues = (links: CollectionLink[], field: 'cohort' | 'trainer') =>
+  [...new Set(links.map(link => link[field]))].sort((a, b) => a.localeCompare(b));
 
 interface AdminDashboardProps {
+  user: AdminUser;
   onLogout: () => void;
 }
 
-export default function AdminDashboard({ onLogout }: AdminDashboardProps) {
+export default function AdminDashboard({ user, onLogout }: AdminDashboardProps) {
+  const canModerate = hasRole(user, 'moderator');
+  const navigate = useNavigate();
+  // The item open in the detail drawer, from /admin/feedback/:id
+  const { id: openId } = useParams<{ id: string }>();
+  // Loaded pages of the current listing; `total` counts every match on the server
   const [feedback, setFeedback] = useState<Feedback[]>([]);
-  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Bumped each time the listing is reloaded, so responses for earlier filters or sorts are dropped
+  const listing = useRef(0);
+  const [sort, setSort] = useState<FeedbackSort>(sortOptions[0].sort);
   const [loading, setLoading] = useState(true);
-  const [filters, setFilters] = useState({
-    category: 'all',
-    rating: 'all',
-    status: 'all',
-    search: '',
-    startDate: '',
-    endDate: ''
-  });
-  const [activeTab, setActiveTab] = useState<'feedback' | 'analytics'>('feedback');
-
-  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [filters, setFilters] = useState<FeedbackFilters>(emptyFilters);
+  const [activeTab, setActiveTab] = useState<Tab>('feedback');
+  const [analyticsView, setAnalyticsView] = useState<'overview' | 'questions' | 'scorecards' | 'compare'>('overview');
+  const [showPasswordDialog, setShowPasswordDialog] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showReportDialog, setShowReportDialog] = useState(false);
+  // Feedback whose status and public response are being edited
+  const [responding, setResponding] = useState<Feedback | null>(null);
+
+  const [categories, setCategories] = useState<Category[]>([]);
+  // Survey forms, to label the answers each feedback item gives beyond its rating and comment
+  const [forms, setForms] = useState<FormSummary[]>([]);
+  // Collection links, for the cohort and trainer filters
+  const [links, setLinks] = useState<CollectionLink[]>([]);
+  // Admins that can be @mentioned in internal notes or assigned feedback
+  const [mentionable, setMentionable] = useState<MentionableUser[]>([]);
+  const [workflow, setWorkflow] = useState<WorkflowSettings>(DEFAULT_WORKFLOW);
+  const [tags, setTags] = useState<Tag[]>([]);
+  // Feedback items whose note thread is expanded
+  const [openNotes, setOpenNotes] = useState<Set<string>>(new Set());
   const [selected, setSelected] = useState<Set<string>>(new Set());
+  // "Select all N matching": bulk actions then go to the server as a filter instead of ids
+  const [allMatching, setAllMatching] = useState(false);
 
   useEffect(() => {
     fetchCategories();
+    fetchForms();
+    fetchLinks();
+    fetchMentionable();
+    fetchWorkflow();
+    fetchTags();
   }, []);
 
   useEffect(() => {
+    clearSelection();
     fetchFeedback();
-    fetchAnalytics();
-  }, [filters]);
+  }, [filters, sort]);
 
 
 
   const fetchCategories = async () => {
     try {
-      const resp = await fetch(`${API_BASE}/api/categories`);
-      if (!resp.ok) throw new Error('Failed to fetch categories');
-      const data = await resp.json();
-      setCategories(data);
+      // Admin list includes archived categories so older feedback stays filterable
+      setCategories(await api.admin.categories.list());
     } catch (e) {
       console.error('Error fetching categories:', e);
     }
   };
 
+  const fetchForms = async () => {
+    try {
+      setForms(await api.admin.forms.list());
+    } catch (e) {
+      console.error('Error fetching forms:', e);
+    }
+  };
+
+  const fetchLinks = async () => {
+    try {
+      setLinks(await api.admin.links.list());
+    } catch (e) {
+      console.error('Error fetching links:', e);
+    }
+  };
+
+  const fetchMentionable = async () => {
+    try {
+      setMentionable(await api.admin.users.mentionable());
+    } catch (e) {
+      console.error('Error fetching admins:', e);
+    }
+  };
+
+  const fetchWorkflow = async () => {
+    try {
+      setWorkflow(await api.admin.workflow.get());
+    } catch (e) {
+      console.error('Error fetching workflow:', e);
+    }
+  };
+
+  const fetchTags = async () => {
+    try {
+      setTags(await api.admin.tags.list());
+    } catch (e) {
+      console.error('Error fetching tags:', e);
+    }
+  };
+
+  // Tag ids in the tag filter, which keeps them in `tags` (any of them) or `allTags` (all of them)
+  const tagFilterIds = (filters.allTags || filters.tags).split(',').filter(Boolean);
+  const tagFilterMode = filters.allTags ? 'all' : 'any';
+
+  const setTagFilter = (ids: string[], mode: 'any' | 'all') => {
+    const value = ids.join(',');
+    setFilters({ ...filters, tags: mode === 'any' ? value : '', allTags: mode === 'all' ? value : '' });
+  };
+
+  const toggleTagFilter = (id: string) =>
+    setTagFilter(tagFilterIds.includes(id) ? tagFilterIds.filter(t => t !== id) : [...tagFilterIds, id], tagFilterMode);
+
+  // A tag just created from a card or the drawer
+  const addTag = (tag: Tag) => setTags(prev => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)));
+
+  const categoryName = (id: string) => categories.find(c => c.id === id)?.name || id;
+
+  const assigneeName = (id: string) => mentionable.find(u => u.id === id)?.username || 'unknown admin';
+
+  const toggleNotes = (id: string) => {
+    setOpenNotes(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const replaceItem = (updated: Feedback) =>
+    setFeedback(prev => prev.map(f => (f.feedback_id === updated.feedback_id ? updated : f)));
+
+  // First page of the current filters and sort
   const fetchFeedback = async () => {
+    const request = ++listing.current;
     try {
-      const params = new URLSearchParams();
-      if (filters.category !== 'all') params.append('category', filters.category);
-      if (filters.rating !== 'all') params.append('rating', String(filters.rating));
-      if (filters.status !== 'all') params.append('status', String(filters.status));
-      if (filters.search) params.append('search', filters.search);
-      if (filters.startDate) params.append('startDate', filters.startDate);
-      if (filters.endDate) params.append('endDate', filters.endDate);
-
-      const response = await fetch(`${API_BASE}/api/admin/feedback?${params}`, {
-        credentials: 'include'
-      });
-
-      if (!response.ok) throw new Error('Failed to fetch feedback');
-      
-      const data = await response.json();
-      setFeedback(data);
+      const page = await api.admin.feedback.list(filters, { sort: sort.field, direction: sort.direction, limit: PAGE_SIZE });
+      if (request !== listing.current) return;
+      setFeedback(page.items);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
     } catch (error) {
       console.error('Error fetching feedback:', error);
     } finally {
-      setLoading(false);
+      if (request === listing.current) setLoading(false);
     }
   };
 
-  const fetchAnalytics = async () => {
+  // Next page of the listing; returns its items
+  const loadMore = async () => {
+    if (!nextCursor || loadingMore) return [];
+    const request = listing.current;
+    setLoadingMore(true);
     try {
-      const response = await fetch(`${API_BASE}/api/admin/analytics`, {
-        credentials: 'include'
-      });
-
-      if (!response.ok) throw new Error('Failed to fetch analytics');
-      
-      const data = await response.json();
-      setAnalytics(data);
+      const page = await api.admin.feedback.list(filters, { limit: PAGE_SIZE, cursor: nextCursor });
+      if (request !== listing.current) return [];
+      setFeedback(prev => [...prev, ...page.items]);
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+      return page.items;
     } catch (error) {
-      console.error('Error fetching analytics:', error);
+      console.error('Error fetching feedback:', error);
+      return [];
+    } finally {
+      setLoadingMore(false);
     }
   };
 
+  const openFeedback = (id: string, replace = false) =>
+    navigate(`/admin/feedback/${encodeURIComponent(id)}`, { replace });
+
+  const closeFeedback = () => navigate('/admin/dashboard');
+
+  // Where the open item is in the loaded list, for previous/next; past the last loaded item the
+  // next page is loaded
+  const openIndex = openId ? feedback.findIndex(f => f.feedback_id === openId) : -1;
+  const openPrevious = openIndex > 0 ? () => openFeedback(feedback[openIndex - 1].feedback_id, true) : undefined;
+  const openNext = openIndex >= 0 && openIndex < feedback.length - 1
+    ? () => openFeedback(feedback[openIndex + 1].feedback_id, true)
+    : openIndex >= 0 && nextCursor
+      ? async () => {
+          const items = await loadMore();
+          if (items.length > 0) openFeedback(items[0].feedback_id, true);
+        }
+      : undefined;
+
   const handleLogout = async () => {
     try {
-      await fetch(`${API_BASE}/api/admin/logout`, {
-        method: 'POST',
-        credentials: 'include'
-      });
+      await api.auth.logout();
       onLogout();
     } catch (error) {
       console.error('Logout error:', error);
@@ -150,6 +352,12 @@ export default function AdminDashboard({ onLogout }: AdminDashboardProps) {
   };
 
   const toggleSelect = (id: string) => {
+    if (allMatching) {
+      // Unticking one item drops back to an explicit selection of what is loaded
+      setAllMatching(false);
+      setSelected(new Set(feedback.map(f => f.feedback_id).filter(fid => fid !== id)));
+      return;
+    }
     setSelected(prev => {
       const next = new Set(prev);
       if (next.has(id)) next.delete(id); else next.add(id);
@@ -165,24 +373,24 @@ export default function AdminDashboard({ onLogout }: AdminDashboardProps) {
     });
   };
 
-  const clearSelection = () => setSelected(new Set());
+  const clearSelection = () => {
+    setSelected(new Set());
+    setAllMatching(false);
+  };
+
+  const selectedCount = allMatching ? total : selected.size;
+  // What bulk actions apply to
+  const selection: BulkSelection = allMatching ? { filter: filters } : { ids: Array.from(selected) };
 
   const deleteSelected = async () => {
-    if (selected.size === 0) return;
-    if (!confirm(`Delete ${selected.size} selected feedback item(s)?`)) return;
+    if (selectedCount === 0) return;
+    if (!confirm(`Move ${selectedCount} selected feedback item(s) to the trash?`)) return;
     // Optimistic update: remove immediately
-    const ids = Array.from(selected);
     const prev = feedback;
-    setFeedback(prev => prev.filter(f => !selected.has(f.feedback_id)));
+    setFeedback(prev => (allMatching ? [] : prev.filter(f => !selected.has(f.feedback_id))));
     clearSelection();
     try {
-      const resp = await fetch(`${API_BASE}/api/admin/feedback/bulk-delete`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        credentials: 'include',
-        body: JSON.stringify({ ids })
-      });
-      if (!resp.ok) throw new Error('Bulk delete failed');
+      await api.admin.feedback.bulkDelete(selection);
       // Optionally refetch to sync
       fetchFeedback();
     } catch (e) {
@@ -193,94 +401,23 @@ export default function AdminDashboard({ onLogout }: AdminDashboardProps) {
   };
 
   const deleteOne = async (id: string) => {
-    if (!confirm('Delete this feedback?')) return;
+    if (!confirm('Move this feedback to the trash?')) return;
     // Optimistic update
     const prev = feedback;
     setFeedback(prev => prev.filter(f => f.feedback_id !== id));
+    setTotal(t => t - 1);
     setSelected(s => { const n = new Set(s); n.delete(id); return n; });
     try {
-      const resp = await fetch(`${API_BASE}/api/admin/feedback/${id}`, {
-        method: 'DELETE',
-        credentials: 'include'
-      });
-      if (!resp.ok) throw new Error('Delete failed');
-      // Sync with server
-      fetchFeedback();
+      // Keep the loaded pages; the total was already adjusted above
+      await api.admin.feedback.remove(id);
     } catch (e) {
       console.error('Delete error:', e);
       // Rollback on failure
       setFeedback(prev);
+      setTotal(t => t + 1);
     }
   };
 
-  const exportToCSV = () => {
-    const headers = ['ID', 'Category', 'Rating', 'Comment', 'Status', 'Admin Note', 'Timestamp'];
-    const csvContent = [
-      headers.join(','),
-      ...feedback.map(f => [
-        f.feedback_id,
-        f.category,
-        f.rating,
-        `"${(f.comment || '').replace(/"/g, '""')}"`,
-        f.status || 'open',
-        `"${(f.admin_note || '').replace(/"/g, '""')}"`,
-        f.timestamp
-      ].join(','))
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `feedback-export-${new Date().toISOString().split('T')[0]}.csv`;
-    a.click();
-    URL.revokeObjectURL(url);
-  };
-
-  const exportToPDF = async () => {
-    // Simple client-side PDF via print; for full PDF libs we could use jsPDF later
-    const printable = document.createElement('div');
-    printable.innerHTML = `
-      <h1>Career Development Feedback Survey — Export</h1>
-      <table border="1" cellspacing="0" cellpadding="6" style="border-collapse:collapse; width:100%; font-family: Arial; font-size:12px;">
-        <thead>
-          <tr>
-            <th>ID</th>
-            <th>Category</th>
-            <th>Rating</th>
-            <th>Comment</th>
-            <th>Status</th>
-            <th>Admin Note</th>
-            <th>Timestamp</th>
-          </tr>
-        </thead>
-        <tbody>
-          ${feedback.map(f => `
-            <tr>
-              <td>${f.feedback_id}</td>
-              <td>${f.category}</td>
-              <td>${f.rating}</td>
-              <td>${(f.comment || '').replace(/</g, '&lt;')}</td>
-              <td>${f.status || 'open'}</td>
-              <td>${(f.admin_note || '').replace(/</g, '&lt;')}</td>
-              <td>${f.timestamp}</td>
-            </tr>
-          `).join('')}
-        </tbody>
-      </table>
-    `;
-    const win = window.open('', '_blank');
-    if (!win) return;
-    win.document.write('<html><head><title>Export PDF</title></head><body>'+ printable.innerHTML +'</body></html>');
-    win.document.close();
-    win.focus();
-    // Let the new window render, then open print dialog
-    setTimeout(() => {
-      win.print();
-      win.close();
-    }, 300);
-  };
-
   return (
     <div className="min-h-screen">
       {/* Header */}
@@ -289,19 +426,29 @@ export default function AdminDashboard({ onLogout }: AdminDashboardProps) {
           <div className="flex justify-between items-center h-16">
             <h1 className="text-xl font-bold text-gray-900">Career Development Feedback Survey — Admin</h1>
             <div className="flex items-center space-x-4">
+              <span className="text-sm text-gray-600">
+                {user.username} <span className="text-xs text-gray-400 capitalize">({user.role})</span>
+              </span>
+              <button
+                onClick={() => setShowPasswordDialog(true)}
+                className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:text-gray-900 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                <KeyRound className="w-4 h-4" />
+                <span>Password</span>
+              </button>
               <button
-                onClick={exportToCSV}
+                onClick={() => setShowExportDialog(true)}
                 className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:text-gray-900 border border-gray-300 rounded-lg hover:bg-gray-50"
               >
                 <Download className="w-4 h-4" />
-                <span>Export CSV</span>
+                <span>Export</span>
               </button>
               <button
-                onClick={exportToPDF}
+                onClick={() => setShowReportDialog(true)}
                 className="flex items-center space-x-2 px-4 py-2 text-sm text-gray-700 hover:text-gray-900 border border-gray-300 rounded-lg hover:bg-gray-50"
               >
                 <FileText className="w-4 h-4" />
-                <span>Export PDF</span>
+                <span>PDF Report</span>
               </button>
               <button
                 onClick={handleLogout}
@@ -318,35 +465,26 @@ export default function AdminDashboard({ onLogout }: AdminDashboardProps) {
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Tab Navigation */}
         <div className="flex space-x-1 mb-8 bg-gray-100 p-1 rounded-lg w-fit">
-          <button
-            onClick={() => setActiveTab('feedback')}
-            className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-              activeTab === 'feedback'
-                ? 'bg-white text-blue-600 shadow-sm'
-                : 'text-gray-600 hover:text-gray-900'
-            }`}
-          >
-            <div className="flex items-center space-x-2">
-              <MessageSquare className="w-4 h-4" />
-              <span>Feedback</span>
-            </div>
-          </button>
-          <button
-            onClick={() => setActiveTab('analytics')}
-            className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-              activeTab === 'analytics'
-                ? 'bg-white text-blue-600 shadow-sm'
-                : 'text-gray-600 hover:text-gray-900'
-            }`}
-          >
-            <div className="flex items-center space-x-2">
-              <BarChart3 className="w-4 h-4" />
-              <span>Analytics</span>
-            </div>
-          </button>
+          {tabs.filter(tab => hasRole(user, tab.role)).map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              onClick={() => setActiveTab(id)}
+              className={`px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                activeTab === id
+                  ? 'bg-white text-blue-600 shadow-sm'
+                  : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              <div className="flex items-center space-x-2">
+                <Icon className="w-4 h-4" />
+                <span>{label}</span>
+              </div>
+            </button>
+          ))}
         </div>
 
-        {activeTab === 'feedback' && (
+        {/* Filters apply to both the feedback list and analytics */}
+        {(activeTab === 'feedback' || activeTab === 'analytics') && (
           <>
             {/* Filters */}
             <div className="bg-white rounded-lg shadow-sm p-6 mb-6">
@@ -394,6 +532,123 @@ export default function AdminDashboard({ onLogout }: AdminDashboardProps) {
                   </select>
                 </div>
 
+                {/* Sentiment Filter; "mismatch" is a separate filter sharing this select */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Sentiment
+                  </label>
+                  <select
+                    value={filters.mismatch === 'true' ? 'mismatch' : filters.sentiment}
+                    onChange={(e) => setFilters(e.target.value === 'mismatch'
+                      ? { ...filters, sentiment: 'all', mismatch: 'true' }
+                      : { ...filters, sentiment: e.target.value, mismatch: '' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="all">All Sentiments</option>
+                    <option value="positive">Positive</option>
+                    <option value="neutral">Neutral</option>
+                    <option value="negative">Negative</option>
+                    <option value="mismatch">Rating contradicts comment</option>
+                  </select>
+                </div>
+
+                {/* Cohort and trainer, for feedback sent through collection links */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Cohort
+                  </label>
+                  <select
+                    value={filters.cohort}
+                    onChange={(e) => setFilters({ ...filters, cohort: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="all">All Cohorts</option>
+                    {linkValues(links, 'cohort').map((cohort) => (
+                      <option key={cohort} value={cohort}>{cohort}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Trainer
+                  </label>
+                  <select
+                    value={filters.trainer}
+                    onChange={(e) => setFilters({ ...filters, trainer: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="all">All Trainers</option>
+                    {linkValues(links, 'trainer').map((trainer) => (
+                      <option key={trainer} value={trainer}>{trainer}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Workflow state, assignment and due dates */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Status
+                  </label>
+                  <select
+                    value={filters.status}
+                    onChange={(e) => setFilters({ ...filters, status: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="all">All Statuses</option>
+                    {workflow.states.map((state) => (
+                      <option key={state.id} value={state.id}>{state.label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Assigned To
+                  </label>
+                  <select
+                    value={filters.assignee}
+                    onChange={(e) => setFilters({ ...filters, assignee: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="all">Anyone</option>
+                    <option value={user.id}>Me</option>
+                    <option value="none">Nobody</option>
+                    {mentionable.filter(u => u.id !== user.id).map((u) => (
+                      <option key={u.id} value={u.id}>{u.username}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Due
+                  </label>
+                  <select
+                    value={filters.overdue === 'true' ? 'overdue' : 'all'}
+                    onChange={(e) => setFilters({ ...filters, overdue: e.target.value === 'overdue' ? 'true' : '' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="all">Any Time</option>
+                    <option value="overdue">Overdue</option>
+                  </select>
+                </div>
+
+                {/* Internal notes mentioning the signed-in admin */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Internal Notes
+                  </label>
+                  <select
+                    value={filters.mentions ? 'me' : 'all'}
+                    onChange={(e) => setFilters({ ...filters, mentions: e.target.value === 'me' ? user.id : '' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="all">All Feedback</option>
+                    <option value="me">Mentioning me</option>
+                  </select>
+                </div>
+
                 {/* Search */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -405,7 +660,7 @@ export default function AdminDashboard({ onLogout }: AdminDashboardProps) {
                       type="text"
                       value={filters.search}
                       onChange={(e) => setFilters({ ...filters, search: e.target.value })}
-                      placeholder="Search in comments..."
+                      placeholder="Search in comments and notes..."
                       className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                     />
                   </div>
@@ -436,9 +691,39 @@ export default function AdminDashboard({ onLogout }: AdminDashboardProps) {
                   />
                 </div>
 
+                {/* Tags: feedback with any or all of the picked tags */}
+                {tags.length > 0 && (
+                  <div className="md:col-span-2 lg:col-span-3">
+                    <div className="flex items-center gap-2 mb-2">
+                      <label className="text-sm font-medium text-gray-700">Tags</label>
+                      <select
+                        value={tagFilterMode}
+                        onChange={(e) => setTagFilter(tagFilterIds, e.target.value as 'any' | 'all')}
+                        className="px-2 py-0.5 text-xs border border-gray-300 rounded"
+                      >
+                        <option value="any">Any of</option>
+                        <option value="all">All of</option>
+                      </select>
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                      {tags.map(tag => (
+                        <button
+                          key={tag.id}
+                          type="button"
+                          onClick={() => toggleTagFilter(tag.id)}
+                          className={`text-xs px-2 py-0.5 rounded-full font-medium border ${tagFilterIds.includes(tag.id) ? 'border-current' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                          style={tagStyle(tag.color)}
+                        >
+                          {tag.name}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 <div className="flex items-end">
                   <button
-                    onClick={() => setFilters({ category: 'all', rating: 'all', search: '', startDate: '', endDate: '' })}
+                    onClick={() => setFilters(emptyFilters)}
                     className="w-full px-4 py-2 text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50"
                   >
                     Clear Filters
@@ -446,21 +731,67 @@ export default function AdminDashboard({ onLogout }: AdminDashboardProps) {
                 </div>
               </div>
             </div>
+          </>
+        )}
 
+        {activeTab === 'feedback' && (
+          <>
             {/* Feedback List */}
             <div className="bg-white rounded-lg shadow-sm">
               <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
                 <h2 className="text-lg font-semibold text-gray-900">
-                  Feedback ({feedback.length} results)
+                  Feedback ({total} results)
                 </h2>
                 <div className="flex items-center gap-2">
-                  <button type="button" onClick={selectAllOnPage} className="px-3 py-1 text-xs border rounded">Select All</button>
-                  <button type="button" onClick={clearSelection} className="px-3 py-1 text-xs border rounded">Clear</button>
-                  <button type="button" onClick={deleteSelected} className="px-3 py-1 text-xs border border-red-300 text-red-600 rounded flex items-center gap-1">
-                    <Trash2 className="w-3 h-3" /> Delete Selected ({selected.size})
-                  </button>
+                  <select
+                    value={sortOptions.findIndex(o => o.sort.field === sort.field && o.sort.direction === sort.direction)}
+                    onChange={(e) => setSort(sortOptions[Number(e.target.value)].sort)}
+                    className="px-3 py-1 text-xs border border-gray-300 rounded"
+                    title="Sort by"
+                  >
+                    {sortOptions.map((option, i) => (
+                      <option key={option.label} value={i}>{option.label}</option>
+                    ))}
+                  </select>
+                  {canModerate && (
+                    <>
+                      <button type="button" onClick={selectAllOnPage} className="px-3 py-1 text-xs border rounded">Select All</button>
+                      <button type="button" onClick={clearSelection} className="px-3 py-1 text-xs border rounded">Clear</button>
+                      <button type="button" onClick={deleteSelected} className="px-3 py-1 text-xs border border-red-300 text-red-600 rounded flex items-center gap-1">
+                        <Trash2 className="w-3 h-3" /> Move to Trash ({selectedCount})
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
+
+              {canModerate && selectedCount > 0 && (
+                <BulkActionBar
+                  count={selectedCount}
+                  selection={selection}
+                  workflow={workflow}
+                  categories={categories}
+                  onApplied={fetchFeedback}
+                />
+              )}
+
+              {canModerate && total > feedback.length && (allMatching || (feedback.length > 0 && selected.size === feedback.length)) && (
+                <div className="px-6 py-2 bg-blue-50 border-b border-blue-100 text-sm text-blue-900 text-center">
+                  {allMatching ? (
+                    <>
+                      All {total} matching items are selected.{' '}
+                      <button type="button" onClick={clearSelection} className="font-medium underline">Clear selection</button>
+                    </>
+                  ) : (
+                    <>
+                      All {feedback.length} loaded items are selected.{' '}
+                      <button type="button" onClick={() => setAllMatching(true)} className="font-medium underline">
+                        Select all {total} matching items
+                      </button>
+                    </>
+                  )}
+                </div>
+              )}
               
               {loading ? (
                 <div className="flex items-center justify-center py-12">
@@ -477,153 +808,330 @@ export default function AdminDashboard({ onLogout }: AdminDashboardProps) {
                     <div key={item.feedback_id} className="p-6 hover:bg-gray-50">
                       <div className="flex items-start justify-between mb-3">
                         <div className="flex items-center space-x-3">
-                          <input
-                            type="checkbox"
-                            checked={selected.has(item.feedback_id)}
-                            onChange={() => toggleSelect(item.feedback_id)}
-                            className="rounded border-gray-300"
-                          />
+                          {canModerate && (
+                            <input
+                              type="checkbox"
+                              checked={allMatching || selected.has(item.feedback_id)}
+                              onChange={() => toggleSelect(item.feedback_id)}
+                              className="rounded border-gray-300"
+                            />
+                          )}
                           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
-                            {item.category}
+                            {categoryName(item.category)}
                           </span>
                           <div className="flex items-center">
                             {renderStars(item.rating)}
                           </div>
-                          <span className={`text-xs px-2 py-0.5 rounded-full ${
-                            (item.status || 'open') === 'completed' ? 'bg-green-100 text-green-800' :
-                            (item.status || 'open') === 'in_progress' ? 'bg-yellow-100 text-yellow-800' :
-                            'bg-gray-100 text-gray-800'
-                          }`}>
-                            {item.status || 'open'}
+                          <span className={`text-xs px-2 py-0.5 rounded-full ${statusBadgeClass(workflow, item.status)}`}>
+                            {statusLabel(workflow, item.status)}
                           </span>
+                          {item.assignee_id && (
+                            <span
+                              className={`inline-flex items-center text-xs px-2 py-0.5 rounded-full ${item.assignee_id === user.id ? 'bg-blue-100 text-blue-900' : 'bg-gray-100 text-gray-700'}`}
+                              title="Assigned to"
+                            >
+                              <UserCheck className="w-3 h-3 mr-1" />
+                              {item.assignee_id === user.id ? 'you' : assigneeName(item.assignee_id)}
+                            </span>
+                          )}
+                          {item.due_at && !item.resolved_at && (
+                            <span
+                              className={`inline-flex items-center text-xs px-2 py-0.5 rounded-full ${isOverdue(item) ? 'bg-red-100 text-red-800' : 'bg-gray-100 text-gray-700'}`}
+                              title={item.due_manual ? 'Due date set by hand' : 'Due under the category SLA'}
+                            >
+                              <Clock className="w-3 h-3 mr-1" />
+                              {isOverdue(item) ? 'overdue since' : 'due'} {new Date(item.due_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                            </span>
+                          )}
+                          {item.sentiment && (
+                            <span
+                              className={`text-xs px-2 py-0.5 rounded-full ${sentimentStyles[item.sentiment]}`}
+                              title={`Comment sentiment score: ${item.sentiment_score}`}
+                            >
+                              {item.sentiment}
+                            </span>
+                          )}
+                          {item.sentiment_mismatch && (
+                            <span
+                              className="inline-flex items-center text-xs px-2 py-0.5 rounded-full bg-orange-100 text-orange-800"
+                              title="The rating contradicts the comment"
+                            >
+                              <AlertTriangle className="w-3 h-3 mr-1" />
+                              mismatch
+                            </span>
+                          )}
+                          {item.publish_state && (
+                            <span
+                              className="inline-flex items-center text-xs px-2 py-0.5 rounded-full bg-purple-100 text-purple-800"
+                              title={item.publish_state === 'published' ? 'Shown on the public board' : 'Waiting for review to go on the public board'}
+                            >
+                              <Megaphone className="w-3 h-3 mr-1" />
+                              {item.publish_state === 'published' ? 'on board' : 'board review'}
+                            </span>
+                          )}
+                          {item.notes?.some(note => note.mentions.includes(user.id)) && (
+                            <span
+                              className="inline-flex items-center text-xs px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-900"
+                              title="An internal note mentions you"
+                            >
+                              <AtSign className="w-3 h-3 mr-1" />
+                              you
+                            </span>
+                          )}
+                          {item.redacted && item.redacted.length > 0 && (
+                            <span
+                              className="inline-flex items-center text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700"
+                              title={`Removed on submission: ${item.redacted.join(', ').replace(/_/g, ' ')}`}
+                            >
+                              <EyeOff className="w-3 h-3 mr-1" />
+                              redacted
+                            </span>
+                          )}
                         </div>
                         <div className="flex items-center gap-2">
+                          {item.cohort && (
+                            <span
+                              className="inline-flex items-center text-xs px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-800"
+                              title={item.session_date ? `Session of ${item.session_date}` : undefined}
+                            >
+                              <Users className="w-3 h-3 mr-1" />
+                              {item.cohort} · {item.trainer}
+                            </span>
+                          )}
                           <span className="text-sm text-gray-500 flex items-center">
                             <Calendar className="w-4 h-4 mr-1" />
                             {formatDate(item.timestamp)}
                           </span>
-                          <button onClick={() => deleteOne(item.feedback_id)} className="text-red-600 hover:text-red-800 p-2" title="Delete">
-                            <Trash2 className="w-4 h-4" />
+                          <button onClick={() => openFeedback(item.feedback_id)} className="text-gray-600 hover:text-gray-900 p-2" title="Open details">
+                            <PanelRightOpen className="w-4 h-4" />
                           </button>
+                          {canModerate && (
+                            <button onClick={() => setResponding(item)} className="text-blue-600 hover:text-blue-800 p-2" title="Respond">
+                              <Reply className="w-4 h-4" />
+                            </button>
+                          )}
+                          {canModerate && (
+                            <button onClick={() => deleteOne(item.feedback_id)} className="text-red-600 hover:text-red-800 p-2" title="Move to trash">
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
                         </div>
                       </div>
-                      <p className="text-gray-800 text-sm leading-relaxed">{item.comment}</p>
+                      {item.comment && <p className="text-gray-800 text-sm leading-relaxed">{item.comment}</p>}
+                      <div className="mt-2 empty:hidden">
+                        <TagPicker
+                          item={item}
+                          tags={tags}
+                          canEdit={canModerate}
+                          onChange={replaceItem}
+                          onTagCreated={addTag}
+                        />
+                      </div>
+                      {extraAnswers(forms, item).length > 0 && (
+                        <dl className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                          {extraAnswers(forms, item).map(answer => (
+                            <div key={answer.id} className="flex gap-2">
+                              <dt className="text-gray-500">{answer.label}:</dt>
+                              <dd className="text-gray-800">{answer.value}</dd>
+                            </div>
+                          ))}
+                        </dl>
+                      )}
+                      {item.follow_ups && item.follow_ups.length > 0 && (
+                        <div className="mt-3 space-y-1">
+                          <p className="text-xs font-medium text-gray-500">Follow-ups from the submitter</p>
+                          {item.follow_ups.map(followUp => (
+                            <p key={followUp.id} className="text-sm text-gray-800 border-l-2 border-blue-200 pl-3">
+                              {followUp.message} <span className="text-xs text-gray-500">{formatDate(followUp.timestamp)}</span>
+                            </p>
+                          ))}
+                        </div>
+                      )}
+                      {item.public_response && (
+                        <p className="mt-3 text-sm text-green-900 bg-green-50 rounded-lg px-3 py-2">
+                          <span className="font-medium">Public response:</span> {item.public_response}
+                        </p>
+                      )}
+                      {(canModerate || (item.notes && item.notes.length > 0)) && (
+                        <div className="mt-3 bg-amber-50/50 rounded-lg px-3 py-2">
+                          <button
+                            type="button"
+                            onClick={() => toggleNotes(item.feedback_id)}
+                            className="text-xs font-medium text-amber-800 flex items-center gap-1"
+                          >
+                            <StickyNote className="w-3 h-3" />
+                            Internal notes ({item.notes?.length ?? 0})
+                          </button>
+                          {openNotes.has(item.feedback_id) ? (
+                            <div className="mt-2">
+                              <NotesThread
+                                item={item}
+                                user={user}
+                                users={mentionable}
+                                canEdit={canModerate}
+                                onChange={replaceItem}
+                              />
+                            </div>
+                          ) : item.notes && item.notes.length > 0 && (
+                            <p className="mt-1 text-sm text-gray-700 truncate">
+                              <span className="font-medium">{item.notes[item.notes.length - 1].author ?? 'Earlier admin note'}:</span>{' '}
+                              {item.notes[item.notes.length - 1].text}
+                            </p>
+                          )}
+                        </div>
+                      )}
                     </div>
                   ))}
                 </div>
               )}
+
+              {nextCursor && !loading && (
+                <div className="px-6 py-4 border-t border-gray-200 flex items-center justify-between text-sm text-gray-600">
+                  <span>Showing {feedback.length} of {total}</span>
+                  <button
+                    type="button"
+                    onClick={loadMore}
+                    disabled={loadingMore}
+                    className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {loadingMore ? 'Loading...' : `Load ${Math.min(PAGE_SIZE, total - feedback.length)} more`}
+                  </button>
+                </div>
+              )}
             </div>
           </>
         )}
 
-        {activeTab === 'analytics' && analytics && (
+        {activeTab === 'categories' && (
           <div className="space-y-6">
-            {/* Overview Stats */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              <div className="bg-white rounded-lg shadow-sm p-6">
-                <div className="flex items-center">
-                  <Users className="w-8 h-8 text-blue-600" />
-                  <div className="ml-4">
-                    <p className="text-sm font-medium text-gray-500">Total Feedback</p>
-                    <p className="text-2xl font-bold text-gray-900">{analytics.totalFeedback}</p>
-                  </div>
-                </div>
-              </div>
+            <CategoryManager
+              onChange={() => {
+                fetchCategories();
+                fetchFeedback();
+              }}
+              workflow={workflow}
+              onWorkflowSaved={setWorkflow}
+            />
+            <TagManager
+              onChange={() => {
+                fetchTags();
+                fetchFeedback();
+              }}
+            />
+          </div>
+        )}
 
-              <div className="bg-white rounded-lg shadow-sm p-6">
-                <div className="flex items-center">
-                  <Star className="w-8 h-8 text-amber-500" />
-                  <div className="ml-4">
-                    <p className="text-sm font-medium text-gray-500">Average Rating</p>
-                    <p className="text-2xl font-bold text-gray-900">{analytics.averageRating}</p>
-                  </div>
-                </div>
-              </div>
+        {activeTab === 'forms' && <FormBuilder onChange={fetchForms} />}
 
-              <div className="bg-white rounded-lg shadow-sm p-6">
-                <div className="flex items-center">
-                  <TrendingUp className="w-8 h-8 text-green-600" />
-                  <div className="ml-4">
-                    <p className="text-sm font-medium text-gray-500">Most Common Rating</p>
-                    <p className="text-2xl font-bold text-gray-900">
-                      {Object.entries(analytics.ratingStats)
-                        .reduce((a, b) => (analytics.ratingStats[a[0]] || 0) > (analytics.ratingStats[b[0]] || 0) ? a : b, ['0', 0])[0] || 'N/A'}
-                    </p>
-                  </div>
-                </div>
-              </div>
-            </div>
+        {activeTab === 'links' && (
+          <LinkManager
+            onChange={fetchLinks}
+            onViewFeedback={(link) => {
+              setFilters({ ...emptyFilters, cohort: link.cohort, trainer: link.trainer });
+              setActiveTab('feedback');
+            }}
+          />
+        )}
 
-            {/* Charts */}
-            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-              {/* Category Breakdown */}
-              <div className="bg-white rounded-lg shadow-sm p-6">
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Category Breakdown</h3>
-                <div className="space-y-3">
-                  {Object.entries(analytics.categoryStats).map(([category, count]) => (
-                    <div key={category}>
-                      <div className="flex justify-between text-sm">
-                        <span className="text-gray-600">{category}</span>
-                        <span className="text-gray-900 font-medium">{count}</span>
-                      </div>
-                      <div className="w-full bg-gray-200 rounded-full h-2">
-                        <div
-                          className="bg-blue-600 h-2 rounded-full"
-                          style={{
-                            width: `${(count / analytics.totalFeedback) * 100}%`
-                          }}
-                        ></div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
+        {activeTab === 'moderation' && (
+          <div className="space-y-6">
+            <ModerationQueue categories={categories} onChange={fetchFeedback} />
+            <BoardQueue categories={categories} onChange={fetchFeedback} />
+          </div>
+        )}
 
-              {/* Rating Distribution */}
-              <div className="bg-white rounded-lg shadow-sm p-6">
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Rating Distribution</h3>
-                <div className="space-y-3">
-                  {[5, 4, 3, 2, 1].map((rating) => (
-                    <div key={rating}>
-                      <div className="flex justify-between text-sm">
-                        <div className="flex items-center">
-                          <span className="text-gray-600 mr-2">{rating}</span>
-                          <Star className="w-4 h-4 text-amber-400 fill-amber-400" />
-                        </div>
-                        <span className="text-gray-900 font-medium">
-                          {analytics.ratingStats[rating] || 0}
-                        </span>
-                      </div>
-                      <div className="w-full bg-gray-200 rounded-full h-2">
-                        <div
-                          className="bg-amber-500 h-2 rounded-full"
-                          style={{
-                            width: `${((analytics.ratingStats[rating] || 0) / analytics.totalFeedback) * 100}%`
-                          }}
-                        ></div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            </div>
+        {activeTab === 'trash' && (
+          <TrashBin categories={categories} onChange={fetchFeedback} />
+        )}
 
-            {/* Most Common Words */}
-            <div className="bg-white rounded-lg shadow-sm p-6">
-              <h3 className="text-lg font-semibold text-gray-900 mb-4">Most Common Words</h3>
-              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
-                {analytics.commonWords.map(({ word, count }, index) => (
-                  <div key={word} className="text-center p-3 bg-gray-50 rounded-lg">
-                    <p className="text-lg font-bold text-blue-600">#{index + 1}</p>
-                    <p className="text-sm font-medium text-gray-900 capitalize">{word}</p>
-                    <p className="text-xs text-gray-500">{count} times</p>
-                  </div>
-                ))}
-              </div>
+        {activeTab === 'activity' && <ActivityLog />}
+
+        {activeTab === 'users' && <UserManager currentUser={user} />}
+
+        {activeTab === 'analytics' && (
+          <>
+            <div className="flex space-x-1 mb-6 bg-gray-100 p-1 rounded-lg w-fit">
+              {([['overview', 'Overview'], ['questions', 'Questions'], ['scorecards', 'Trainers & cohorts'], ['compare', 'Compare periods']] as const).map(([view, label]) => (
+                <button
+                  key={view}
+                  onClick={() => setAnalyticsView(view)}
+                  className={`px-3 py-1.5 text-sm font-medium rounded-md transition-colors ${
+                    analyticsView === view ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
             </div>
-          </div>
+            {analyticsView === 'overview' && (
+              <AnalyticsPanel
+                filters={filters}
+                workflow={workflow}
+                canEdit={hasRole(user, 'moderator')}
+                onFilter={(changes) => {
+                  setFilters({ ...filters, ...changes });
+                  setActiveTab('feedback');
+                }}
+              />
+            )}
+            {analyticsView === 'questions' && <QuestionAnalyticsPanel filters={filters} />}
+            {analyticsView === 'scorecards' && (
+              <ScorecardPanel
+                filters={filters}
+                onFilter={(changes) => {
+                  setFilters({ ...filters, ...changes });
+                  setActiveTab('feedback');
+                }}
+              />
+            )}
+            {analyticsView === 'compare' && <ComparisonPanel filters={filters} categories={categories} workflow={workflow} />}
+          </>
         )}
       </div>
+
+      {openId && (
+        <FeedbackDrawer
+          key={openId}
+          id={openId}
+          initial={openIndex >= 0 ? feedback[openIndex] : null}
+          user={user}
+          workflow={workflow}
+          categories={categories}
+          users={mentionable}
+          tags={tags}
+          forms={forms}
+          position={openIndex >= 0 ? { index: openIndex, total } : null}
+          onPrevious={openPrevious}
+          onNext={openNext}
+          onChange={replaceItem}
+          onTagCreated={addTag}
+          onClose={closeFeedback}
+        />
+      )}
+      {responding && (
+        <RespondDialog
+          item={responding}
+          workflow={workflow}
+          users={mentionable}
+          onClose={() => setResponding(null)}
+          onSaved={replaceItem}
+        />
+      )}
+      {showPasswordDialog && <ChangePasswordDialog onClose={() => setShowPasswordDialog(false)} />}
+      {showExportDialog && (
+        <ExportDialog filters={filters} sort={sort} total={total} onClose={() => setShowExportDialog(false)} />
+      )}
+      {showReportDialog && (
+        <ReportDialog
+          categories={categories}
+          initial={{
+            startDate: filters.startDate,
+            endDate: filters.endDate,
+            categories: filters.category === 'all' ? [] : [filters.category]
+          }}
+          onClose={() => setShowReportDialog(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,16 +1,20 @@
 import React, { useState } from 'react';
 import { Lock, User, Eye, EyeOff } from 'lucide-react';
-import { API_BASE } from '../lib/api';
+import { api } from '../lib/api';
+import type { AdminUser } from '../lib/types';
 
 interface AdminLoginProps {
-  onLogin: () => void;
+  // True on first run, before any admin account exists: the form creates the owner instead
+  needsSetup: boolean;
+  onLogin: (user: AdminUser) => void;
 }
 
-export default function AdminLogin({ onLogin }: AdminLoginProps) {
+export default function AdminLogin({ needsSetup, onLogin }: AdminLoginProps) {
   const [formData, setFormData] = useState({
     username: '',
     password: ''
   });
+  const [confirmPassword, setConfirmPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
   const [isLogging, setIsLogging] = useState(false);
   const [error, setError] = useState('');
@@ -18,24 +22,17 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
-    setIsLogging(true);
 
-    try {
-      const response = await fetch(`${API_BASE}/api/admin/login`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify(formData),
-      });
+    if (needsSetup && formData.password !== confirmPassword) {
+      setError('Passwords do not match');
+      return;
+    }
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Login failed');
-      }
+    setIsLogging(true);
 
-      onLogin();
+    try {
+      const { user } = needsSetup ? await api.auth.setup(formData) : await api.auth.login(formData);
+      onLogin(user);
     } catch (error) {
       console.error('Login error:', error);
       setError(error instanceof Error ? error.message : 'Login failed');
@@ -53,17 +50,18 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
             <Lock className="w-8 h-8 text-blue-600" />
           </div>
           <h1 className="text-xl font-bold text-gray-900 mb-2">KIOT Career Development Training </h1>
-          <h1 className="text-2xl font-bold text-gray-900 mb-2">Admin Login</h1>
-          <p className="text-gray-600">Access the feedback dashboard</p>
-        </div>
-  
-        {/* Demo Credentials */}
-        <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
-          <p className="text-amber-800 text-sm font-medium">Demo Credentials:</p>
-          <p className="text-amber-700 text-sm">Username: admin</p>
-          <p className="text-amber-700 text-sm">Password: admin123</p>
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">{needsSetup ? 'Create Owner Account' : 'Admin Login'}</h1>
+          <p className="text-gray-600">{needsSetup ? 'Set up the first admin account for this portal' : 'Access the feedback dashboard'}</p>
         </div>
 
+        {needsSetup && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+            <p className="text-amber-800 text-sm">
+              No admin accounts exist yet. The account you create here becomes the owner and can invite other admins.
+            </p>
+          </div>
+        )}
+
         {/* Login Form */}
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* Username */}
@@ -97,6 +95,7 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
                 onChange={(e) => setFormData({ ...formData, password: e.target.value })}
                 className="w-full pl-10 pr-12 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
                 placeholder="Enter password"
+                minLength={needsSetup ? 8 : undefined}
                 required
               />
               <button
@@ -109,6 +108,26 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
             </div>
           </div>
 
+          {/* Confirm Password (setup only) */}
+          {needsSetup && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Confirm Password
+              </label>
+              <div className="relative">
+                <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
+                  placeholder="Repeat password"
+                  required
+                />
+              </div>
+            </div>
+          )}
+
           {/* Error Message */}
           {error && (
             <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -125,10 +144,10 @@ export default function AdminLogin({ onLogin }: AdminLoginProps) {
             {isLogging ? (
               <>
                 <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
-                <span>Logging in...</span>
+                <span>{needsSetup ? 'Creating account...' : 'Logging in...'}</span>
               </>
             ) : (
-              <span>Login</span>
+              <span>{needsSetup ? 'Create Account' : 'Login'}</span>
             )}
           </button>
         </form>
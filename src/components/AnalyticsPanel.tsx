@@ -0,0 +1,347 @@
+import { useState, useEffect } from 'react';
+import { Users, Star, TrendingUp, Clock, Tag } from 'lucide-react';
+import { api } from '../lib/api';
+import { statusColor, statusLabel } from '../lib/workflow';
+import TrendChart from './TrendChart';
+import KeywordsPanel from './KeywordsPanel';
+import type { Analytics, FeedbackFilters, Sentiment, TimeSeriesBucket, WorkflowSettings } from '../lib/types';
+
+interface AnalyticsPanelProps {
+  // The dashboard filters; every number and chart here covers only matching feedback
+  filters: FeedbackFilters;
+  workflow: WorkflowSettings;
+  canEdit: boolean;
+  // Narrow the dashboard filters and show the matching feedback
+  onFilter: (changes: Partial<FeedbackFilters>) => void;
+}
+
+const BUCKET_OPTIONS: Array<{ value: TimeSeriesBucket | ''; label: string }> = [
+  { value: '', label: 'Auto' },
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' }
+];
+
+const SENTIMENTS: Array<{ id: Sentiment; label: string; color: string }> = [
+  { id: 'positive', label: 'Positive', color: 'bg-green-500' },
+  { id: 'neutral', label: 'Neutral', color: 'bg-gray-400' },
+  { id: 'negative', label: 'Negative', color: 'bg-red-500' }
+];
+
+const CATEGORY_COLORS = ['#2563eb', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316', '#84cc16', '#06b6d4', '#ef4444', '#a855f7', '#64748b'];
+
+export default function AnalyticsPanel({ filters, workflow, canEdit, onFilter }: AnalyticsPanelProps) {
+  const [analytics, setAnalytics] = useState<Analytics | null>(null);
+  const [bucket, setBucket] = useState<TimeSeriesBucket | ''>('');
+
+  useEffect(() => {
+    const fetchAnalytics = async () => {
+      try {
+        setAnalytics(await api.admin.analytics(filters, bucket || undefined));
+      } catch (error) {
+        console.error('Error fetching analytics:', error);
+      }
+    };
+    fetchAnalytics();
+  }, [filters, bucket]);
+
+  if (!analytics) return null;
+
+  const { points } = analytics.timeSeries;
+  const periods = points.map(p => p.period);
+  const categoryName = (id: string) => analytics.categoryMap[id] || id;
+  // Largest categories first so the legend reads in order of volume
+  const categoryIds = Object.entries(analytics.categoryStats).sort(([, a], [, b]) => b - a).map(([id]) => id);
+  // Workflow states in order, then any that have since been removed
+  const statusIds = [...new Set([...workflow.states.map(s => s.id), ...Object.keys(analytics.statusStats)])];
+  const { sla } = analytics;
+  const slaCategories = Object.entries(sla.byCategory).filter(([, c]) => c.breached > 0).sort(([, a], [, b]) => b.breached - a.breached);
+  const tagIds = Object.entries(analytics.tagStats).filter(([id]) => analytics.tagMap[id]).sort(([, a], [, b]) => b - a).map(([id]) => id);
+
+  return (
+    <div className="space-y-6">
+      {/* Overview Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <div className="flex items-center">
+            <Users className="w-8 h-8 text-blue-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-500">Total Feedback</p>
+              <p className="text-2xl font-bold text-gray-900">{analytics.totalFeedback}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <div className="flex items-center">
+            <Star className="w-8 h-8 text-amber-500" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-500">Average Rating</p>
+              <p className="text-2xl font-bold text-gray-900">{analytics.averageRating}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <div className="flex items-center">
+            <TrendingUp className="w-8 h-8 text-green-600" />
+            <div className="ml-4">
+              <p className="text-sm font-medium text-gray-500">Most Common Rating</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {Object.entries(analytics.ratingStats)
+                  .reduce((a, b) => (analytics.ratingStats[a[0]] || 0) > (analytics.ratingStats[b[0]] || 0) ? a : b, ['0', 0])[0] || 'N/A'}
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Trends */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Trends</h3>
+          <select
+            value={bucket}
+            onChange={(e) => setBucket(e.target.value as TimeSeriesBucket | '')}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {BUCKET_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Feedback volume</p>
+            <TrendChart periods={periods} series={[{ label: 'Feedback', color: '#2563eb', values: points.map(p => p.count) }]} />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Average rating</p>
+            <TrendChart
+              periods={periods}
+              series={[{ label: 'Average rating', color: '#f59e0b', values: points.map(p => p.averageRating) }]}
+              yMax={5}
+            />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">By category</p>
+            <TrendChart
+              variant="stacked"
+              periods={periods}
+              series={categoryIds.map((id, i) => ({
+                label: categoryName(id),
+                color: CATEGORY_COLORS[i % CATEGORY_COLORS.length],
+                values: points.map(p => p.categories[id] || 0)
+              }))}
+            />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">By status</p>
+            <TrendChart
+              variant="stacked"
+              periods={periods}
+              series={statusIds.map(id => ({
+                label: statusLabel(workflow, id),
+                color: statusColor(workflow, id),
+                values: points.map(p => p.statuses[id] || 0)
+              }))}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Charts */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Category Breakdown */}
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Category Breakdown</h3>
+          <div className="space-y-3">
+            {categoryIds.map((category) => (
+              <div key={category}>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-600">{categoryName(category)}</span>
+                  <span className="text-gray-900 font-medium">{analytics.categoryStats[category]}</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full"
+                    style={{
+                      width: `${(analytics.categoryStats[category] / analytics.totalFeedback) * 100}%`
+                    }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Rating Distribution */}
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Rating Distribution</h3>
+          <div className="space-y-3">
+            {[5, 4, 3, 2, 1].map((rating) => (
+              <div key={rating}>
+                <div className="flex justify-between text-sm">
+                  <div className="flex items-center">
+                    <span className="text-gray-600 mr-2">{rating}</span>
+                    <Star className="w-4 h-4 text-amber-400 fill-amber-400" />
+                  </div>
+                  <span className="text-gray-900 font-medium">
+                    {analytics.ratingStats[rating] || 0}
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-amber-500 h-2 rounded-full"
+                    style={{
+                      width: `${analytics.totalFeedback ? ((analytics.ratingStats[rating] || 0) / analytics.totalFeedback) * 100 : 0}%`
+                    }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Comment Sentiment */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold text-gray-900">Comment Sentiment</h3>
+          {analytics.averageSentiment !== null && (
+            <span className="text-sm text-gray-500">Average score {analytics.averageSentiment} (-1 to 1)</span>
+          )}
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            {SENTIMENTS.map(({ id, label, color }) => (
+              <div key={id}>
+                <div className="flex justify-between text-sm">
+                  <button onClick={() => onFilter({ sentiment: id, mismatch: '' })} className="text-gray-600 hover:text-blue-600">
+                    {label}
+                  </button>
+                  <span className="text-gray-900 font-medium">{analytics.sentimentStats[id] || 0}</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`${color} h-2 rounded-full`}
+                    style={{
+                      width: `${analytics.totalFeedback ? ((analytics.sentimentStats[id] || 0) / analytics.totalFeedback) * 100 : 0}%`
+                    }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="p-4 bg-orange-50 border border-orange-200 rounded-lg">
+            <p className="text-sm font-medium text-orange-900">Rating contradicts comment</p>
+            <p className="text-2xl font-bold text-orange-900 mt-1">{analytics.mismatchCount}</p>
+            <p className="text-xs text-orange-800 mt-1">
+              High ratings with strongly negative comments (or the reverse). These are often habit clicks hiding a real complaint.
+            </p>
+            {analytics.mismatchCount > 0 && (
+              <button
+                onClick={() => onFilter({ sentiment: 'all', mismatch: 'true' })}
+                className="mt-3 px-3 py-1.5 text-sm bg-white border border-orange-300 text-orange-900 rounded-lg hover:bg-orange-100"
+              >
+                Review them
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Tags, most used first */}
+      {tagIds.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <Tag className="w-5 h-5 mr-2" />
+              Tags
+            </h3>
+            <span className="text-sm text-gray-500">{analytics.untagged} untagged</span>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+            {tagIds.map((id) => (
+              <div key={id}>
+                <div className="flex justify-between text-sm">
+                  <button onClick={() => onFilter({ tags: id, allTags: '' })} className="text-gray-600 hover:text-blue-600">
+                    {analytics.tagMap[id].name}
+                  </button>
+                  <span className="text-gray-900 font-medium">{analytics.tagStats[id]}</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="h-2 rounded-full"
+                    style={{
+                      width: `${(analytics.tagStats[id] / analytics.totalFeedback) * 100}%`,
+                      backgroundColor: analytics.tagMap[id].color
+                    }}
+                  ></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Due dates under the category SLAs */}
+      {sla.tracked > 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+            <Clock className="w-5 h-5 mr-2" />
+            Due Dates
+          </h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <div className="grid grid-cols-3 gap-4 text-center">
+                <div>
+                  <p className="text-2xl font-bold text-gray-900">{sla.tracked}</p>
+                  <p className="text-xs text-gray-500">with a due date</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-green-700">{sla.met}</p>
+                  <p className="text-xs text-gray-500">resolved in time</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-red-700">{sla.breached}</p>
+                  <p className="text-xs text-gray-500">missed</p>
+                </div>
+              </div>
+              {slaCategories.length > 0 && (
+                <div className="mt-4 space-y-1 text-sm">
+                  <p className="text-xs font-medium text-gray-500">Missed by category</p>
+                  {slaCategories.map(([id, stats]) => (
+                    <div key={id} className="flex justify-between">
+                      <button onClick={() => onFilter({ category: id })} className="text-gray-600 hover:text-blue-600">
+                        {categoryName(id)}
+                      </button>
+                      <span className="text-gray-900 font-medium">{stats.breached} of {stats.tracked}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm font-medium text-red-900">Overdue now</p>
+              <p className="text-2xl font-bold text-red-900 mt-1">{sla.overdue}</p>
+              <p className="text-xs text-red-800 mt-1">
+                Unresolved feedback past its due date. Missed counts also include feedback resolved late.
+              </p>
+              {sla.overdue > 0 && (
+                <button
+                  onClick={() => onFilter({ overdue: 'true' })}
+                  className="mt-3 px-3 py-1.5 text-sm bg-white border border-red-300 text-red-900 rounded-lg hover:bg-red-100"
+                >
+                  Review overdue
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <KeywordsPanel filters={filters} canEdit={canEdit} onSelectPhrase={(phrase) => onFilter({ search: phrase })} />
+    </div>
+  );
+}
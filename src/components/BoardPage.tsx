@@ -0,0 +1,102 @@
+import { useState, useEffect } from 'react';
+import { MessageSquare, CheckCircle } from 'lucide-react';
+import { api } from '../lib/api';
+import type { BoardSection } from '../lib/types';
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Public "You said, we did" board: feedback the admins have acted on and approved for showing
+export default function BoardPage() {
+  const [sections, setSections] = useState<BoardSection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchBoard();
+  }, []);
+
+  const fetchBoard = async () => {
+    try {
+      setSections(await api.board.list());
+    } catch (error) {
+      console.error('Error fetching the board:', error);
+      setError('Could not load the board. Please refresh the page.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-blue-900 mb-2">
+            VSD
+          </h1>
+          <h3 className="text-2xl md:text-3xl font-bold text-gray-900 mb-4">
+            You Said, We Did
+          </h3>
+          <p className="text-lg text-gray-600">
+            What changed because of your feedback
+          </p>
+        </div>
+
+        <div className="text-center mb-8 space-x-4">
+          <a href="/" className="text-blue-600 hover:text-blue-800 text-sm underline">
+            Give feedback
+          </a>
+          <a href="/check" className="text-blue-600 hover:text-blue-800 text-sm underline">
+            Check my feedback
+          </a>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg mb-6">
+            <p className="text-red-700 text-sm">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
+          </div>
+        ) : sections.length === 0 && !error ? (
+          <div className="bg-white rounded-2xl shadow-xl p-8 text-center text-gray-600">
+            Nothing here yet. Check back soon.
+          </div>
+        ) : (
+          <div className="space-y-8">
+            {sections.map(({ category, items }) => (
+              <section key={category.id}>
+                <h2 className="text-xl font-semibold text-gray-900 mb-4">{category.name}</h2>
+                <div className="space-y-4">
+                  {items.map(item => (
+                    <div key={item.id} className="bg-white rounded-2xl shadow-sm p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <div>
+                        <p className="text-xs font-medium text-gray-500 uppercase tracking-wide mb-2 flex items-center">
+                          <MessageSquare className="w-4 h-4 mr-1" />
+                          You said
+                        </p>
+                        <p className="text-gray-800 text-sm whitespace-pre-wrap">{item.comment}</p>
+                      </div>
+                      <div>
+                        <p className="text-xs font-medium text-green-700 uppercase tracking-wide mb-2 flex items-center">
+                          <CheckCircle className="w-4 h-4 mr-1" />
+                          {item.resolved ? 'We did' : 'We are doing'}
+                        </p>
+                        <p className="text-gray-800 text-sm whitespace-pre-wrap">{item.response}</p>
+                        <p className="text-xs text-gray-500 mt-2">{formatDate(item.published_at)}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
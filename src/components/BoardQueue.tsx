@@ -0,0 +1,125 @@
+import { useState, useEffect } from 'react';
+import { Megaphone, Check, X, Calendar } from 'lucide-react';
+import { api } from '../lib/api';
+import type { Category, Feedback } from '../lib/types';
+
+interface BoardQueueProps {
+  categories: Category[];
+  // Called after a change so the feedback list can refresh its board badges
+  onChange: () => void;
+}
+
+// Items put forward for the public board, shown exactly as they would appear there, for a
+// moderator to approve or turn down
+export default function BoardQueue({ categories, onChange }: BoardQueueProps) {
+  const [items, setItems] = useState<Feedback[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchQueue();
+  }, []);
+
+  const fetchQueue = async () => {
+    try {
+      setItems((await api.admin.board.pending()).items);
+    } catch (e) {
+      console.error('Error fetching board queue:', e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      onChange();
+    } catch (e) {
+      console.error('Board review error:', e);
+      setError(e instanceof Error ? e.message : 'Board review failed');
+    } finally {
+      await fetchQueue();
+    }
+  };
+
+  const categoryName = (id: string) => categories.find(c => c.id === id)?.name || id;
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Megaphone className="w-5 h-5 mr-2" />
+            Waiting for the Public Board ({items.length})
+          </h2>
+          <p className="text-xs text-gray-500 mt-1">
+            Check each comment and response for anything identifying or abusive before it goes on the "You said, we did" page.
+          </p>
+        </div>
+        {items.length > 1 && (
+          <button
+            type="button"
+            onClick={() => run(() => api.admin.board.approve(items.map(f => f.feedback_id)))}
+            className="px-3 py-1 text-xs border border-green-300 text-green-700 rounded flex items-center gap-1"
+          >
+            <Check className="w-3 h-3" /> Approve All ({items.length})
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="m-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : items.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">Nothing is waiting to be published.</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {items.map(item => (
+            <div key={item.feedback_id} className="p-6 hover:bg-gray-50">
+              <div className="flex items-start justify-between mb-3">
+                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                  {categoryName(item.category)}
+                </span>
+                <div className="flex items-center gap-2">
+                  {item.publish_requested_at && (
+                    <span className="text-sm text-gray-500 flex items-center">
+                      <Calendar className="w-4 h-4 mr-1" />
+                      {formatDate(item.publish_requested_at)}
+                    </span>
+                  )}
+                  <button onClick={() => run(() => api.admin.board.approve([item.feedback_id]))} className="text-green-600 hover:text-green-800 p-2" title="Publish">
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => run(() => api.admin.board.reject([item.feedback_id]))} className="text-red-600 hover:text-red-800 p-2" title="Turn down">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <div>
+                  <p className="text-xs font-medium text-gray-500 mb-1">You said</p>
+                  <p className="text-gray-800 whitespace-pre-wrap">{item.public_comment}</p>
+                </div>
+                <div>
+                  <p className="text-xs font-medium text-gray-500 mb-1">We did</p>
+                  <p className="text-gray-800 whitespace-pre-wrap">{item.public_response}</p>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
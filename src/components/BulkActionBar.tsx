@@ -0,0 +1,117 @@
+import { useState } from 'react';
+import { Check } from 'lucide-react';
+import { api } from '../lib/api';
+import type { BulkSelection, BulkUpdate, BulkUpdateResult, Category, WorkflowSettings } from '../lib/types';
+
+interface BulkActionBarProps {
+  count: number;
+  selection: BulkSelection;
+  workflow: WorkflowSettings;
+  categories: Category[];
+  // Called once changes are saved, to reload the list
+  onApplied: () => void;
+}
+
+// Why items were skipped, most common reason first
+const skippedReasons = (result: BulkUpdateResult) => {
+  const counts = new Map<string, number>();
+  for (const r of result.results) {
+    if (!r.ok && r.error) counts.set(r.error, (counts.get(r.error) || 0) + 1);
+  }
+  return [...counts.entries()].sort(([, a], [, b]) => b - a);
+};
+
+// Set the status or category of the selected feedback, or add an internal note to each, in one go.
+// Each item is checked as if edited alone; those the change doesn't apply to are skipped.
+export default function BulkActionBar({ count, selection, workflow, categories, onApplied }: BulkActionBarProps) {
+  const [status, setStatus] = useState('');
+  const [category, setCategory] = useState('');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [result, setResult] = useState<BulkUpdateResult | null>(null);
+
+  const apply = async () => {
+    const changes: BulkUpdate = {};
+    if (status) changes.status = status;
+    if (category) changes.category = category;
+    if (note.trim()) changes.note = note;
+    if (Object.keys(changes).length === 0) return;
+    if (!confirm(`Apply these changes to ${count} selected feedback item(s)?`)) return;
+    setError('');
+    setResult(null);
+    setSaving(true);
+    try {
+      setResult(await api.admin.feedback.bulkUpdate(selection, changes));
+      setStatus('');
+      setCategory('');
+      setNote('');
+      onApplied();
+    } catch (e) {
+      console.error('Bulk update error:', e);
+      setError(e instanceof Error ? e.message : 'Saving the changes failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="px-6 py-3 bg-gray-50 border-b border-gray-200 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-medium text-gray-700">{count} selected:</span>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value)}
+          className="px-2 py-1 text-xs border border-gray-300 rounded"
+        >
+          <option value="">Status unchanged</option>
+          {workflow.states.map(state => (
+            <option key={state.id} value={state.id}>{state.label}</option>
+          ))}
+        </select>
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          className="px-2 py-1 text-xs border border-gray-300 rounded"
+        >
+          <option value="">Category unchanged</option>
+          {categories.map(c => (
+            <option key={c.id} value={c.id}>{c.name}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Add an internal note to each..."
+          maxLength={2000}
+          className="flex-1 min-w-[12rem] px-2 py-1 text-xs border border-gray-300 rounded"
+        />
+        <button
+          type="button"
+          onClick={apply}
+          disabled={saving || (!status && !category && !note.trim())}
+          className="px-3 py-1 text-xs bg-blue-600 text-white rounded flex items-center gap-1 disabled:opacity-50"
+        >
+          <Check className="w-3 h-3" /> {saving ? 'Applying...' : 'Apply'}
+        </button>
+      </div>
+      {error && <p className="mt-2 text-xs text-red-700">{error}</p>}
+      {result && (
+        <div className="mt-2 text-xs text-gray-700">
+          Updated {result.updated} item(s).
+          {result.failed > 0 && (
+            <>
+              {' '}Skipped {result.failed}:
+              <ul className="mt-1 ml-4 list-disc text-red-700">
+                {skippedReasons(result).map(([reason, n]) => (
+                  <li key={reason}>{reason} ({n})</li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,331 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Plus,
+  ArrowUp,
+  ArrowDown,
+  Pencil,
+  Check,
+  X,
+  Archive,
+  ArchiveRestore,
+  GitMerge,
+  Trash2,
+  Timer,
+  Workflow
+} from 'lucide-react';
+import WorkflowSettingsDialog from './WorkflowSettingsDialog';
+import { api } from '../lib/api';
+import type { Category, WorkflowSettings } from '../lib/types';
+
+interface CategoryManagerProps {
+  onChange: () => void;
+  workflow: WorkflowSettings;
+  onWorkflowSaved: (workflow: WorkflowSettings) => void;
+}
+
+// SLA days as typed: empty for none
+const toSlaDays = (value: string) => (value.trim() ? Number(value) : null);
+
+export default function CategoryManager({ onChange, workflow, onWorkflowSaved }: CategoryManagerProps) {
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [newCategory, setNewCategory] = useState({ name: '', description: '', sla: '' });
+  const [editing, setEditing] = useState<{ id: string; name: string; description: string; sla: string } | null>(null);
+  const [merging, setMerging] = useState<{ id: string; targetId: string } | null>(null);
+  const [showWorkflow, setShowWorkflow] = useState(false);
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  const fetchCategories = async () => {
+    try {
+      setCategories(await api.admin.categories.list());
+    } catch (e) {
+      console.error('Error fetching categories:', e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run a mutation, then resync local state and let the dashboard refresh its own copy
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await fetchCategories();
+      onChange();
+    } catch (e) {
+      console.error('Category update error:', e);
+      setError(e instanceof Error ? e.message : 'Category update failed');
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCategory.name.trim()) return;
+    await run(() => api.admin.categories.create({
+      name: newCategory.name,
+      description: newCategory.description,
+      sla_days: toSlaDays(newCategory.sla)
+    }));
+    setNewCategory({ name: '', description: '', sla: '' });
+  };
+
+  const saveEdit = async () => {
+    if (!editing || !editing.name.trim()) return;
+    await run(() => api.admin.categories.update(editing.id, {
+      name: editing.name,
+      description: editing.description,
+      sla_days: toSlaDays(editing.sla)
+    }));
+    setEditing(null);
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= categories.length) return;
+    const ids = categories.map(c => c.id);
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    run(() => api.admin.categories.reorder(ids));
+  };
+
+  const toggleArchived = (category: Category) =>
+    run(() => api.admin.categories.update(category.id, { archived: !category.archived }));
+
+  const confirmMerge = async () => {
+    if (!merging || !merging.targetId) return;
+    const source = categories.find(c => c.id === merging.id);
+    const target = categories.find(c => c.id === merging.targetId);
+    if (!source || !target) return;
+    if (!confirm(`Merge "${source.name}" into "${target.name}"? All its feedback will be moved and "${source.name}" removed.`)) return;
+    await run(() => api.admin.categories.merge(merging.id, merging.targetId));
+    setMerging(null);
+  };
+
+  const remove = (category: Category) => {
+    if (!confirm(`Delete category "${category.name}"?`)) return;
+    run(() => api.admin.categories.remove(category.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Create */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <Plus className="w-5 h-5 mr-2" />
+          New Category
+        </h2>
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <input
+            type="text"
+            value={newCategory.name}
+            onChange={(e) => setNewCategory({ ...newCategory, name: e.target.value })}
+            placeholder="Name"
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+          <input
+            type="text"
+            value={newCategory.description}
+            onChange={(e) => setNewCategory({ ...newCategory, description: e.target.value })}
+            placeholder="Description (shown as help text on the form)"
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <input
+            type="number"
+            min={1}
+            max={365}
+            value={newCategory.sla}
+            onChange={(e) => setNewCategory({ ...newCategory, sla: e.target.value })}
+            placeholder="SLA in days (optional)"
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <button
+            type="submit"
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+          >
+            Add Category
+          </button>
+        </form>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* List */}
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">
+              Categories ({categories.length})
+            </h2>
+            <p className="text-sm text-gray-500">Order here is the order students see on the feedback form. Archived categories are hidden from the form but keep their feedback.</p>
+            <p className="text-sm text-gray-500">An SLA makes feedback due that many days after it is submitted; changing it moves the due dates not set by hand.</p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setShowWorkflow(true)}
+            className="px-3 py-1 text-xs border rounded flex items-center gap-1 whitespace-nowrap"
+          >
+            <Workflow className="w-3 h-3" /> Workflow
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {categories.map((category, index) => (
+              <div key={category.id} className={`p-4 ${category.archived ? 'bg-gray-50' : ''}`}>
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex items-start gap-3 flex-1">
+                    <div className="flex flex-col">
+                      <button
+                        onClick={() => move(index, -1)}
+                        disabled={index === 0}
+                        className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                        title="Move up"
+                      >
+                        <ArrowUp className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => move(index, 1)}
+                        disabled={index === categories.length - 1}
+                        className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                        title="Move down"
+                      >
+                        <ArrowDown className="w-4 h-4" />
+                      </button>
+                    </div>
+
+                    {editing?.id === category.id ? (
+                      <div className="flex-1 grid grid-cols-1 md:grid-cols-3 gap-2">
+                        <input
+                          type="text"
+                          value={editing.name}
+                          onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                        <input
+                          type="text"
+                          value={editing.description}
+                          onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                          placeholder="Description"
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                        <input
+                          type="number"
+                          min={1}
+                          max={365}
+                          value={editing.sla}
+                          onChange={(e) => setEditing({ ...editing, sla: e.target.value })}
+                          placeholder="SLA in days"
+                          className="px-3 py-2 border border-gray-300 rounded-lg text-sm"
+                        />
+                      </div>
+                    ) : (
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-gray-900">{category.name}</span>
+                          {category.archived && (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-gray-200 text-gray-700">archived</span>
+                          )}
+                          {category.sla_days && (
+                            <span className="inline-flex items-center text-xs px-2 py-0.5 rounded-full bg-blue-50 text-blue-800" title="Resolve within">
+                              <Timer className="w-3 h-3 mr-1" />
+                              {category.sla_days} day{category.sla_days === 1 ? '' : 's'}
+                            </span>
+                          )}
+                        </div>
+                        {category.description && (
+                          <p className="text-sm text-gray-500">{category.description}</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-1">
+                    {editing?.id === category.id ? (
+                      <>
+                        <button onClick={saveEdit} className="p-2 text-green-600 hover:text-green-800" title="Save">
+                          <Check className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => setEditing(null)} className="p-2 text-gray-500 hover:text-gray-800" title="Cancel">
+                          <X className="w-4 h-4" />
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => setEditing({ id: category.id, name: category.name, description: category.description, sla: category.sla_days ? String(category.sla_days) : '' })}
+                          className="p-2 text-gray-500 hover:text-gray-800"
+                          title="Edit"
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => toggleArchived(category)}
+                          className="p-2 text-gray-500 hover:text-gray-800"
+                          title={category.archived ? 'Restore' : 'Archive'}
+                        >
+                          {category.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                        </button>
+                        <button
+                          onClick={() => setMerging({ id: category.id, targetId: '' })}
+                          className="p-2 text-gray-500 hover:text-gray-800"
+                          title="Merge into another category"
+                        >
+                          <GitMerge className="w-4 h-4" />
+                        </button>
+                        <button onClick={() => remove(category)} className="p-2 text-red-600 hover:text-red-800" title="Delete">
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {merging?.id === category.id && (
+                  <div className="mt-3 ml-10 flex items-center gap-2">
+                    <span className="text-sm text-gray-600">Merge into</span>
+                    <select
+                      value={merging.targetId}
+                      onChange={(e) => setMerging({ ...merging, targetId: e.target.value })}
+                      className="px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                    >
+                      <option value="">Select a category</option>
+                      {categories.filter(c => c.id !== category.id).map(c => (
+                        <option key={c.id} value={c.id}>{c.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={confirmMerge}
+                      disabled={!merging.targetId}
+                      className="px-3 py-1 text-xs border border-blue-300 text-blue-600 rounded disabled:opacity-50"
+                    >
+                      Merge
+                    </button>
+                    <button onClick={() => setMerging(null)} className="px-3 py-1 text-xs border rounded">
+                      Cancel
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showWorkflow && (
+        <WorkflowSettingsDialog settings={workflow} onSaved={onWorkflowSaved} onClose={() => setShowWorkflow(false)} />
+      )}
+    </div>
+  );
+}
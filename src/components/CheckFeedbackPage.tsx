@@ -0,0 +1,219 @@
+import React, { useState } from 'react';
+import { Search, MessageSquare, Send } from 'lucide-react';
+import { api } from '../lib/api';
+import type { FeedbackStatus, ReceiptStatus } from '../lib/types';
+
+// Mirrors the follow-up limit in server/receipts.js
+const MAX_FOLLOW_UP_LENGTH = 2000;
+
+interface StatusView {
+  label: string;
+  description: string;
+  className: string;
+}
+
+// Friendlier wording for the default workflow states; other states show their own label
+const statusLabels: Record<FeedbackStatus, StatusView> = {
+  open: {
+    label: 'Received',
+    description: 'Your feedback has reached the team and is waiting to be looked at.',
+    className: 'bg-gray-100 text-gray-800'
+  },
+  in_progress: {
+    label: 'In progress',
+    description: 'The team is working on what you raised.',
+    className: 'bg-yellow-100 text-yellow-800'
+  },
+  completed: {
+    label: 'Resolved',
+    description: 'The team has finished acting on your feedback.',
+    className: 'bg-green-100 text-green-800'
+  }
+};
+
+const statusView = (result: ReceiptStatus): StatusView =>
+  statusLabels[result.status] ?? (result.resolved
+    ? { label: result.status_label, description: 'The team has finished acting on your feedback.', className: 'bg-green-100 text-green-800' }
+    : { label: result.status_label, description: 'The team is looking at what you raised.', className: 'bg-yellow-100 text-yellow-800' });
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Public page where a receipt code shows what happened to the feedback it was issued for
+export default function CheckFeedbackPage() {
+  const [code, setCode] = useState('');
+  const [result, setResult] = useState<ReceiptStatus | null>(null);
+  const [checking, setChecking] = useState(false);
+  const [message, setMessage] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleCheck = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+    setError('');
+    setChecking(true);
+    try {
+      setResult(await api.feedback.checkReceipt(code));
+    } catch (error) {
+      console.error('Error checking receipt:', error);
+      setResult(null);
+      setError(error instanceof Error ? error.message : 'Could not check this code');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  const handleFollowUp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!message.trim()) return;
+    setError('');
+    setSending(true);
+    try {
+      setResult(await api.feedback.addFollowUp(code, message));
+      setMessage('');
+    } catch (error) {
+      console.error('Error adding follow-up:', error);
+      setError(error instanceof Error ? error.message : 'Could not send your message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const status = result ? statusView(result) : null;
+
+  return (
+    <div className="min-h-screen py-8 px-4">
+      <div className="max-w-2xl mx-auto">
+        {/* Header */}
+        <div className="text-center mb-8">
+          <h1 className="text-3xl md:text-4xl font-bold text-blue-900 mb-2">
+            VSD
+          </h1>
+          <h3 className="text-2xl md:text-3xl font-bold text-gray-900 mb-4">
+            Check My Feedback
+          </h3>
+          <p className="text-lg text-gray-600">
+            Enter the receipt code you were given after submitting
+          </p>
+        </div>
+
+        <div className="text-center mb-8 space-x-4">
+          <a href="/" className="text-blue-600 hover:text-blue-800 text-sm underline">
+            Give new feedback
+          </a>
+          <a href="/board" className="text-blue-600 hover:text-blue-800 text-sm underline">
+            You said, we did
+          </a>
+        </div>
+
+        <div className="bg-white rounded-2xl shadow-xl p-8 space-y-6">
+          <form onSubmit={handleCheck} className="flex gap-2">
+            <input
+              type="text"
+              value={code}
+              onChange={(e) => setCode(e.target.value.toUpperCase())}
+              placeholder="ABCD-EFGH-JKMN"
+              autoComplete="off"
+              spellCheck={false}
+              className="flex-1 px-4 py-3 border border-gray-300 rounded-lg font-mono tracking-wider focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              type="submit"
+              disabled={checking || !code.trim()}
+              className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center space-x-2"
+            >
+              <Search className="w-4 h-4" />
+              <span>{checking ? 'Checking...' : 'Check'}</span>
+            </button>
+          </form>
+
+          {error && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          {result && status && (
+            <>
+              <div>
+                <div className="flex items-center justify-between gap-4 mb-2">
+                  <span className="text-sm text-gray-500">
+                    {result.category} · sent {formatDate(result.submitted_at)}
+                  </span>
+                  <span className={`text-sm px-3 py-1 rounded-full font-medium ${status.className}`}>{status.label}</span>
+                </div>
+                <p className="text-sm text-gray-600">{status.description}</p>
+                {result.comment && (
+                  <blockquote className="mt-4 text-gray-800 text-sm border-l-2 border-gray-200 pl-3 whitespace-pre-wrap">
+                    {result.comment}
+                  </blockquote>
+                )}
+              </div>
+
+              <div>
+                <h4 className="text-sm font-medium text-gray-700 mb-2">Response from the team</h4>
+                {result.public_response ? (
+                  <div className="p-4 bg-green-50 border border-green-200 rounded-lg">
+                    <p className="text-green-900 text-sm whitespace-pre-wrap">{result.public_response}</p>
+                    {result.responded_at && (
+                      <p className="text-xs text-green-700 mt-2">{formatDate(result.responded_at)}</p>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">No response yet. Check back later.</p>
+                )}
+              </div>
+
+              {result.follow_ups.length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-700 mb-2">Your follow-up messages</h4>
+                  <ul className="space-y-2">
+                    {result.follow_ups.map((followUp, i) => (
+                      <li key={i} className="text-sm text-gray-800 border-l-2 border-blue-200 pl-3">
+                        <p className="whitespace-pre-wrap">{followUp.message}</p>
+                        <p className="text-xs text-gray-500">{formatDate(followUp.timestamp)}</p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {result.can_follow_up ? (
+                <form onSubmit={handleFollowUp} className="space-y-2">
+                  <label className="text-sm font-medium text-gray-700 flex items-center">
+                    <MessageSquare className="w-4 h-4 mr-2" />
+                    Add a follow-up message
+                  </label>
+                  <textarea
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    rows={3}
+                    maxLength={MAX_FOLLOW_UP_LENGTH}
+                    placeholder="Anything to add, or has the problem come back?"
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                  />
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-xs text-gray-500">
+                      Still anonymous: names, emails, phone numbers and roll numbers are removed before it is saved.
+                    </p>
+                    <button
+                      type="submit"
+                      disabled={sending || !message.trim()}
+                      className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center space-x-2"
+                    >
+                      <Send className="w-4 h-4" />
+                      <span>{sending ? 'Sending...' : 'Send'}</span>
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <p className="text-sm text-gray-500">This feedback has reached the limit of follow-up messages.</p>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState, useEffect } from 'react';
+import { ArrowDownRight, ArrowUpRight, Calendar } from 'lucide-react';
+import { api } from '../lib/api';
+import { statusLabel } from '../lib/workflow';
+import type { Category, Comparison, ComparisonSide, DistributionShift, FeedbackFilters, SignificanceTest, WorkflowSettings } from '../lib/types';
+
+interface ComparisonPanelProps {
+  // Only the rating, status and search filters apply; each side has its own dates and categories
+  filters: FeedbackFilters;
+  categories: Category[];
+  workflow: WorkflowSettings;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+const addDays = (value: string, days: number) => toDateInput(new Date(Date.parse(value) + days * DAY_MS));
+
+// The last 30 days against the 30 days before them
+const defaultSides = (): { a: ComparisonSide; b: ComparisonSide } => {
+  const today = toDateInput(new Date());
+  const bStart = addDays(today, -29);
+  return {
+    a: { startDate: addDays(bStart, -30), endDate: addDays(bStart, -1), categories: [] },
+    b: { startDate: bStart, endDate: today, categories: [] }
+  };
+};
+
+const signed = (value: number, suffix = '') => `${value > 0 ? '+' : ''}${value}${suffix}`;
+
+function SignificanceBadge({ test, delta }: { test: SignificanceTest; delta: number | null }) {
+  const title = test.pValue === null ? 'Not enough data to test' : `p = ${test.pValue}`;
+  if (test.pValue === null) {
+    return <span title={title} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-500">no data</span>;
+  }
+  if (test.smallSample) {
+    return <span title={`${title}; fewer than 30 responses on a side`} className="px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-800">small sample</span>;
+  }
+  if (!test.significant) {
+    return <span title={title} className="px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">not significant</span>;
+  }
+  return (
+    <span title={title} className={`px-2 py-0.5 text-xs rounded-full ${(delta ?? 0) >= 0 ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+      significant
+    </span>
+  );
+}
+
+function SideEditor({ label, side, categories, onChange }: {
+  label: string;
+  side: ComparisonSide;
+  categories: Category[];
+  onChange: (side: ComparisonSide) => void;
+}) {
+  const toggleCategory = (id: string) => onChange({
+    ...side,
+    categories: side.categories.includes(id) ? side.categories.filter(c => c !== id) : [...side.categories, id]
+  });
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <Calendar className="w-5 h-5 mr-2" />
+        {label}
+      </h3>
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+          <input
+            type="date"
+            value={side.startDate}
+            onChange={(e) => onChange({ ...side, startDate: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+          <input
+            type="date"
+            value={side.endDate}
+            onChange={(e) => onChange({ ...side, endDate: e.target.value })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+      <p className="block text-sm font-medium text-gray-700 mb-2">
+        Categories <span className="font-normal text-gray-500">(none ticked = all)</span>
+      </p>
+      <div className="grid grid-cols-2 gap-2 max-h-32 overflow-y-auto">
+        {categories.map(category => (
+          <label key={category.id} className="flex items-center gap-2 text-sm text-gray-800">
+            <input
+              type="checkbox"
+              checked={side.categories.includes(category.id)}
+              onChange={() => toggleCategory(category.id)}
+              className="rounded border-gray-300"
+            />
+            {category.name}
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ShiftTable({ title, rows, label }: { title: string; rows: DistributionShift[]; label: (key: string) => string }) {
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4">{title}</h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-200">
+            <th className="py-2 font-medium"></th>
+            <th className="py-2 font-medium text-right">Baseline</th>
+            <th className="py-2 font-medium text-right">Comparison</th>
+            <th className="py-2 font-medium text-right">Change</th>
+            <th className="py-2"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-b border-gray-100 last:border-0">
+              <td className="py-2 text-gray-900">{label(row.key)}</td>
+              <td className="py-2 text-right text-gray-600">{row.a.share}% <span className="text-gray-400">({row.a.count})</span></td>
+              <td className="py-2 text-right text-gray-600">{row.b.share}% <span className="text-gray-400">({row.b.count})</span></td>
+              <td className={`py-2 text-right font-medium ${row.deltaPoints > 0 ? 'text-green-700' : row.deltaPoints < 0 ? 'text-red-700' : 'text-gray-500'}`}>
+                {signed(row.deltaPoints, ' pts')}
+              </td>
+              <td className="py-2 text-right"><SignificanceBadge test={row} delta={row.deltaPoints} /></td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function ComparisonPanel({ filters, categories, workflow }: ComparisonPanelProps) {
+  const [sides, setSides] = useState(defaultSides);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const { rating, status, search } = filters;
+
+  useEffect(() => {
+    const fetchComparison = async () => {
+      try {
+        setComparison(await api.admin.compare({ rating, status, search }, sides.a, sides.b));
+      } catch (error) {
+        console.error('Error comparing analytics:', error);
+      }
+    };
+    fetchComparison();
+  }, [rating, status, search, sides]);
+
+  // Move the baseline to the period of the same length just before the comparison
+  const previousPeriodBaseline = () => {
+    const { b } = sides;
+    if (!b.startDate || !b.endDate) return;
+    const days = Math.round((Date.parse(b.endDate) - Date.parse(b.startDate)) / DAY_MS) + 1;
+    setSides({ a: { startDate: addDays(b.startDate, -days), endDate: addDays(b.startDate, -1), categories: b.categories }, b });
+  };
+
+  const categoryName = (id: string) => comparison?.categoryMap[id] || id;
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <SideEditor label="Baseline" side={sides.a} categories={categories} onChange={(a) => setSides({ ...sides, a })} />
+        <SideEditor label="Comparison" side={sides.b} categories={categories} onChange={(b) => setSides({ ...sides, b })} />
+      </div>
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-500">
+          The rating, status and search filters above apply to both sides.
+        </p>
+        <button
+          onClick={previousPeriodBaseline}
+          disabled={!sides.b.startDate || !sides.b.endDate}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+        >
+          Baseline = previous period
+        </button>
+      </div>
+
+      {comparison && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <p className="text-sm font-medium text-gray-500">Responses</p>
+              <div className="flex items-baseline gap-3 mt-1">
+                <p className="text-2xl font-bold text-gray-900">{comparison.totals.a} → {comparison.totals.b}</p>
+                <span className={`flex items-center text-sm font-medium ${comparison.totals.delta >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                  {comparison.totals.delta >= 0 ? <ArrowUpRight className="w-4 h-4" /> : <ArrowDownRight className="w-4 h-4" />}
+                  {signed(comparison.totals.delta)}
+                  {comparison.totals.deltaPercent !== null && ` (${signed(comparison.totals.deltaPercent, '%')})`}
+                </span>
+              </div>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium text-gray-500">Average Rating</p>
+                <SignificanceBadge test={comparison.averageRating} delta={comparison.averageRating.delta} />
+              </div>
+              <div className="flex items-baseline gap-3 mt-1">
+                <p className="text-2xl font-bold text-gray-900">
+                  {comparison.averageRating.a ?? '–'} → {comparison.averageRating.b ?? '–'}
+                </p>
+                {comparison.averageRating.delta !== null && (
+                  <span className={`text-sm font-medium ${comparison.averageRating.delta >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                    {signed(comparison.averageRating.delta)}
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <ShiftTable title="Rating Distribution" rows={[...comparison.ratings].reverse()} label={(key) => `${key} star${key === '1' ? '' : 's'}`} />
+            <ShiftTable title="Category Mix" rows={comparison.categories} label={categoryName} />
+          </div>
+          <ShiftTable title="Status" rows={comparison.statuses} label={(key) => statusLabel(workflow, key)} />
+
+          <div className="bg-white rounded-lg shadow-sm p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Keywords</h3>
+            <p className="text-sm text-gray-500 mb-4">Change in the share of comments mentioning each word.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {([['Rising', comparison.keywords.rising], ['Falling', comparison.keywords.falling]] as const).map(([heading, rows]) => (
+                <div key={heading}>
+                  <p className="text-sm font-medium text-gray-700 mb-2">{heading}</p>
+                  {rows.length === 0 && <p className="text-sm text-gray-400">None</p>}
+                  <ul className="space-y-2">
+                    {rows.map(row => (
+                      <li key={row.word} className="flex items-center justify-between text-sm">
+                        <span className="text-gray-900">{row.word}</span>
+                        <span className="flex items-center gap-2">
+                          <span className="text-gray-500">{row.a.share}% → {row.b.share}%</span>
+                          <SignificanceBadge test={row} delta={row.deltaPoints} />
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { api } from '../lib/api';
+import type { ExportColumn, ExportFormat, FeedbackFilters, FeedbackSort } from '../lib/types';
+
+const FORMATS: Array<{ id: ExportFormat; label: string; hint: string }> = [
+  { id: 'csv', label: 'CSV', hint: 'Opens in Excel, Sheets and Numbers' },
+  { id: 'xlsx', label: 'Excel (.xlsx)', hint: 'Native Excel workbook' },
+  { id: 'ndjson', label: 'JSON lines', hint: 'One JSON object per line, for scripts' }
+];
+
+const COLUMNS: Array<{ id: ExportColumn; label: string }> = [
+  { id: 'feedback_id', label: 'ID' },
+  { id: 'timestamp', label: 'Timestamp' },
+  { id: 'category', label: 'Category' },
+  { id: 'category_id', label: 'Category ID' },
+  { id: 'rating', label: 'Rating' },
+  { id: 'comment', label: 'Comment' },
+  { id: 'status', label: 'Status' },
+  { id: 'assignee', label: 'Assignee' },
+  { id: 'due_at', label: 'Due date' },
+  { id: 'resolved_at', label: 'Resolved at' },
+  { id: 'tags', label: 'Tags' },
+  { id: 'notes', label: 'Internal notes' },
+  { id: 'public_response', label: 'Public response' },
+  { id: 'follow_ups', label: 'Follow-up messages' },
+  { id: 'sentiment', label: 'Sentiment' },
+  { id: 'sentiment_score', label: 'Sentiment score' },
+  { id: 'sentiment_mismatch', label: 'Rating mismatch' },
+  { id: 'form', label: 'Form and version' },
+  { id: 'answers', label: 'Other answers' },
+  { id: 'cohort', label: 'Cohort' },
+  { id: 'trainer', label: 'Trainer' },
+  { id: 'session_date', label: 'Session date' },
+  { id: 'redacted', label: 'Redacted information' },
+  { id: 'hash', label: 'Device token' }
+];
+
+const DEFAULT_COLUMNS: ExportColumn[] = ['feedback_id', 'timestamp', 'category', 'rating', 'comment', 'status', 'notes'];
+
+interface ExportDialogProps {
+  filters: FeedbackFilters;
+  sort: FeedbackSort;
+  total: number;
+  onClose: () => void;
+}
+
+export default function ExportDialog({ filters, sort, total, onClose }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [columns, setColumns] = useState<Set<ExportColumn>>(new Set(DEFAULT_COLUMNS));
+
+  const toggleColumn = (id: ExportColumn) => {
+    setColumns(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const download = () => {
+    // Keep the columns in their canonical order regardless of click order
+    const selected = COLUMNS.map(c => c.id).filter(id => columns.has(id));
+    const a = document.createElement('a');
+    a.href = api.admin.exportUrl(filters, { format, columns: selected, sort });
+    a.click();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl p-6 w-full max-w-md">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Download className="w-5 h-5 mr-2" />
+            Export Feedback
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Exports all {total} entries matching the current filters, in the current sort order.
+        </p>
+
+        <div className="space-y-4">
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Format</p>
+            <div className="space-y-2">
+              {FORMATS.map(option => (
+                <label key={option.id} className="flex items-start gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="export-format"
+                    checked={format === option.id}
+                    onChange={() => setFormat(option.id)}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    <span className="text-gray-900">{option.label}</span>
+                    <span className="block text-xs text-gray-500">{option.hint}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Columns</p>
+            <div className="grid grid-cols-2 gap-2">
+              {COLUMNS.map(column => (
+                <label key={column.id} className="flex items-center gap-2 text-sm text-gray-800">
+                  <input
+                    type="checkbox"
+                    checked={columns.has(column.id)}
+                    onChange={() => toggleColumn(column.id)}
+                    className="rounded border-gray-300"
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={download}
+            disabled={columns.size === 0 || total === 0}
+            className="w-full px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,342 @@
+import { useState, useEffect } from 'react';
+import { X, ChevronLeft, ChevronRight, Star, AlertTriangle, StickyNote } from 'lucide-react';
+import { api, ApiError } from '../lib/api';
+import { hasRole } from '../lib/roles';
+import { extraAnswers } from '../lib/forms';
+import { allowedStates, isOverdue, statusBadgeClass, statusLabel } from '../lib/workflow';
+import NotesThread from './NotesThread';
+import TagPicker from './TagPicker';
+import type { AdminUser, Category, Feedback, FormSummary, MentionableUser, Tag, WorkflowSettings } from '../lib/types';
+
+interface FeedbackDrawerProps {
+  id: string;
+  // The copy from the list, shown while the latest one loads
+  initial: Feedback | null;
+  user: AdminUser;
+  workflow: WorkflowSettings;
+  categories: Category[];
+  users: MentionableUser[];
+  tags: Tag[];
+  forms: FormSummary[];
+  // Where the item is in the current list, if it is in it
+  position: { index: number; total: number } | null;
+  onPrevious?: () => void;
+  onNext?: () => void;
+  onChange: (updated: Feedback) => void;
+  onTagCreated: (tag: Tag) => void;
+  onClose: () => void;
+}
+
+// Fields the drawer edits directly
+type DrawerEdit = Partial<Pick<Feedback, 'status' | 'category'>>;
+
+// The item as it is now, from the server's answer to an edit that clashed with another admin's
+const conflictCurrent = (error: unknown) =>
+  error instanceof ApiError && error.status === 409 && (error.data as { code?: string } | undefined)?.code === 'conflict'
+    ? (error.data as { current: Feedback | null }).current
+    : null;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// One feedback item in full, opened from its card or a link to /admin/feedback/:id. Moderators can
+// change its status and category here (saved straight away, and refused if another admin changed
+// the same field in the meantime), tag it and discuss it in internal notes.
+export default function FeedbackDrawer({
+  id,
+  initial,
+  user,
+  workflow,
+  categories,
+  users,
+  tags,
+  forms,
+  position,
+  onPrevious,
+  onNext,
+  onChange,
+  onTagCreated,
+  onClose
+}: FeedbackDrawerProps) {
+  const canEdit = hasRole(user, 'moderator');
+  const [item, setItem] = useState<Feedback | null>(initial);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [conflict, setConflict] = useState('');
+
+  // Always load the latest copy: the list may be out of date, or not contain the item at all
+  useEffect(() => {
+    let cancelled = false;
+    api.admin.feedback.get(id)
+      .then(latest => { if (!cancelled) setItem(latest); })
+      .catch(e => {
+        if (cancelled) return;
+        console.error('Error fetching feedback:', e);
+        setError(e instanceof ApiError && e.status === 404 ? 'This feedback does not exist or has been deleted.' : 'Loading the feedback failed');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [id]);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const update = (updated: Feedback) => {
+    setItem(updated);
+    onChange(updated);
+  };
+
+  // Show the change at once and save it, sending the values it replaces so the server can refuse
+  // it if another admin has changed them since
+  const save = async (changes: DrawerEdit, expected: DrawerEdit) => {
+    if (!item) return;
+    const before = item;
+    setError('');
+    setConflict('');
+    setSaving(true);
+    setItem({ ...item, ...changes });
+    try {
+      update(await api.admin.feedback.update(item.feedback_id, { ...changes, expected }));
+    } catch (e) {
+      const current = conflictCurrent(e);
+      if (current) {
+        update(current);
+        setConflict('Another admin changed this feedback while you had it open, so your change was not saved. It now shows their version.');
+      } else {
+        console.error('Error updating feedback:', e);
+        setItem(before);
+        setError(e instanceof Error ? e.message : 'Saving the change failed');
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const categoryName = (categoryId: string) => categories.find(c => c.id === categoryId)?.name || categoryId;
+  const assigneeName = (userId: string) => users.find(u => u.id === userId)?.username || 'unknown admin';
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <aside className="relative w-full max-w-xl h-full bg-white shadow-xl flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={onPrevious}
+              disabled={!onPrevious}
+              className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+              title="Previous"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <button
+              type="button"
+              onClick={onNext}
+              disabled={!onNext}
+              className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+              title="Next"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
+            <h2 className="text-lg font-semibold text-gray-900">Feedback</h2>
+            {position && <span className="text-sm text-gray-500">{position.index + 1} of {position.total}</span>}
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5">
+          {conflict && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <p className="text-amber-900 text-sm">{conflict}</p>
+            </div>
+          )}
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          {!item ? (
+            loading && (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            )
+          ) : (
+            <>
+              <div className="flex flex-wrap items-center gap-3">
+                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                  {categoryName(item.category)}
+                </span>
+                <div className="flex items-center">
+                  {Array.from({ length: 5 }, (_, i) => (
+                    <Star key={i} className={`w-4 h-4 ${i < item.rating ? 'text-amber-400 fill-amber-400' : 'text-gray-300'}`} />
+                  ))}
+                </div>
+                <span className={`text-xs px-2 py-0.5 rounded-full ${statusBadgeClass(workflow, item.status)}`}>
+                  {statusLabel(workflow, item.status)}
+                </span>
+                {item.deleted_at && (
+                  <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-800">in the trash</span>
+                )}
+              </div>
+
+              {item.comment ? (
+                <p className="text-gray-800 text-sm leading-relaxed whitespace-pre-wrap">{item.comment}</p>
+              ) : (
+                <p className="text-gray-500 text-sm italic">No comment</p>
+              )}
+
+              {extraAnswers(forms, item).length > 0 && (
+                <dl className="space-y-1 text-sm">
+                  {extraAnswers(forms, item).map(answer => (
+                    <div key={answer.id} className="flex gap-2">
+                      <dt className="text-gray-500">{answer.label}:</dt>
+                      <dd className="text-gray-800">{answer.value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+
+              <dl className="grid grid-cols-3 gap-x-4 gap-y-3 text-sm">
+                <dt className="text-gray-500 self-center">Status</dt>
+                <dd className="col-span-2">
+                  {canEdit && !item.deleted_at ? (
+                    <select
+                      value={item.status || 'open'}
+                      onChange={(e) => save({ status: e.target.value }, { status: item.status })}
+                      disabled={saving}
+                      className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                    >
+                      {allowedStates(workflow, item.status).map(state => (
+                        <option key={state.id} value={state.id}>{state.label}</option>
+                      ))}
+                    </select>
+                  ) : statusLabel(workflow, item.status)}
+                </dd>
+
+                <dt className="text-gray-500 self-center">Category</dt>
+                <dd className="col-span-2">
+                  {canEdit && !item.deleted_at ? (
+                    <select
+                      value={item.category}
+                      onChange={(e) => save({ category: e.target.value }, { category: item.category })}
+                      disabled={saving}
+                      className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm disabled:opacity-50"
+                    >
+                      {!categories.some(c => c.id === item.category) && <option value={item.category}>{item.category}</option>}
+                      {categories.map(c => (
+                        <option key={c.id} value={c.id}>{c.name}{c.archived ? ' (archived)' : ''}</option>
+                      ))}
+                    </select>
+                  ) : categoryName(item.category)}
+                </dd>
+
+                <dt className="text-gray-500">Submitted</dt>
+                <dd className="col-span-2 text-gray-800">{formatDate(item.timestamp)}</dd>
+
+                <dt className="text-gray-500">Assigned to</dt>
+                <dd className="col-span-2 text-gray-800">{item.assignee_id ? assigneeName(item.assignee_id) : 'Nobody'}</dd>
+
+                {item.due_at && (
+                  <>
+                    <dt className="text-gray-500">Due</dt>
+                    <dd className={`col-span-2 ${isOverdue(item) ? 'text-red-700 font-medium' : 'text-gray-800'}`}>
+                      {formatDate(item.due_at)}
+                      {isOverdue(item) && ' (overdue)'}
+                      {item.due_manual && <span className="text-gray-500 font-normal"> · set by hand</span>}
+                    </dd>
+                  </>
+                )}
+
+                {item.resolved_at && (
+                  <>
+                    <dt className="text-gray-500">Resolved</dt>
+                    <dd className="col-span-2 text-gray-800">{formatDate(item.resolved_at)}</dd>
+                  </>
+                )}
+
+                {item.cohort && (
+                  <>
+                    <dt className="text-gray-500">Cohort</dt>
+                    <dd className="col-span-2 text-gray-800">
+                      {item.cohort} · {item.trainer}
+                      {item.session_date && <span className="text-gray-500"> · session of {item.session_date}</span>}
+                    </dd>
+                  </>
+                )}
+
+                {item.sentiment && (
+                  <>
+                    <dt className="text-gray-500">Sentiment</dt>
+                    <dd className="col-span-2 text-gray-800">
+                      {item.sentiment} ({item.sentiment_score})
+                      {item.sentiment_mismatch && (
+                        <span className="inline-flex items-center ml-2 text-xs px-2 py-0.5 rounded-full bg-orange-100 text-orange-800">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          rating contradicts comment
+                        </span>
+                      )}
+                    </dd>
+                  </>
+                )}
+
+                {item.redacted && item.redacted.length > 0 && (
+                  <>
+                    <dt className="text-gray-500">Redacted</dt>
+                    <dd className="col-span-2 text-gray-800">{item.redacted.join(', ').replace(/_/g, ' ')}</dd>
+                  </>
+                )}
+
+                <dt className="text-gray-500 self-center">Tags</dt>
+                <dd className="col-span-2">
+                  <TagPicker
+                    item={item}
+                    tags={tags}
+                    canEdit={canEdit && !item.deleted_at}
+                    onChange={update}
+                    onTagCreated={onTagCreated}
+                  />
+                </dd>
+              </dl>
+
+              {item.follow_ups && item.follow_ups.length > 0 && (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-gray-500">Follow-ups from the submitter</p>
+                  {item.follow_ups.map(followUp => (
+                    <p key={followUp.id} className="text-sm text-gray-800 border-l-2 border-blue-200 pl-3">
+                      {followUp.message} <span className="text-xs text-gray-500">{formatDate(followUp.timestamp)}</span>
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              {item.public_response && (
+                <p className="text-sm text-green-900 bg-green-50 rounded-lg px-3 py-2">
+                  <span className="font-medium">Public response:</span> {item.public_response}
+                </p>
+              )}
+
+              <div className="bg-amber-50/50 rounded-lg px-3 py-2">
+                <p className="text-xs font-medium text-amber-800 flex items-center gap-1 mb-2">
+                  <StickyNote className="w-3 h-3" />
+                  Internal notes ({item.notes?.length ?? 0})
+                </p>
+                <NotesThread item={item} user={user} users={users} canEdit={canEdit && !item.deleted_at} onChange={update} />
+              </div>
+            </>
+          )}
+        </div>
+      </aside>
+    </div>
+  );
+}
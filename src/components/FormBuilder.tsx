@@ -0,0 +1,430 @@
+import React, { useState, useEffect } from 'react';
+import { ClipboardList, Plus, ArrowUp, ArrowDown, Trash2, Pencil, CheckCircle } from 'lucide-react';
+import { api } from '../lib/api';
+import { QUESTION_TYPE_LABELS } from '../lib/forms';
+import type { FormQuestion, FormSummary, QuestionType } from '../lib/types';
+
+interface FormBuilderProps {
+  onChange: () => void;
+}
+
+// A form being written: `id` is null until it has been created on the server
+interface Draft {
+  id: string | null;
+  name: string;
+  description: string;
+  questions: FormQuestion[];
+  responses: number;
+  version: number;
+}
+
+// Question ids stay the same across versions so answers to them can be compared
+const newQuestionId = () => `q_${crypto.randomUUID().slice(0, 8)}`;
+
+const newQuestion = (type: QuestionType): FormQuestion => ({
+  id: newQuestionId(),
+  type,
+  label: '',
+  required: false,
+  ...(type === 'choice' && { options: ['', ''], multiple: false }),
+  ...(type === 'text' && { minLength: 0 })
+});
+
+const newDraft = (): Draft => ({
+  id: null,
+  name: '',
+  description: '',
+  questions: [
+    { ...newQuestion('rating'), label: 'Overall rating', required: true, role: 'rating' },
+    { ...newQuestion('text'), label: 'Your Feedback', role: 'comment' }
+  ],
+  responses: 0,
+  version: 0
+});
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm';
+
+interface QuestionEditorProps {
+  question: FormQuestion;
+  index: number;
+  count: number;
+  onChange: (question: FormQuestion) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+  onRole: () => void;
+}
+
+function QuestionEditor({ question, index, count, onChange, onMove, onRemove, onRole }: QuestionEditorProps) {
+  const options = question.options || [];
+  const setOption = (i: number, value: string) => onChange({ ...question, options: options.map((o, j) => (j === i ? value : o)) });
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg">
+      <div className="flex items-start gap-3">
+        <div className="flex flex-col">
+          <button type="button" onClick={() => onMove(-1)} disabled={index === 0} className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30" title="Move up">
+            <ArrowUp className="w-4 h-4" />
+          </button>
+          <button type="button" onClick={() => onMove(1)} disabled={index === count - 1} className="p-1 text-gray-500 hover:text-gray-900 disabled:opacity-30" title="Move down">
+            <ArrowDown className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex-1 space-y-3">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <input
+              type="text"
+              value={question.label}
+              onChange={(e) => onChange({ ...question, label: e.target.value })}
+              placeholder="Question"
+              className={`${inputClass} md:col-span-2`}
+              required
+            />
+            <span className="text-sm text-gray-600 self-center">{QUESTION_TYPE_LABELS[question.type]}</span>
+          </div>
+
+          {question.type === 'choice' && (
+            <div className="space-y-2">
+              {options.map((option, i) => (
+                <div key={i} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={option}
+                    onChange={(e) => setOption(i, e.target.value)}
+                    placeholder={`Option ${i + 1}`}
+                    className={`${inputClass} flex-1`}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => onChange({ ...question, options: options.filter((_, j) => j !== i) })}
+                    disabled={options.length <= 2}
+                    className="p-1 text-gray-500 hover:text-red-600 disabled:opacity-30"
+                    title="Remove option"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+              <div className="flex items-center gap-4">
+                <button
+                  type="button"
+                  onClick={() => onChange({ ...question, options: [...options, ''] })}
+                  className="px-3 py-1 text-xs border rounded flex items-center gap-1"
+                >
+                  <Plus className="w-3 h-3" /> Add option
+                </button>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={!!question.multiple}
+                    onChange={(e) => onChange({ ...question, multiple: e.target.checked })}
+                    className="rounded border-gray-300"
+                  />
+                  Allow several answers
+                </label>
+              </div>
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={question.required || question.role === 'rating'}
+                disabled={question.role === 'rating'}
+                onChange={(e) => onChange({ ...question, required: e.target.checked })}
+                className="rounded border-gray-300"
+              />
+              Required
+            </label>
+            {question.type === 'rating' && (
+              <label className="flex items-center gap-2" title="Shown as the feedback's star rating in lists and analytics">
+                <input type="radio" checked={question.role === 'rating'} onChange={onRole} className="border-gray-300" />
+                Overall rating
+              </label>
+            )}
+            {question.type === 'text' && (
+              <>
+                <label className="flex items-center gap-2" title="Shown as the feedback's comment and used for sentiment and keywords">
+                  <input type="checkbox" checked={question.role === 'comment'} onChange={onRole} className="rounded border-gray-300" />
+                  Main comment
+                </label>
+                <label className="flex items-center gap-2">
+                  Minimum length
+                  <input
+                    type="number"
+                    min={0}
+                    max={1000}
+                    value={question.minLength ?? 0}
+                    onChange={(e) => onChange({ ...question, minLength: Number(e.target.value) })}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded"
+                  />
+                </label>
+              </>
+            )}
+          </div>
+        </div>
+
+        <button
+          type="button"
+          onClick={onRemove}
+          disabled={question.role === 'rating'}
+          className="p-2 text-red-600 hover:text-red-800 disabled:opacity-30"
+          title={question.role === 'rating' ? 'Make another rating question the overall rating first' : 'Remove question'}
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function FormBuilder({ onChange }: FormBuilderProps) {
+  const [forms, setForms] = useState<FormSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [addType, setAddType] = useState<QuestionType>('rating');
+
+  useEffect(() => {
+    fetchForms();
+  }, []);
+
+  const fetchForms = async () => {
+    try {
+      setForms(await api.admin.forms.list());
+    } catch (e) {
+      console.error('Error fetching forms:', e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await fetchForms();
+      onChange();
+    } catch (e) {
+      console.error('Form update error:', e);
+      setError(e instanceof Error ? e.message : 'Form update failed');
+    }
+  };
+
+  const edit = (form: FormSummary) => {
+    setError('');
+    setDraft({
+      id: form.id,
+      name: form.name,
+      description: form.description,
+      questions: form.questions,
+      responses: form.responses,
+      version: form.version
+    });
+  };
+
+  const setQuestions = (update: (questions: FormQuestion[]) => FormQuestion[]) =>
+    setDraft(d => (d ? { ...d, questions: update(d.questions) } : d));
+
+  const updateQuestion = (index: number, question: FormQuestion) =>
+    setQuestions(qs => qs.map((q, i) => (i === index ? question : q)));
+
+  const moveQuestion = (index: number, direction: -1 | 1) =>
+    setQuestions(qs => {
+      const next = [...qs];
+      [next[index], next[index + direction]] = [next[index + direction], next[index]];
+      return next;
+    });
+
+  // Only one question can have each role: the overall rating moves, the main comment toggles
+  const toggleRole = (index: number) =>
+    setQuestions(qs => {
+      const role = qs[index].type === 'rating' ? 'rating' : 'comment';
+      const taking = role === 'rating' || qs[index].role !== 'comment';
+      return qs.map((q, i) => {
+        if (i === index) return { ...q, role: taking ? role : undefined, required: q.required || role === 'rating' };
+        return q.role === role && taking ? { ...q, role: undefined } : q;
+      });
+    });
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const input = {
+      name: draft.name,
+      description: draft.description,
+      questions: draft.questions.map(q => (q.options ? { ...q, options: q.options.filter(o => o.trim()) } : q))
+    };
+    setSaving(true);
+    setError('');
+    try {
+      if (draft.id) await api.admin.forms.update(draft.id, input);
+      else await api.admin.forms.create(input);
+      setDraft(null);
+      await fetchForms();
+      onChange();
+    } catch (e) {
+      console.error('Error saving form:', e);
+      setError(e instanceof Error ? e.message : 'Saving the form failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const activate = (form: FormSummary) => {
+    if (!confirm(`Show "${form.name}" on the feedback page from now on?`)) return;
+    run(() => api.admin.forms.activate(form.id));
+  };
+
+  const remove = (form: FormSummary) => {
+    if (!confirm(`Delete form "${form.name}"?`)) return;
+    run(() => api.admin.forms.remove(form.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <ClipboardList className="w-5 h-5 mr-2" />
+              Survey Forms ({forms.length})
+            </h2>
+            <p className="text-sm text-gray-500">
+              The active form is what students fill in. Changing a form's questions saves a new version; earlier answers keep the version they were given with.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={() => setDraft(newDraft())}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-1 whitespace-nowrap"
+          >
+            <Plus className="w-4 h-4" /> New Form
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {forms.map(form => (
+              <div key={form.id} className="p-4 flex items-start justify-between gap-4">
+                <div className="flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium text-gray-900">{form.name}</span>
+                    {form.active && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-green-100 text-green-800">active</span>
+                    )}
+                    <span className="text-xs text-gray-500">
+                      v{form.version} · {form.questions.length} question{form.questions.length === 1 ? '' : 's'} · {form.responses} response{form.responses === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                  {form.description && <p className="text-sm text-gray-500">{form.description}</p>}
+                </div>
+                <div className="flex items-center gap-1">
+                  {!form.active && (
+                    <button onClick={() => activate(form)} className="p-2 text-green-600 hover:text-green-800" title="Make active">
+                      <CheckCircle className="w-4 h-4" />
+                    </button>
+                  )}
+                  <button onClick={() => edit(form)} className="p-2 text-gray-500 hover:text-gray-800" title="Edit">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  {!form.active && form.responses === 0 && form.id !== 'default' && (
+                    <button onClick={() => remove(form)} className="p-2 text-red-600 hover:text-red-800" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSave} className="bg-white rounded-lg shadow-sm p-6 space-y-4">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {draft.id ? `Edit "${draft.name}"` : 'New Form'}
+          </h2>
+          {draft.responses > 0 && (
+            <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+              This form has {draft.responses} response{draft.responses === 1 ? '' : 's'}. Changed questions are saved as version {draft.version + 1}.
+              Keep a question (rather than removing and re-adding it) to compare its answers across versions.
+            </p>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Name"
+              className={inputClass}
+              required
+            />
+            <input
+              type="text"
+              value={draft.description}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              placeholder="Description (shown above the questions)"
+              className={inputClass}
+            />
+          </div>
+
+          <div className="space-y-3">
+            {draft.questions.map((question, index) => (
+              <QuestionEditor
+                key={question.id}
+                question={question}
+                index={index}
+                count={draft.questions.length}
+                onChange={(q) => updateQuestion(index, q)}
+                onMove={(direction) => moveQuestion(index, direction)}
+                onRemove={() => setQuestions(qs => qs.filter((_, i) => i !== index))}
+                onRole={() => toggleRole(index)}
+              />
+            ))}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <select value={addType} onChange={(e) => setAddType(e.target.value as QuestionType)} className={inputClass}>
+              {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+                <option key={type} value={type}>{QUESTION_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => setQuestions(qs => [...qs, newQuestion(addType)])}
+              className="px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 flex items-center gap-1"
+            >
+              <Plus className="w-4 h-4" /> Add Question
+            </button>
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <button type="button" onClick={() => setDraft(null)} className="px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Form'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
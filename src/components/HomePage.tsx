@@ -1,71 +1,177 @@
-import React, { useState } from 'react';
-import { Star, Send, CheckCircle } from 'lucide-react';
-import { API_BASE } from '../lib/api';
+import React, { useState, useEffect, useRef } from 'react';
+import { useParams } from 'react-router-dom';
+import { Send, CheckCircle, CalendarClock, Users, Copy, Check } from 'lucide-react';
+import { api, ApiError } from '../lib/api';
+import { answerProblem } from '../lib/forms';
+import { solveProofOfWork } from '../lib/proofOfWork';
+import QuestionField from './QuestionField';
+import type { AnswerValue, Answers, Category, FeedbackChallenge, PublicLink, PublishedForm } from '../lib/types';
 
-const categories = [
-  'Trainer Quality',
-  'Course Content', 
-  'Placement Tips',
-  'Others'
-];
+const errorCode = (error: unknown) =>
+  error instanceof ApiError && !!error.data && typeof error.data === 'object'
+    ? (error.data as { code?: string }).code
+    : undefined;
 
+const formatDate = (date: string) =>
+  new Date(date.length === 10 ? `${date}T00:00:00` : date).toLocaleDateString(undefined, { dateStyle: 'medium' });
+
+const formatTime = (time: string) =>
+  new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+// Also served at /f/:code for a collection link, which tags the feedback with its cohort and trainer
 export default function HomePage() {
-  const [formData, setFormData] = useState({
-    category: '',
-    rating: 0,
-    comment: ''
-  });
-  const [hoveredRating, setHoveredRating] = useState(0);
+  const { code } = useParams();
+  // The collection link the page was opened through; `linkMissing` when the code is unknown
+  const [link, setLink] = useState<PublicLink | null>(null);
+  const [linkMissing, setLinkMissing] = useState(false);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoriesLoading, setCategoriesLoading] = useState(true);
+  // The survey form to fill in, as published by the admins
+  const [form, setForm] = useState<PublishedForm | null>(null);
+  const [category, setCategory] = useState('');
+  const [answers, setAnswers] = useState<Answers>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submitted, setSubmitted] = useState(false);
+  // Receipt code for the feedback just sent; the server can't show it again
+  const [receipt, setReceipt] = useState('');
+  const [copied, setCopied] = useState(false);
   const [error, setError] = useState('');
+  // Anti-spam: the form token for the next submission, the puzzle answer being worked out in
+  // the background while the form is filled in, and the honeypot field
+  const [challenge, setChallenge] = useState<FeedbackChallenge | null>(null);
+  const solution = useRef<Promise<string>>(Promise.resolve(''));
+  const [website, setWebsite] = useState('');
+
+  useEffect(() => {
+    fetchCategories();
+    fetchForm();
+    loadChallenge();
+  }, []);
+
+  useEffect(() => {
+    if (!code) return;
+    const fetchLink = async () => {
+      try {
+        setLink(await api.links.get(code));
+      } catch (error) {
+        console.error('Error fetching the feedback link:', error);
+        if (error instanceof ApiError && error.status === 404) setLinkMissing(true);
+        else setError('Could not load this feedback link. Please refresh the page.');
+      }
+    };
+    fetchLink();
+  }, [code]);
+
+  const loadChallenge = async () => {
+    try {
+      const next = await api.feedback.challenge();
+      solution.current = next.proofOfWork ? solveProofOfWork(next.token, next.proofOfWork.bits) : Promise.resolve('');
+      setChallenge(next);
+    } catch (error) {
+      console.error('Error preparing the form:', error);
+    }
+  };
+
+  const fetchCategories = async () => {
+    try {
+      setCategories(await api.categories.list());
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+      setError('Could not load feedback categories. Please refresh the page.');
+    } finally {
+      setCategoriesLoading(false);
+    }
+  };
+
+  const fetchForm = async () => {
+    try {
+      setForm(await api.forms.active());
+    } catch (error) {
+      console.error('Error fetching the feedback form:', error);
+      setError('Could not load the feedback form. Please refresh the page.');
+    }
+  };
+
+  const selectedCategory = categories.find(c => c.id === category);
+
+  const setAnswer = (id: string, value: AnswerValue | undefined) => {
+    setAnswers(prev => {
+      const next = { ...prev };
+      if (value === undefined) delete next[id]; else next[id] = value;
+      return next;
+    });
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
-    
-    if (!formData.category || !formData.rating || !formData.comment) {
-      setError('Please fill in all fields');
+
+    if (!form) {
+      setError('The form is not ready yet. Please check your connection and try again.');
+      fetchForm();
+      return;
+    }
+
+    if (!category) {
+      setError('Please select a category');
+      return;
+    }
+
+    const problem = answerProblem(form.questions, answers);
+    if (problem) {
+      setError(problem);
       return;
     }
 
-    if (formData.comment.length < 5) {
-      setError('Comment must be at least 5 characters long');
+    if (!challenge) {
+      setError('The form is not ready yet. Please check your connection and try again.');
+      loadChallenge();
       return;
     }
 
     setIsSubmitting(true);
 
     try {
-      const response = await fetch(`${API_BASE}/api/feedback`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(formData),
+      const result = await api.feedback.submit({
+        category,
+        formId: form.id,
+        formVersion: form.version,
+        answers,
+        link: code,
+        formToken: challenge.token,
+        solution: await solution.current,
+        website
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to submit feedback');
-      }
-
+      // The confirmation stays up until dismissed, so the receipt code can be noted down
+      setReceipt(result.receipt);
+      setCopied(false);
       setSubmitted(true);
-      setFormData({ category: '', rating: 0, comment: '' });
-      
-      setTimeout(() => {
-        setSubmitted(false);
-      }, 5000);
+      setCategory('');
+      setAnswers({});
+      loadChallenge();
     } catch (error) {
       console.error('Error submitting feedback:', error);
       setError(error instanceof Error ? error.message : 'Failed to submit feedback');
+      // The server refuses a form token that is too old or already used; a fresh one fixes it.
+      // When the admins publish a different form, load it (answers to questions it shares are kept).
+      const reason = errorCode(error);
+      if (reason === 'form_expired') loadChallenge();
+      if (reason === 'form_changed') fetchForm();
+      // A link that closed while the form was open shows the closed notice instead of the form
+      if (reason === 'link_closed' && link) setLink({ ...link, state: 'closed' });
     } finally {
       setIsSubmitting(false);
     }
   };
 
-  const handleRatingClick = (rating: number) => {
-    setFormData({ ...formData, rating });
+  const copyReceipt = async () => {
+    try {
+      await navigator.clipboard.writeText(receipt);
+      setCopied(true);
+    } catch (error) {
+      console.error('Copy failed:', error);
+    }
   };
 
   if (submitted) {
@@ -79,6 +185,28 @@ export default function HomePage() {
           <p className="text-gray-600 mb-6">
             Your feedback has been successfully submitted to User  . Your input is valuable for improving our Career Development Training program.
           </p>
+          {receipt && (
+            <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg text-left">
+              <p className="text-sm text-blue-900 mb-2">
+                Your receipt code. Save it now: it is shown only once and is the only way to check on this feedback.
+              </p>
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono text-xl font-semibold text-gray-900 tracking-wider">{receipt}</span>
+                <button
+                  type="button"
+                  onClick={copyReceipt}
+                  className="p-2 text-blue-700 hover:text-blue-900"
+                  title="Copy receipt code"
+                >
+                  {copied ? <Check className="w-5 h-5" /> : <Copy className="w-5 h-5" />}
+                </button>
+              </div>
+              <p className="text-sm text-blue-900 mt-2">
+                Enter it on the <a href="/check" className="underline">Check my feedback</a> page to see its status,
+                read the response and add a follow-up message, all without revealing who you are.
+              </p>
+            </div>
+          )}
           <button
             onClick={() => setSubmitted(false)}
             className="w-full bg-blue-600 text-white py-3 px-6 rounded-lg hover:bg-blue-700 transition-colors duration-200"
@@ -113,7 +241,13 @@ export default function HomePage() {
         </div>
 
         {/* Admin Link */}
-        <div className="text-center mb-8">
+        <div className="text-center mb-8 space-x-4">
+          <a href="/check" className="text-blue-600 hover:text-blue-800 text-sm underline">
+            Check my feedback
+          </a>
+          <a href="/board" className="text-blue-600 hover:text-blue-800 text-sm underline">
+            You said, we did
+          </a>
           <a 
             href="/admin/login"
             className="text-blue-600 hover:text-blue-800 text-sm underline"
@@ -122,7 +256,41 @@ export default function HomePage() {
           </a>
         </div>
 
-        {/* Feedback Form */}
+        {/* Collection link: who the feedback is about */}
+        {link && (
+          <div className="bg-white rounded-2xl shadow-sm px-6 py-4 mb-6 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-gray-700">
+            <span className="flex items-center"><Users className="w-4 h-4 mr-2 text-blue-600" />{link.cohort}</span>
+            <span>Trainer: <span className="font-medium text-gray-900">{link.trainer}</span></span>
+            {link.session_date && <span>Session: {formatDate(link.session_date)}</span>}
+          </div>
+        )}
+
+        {linkMissing || (link && link.state !== 'open') ? (
+          <div className="bg-white rounded-2xl shadow-xl p-8 text-center">
+            <div className="w-16 h-16 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-4">
+              <CalendarClock className="w-8 h-8 text-gray-500" />
+            </div>
+            {linkMissing ? (
+              <>
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">Link not found</h2>
+                <p className="text-gray-600">Please check the address, or ask your trainer for the current feedback link.</p>
+              </>
+            ) : link?.state === 'scheduled' ? (
+              <>
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">Not open yet</h2>
+                <p className="text-gray-600">
+                  Feedback for this session opens {link.opens_at ? formatTime(link.opens_at) : 'soon'}.
+                </p>
+              </>
+            ) : (
+              <>
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">Feedback closed</h2>
+                <p className="text-gray-600">This session is no longer taking feedback. Thank you for your interest.</p>
+              </>
+            )}
+          </div>
+        ) : (
+        /* Feedback Form */
         <div className="bg-white rounded-2xl shadow-xl p-8">
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* Category */}
@@ -131,64 +299,50 @@ export default function HomePage() {
                 Category *
               </label>
               <select
-                value={formData.category}
-                onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
                 className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200"
                 required
+                disabled={categoriesLoading}
               >
-                <option value="">Select a category</option>
+                <option value="">{categoriesLoading ? 'Loading categories...' : 'Select a category'}</option>
                 {categories.map((category) => (
-                  <option key={category} value={category}>
-                    {category}
+                  <option key={category.id} value={category.id}>
+                    {category.name}
                   </option>
                 ))}
               </select>
+              {selectedCategory?.description && (
+                <p className="text-sm text-gray-500 mt-1">{selectedCategory.description}</p>
+              )}
             </div>
 
-            {/* Rating */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Rating *
-              </label>
-              <div className="flex space-x-1">
-                {[1, 2, 3, 4, 5].map((star) => (
-                  <button
-                    key={star}
-                    type="button"
-                    onClick={() => handleRatingClick(star)}
-                    onMouseEnter={() => setHoveredRating(star)}
-                    onMouseLeave={() => setHoveredRating(0)}
-                    className="focus:outline-none focus:ring-2 focus:ring-blue-500 rounded transition-all duration-150"
-                  >
-                    <Star
-                      className={`w-8 h-8 transition-colors duration-150 ${
-                        star <= (hoveredRating || formData.rating)
-                          ? 'text-amber-400 fill-amber-400'
-                          : 'text-gray-300 hover:text-amber-200'
-                      }`}
-                    />
-                  </button>
-                ))}
-              </div>
-            </div>
+            {/* Questions of the active form */}
+            {form?.description && (
+              <p className="text-sm text-gray-600">{form.description}</p>
+            )}
+            {form?.questions.map(question => (
+              <QuestionField
+                key={question.id}
+                question={question}
+                value={answers[question.id]}
+                onChange={(value) => setAnswer(question.id, value)}
+              />
+            ))}
 
-            {/* Comment */}
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Your Feedback *
+            {/* Honeypot: off-screen and skipped by keyboard and screen readers, so only bots fill it in */}
+            <div className="absolute -left-[10000px] w-px h-px overflow-hidden" aria-hidden="true">
+              <label>
+                Website
+                <input
+                  type="text"
+                  name="website"
+                  value={website}
+                  onChange={(e) => setWebsite(e.target.value)}
+                  tabIndex={-1}
+                  autoComplete="off"
+                />
               </label>
-              <textarea
-                value={formData.comment}
-                onChange={(e) => setFormData({ ...formData, comment: e.target.value })}
-                placeholder="Please share your detailed feedback here... (minimum 5 characters)"
-                rows={5}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200 resize-none"
-                required
-                minLength={5}
-              />
-              <p className="text-sm text-gray-500 mt-1">
-                {formData.comment.length}/5 characters minimum
-              </p>
             </div>
 
             {/* Error Message */}
@@ -222,10 +376,12 @@ export default function HomePage() {
           <div className="mt-6 p-4 bg-green-50 border border-green-200 rounded-lg">
             <p className="text-green-800 text-sm">
               🔒 Your feedback is completely anonymous. We do not collect any personal information, 
-              names, emails, or track IP addresses.
+              names, emails, or store IP addresses. To stop spam, submissions carry a random device
+              code that changes every day and cannot be traced back to you.
             </p>
           </div>
         </div>
+        )}
       </div>
     </div>
   );
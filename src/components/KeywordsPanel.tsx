@@ -0,0 +1,155 @@
+import { useState, useEffect } from 'react';
+import { EyeOff, SlidersHorizontal } from 'lucide-react';
+import { api } from '../lib/api';
+import WordCloud from './WordCloud';
+import TextSettingsDialog from './TextSettingsDialog';
+import type { FeedbackFilters, KeywordAnalysis, KeywordGrouping, TextAnalysisSettings } from '../lib/types';
+
+interface KeywordsPanelProps {
+  filters: FeedbackFilters;
+  // Moderators can change the stop words and ignore list
+  canEdit: boolean;
+  // Clicking a phrase shows the feedback that mentions it
+  onSelectPhrase: (phrase: string) => void;
+}
+
+const GROUPINGS: Array<{ value: KeywordGrouping; label: string }> = [
+  { value: 'none', label: 'All feedback' },
+  { value: 'category', label: 'By category' },
+  { value: 'period', label: 'By period' }
+];
+
+// Chips shown per group when grouped
+const GROUP_PHRASES = 10;
+
+export default function KeywordsPanel({ filters, canEdit, onSelectPhrase }: KeywordsPanelProps) {
+  const [groupBy, setGroupBy] = useState<KeywordGrouping>('none');
+  const [analysis, setAnalysis] = useState<KeywordAnalysis | null>(null);
+  const [settings, setSettings] = useState<TextAnalysisSettings | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const fetchKeywords = async () => {
+      try {
+        setAnalysis(await api.admin.keywords(filters, { groupBy }));
+      } catch (error) {
+        console.error('Error fetching keywords:', error);
+      }
+    };
+    fetchKeywords();
+    // Re-rank whenever the stop words or ignore list change
+  }, [filters, groupBy, settings]);
+
+  useEffect(() => {
+    if (!canEdit) return;
+    api.admin.textSettings.get().then(setSettings).catch(error => console.error('Error fetching keyword settings:', error));
+  }, [canEdit]);
+
+  const ignorePhrase = async (phrase: string) => {
+    if (!settings) return;
+    setError('');
+    try {
+      setSettings(await api.admin.textSettings.update({ ignore: [...settings.ignore, phrase] }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not update the ignore list');
+    }
+  };
+
+  const groups = analysis?.groups || [];
+  const [overall] = groups;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">Keywords &amp; Phrases</h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as KeywordGrouping)}
+            className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {GROUPINGS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {canEdit && settings && (
+            <button
+              onClick={() => setShowSettings(true)}
+              className="p-2 text-gray-500 hover:text-gray-800 border border-gray-300 rounded-lg"
+              title="Stop words and ignore list"
+            >
+              <SlidersHorizontal className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {analysis?.groupBy === 'none' && overall && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <WordCloud phrases={overall.phrases} onSelect={onSelectPhrase} />
+          <ol className="divide-y divide-gray-100 max-h-96 overflow-y-auto">
+            {overall.phrases.map((p, index) => (
+              <li key={p.key} className="flex items-center justify-between py-2 text-sm">
+                <button onClick={() => onSelectPhrase(p.phrase)} className="flex items-center text-left hover:text-blue-600">
+                  <span className="w-8 text-gray-400">{index + 1}.</span>
+                  <span className="text-gray-900">{p.phrase}</span>
+                </button>
+                <span className="flex items-center gap-3">
+                  <span className="text-gray-500" title={`${p.count} mentions`}>{p.comments} comments</span>
+                  {canEdit && settings && (
+                    <button
+                      onClick={() => ignorePhrase(p.phrase)}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title="Ignore this phrase"
+                    >
+                      <EyeOff className="w-4 h-4" />
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {analysis && analysis.groupBy !== 'none' && (
+        groups.length === 0 ? (
+          <p className="text-sm text-gray-500 py-8 text-center">No keywords for the selected filters.</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {groups.map(group => (
+              <div key={group.key} className="p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm font-medium text-gray-900">{group.label}</p>
+                <p className="text-xs text-gray-500 mb-3">{group.total} comments</p>
+                <div className="flex flex-wrap gap-2">
+                  {group.phrases.slice(0, GROUP_PHRASES).map(p => (
+                    <button
+                      key={p.key}
+                      onClick={() => onSelectPhrase(p.phrase)}
+                      title={`${p.count} mentions in ${p.comments} comments`}
+                      className="px-2 py-1 text-xs bg-white border border-gray-200 rounded-full text-gray-800 hover:border-blue-400 hover:text-blue-600"
+                    >
+                      {p.phrase}
+                    </button>
+                  ))}
+                  {group.phrases.length === 0 && <span className="text-xs text-gray-400">Too few comments</span>}
+                </div>
+              </div>
+            ))}
+          </div>
+        )
+      )}
+
+      {showSettings && settings && (
+        <TextSettingsDialog settings={settings} onSaved={setSettings} onClose={() => setShowSettings(false)} />
+      )}
+    </div>
+  );
+}
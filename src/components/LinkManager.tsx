@@ -0,0 +1,383 @@
+import React, { useState, useEffect } from 'react';
+import QRCode from 'qrcode';
+import {
+  Plus,
+  Pencil,
+  Copy,
+  Check,
+  QrCode,
+  Lock,
+  Unlock,
+  Trash2,
+  MessageSquare,
+  Download,
+  X
+} from 'lucide-react';
+import { api } from '../lib/api';
+import type { CollectionLink, LinkInput, LinkState } from '../lib/types';
+
+interface LinkManagerProps {
+  onChange: () => void;
+  // Show the feedback list filtered to a link's cohort and trainer
+  onViewFeedback: (link: CollectionLink) => void;
+}
+
+interface LinkDraft {
+  cohort: string;
+  trainer: string;
+  session_date: string;
+  opens_at: string; // datetime-local value, or empty
+  closes_at: string;
+  code: string;
+}
+
+const emptyDraft: LinkDraft = { cohort: '', trainer: '', session_date: '', opens_at: '', closes_at: '', code: '' };
+
+const stateStyles: Record<LinkState, string> = {
+  open: 'bg-green-100 text-green-800',
+  scheduled: 'bg-blue-100 text-blue-800',
+  closed: 'bg-gray-200 text-gray-700'
+};
+
+const inputClass = 'px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+// The public page for a link; built here because only the browser knows the site's address
+const linkUrl = (link: CollectionLink) => `${window.location.origin}/f/${link.code}`;
+
+// ISO time <-> the local "YYYY-MM-DDTHH:mm" a datetime-local input uses
+const toLocalInput = (iso: string | null) => {
+  if (!iso) return '';
+  const d = new Date(iso);
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+const fromLocalInput = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const windowText = (link: CollectionLink) => {
+  if (link.closed_at) return `Closed by hand ${formatTime(link.closed_at)}`;
+  if (link.opens_at && link.closes_at) return `${formatTime(link.opens_at)} – ${formatTime(link.closes_at)}`;
+  if (link.opens_at) return `Opens ${formatTime(link.opens_at)}`;
+  if (link.closes_at) return `Closes ${formatTime(link.closes_at)}`;
+  return 'Open until closed';
+};
+
+const download = (href: string, filename: string) => {
+  const a = document.createElement('a');
+  a.href = href;
+  a.download = filename;
+  a.click();
+};
+
+// The link as a large QR code, for projecting at the end of a session, with PNG and SVG downloads
+function QrDialog({ link, onClose }: { link: CollectionLink; onClose: () => void }) {
+  const [png, setPng] = useState('');
+  const url = linkUrl(link);
+
+  useEffect(() => {
+    QRCode.toDataURL(url, { width: 1024, margin: 2 })
+      .then(setPng)
+      .catch(error => console.error('Error drawing QR code:', error));
+  }, [url]);
+
+  const downloadSvg = async () => {
+    try {
+      const svg = await QRCode.toString(url, { type: 'svg', margin: 2 });
+      const href = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+      download(href, `feedback-${link.code}.svg`);
+      URL.revokeObjectURL(href);
+    } catch (error) {
+      console.error('Error drawing QR code:', error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl p-6">
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">{link.cohort} · {link.trainer}</h2>
+            <p className="text-sm text-gray-500">Scan to give feedback</p>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-900" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="flex justify-center">
+          {png ? (
+            <img src={png} alt={`QR code for ${url}`} className="w-full max-w-md aspect-square" />
+          ) : (
+            <div className="w-full max-w-md aspect-square flex items-center justify-center">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          )}
+        </div>
+        <p className="text-center text-2xl font-mono text-gray-900 mt-4 break-all">{url}</p>
+        <div className="flex justify-end gap-2 mt-6">
+          <button
+            onClick={() => download(png, `feedback-${link.code}.png`)}
+            disabled={!png}
+            className="flex items-center gap-1 px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="w-4 h-4" /> PNG
+          </button>
+          <button
+            onClick={downloadSvg}
+            className="flex items-center gap-1 px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            <Download className="w-4 h-4" /> SVG
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default function LinkManager({ onChange, onViewFeedback }: LinkManagerProps) {
+  const [links, setLinks] = useState<CollectionLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [draft, setDraft] = useState<LinkDraft>(emptyDraft);
+  // The link being edited in the form above the list; null while creating
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [showQr, setShowQr] = useState<CollectionLink | null>(null);
+
+  useEffect(() => {
+    fetchLinks();
+  }, []);
+
+  const fetchLinks = async () => {
+    try {
+      setLinks(await api.admin.links.list());
+    } catch (e) {
+      console.error('Error fetching links:', e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run a mutation, then resync local state and let the dashboard refresh its own copy
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await fetchLinks();
+      onChange();
+      return true;
+    } catch (e) {
+      console.error('Link update error:', e);
+      setError(e instanceof Error ? e.message : 'Link update failed');
+      return false;
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const input: LinkInput = {
+      cohort: draft.cohort,
+      trainer: draft.trainer,
+      session_date: draft.session_date,
+      opens_at: fromLocalInput(draft.opens_at),
+      closes_at: fromLocalInput(draft.closes_at)
+    };
+    const saved = await run(() => (editingId
+      ? api.admin.links.update(editingId, input)
+      : api.admin.links.create({ ...input, code: draft.code.trim() || undefined })));
+    if (saved) cancelEdit();
+  };
+
+  const startEdit = (link: CollectionLink) => {
+    setEditingId(link.id);
+    setDraft({
+      cohort: link.cohort,
+      trainer: link.trainer,
+      session_date: link.session_date,
+      opens_at: toLocalInput(link.opens_at),
+      closes_at: toLocalInput(link.closes_at),
+      code: link.code
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+  };
+
+  const copy = async (link: CollectionLink) => {
+    try {
+      await navigator.clipboard.writeText(linkUrl(link));
+      setCopied(link.id);
+      setTimeout(() => setCopied(current => (current === link.id ? null : current)), 2000);
+    } catch (e) {
+      console.error('Copy failed:', e);
+    }
+  };
+
+  const remove = (link: CollectionLink) => {
+    if (!confirm(`Delete the link for ${link.cohort} (${link.trainer})? Anyone holding it will see "link not found".`)) return;
+    run(() => api.admin.links.remove(link.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Create / edit */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          {editingId ? <Pencil className="w-5 h-5 mr-2" /> : <Plus className="w-5 h-5 mr-2" />}
+          {editingId ? `Edit link /f/${draft.code}` : 'New Feedback Link'}
+        </h2>
+        <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="text-sm text-gray-700">
+            Cohort / batch *
+            <input
+              type="text"
+              value={draft.cohort}
+              onChange={(e) => setDraft({ ...draft, cohort: e.target.value })}
+              placeholder="e.g. CSE 2025 Batch A"
+              className={`${inputClass} w-full mt-1`}
+              required
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Trainer *
+            <input
+              type="text"
+              value={draft.trainer}
+              onChange={(e) => setDraft({ ...draft, trainer: e.target.value })}
+              className={`${inputClass} w-full mt-1`}
+              required
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Session date
+            <input
+              type="date"
+              value={draft.session_date}
+              onChange={(e) => setDraft({ ...draft, session_date: e.target.value })}
+              className={`${inputClass} w-full mt-1`}
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Opens
+            <input
+              type="datetime-local"
+              value={draft.opens_at}
+              onChange={(e) => setDraft({ ...draft, opens_at: e.target.value })}
+              className={`${inputClass} w-full mt-1`}
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Closes
+            <input
+              type="datetime-local"
+              value={draft.closes_at}
+              onChange={(e) => setDraft({ ...draft, closes_at: e.target.value })}
+              className={`${inputClass} w-full mt-1`}
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Code
+            <input
+              type="text"
+              value={draft.code}
+              onChange={(e) => setDraft({ ...draft, code: e.target.value.toLowerCase() })}
+              placeholder="Random if left empty"
+              className={`${inputClass} w-full mt-1 font-mono disabled:bg-gray-50 disabled:text-gray-500`}
+              disabled={!!editingId}
+              title={editingId ? 'The code of an existing link cannot change' : 'Lowercase letters, digits and dashes'}
+            />
+          </label>
+          <div className="md:col-span-3 flex justify-end gap-2">
+            {editingId && (
+              <button type="button" onClick={cancelEdit} className="px-4 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50">
+                Cancel
+              </button>
+            )}
+            <button type="submit" className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+              {editingId ? 'Save Link' : 'Create Link'}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* List */}
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">
+            Feedback Links ({links.length})
+          </h2>
+          <p className="text-sm text-gray-500">
+            Each link opens the feedback form for one cohort, trainer and session, and tags what is sent through it.
+            Links that have feedback can be closed but not deleted.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : links.length === 0 ? (
+          <p className="text-center text-gray-500 py-12">No links yet. Create one above for your next session.</p>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {links.map(link => (
+              <div key={link.id} className="p-4 flex items-start justify-between gap-4">
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium text-gray-900">{link.cohort}</span>
+                    <span className="text-gray-400">·</span>
+                    <span className="text-gray-700">{link.trainer}</span>
+                    {link.session_date && <span className="text-sm text-gray-500">{link.session_date}</span>}
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${stateStyles[link.state]}`}>{link.state}</span>
+                  </div>
+                  <p className="text-sm text-gray-500 mt-1">
+                    <span className="font-mono text-gray-700">/f/{link.code}</span> · {windowText(link)} ·{' '}
+                    {link.responses ?? 0} response{link.responses === 1 ? '' : 's'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button onClick={() => copy(link)} className="p-2 text-gray-500 hover:text-gray-900" title="Copy link">
+                    {copied === link.id ? <Check className="w-4 h-4 text-green-600" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                  <button onClick={() => setShowQr(link)} className="p-2 text-gray-500 hover:text-gray-900" title="QR code">
+                    <QrCode className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => onViewFeedback(link)} className="p-2 text-gray-500 hover:text-gray-900" title="View feedback">
+                    <MessageSquare className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => startEdit(link)} className="p-2 text-gray-500 hover:text-gray-900" title="Edit">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  {link.state === 'closed' ? (
+                    <button onClick={() => run(() => api.admin.links.reopen(link.id))} className="p-2 text-gray-500 hover:text-gray-900" title="Reopen">
+                      <Unlock className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button onClick={() => run(() => api.admin.links.close(link.id))} className="p-2 text-gray-500 hover:text-gray-900" title="Close now">
+                      <Lock className="w-4 h-4" />
+                    </button>
+                  )}
+                  {!link.responses && (
+                    <button onClick={() => remove(link)} className="p-2 text-red-600 hover:text-red-800" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showQr && <QrDialog link={showQr} onClose={() => setShowQr(null)} />}
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState, useEffect } from 'react';
+import { ShieldAlert, Check, X, Calendar, SlidersHorizontal, EyeOff } from 'lucide-react';
+import { api } from '../lib/api';
+import AbuseSettingsDialog from './AbuseSettingsDialog';
+import RedactionSettingsDialog from './RedactionSettingsDialog';
+import type { AbuseSettings, Category, Feedback, HeldReason, RedactionSettings } from '../lib/types';
+
+interface ModerationQueueProps {
+  categories: Category[];
+  // Called after an approval so the feedback list and analytics can refresh
+  onChange: () => void;
+}
+
+const REASON_LABELS: Record<HeldReason, string> = {
+  honeypot: 'Filled in the hidden field (likely a bot)',
+  too_fast: 'Sent faster than the form can be filled in',
+  duplicate: 'Nearly repeats another recent comment'
+};
+
+export default function ModerationQueue({ categories, onChange }: ModerationQueueProps) {
+  const [items, setItems] = useState<Feedback[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [settings, setSettings] = useState<AbuseSettings | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [redaction, setRedaction] = useState<RedactionSettings | null>(null);
+  const [showRedaction, setShowRedaction] = useState(false);
+
+  useEffect(() => {
+    fetchQueue();
+    api.admin.abuseSettings.get().then(setSettings).catch(e => console.error('Error fetching spam protection settings:', e));
+    api.admin.redaction.get().then(setRedaction).catch(e => console.error('Error fetching redaction settings:', e));
+  }, []);
+
+  const fetchQueue = async () => {
+    try {
+      const queue = await api.admin.moderation.list();
+      setItems(queue.items);
+      // Drop selections for entries that have left the queue
+      setSelected(prev => new Set(queue.items.map(f => f.feedback_id).filter(id => prev.has(id))));
+    } catch (e) {
+      console.error('Error fetching moderation queue:', e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      onChange();
+    } catch (e) {
+      console.error('Moderation error:', e);
+      setError(e instanceof Error ? e.message : 'Moderation failed');
+    } finally {
+      await fetchQueue();
+    }
+  };
+
+  const toggleSelect = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const approve = (ids: string[]) => run(() => api.admin.moderation.approve(ids));
+  const reject = (ids: string[]) => run(() => api.admin.moderation.reject(ids));
+
+  const categoryName = (id: string) => categories.find(c => c.id === id)?.name || id;
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleString('en-US', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  const selectedIds = Array.from(selected);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <ShieldAlert className="w-5 h-5 mr-2" />
+              Held for Review ({items.length})
+            </h2>
+            <p className="text-xs text-gray-500 mt-1">
+              Submissions the spam checks held back. Approved ones join the feedback list; rejected ones go to the trash.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setSelected(new Set(items.map(f => f.feedback_id)))}
+              className="px-3 py-1 text-xs border rounded"
+            >
+              Select All
+            </button>
+            <button type="button" onClick={() => setSelected(new Set())} className="px-3 py-1 text-xs border rounded">Clear</button>
+            <button
+              type="button"
+              onClick={() => approve(selectedIds)}
+              disabled={selected.size === 0}
+              className="px-3 py-1 text-xs border border-green-300 text-green-700 rounded flex items-center gap-1 disabled:opacity-50"
+            >
+              <Check className="w-3 h-3" /> Approve ({selected.size})
+            </button>
+            <button
+              type="button"
+              onClick={() => reject(selectedIds)}
+              disabled={selected.size === 0}
+              className="px-3 py-1 text-xs border border-red-300 text-red-600 rounded flex items-center gap-1 disabled:opacity-50"
+            >
+              <X className="w-3 h-3" /> Reject ({selected.size})
+            </button>
+            {settings && (
+              <button
+                type="button"
+                onClick={() => setShowSettings(true)}
+                className="p-1.5 text-gray-500 hover:text-gray-800 border border-gray-300 rounded"
+                title="Spam protection settings"
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+              </button>
+            )}
+            {redaction && (
+              <button
+                type="button"
+                onClick={() => setShowRedaction(true)}
+                className="p-1.5 text-gray-500 hover:text-gray-800 border border-gray-300 rounded"
+                title="Personal information redaction"
+              >
+                <EyeOff className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-12">
+            <ShieldAlert className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">Nothing is waiting for review.</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {items.map(item => (
+              <div key={item.feedback_id} className="p-6 hover:bg-gray-50">
+                <div className="flex items-start justify-between mb-3">
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(item.feedback_id)}
+                      onChange={() => toggleSelect(item.feedback_id)}
+                      className="rounded border-gray-300"
+                    />
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                      {categoryName(item.category)}
+                    </span>
+                    <span className="text-xs text-gray-500">{item.rating}/5</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-gray-500 flex items-center">
+                      <Calendar className="w-4 h-4 mr-1" />
+                      {formatDate(item.timestamp)}
+                    </span>
+                    <button onClick={() => approve([item.feedback_id])} className="text-green-600 hover:text-green-800 p-2" title="Approve">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => reject([item.feedback_id])} className="text-red-600 hover:text-red-800 p-2" title="Reject">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <p className="text-gray-800 text-sm leading-relaxed">{item.comment}</p>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {(item.held_reasons || []).map(reason => (
+                    <span key={reason} className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-amber-100 text-amber-800">
+                      {REASON_LABELS[reason] || reason}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showSettings && settings && (
+        <AbuseSettingsDialog settings={settings} onSaved={setSettings} onClose={() => setShowSettings(false)} />
+      )}
+
+      {showRedaction && redaction && (
+        <RedactionSettingsDialog settings={redaction} onSaved={setRedaction} onClose={() => setShowRedaction(false)} />
+      )}
+    </div>
+  );
+}
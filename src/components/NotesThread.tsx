@@ -0,0 +1,214 @@
+import React, { useRef, useState } from 'react';
+import { Pencil, Trash2, Check, X, Send } from 'lucide-react';
+import { api } from '../lib/api';
+import type { AdminUser, Feedback, FeedbackNote, MentionableUser } from '../lib/types';
+
+// Mirrors MAX_NOTE_LENGTH in server/notes.js
+const MAX_NOTE_LENGTH = 2000;
+
+// Splits text into plain runs and @mentions, like MENTION_PATTERN in server/notes.js
+const MENTION_SPLIT = /((?<![\w@.])@[\w.-]*[\w])/g;
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+interface MentionInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  users: MentionableUser[];
+  placeholder?: string;
+  autoFocus?: boolean;
+}
+
+// Textarea that suggests admin usernames while an @mention is being typed
+function MentionInput({ value, onChange, users, placeholder, autoFocus }: MentionInputProps) {
+  const ref = useRef<HTMLTextAreaElement>(null);
+  const [caret, setCaret] = useState(0);
+
+  // The partial username right before the caret, if one is being typed
+  const typing = /(?:^|[^\w@.])@([\w.-]*)$/.exec(value.slice(0, caret))?.[1];
+  const suggestions = typing === undefined
+    ? []
+    : users.filter(u => u.username.toLowerCase().startsWith(typing.toLowerCase())).slice(0, 5);
+
+  const insert = (username: string) => {
+    const start = caret - (typing?.length ?? 0);
+    const next = `${value.slice(0, start)}${username} ${value.slice(caret)}`;
+    onChange(next);
+    const position = start + username.length + 1;
+    setCaret(position);
+    requestAnimationFrame(() => {
+      ref.current?.focus();
+      ref.current?.setSelectionRange(position, position);
+    });
+  };
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={ref}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setCaret(e.target.selectionStart);
+        }}
+        onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+        rows={2}
+        maxLength={MAX_NOTE_LENGTH}
+        placeholder={placeholder}
+        autoFocus={autoFocus}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+      />
+      {suggestions.length > 0 && (
+        <ul className="absolute z-10 left-0 mt-1 w-48 bg-white border border-gray-200 rounded-lg shadow-lg text-sm">
+          {suggestions.map(u => (
+            <li key={u.id}>
+              <button
+                type="button"
+                // Keep focus (and the caret) in the textarea
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insert(u.username)}
+                className="w-full text-left px-3 py-1.5 hover:bg-blue-50"
+              >
+                @{u.username}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface NotesThreadProps {
+  item: Feedback;
+  user: AdminUser;
+  users: MentionableUser[];
+  canEdit: boolean;
+  onChange: (updated: Feedback) => void;
+}
+
+// Internal discussion on one feedback item: notes by admins, with @mentions and edit/delete of
+// one's own notes
+export default function NotesThread({ item, user, users, canEdit, onChange }: NotesThreadProps) {
+  const notes = item.notes || [];
+  const [draft, setDraft] = useState('');
+  const [editing, setEditing] = useState<{ id: string; text: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const known = new Set(users.map(u => u.username.toLowerCase()));
+  const others = users.filter(u => u.id !== user.id);
+
+  const run = async (action: () => Promise<Feedback>) => {
+    setError('');
+    setSaving(true);
+    try {
+      onChange(await action());
+      return true;
+    } catch (e) {
+      console.error('Note error:', e);
+      setError(e instanceof Error ? e.message : 'Saving the note failed');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    if (await run(() => api.admin.feedback.addNote(item.feedback_id, draft))) setDraft('');
+  };
+
+  const saveEdit = async () => {
+    if (!editing || !editing.text.trim()) return;
+    if (await run(() => api.admin.feedback.editNote(item.feedback_id, editing.id, editing.text))) setEditing(null);
+  };
+
+  const remove = async (note: FeedbackNote) => {
+    if (!confirm('Delete this note?')) return;
+    await run(() => api.admin.feedback.removeNote(item.feedback_id, note.id));
+  };
+
+  const renderText = (text: string) =>
+    text.split(MENTION_SPLIT).map((part, i) =>
+      part.startsWith('@') && known.has(part.slice(1).toLowerCase()) ? (
+        <span key={i} className={`font-medium ${part.slice(1).toLowerCase() === user.username.toLowerCase() ? 'bg-yellow-100 text-yellow-900' : 'text-blue-700'}`}>
+          {part}
+        </span>
+      ) : (
+        part
+      )
+    );
+
+  return (
+    <div className="space-y-3">
+      {notes.length === 0 && <p className="text-xs text-gray-500">No internal notes yet.</p>}
+      {notes.map(note => (
+        <div key={note.id} className="border-l-2 border-amber-200 pl-3">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs text-gray-500">
+              <span className="font-medium text-gray-700">{note.author ?? 'Earlier admin note'}</span>
+              {' · '}
+              {formatDate(note.created_at)}
+              {note.edited_at && <span title={`Edited ${formatDate(note.edited_at)}`}> · edited</span>}
+            </p>
+            {canEdit && note.author_id === user.id && editing?.id !== note.id && (
+              <div className="flex items-center">
+                <button onClick={() => setEditing({ id: note.id, text: note.text })} className="p-1 text-gray-500 hover:text-gray-800" title="Edit">
+                  <Pencil className="w-3 h-3" />
+                </button>
+                <button onClick={() => remove(note)} disabled={saving} className="p-1 text-red-600 hover:text-red-800" title="Delete">
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+          </div>
+          {editing?.id === note.id ? (
+            <div className="mt-1 flex items-start gap-1">
+              <div className="flex-1">
+                <MentionInput value={editing.text} onChange={(text) => setEditing({ ...editing, text })} users={others} autoFocus />
+              </div>
+              <button onClick={saveEdit} disabled={saving || !editing.text.trim()} className="p-2 text-green-600 hover:text-green-800 disabled:opacity-50" title="Save">
+                <Check className="w-4 h-4" />
+              </button>
+              <button onClick={() => setEditing(null)} className="p-2 text-gray-500 hover:text-gray-800" title="Cancel">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-800 whitespace-pre-wrap">{renderText(note.text)}</p>
+          )}
+        </div>
+      ))}
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleAdd} className="flex items-start gap-2">
+          <div className="flex-1">
+            <MentionInput
+              value={draft}
+              onChange={setDraft}
+              users={others}
+              placeholder="Add an internal note; type @ to mention another admin"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving || !draft.trim()}
+            className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center gap-1"
+          >
+            <Send className="w-4 h-4" />
+            Add
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
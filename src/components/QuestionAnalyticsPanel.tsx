@@ -0,0 +1,170 @@
+import { useState, useEffect } from 'react';
+import { ClipboardList } from 'lucide-react';
+import { api } from '../lib/api';
+import { QUESTION_TYPE_LABELS } from '../lib/forms';
+import type { FeedbackFilters, FormSummary, QuestionAnalytics, QuestionResult } from '../lib/types';
+
+interface QuestionAnalyticsPanelProps {
+  // The dashboard filters; results cover only matching feedback
+  filters: FeedbackFilters;
+}
+
+// One labelled bar, as in the rating distribution on the overview
+function Bar({ label, count, total, color }: { label: string; count: number; total: number; color: string }) {
+  return (
+    <div>
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600">{label}</span>
+        <span className="text-gray-900 font-medium">
+          {count}{total > 0 && <span className="text-gray-500 font-normal"> ({Math.round((count / total) * 100)}%)</span>}
+        </span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2">
+        <div className={`${color} h-2 rounded-full`} style={{ width: `${total ? (count / total) * 100 : 0}%` }}></div>
+      </div>
+    </div>
+  );
+}
+
+function QuestionCard({ result }: { result: QuestionResult }) {
+  const distribution = result.distribution || {};
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">{result.label}</h3>
+          <p className="text-xs text-gray-500">
+            {QUESTION_TYPE_LABELS[result.type]} · {result.answered} answer{result.answered === 1 ? '' : 's'}
+            {result.retired && ' · removed from the current version'}
+          </p>
+        </div>
+        {result.type === 'rating' && result.average !== null && (
+          <span className="text-2xl font-bold text-gray-900">{result.average}<span className="text-sm text-gray-500">/5</span></span>
+        )}
+        {result.type === 'nps' && result.score !== null && (
+          <span className="text-2xl font-bold text-gray-900" title="% promoters (9-10) minus % detractors (0-6)">
+            NPS {result.score}
+          </span>
+        )}
+      </div>
+
+      {result.type === 'rating' && (
+        <div className="space-y-3">
+          {[5, 4, 3, 2, 1].map(rating => (
+            <Bar key={rating} label={`${rating} star${rating === 1 ? '' : 's'}`} count={distribution[rating] || 0} total={result.answered} color="bg-amber-500" />
+          ))}
+        </div>
+      )}
+
+      {result.type === 'nps' && (
+        <div className="space-y-3">
+          <Bar label="Promoters (9-10)" count={result.promoters || 0} total={result.answered} color="bg-green-500" />
+          <Bar label="Passives (7-8)" count={result.passives || 0} total={result.answered} color="bg-gray-400" />
+          <Bar label="Detractors (0-6)" count={result.detractors || 0} total={result.answered} color="bg-red-500" />
+        </div>
+      )}
+
+      {result.type === 'choice' && (
+        <div className="space-y-3">
+          {(result.options || []).map(({ option, count }) => (
+            <Bar key={option} label={option} count={count} total={result.answered} color="bg-blue-600" />
+          ))}
+        </div>
+      )}
+
+      {result.type === 'yes_no' && (
+        <div className="space-y-3">
+          <Bar label="Yes" count={result.yes || 0} total={result.answered} color="bg-green-500" />
+          <Bar label="No" count={result.no || 0} total={result.answered} color="bg-red-500" />
+        </div>
+      )}
+
+      {result.type === 'text' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Common phrases</p>
+            {result.keywords && result.keywords.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {result.keywords.map(({ word, count }) => (
+                  <span key={word} className="px-2 py-1 text-xs rounded-full bg-blue-50 text-blue-800">
+                    {word} <span className="text-blue-500">{count}</span>
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Not enough answers yet.</p>
+            )}
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Latest answers</p>
+            <ul className="space-y-2">
+              {(result.latest || []).map((answer, i) => (
+                <li key={i} className="text-sm text-gray-800 border-l-2 border-gray-200 pl-3">{answer}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Results for each question of one survey form
+export default function QuestionAnalyticsPanel({ filters }: QuestionAnalyticsPanelProps) {
+  const [forms, setForms] = useState<FormSummary[]>([]);
+  const [formId, setFormId] = useState('');
+  const [results, setResults] = useState<QuestionAnalytics | null>(null);
+
+  useEffect(() => {
+    const fetchForms = async () => {
+      try {
+        const list = await api.admin.forms.list();
+        setForms(list);
+        setFormId(current => current || list.find(f => f.active)?.id || '');
+      } catch (error) {
+        console.error('Error fetching forms:', error);
+      }
+    };
+    fetchForms();
+  }, []);
+
+  useEffect(() => {
+    if (!formId) return;
+    const fetchResults = async () => {
+      try {
+        setResults(await api.admin.questionAnalytics(filters, formId));
+      } catch (error) {
+        console.error('Error fetching question analytics:', error);
+      }
+    };
+    fetchResults();
+  }, [filters, formId]);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm p-6 flex items-center justify-between gap-4">
+        <div className="flex items-center">
+          <ClipboardList className="w-8 h-8 text-blue-600" />
+          <div className="ml-4">
+            <p className="text-sm font-medium text-gray-500">Responses to this form</p>
+            <p className="text-2xl font-bold text-gray-900">{results?.responses ?? '-'}</p>
+          </div>
+        </div>
+        <select
+          value={formId}
+          onChange={(e) => setFormId(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          {forms.map(form => (
+            <option key={form.id} value={form.id}>
+              {form.name}{form.active ? ' (active)' : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {results?.questions.map(result => <QuestionCard key={result.id} result={result} />)}
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState, useEffect } from 'react';
+import { Star, ShieldAlert } from 'lucide-react';
+import { api } from '../lib/api';
+import type { AnswerValue, FormQuestion, RedactionCheck, RedactionKind } from '../lib/types';
+
+interface QuestionFieldProps {
+  question: FormQuestion;
+  value: AnswerValue | undefined;
+  onChange: (value: AnswerValue | undefined) => void;
+}
+
+// Wait this long after typing stops before checking a text answer for personal information
+const REDACTION_CHECK_DELAY_MS = 600;
+
+const REDACTION_LABELS: Record<RedactionKind, string> = {
+  email: 'an email address',
+  phone: 'a phone number',
+  roll_number: 'a roll number',
+  name: 'a name'
+};
+
+const listOf = (items: string[]) =>
+  items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+
+const NPS_SCALE = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+const inputClass = 'w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-all duration-200';
+
+const toggleClass = (selected: boolean) =>
+  `px-4 py-2 rounded-lg border text-sm transition-colors duration-150 ${
+    selected ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+  }`;
+
+function StarRating({ value, onChange }: { value: number; onChange: (rating: number) => void }) {
+  const [hovered, setHovered] = useState(0);
+  return (
+    <div className="flex space-x-1">
+      {[1, 2, 3, 4, 5].map((star) => (
+        <button
+          key={star}
+          type="button"
+          onClick={() => onChange(star)}
+          onMouseEnter={() => setHovered(star)}
+          onMouseLeave={() => setHovered(0)}
+          className="focus:outline-none focus:ring-2 focus:ring-blue-500 rounded transition-all duration-150"
+          aria-label={`${star} star${star === 1 ? '' : 's'}`}
+        >
+          <Star
+            className={`w-8 h-8 transition-colors duration-150 ${
+              star <= (hovered || value) ? 'text-amber-400 fill-amber-400' : 'text-gray-300 hover:text-amber-200'
+            }`}
+          />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+function TextAnswer({ question, value, onChange }: { question: FormQuestion; value: string; onChange: (text: string) => void }) {
+  // Personal information the server will mask from the answer, shown before submitting
+  const [redaction, setRedaction] = useState<RedactionCheck | null>(null);
+  const minLength = question.minLength || 0;
+
+  useEffect(() => {
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      if (value.trim().length < 5) {
+        setRedaction(null);
+        return;
+      }
+      api.feedback.checkRedaction(value)
+        .then(result => { if (!cancelled) setRedaction(result); })
+        .catch(error => console.error('Error checking comment:', error));
+    }, REDACTION_CHECK_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [value]);
+
+  return (
+    <>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={`Please share your detailed feedback here...${minLength ? ` (minimum ${minLength} characters)` : ''}`}
+        rows={question.role === 'comment' ? 5 : 3}
+        className={`${inputClass} resize-none`}
+        required={question.required}
+        minLength={minLength || undefined}
+      />
+      {minLength > 0 && (
+        <p className="text-sm text-gray-500 mt-1">
+          {value.length}/{minLength} characters minimum
+        </p>
+      )}
+      {redaction && redaction.redacted.length > 0 && (
+        <div className="mt-3 p-4 bg-amber-50 border border-amber-200 rounded-lg">
+          <p className="text-amber-800 text-sm flex items-start">
+            <ShieldAlert className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+            Your answer seems to include {listOf(redaction.redacted.map(kind => REDACTION_LABELS[kind]))}.
+            To keep you anonymous, it will be saved as:
+          </p>
+          <p className="text-sm text-gray-700 mt-2 italic whitespace-pre-wrap">{redaction.comment}</p>
+        </div>
+      )}
+    </>
+  );
+}
+
+// One survey question on the public form, rendered for its type
+export default function QuestionField({ question, value, onChange }: QuestionFieldProps) {
+  const picked = Array.isArray(value) ? value : [];
+
+  const toggleOption = (option: string) =>
+    onChange(picked.includes(option) ? picked.filter(o => o !== option) : [...picked, option]);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        {question.label}{question.required && ' *'}
+      </label>
+
+      {question.type === 'rating' && (
+        <StarRating value={typeof value === 'number' ? value : 0} onChange={onChange} />
+      )}
+
+      {question.type === 'nps' && (
+        <div>
+          <div className="flex flex-wrap gap-1">
+            {NPS_SCALE.map(score => (
+              <button
+                key={score}
+                type="button"
+                onClick={() => onChange(score)}
+                className={`w-10 h-10 rounded-lg border text-sm transition-colors duration-150 ${
+                  value === score ? 'bg-blue-600 border-blue-600 text-white' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {score}
+              </button>
+            ))}
+          </div>
+          <div className="flex justify-between text-xs text-gray-500 mt-1 max-w-[29rem]">
+            <span>Not at all likely</span>
+            <span>Extremely likely</span>
+          </div>
+        </div>
+      )}
+
+      {question.type === 'yes_no' && (
+        <div className="flex gap-2">
+          <button type="button" onClick={() => onChange(value === true ? undefined : true)} className={toggleClass(value === true)}>
+            Yes
+          </button>
+          <button type="button" onClick={() => onChange(value === false ? undefined : false)} className={toggleClass(value === false)}>
+            No
+          </button>
+        </div>
+      )}
+
+      {question.type === 'choice' && (
+        <div className="space-y-2">
+          {question.multiple && <p className="text-xs text-gray-500">Choose all that apply</p>}
+          {(question.options || []).map(option => (
+            <label key={option} className="flex items-center gap-2 text-sm text-gray-800">
+              <input
+                type={question.multiple ? 'checkbox' : 'radio'}
+                name={question.id}
+                checked={question.multiple ? picked.includes(option) : value === option}
+                onChange={() => (question.multiple ? toggleOption(option) : onChange(option))}
+                className={question.multiple ? 'rounded border-gray-300' : 'border-gray-300'}
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      )}
+
+      {question.type === 'text' && (
+        <TextAnswer question={question} value={typeof value === 'string' ? value : ''} onChange={onChange} />
+      )}
+    </div>
+  );
+}
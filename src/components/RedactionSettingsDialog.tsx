@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { EyeOff, X } from 'lucide-react';
+import { api } from '../lib/api';
+import type { RedactionKind, RedactionPreview, RedactionSettings, RedactionSpan } from '../lib/types';
+
+interface RedactionSettingsDialogProps {
+  settings: RedactionSettings;
+  onSaved: (settings: RedactionSettings) => void;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<RedactionKind, string> = {
+  email: 'Emails',
+  phone: 'Phone numbers',
+  roll_number: 'Roll numbers',
+  name: 'Names'
+};
+
+const KIND_STYLES: Record<RedactionKind, string> = {
+  email: 'bg-blue-100 text-blue-900',
+  phone: 'bg-violet-100 text-violet-900',
+  roll_number: 'bg-amber-100 text-amber-900',
+  name: 'bg-rose-100 text-rose-900'
+};
+
+const toLines = (list: string[]) => list.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+// A comment with each detected span highlighted in its kind's colour
+function Highlighted({ text, spans }: { text: string; spans: RedactionSpan[] }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  spans.forEach((span, i) => {
+    parts.push(text.slice(position, span.start));
+    parts.push(
+      <mark key={i} className={`rounded px-0.5 ${KIND_STYLES[span.kind]}`} title={KIND_LABELS[span.kind]}>
+        {text.slice(span.start, span.end)}
+      </mark>
+    );
+    position = span.end;
+  });
+  parts.push(text.slice(position));
+  return <p className="text-sm text-gray-800 leading-relaxed">{parts}</p>;
+}
+
+export default function RedactionSettingsDialog({ settings, onSaved, onClose }: RedactionSettingsDialogProps) {
+  const [email, setEmail] = useState(settings.email);
+  const [phone, setPhone] = useState(settings.phone);
+  const [rollNumbers, setRollNumbers] = useState(toLines(settings.rollNumbers));
+  const [names, setNames] = useState(toLines(settings.names));
+  const [preview, setPreview] = useState<RedactionPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const current = (): RedactionSettings => ({ email, phone, rollNumbers: fromLines(rollNumbers), names: fromLines(names) });
+
+  const runPreview = async () => {
+    setError('');
+    setPreviewing(true);
+    try {
+      setPreview(await api.admin.redaction.preview(current()));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Preview failed');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+    try {
+      onSaved(await api.admin.redaction.update(current()));
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Saving settings failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <EyeOff className="w-5 h-5 mr-2" />
+            Personal Information Redaction
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          Matches are replaced with a placeholder such as [email] before a comment is saved. Comments already stored are not changed.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex gap-6">
+            <label className="flex items-center gap-2 text-sm text-gray-800">
+              <input type="checkbox" checked={email} onChange={(e) => setEmail(e.target.checked)} className="rounded border-gray-300" />
+              Email addresses
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-800">
+              <input type="checkbox" checked={phone} onChange={(e) => setPhone(e.target.checked)} className="rounded border-gray-300" />
+              Phone numbers
+            </label>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Roll number patterns <span className="font-normal text-gray-500">(regular expressions, one per line, case-insensitive)</span>
+            </label>
+            <textarea
+              value={rollNumbers}
+              onChange={(e) => setRollNumbers(e.target.value)}
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm font-mono"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Names <span className="font-normal text-gray-500">(one per line; matched as whole words)</span>
+            </label>
+            <textarea
+              value={names}
+              onChange={(e) => setNames(e.target.value)}
+              rows={5}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={runPreview}
+              disabled={previewing}
+              className="flex-1 px-4 py-2 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              {previewing ? 'Checking...' : 'Preview on existing feedback'}
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+
+        {preview && (
+          <div className="mt-6 border-t border-gray-200 pt-4">
+            <p className="text-sm text-gray-700">
+              {preview.matched} of {preview.scanned} comments would be redacted
+              {Object.keys(preview.counts).length > 0 && ': '}
+              {(Object.entries(preview.counts) as Array<[RedactionKind, number]>)
+                .map(([kind, count]) => `${KIND_LABELS[kind].toLowerCase()} ${count}`)
+                .join(', ')}
+            </p>
+            {preview.items.length < preview.matched && (
+              <p className="text-xs text-gray-500 mt-1">Showing the first {preview.items.length}.</p>
+            )}
+            <div className="mt-3 divide-y divide-gray-100 max-h-80 overflow-y-auto">
+              {preview.items.map(item => (
+                <div key={item.feedback_id} className="py-2">
+                  <Highlighted text={item.comment} spans={item.spans} />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
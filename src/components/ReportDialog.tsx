@@ -0,0 +1,108 @@
+import { useState } from 'react';
+import { FileText, X } from 'lucide-react';
+import { api } from '../lib/api';
+import type { Category, ReportOptions } from '../lib/types';
+
+interface ReportDialogProps {
+  categories: Category[];
+  // Pre-filled from the dashboard filters
+  initial: ReportOptions;
+  onClose: () => void;
+}
+
+export default function ReportDialog({ categories, initial, onClose }: ReportDialogProps) {
+  const [options, setOptions] = useState<ReportOptions>(initial);
+
+  const toggleCategory = (id: string) => {
+    setOptions(prev => ({
+      ...prev,
+      categories: prev.categories.includes(id) ? prev.categories.filter(c => c !== id) : [...prev.categories, id]
+    }));
+  };
+
+  const download = () => {
+    const a = document.createElement('a');
+    a.href = api.admin.reportUrl(options);
+    a.click();
+    onClose();
+  };
+
+  const invalidRange = !!options.startDate && !!options.endDate && options.startDate > options.endDate;
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl p-6 w-full max-w-md">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <FileText className="w-5 h-5 mr-2" />
+            PDF Report
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          A cover page, summary numbers, rating and category charts, top keywords and every comment with its status and admin note.
+        </p>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">From</label>
+              <input
+                type="date"
+                value={options.startDate}
+                onChange={(e) => setOptions({ ...options, startDate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">To</label>
+              <input
+                type="date"
+                value={options.endDate}
+                onChange={(e) => setOptions({ ...options, endDate: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+          </div>
+
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">
+              Categories <span className="font-normal text-gray-500">(none ticked = all)</span>
+            </p>
+            <div className="grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+              {categories.map(category => (
+                <label key={category.id} className="flex items-center gap-2 text-sm text-gray-800">
+                  <input
+                    type="checkbox"
+                    checked={options.categories.includes(category.id)}
+                    onChange={() => toggleCategory(category.id)}
+                    className="rounded border-gray-300"
+                  />
+                  {category.name}
+                  {category.archived && <span className="text-xs text-gray-400">(archived)</span>}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {invalidRange && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-700 text-sm">The start date is after the end date.</p>
+            </div>
+          )}
+
+          <button
+            onClick={download}
+            disabled={invalidRange}
+            className="w-full px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Generate PDF
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
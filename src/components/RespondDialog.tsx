@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Reply, X } from 'lucide-react';
+import { api } from '../lib/api';
+import { allowedStates } from '../lib/workflow';
+import type { Feedback, FeedbackStatus, FeedbackUpdate, MentionableUser, WorkflowSettings } from '../lib/types';
+
+interface RespondDialogProps {
+  item: Feedback;
+  workflow: WorkflowSettings;
+  // Admins the feedback can be assigned to
+  users: MentionableUser[];
+  onClose: () => void;
+  onSaved: (updated: Feedback) => void;
+}
+
+// Mirror MAX_PUBLIC_RESPONSE_LENGTH in server/edits.js and MAX_PUBLIC_COMMENT_LENGTH in server/board.js
+const MAX_PUBLIC_RESPONSE_LENGTH = 2000;
+const MAX_PUBLIC_COMMENT_LENGTH = 2000;
+
+// Set the status, assignee and due date, the public response a submitter sees when they check
+// their receipt code, and put the item forward for the public board
+export default function RespondDialog({ item, workflow, users, onClose, onSaved }: RespondDialogProps) {
+  const [status, setStatus] = useState<FeedbackStatus>(item.status || 'open');
+  const [assignee, setAssignee] = useState(item.assignee_id || '');
+  const initialDue = item.due_at ? item.due_at.slice(0, 10) : '';
+  const [due, setDue] = useState(initialDue);
+  const [response, setResponse] = useState(item.public_response || '');
+  // On the board (or waiting for review to be), with the comment text it shows there
+  const [onBoard, setOnBoard] = useState(!!item.publish_state);
+  const [boardComment, setBoardComment] = useState(item.public_comment || item.comment || '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+    try {
+      const changes: FeedbackUpdate = { status, public_response: response };
+      if (assignee !== (item.assignee_id || '')) changes.assignee_id = assignee || null;
+      // An emptied date goes back to the category's SLA
+      if (due !== initialDue) changes.due_at = due || null;
+      let updated = await api.admin.feedback.update(item.feedback_id, changes);
+      if (onBoard && updated.public_response && (!updated.publish_state || boardComment !== item.public_comment)) {
+        updated = await api.admin.feedback.publish(item.feedback_id, boardComment);
+      } else if (!onBoard && updated.publish_state) {
+        await (updated.publish_state === 'published'
+          ? api.admin.board.unpublish([item.feedback_id])
+          : api.admin.board.reject([item.feedback_id]));
+        updated = await api.admin.feedback.get(item.feedback_id);
+      }
+      onSaved(updated);
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Saving the response failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl p-6 w-full max-w-lg">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Reply className="w-5 h-5 mr-2" />
+            Respond to Feedback
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {item.comment && (
+          <blockquote className="mb-4 text-sm text-gray-700 border-l-2 border-gray-200 pl-3 whitespace-pre-wrap">
+            {item.comment}
+          </blockquote>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <label className="block text-sm font-medium text-gray-700">
+            Status
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as FeedbackStatus)}
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {allowedStates(workflow, item.status).map(s => (
+                <option key={s.id} value={s.id}>{s.label}</option>
+              ))}
+            </select>
+          </label>
+          <div className="grid grid-cols-2 gap-4">
+            <label className="block text-sm font-medium text-gray-700">
+              Assigned to
+              <select
+                value={assignee}
+                onChange={(e) => setAssignee(e.target.value)}
+                className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Nobody</option>
+                {users.map(u => (
+                  <option key={u.id} value={u.id}>{u.username}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm font-medium text-gray-700">
+              Due
+              <input
+                type="date"
+                value={due}
+                onChange={(e) => setDue(e.target.value)}
+                className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+              <span className="block text-xs font-normal text-gray-500 mt-1">
+                {item.due_manual ? 'Set by hand; clear it to use the category SLA.' : 'From the category SLA unless changed.'}
+              </span>
+            </label>
+          </div>
+          <label className="block text-sm font-medium text-gray-700">
+            Public response
+            <textarea
+              value={response}
+              onChange={(e) => setResponse(e.target.value)}
+              rows={5}
+              maxLength={MAX_PUBLIC_RESPONSE_LENGTH}
+              placeholder="What was done about this feedback"
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+            />
+            <span className="block text-xs font-normal text-gray-500 mt-1">
+              The submitter sees this with their receipt code. Keep internal details in the internal notes.
+            </span>
+          </label>
+          <div className="border-t border-gray-200 pt-4 space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={onBoard}
+                onChange={(e) => setOnBoard(e.target.checked)}
+                disabled={!response.trim()}
+                className="rounded border-gray-300"
+              />
+              Show on the public "You said, we did" board
+            </label>
+            {item.publish_state && (
+              <p className="text-xs text-gray-500">
+                {item.publish_state === 'published' && item.published_at
+                  ? `On the board since ${new Date(item.published_at).toLocaleDateString()}.`
+                  : 'Waiting for review in the Review tab.'}
+              </p>
+            )}
+            {onBoard && (
+              <label className="block text-sm font-medium text-gray-700">
+                Comment as shown on the board
+                <textarea
+                  value={boardComment}
+                  onChange={(e) => setBoardComment(e.target.value)}
+                  rows={3}
+                  maxLength={MAX_PUBLIC_COMMENT_LENGTH}
+                  className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                />
+                <span className="block text-xs font-normal text-gray-500 mt-1">
+                  Shorten it or take out anything identifying. Personal information is masked again, and a
+                  moderator reviews it before it appears.
+                </span>
+              </label>
+            )}
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Response'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState, useEffect } from 'react';
+import { Users, Star, AlertTriangle } from 'lucide-react';
+import { api } from '../lib/api';
+import type { FeedbackFilters, Scorecard, ScorecardGrouping, Scorecards } from '../lib/types';
+
+interface ScorecardPanelProps {
+  // The dashboard filters; results cover only matching feedback
+  filters: FeedbackFilters;
+  // Show the feedback list for one trainer or cohort
+  onFilter: (changes: Partial<FeedbackFilters>) => void;
+}
+
+const percent = (count: number, total: number) => (total ? Math.round((count / total) * 100) : 0);
+
+function ScorecardCard({ card, onSelect }: { card: Scorecard; onSelect: () => void }) {
+  const scored = card.sentimentStats.positive + card.sentimentStats.neutral + card.sentimentStats.negative;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm p-6">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <button onClick={onSelect} className="text-lg font-semibold text-gray-900 hover:text-blue-600 text-left" title="Show this feedback">
+            {card.key}
+          </button>
+          <p className="text-xs text-gray-500">
+            {card.responses} response{card.responses === 1 ? '' : 's'} · {card.sessions} session{card.sessions === 1 ? '' : 's'}
+          </p>
+        </div>
+        {card.averageRating !== null && (
+          <span className="flex items-center text-2xl font-bold text-gray-900">
+            <Star className="w-5 h-5 mr-1 text-amber-400 fill-amber-400" />
+            {card.averageRating}
+          </span>
+        )}
+      </div>
+
+      {/* Rating spread as one stacked bar, 5 stars on the left */}
+      <div className="flex w-full h-2 rounded-full overflow-hidden bg-gray-200 mb-1">
+        {[5, 4, 3, 2, 1].map(rating => (
+          <div
+            key={rating}
+            className={rating >= 4 ? 'bg-green-500' : rating === 3 ? 'bg-gray-400' : 'bg-red-500'}
+            style={{ width: `${percent(card.ratingStats[rating] || 0, card.responses)}%` }}
+            title={`${rating} star${rating === 1 ? '' : 's'}: ${card.ratingStats[rating] || 0}`}
+          ></div>
+        ))}
+      </div>
+      <p className="text-xs text-gray-500 mb-4">
+        {percent((card.ratingStats[5] || 0) + (card.ratingStats[4] || 0), card.responses)}% rated 4-5 ·{' '}
+        {percent((card.ratingStats[1] || 0) + (card.ratingStats[2] || 0), card.responses)}% rated 1-2
+      </p>
+
+      <dl className="grid grid-cols-3 gap-2 text-sm mb-4">
+        <div>
+          <dt className="text-gray-500">Positive</dt>
+          <dd className="font-medium text-green-700">{percent(card.sentimentStats.positive, scored)}%</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Negative</dt>
+          <dd className="font-medium text-red-700">{percent(card.sentimentStats.negative, scored)}%</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500">Resolved</dt>
+          <dd className="font-medium text-gray-900">{percent(card.resolved, card.responses)}%</dd>
+        </div>
+      </dl>
+
+      {card.mismatchCount > 0 && (
+        <p className="text-xs text-orange-700 flex items-center mb-3">
+          <AlertTriangle className="w-3 h-3 mr-1" />
+          {card.mismatchCount} rating{card.mismatchCount === 1 ? '' : 's'} contradict{card.mismatchCount === 1 ? 's' : ''} the comment
+        </p>
+      )}
+
+      {card.keywords.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {card.keywords.map(({ word, count }) => (
+            <span key={word} className="px-2 py-1 text-xs rounded-full bg-blue-50 text-blue-800">
+              {word} <span className="text-blue-500">{count}</span>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Side-by-side results per trainer or cohort, for feedback sent through collection links
+export default function ScorecardPanel({ filters, onFilter }: ScorecardPanelProps) {
+  const [groupBy, setGroupBy] = useState<ScorecardGrouping>('trainer');
+  const [results, setResults] = useState<Scorecards | null>(null);
+
+  useEffect(() => {
+    const fetchScorecards = async () => {
+      try {
+        setResults(await api.admin.scorecards(filters, groupBy));
+      } catch (error) {
+        console.error('Error fetching scorecards:', error);
+      }
+    };
+    fetchScorecards();
+  }, [filters, groupBy]);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-sm p-6 flex items-center justify-between gap-4">
+        <div className="flex items-center">
+          <Users className="w-8 h-8 text-blue-600" />
+          <div className="ml-4">
+            <p className="text-sm font-medium text-gray-500">Responses through feedback links</p>
+            <p className="text-2xl font-bold text-gray-900">
+              {results?.overall.responses ?? '-'}
+              {results?.overall.averageRating != null && (
+                <span className="text-sm font-normal text-gray-500"> · average {results.overall.averageRating}/5</span>
+              )}
+            </p>
+            {!!results?.untagged && (
+              <p className="text-xs text-gray-500">{results.untagged} other matching responses came through no link</p>
+            )}
+          </div>
+        </div>
+        <select
+          value={groupBy}
+          onChange={(e) => setGroupBy(e.target.value as ScorecardGrouping)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        >
+          <option value="trainer">By trainer</option>
+          <option value="cohort">By cohort</option>
+        </select>
+      </div>
+
+      {results && results.groups.length === 0 ? (
+        <p className="text-center text-gray-500 py-12">No feedback has come through a feedback link yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {results?.groups.map(card => (
+            <ScorecardCard key={card.key} card={card} onSelect={() => onFilter({ [groupBy]: card.key })} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Pencil, Check, X, Trash2, Tag as TagIcon } from 'lucide-react';
+import { api } from '../lib/api';
+import { TAG_COLORS, tagStyle } from '../lib/tags';
+import type { Tag } from '../lib/types';
+
+interface TagManagerProps {
+  onChange: () => void;
+}
+
+export default function TagManager({ onChange }: TagManagerProps) {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [newTag, setNewTag] = useState({ name: '', color: TAG_COLORS[0] });
+  const [editing, setEditing] = useState<{ id: string; name: string; color: string } | null>(null);
+
+  useEffect(() => {
+    fetchTags();
+  }, []);
+
+  const fetchTags = async () => {
+    try {
+      setTags(await api.admin.tags.list());
+    } catch (e) {
+      console.error('Error fetching tags:', e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Run a mutation, then resync local state and let the dashboard refresh its own copy
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await fetchTags();
+      onChange();
+      return true;
+    } catch (e) {
+      console.error('Tag update error:', e);
+      setError(e instanceof Error ? e.message : 'Tag update failed');
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTag.name.trim()) return;
+    if (await run(() => api.admin.tags.create(newTag))) {
+      setNewTag({ name: '', color: TAG_COLORS[(tags.length + 1) % TAG_COLORS.length] });
+    }
+  };
+
+  const saveEdit = async () => {
+    if (!editing || !editing.name.trim()) return;
+    if (await run(() => api.admin.tags.update(editing.id, { name: editing.name, color: editing.color }))) {
+      setEditing(null);
+    }
+  };
+
+  const remove = (tag: Tag) => {
+    const used = tag.count ? ` It will be taken off ${tag.count} feedback item(s).` : '';
+    if (!confirm(`Delete tag "${tag.name}"?${used}`)) return;
+    run(() => api.admin.tags.remove(tag.id));
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <TagIcon className="w-5 h-5 mr-2" />
+          Tags ({tags.length})
+        </h2>
+        <p className="text-sm text-gray-500">Tags mark themes that cut across categories. Add them to feedback from the Feedback tab; a new name typed there creates the tag.</p>
+      </div>
+
+      <form onSubmit={handleCreate} className="px-6 py-4 border-b border-gray-200 flex items-center gap-3">
+        <input
+          type="color"
+          value={newTag.color}
+          onChange={(e) => setNewTag({ ...newTag, color: e.target.value })}
+          className="h-9 w-12 border border-gray-300 rounded-lg"
+          title="Colour"
+        />
+        <input
+          type="text"
+          value={newTag.name}
+          onChange={(e) => setNewTag({ ...newTag, name: e.target.value })}
+          placeholder="Name, e.g. Lab equipment"
+          maxLength={40}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          required
+        />
+        <button type="submit" className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center gap-1">
+          <Plus className="w-4 h-4" /> Add Tag
+        </button>
+      </form>
+
+      {error && (
+        <div className="mx-6 mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : tags.length === 0 ? (
+        <p className="px-6 py-8 text-sm text-gray-500 text-center">No tags yet.</p>
+      ) : (
+        <div className="divide-y divide-gray-200">
+          {tags.map(tag => (
+            <div key={tag.id} className="px-6 py-3 flex items-center justify-between gap-4">
+              {editing?.id === tag.id ? (
+                <div className="flex items-center gap-2 flex-1">
+                  <input
+                    type="color"
+                    value={editing.color}
+                    onChange={(e) => setEditing({ ...editing, color: e.target.value })}
+                    className="h-8 w-10 border border-gray-300 rounded"
+                    title="Colour"
+                  />
+                  <input
+                    type="text"
+                    value={editing.name}
+                    onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                    maxLength={40}
+                    className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                  />
+                </div>
+              ) : (
+                <div className="flex items-center gap-3 flex-1">
+                  <span className="text-xs px-2 py-0.5 rounded-full font-medium" style={tagStyle(tag.color)}>{tag.name}</span>
+                  <span className="text-sm text-gray-500">{tag.count ?? 0} item{tag.count === 1 ? '' : 's'}</span>
+                </div>
+              )}
+              <div className="flex items-center gap-1">
+                {editing?.id === tag.id ? (
+                  <>
+                    <button onClick={saveEdit} className="p-2 text-green-600 hover:text-green-800" title="Save">
+                      <Check className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => setEditing(null)} className="p-2 text-gray-500 hover:text-gray-800" title="Cancel">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      onClick={() => setEditing({ id: tag.id, name: tag.name, color: tag.color })}
+                      className="p-2 text-gray-500 hover:text-gray-800"
+                      title="Edit"
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => remove(tag)} className="p-2 text-red-600 hover:text-red-800" title="Delete">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { X, Plus } from 'lucide-react';
+import { api } from '../lib/api';
+import { suggestTags, tagStyle } from '../lib/tags';
+import type { Feedback, Tag } from '../lib/types';
+
+interface TagPickerProps {
+  item: Feedback;
+  tags: Tag[];
+  canEdit: boolean;
+  onChange: (updated: Feedback) => void;
+  // A tag was created by typing a new name
+  onTagCreated: (tag: Tag) => void;
+}
+
+// The tags on one feedback item as chips; moderators can remove them or add one by typing,
+// picking from suggestions or creating a tag with a new name
+export default function TagPicker({ item, tags, canEdit, onChange, onTagCreated }: TagPickerProps) {
+  const ids = item.tags || [];
+  const [adding, setAdding] = useState(false);
+  const [query, setQuery] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const suggestions = suggestTags(tags, query, ids).slice(0, 6);
+  const exact = tags.find(t => t.name.toLowerCase() === query.trim().toLowerCase());
+
+  const save = async (next: string[]) => {
+    setError('');
+    setSaving(true);
+    try {
+      onChange(await api.admin.feedback.update(item.feedback_id, { tags: next }));
+      return true;
+    } catch (e) {
+      console.error('Tag error:', e);
+      setError(e instanceof Error ? e.message : 'Saving the tags failed');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const add = async (tag: Tag) => {
+    if (await save([...ids, tag.id])) {
+      setQuery('');
+      setAdding(false);
+    }
+  };
+
+  const createAndAdd = async () => {
+    setError('');
+    try {
+      const tag = await api.admin.tags.create({ name: query });
+      onTagCreated(tag);
+      await add(tag);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Creating the tag failed');
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      setQuery('');
+      setAdding(false);
+    }
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    if (!query.trim() || saving) return;
+    if (exact) {
+      if (!ids.includes(exact.id)) add(exact);
+    } else if (suggestions.length > 0) {
+      add(suggestions[0]);
+    } else {
+      createAndAdd();
+    }
+  };
+
+  const shown = ids.map(id => tags.find(t => t.id === id)).filter((t): t is Tag => !!t);
+  if (!canEdit && shown.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {shown.map(tag => (
+        <span key={tag.id} className="inline-flex items-center text-xs px-2 py-0.5 rounded-full font-medium" style={tagStyle(tag.color)}>
+          {tag.name}
+          {canEdit && (
+            <button
+              type="button"
+              onClick={() => save(ids.filter(id => id !== tag.id))}
+              disabled={saving}
+              className="ml-1 opacity-60 hover:opacity-100"
+              title={`Remove "${tag.name}"`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </span>
+      ))}
+      {canEdit && (adding ? (
+        <div className="relative">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={() => !query && setAdding(false)}
+            placeholder="Tag name..."
+            maxLength={40}
+            autoFocus
+            className="w-40 px-2 py-0.5 text-xs border border-gray-300 rounded-full focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          {query.trim() && (
+            <ul className="absolute z-10 left-0 mt-1 w-48 bg-white border border-gray-200 rounded-lg shadow-lg text-sm">
+              {suggestions.map(tag => (
+                <li key={tag.id}>
+                  <button
+                    type="button"
+                    // Keep focus in the input
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => add(tag)}
+                    className="w-full text-left px-3 py-1.5 hover:bg-blue-50 flex items-center gap-2"
+                  >
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                    {tag.name}
+                  </button>
+                </li>
+              ))}
+              {!exact && (
+                <li>
+                  <button
+                    type="button"
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={createAndAdd}
+                    className="w-full text-left px-3 py-1.5 hover:bg-blue-50 text-blue-700"
+                  >
+                    Create "{query.trim()}"
+                  </button>
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setAdding(true)}
+          className="inline-flex items-center text-xs px-2 py-0.5 rounded-full border border-dashed border-gray-300 text-gray-500 hover:text-gray-800"
+        >
+          <Plus className="w-3 h-3 mr-0.5" /> Tag
+        </button>
+      ))}
+      {error && <span className="text-xs text-red-600">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { api } from '../lib/api';
+import type { StopWordLanguage, TextAnalysisSettings } from '../lib/types';
+
+const LANGUAGES: Array<{ id: StopWordLanguage; label: string }> = [
+  { id: 'en', label: 'English' },
+  { id: 'ta', label: 'Tamil' }
+];
+
+interface TextSettingsDialogProps {
+  settings: TextAnalysisSettings;
+  onSaved: (settings: TextAnalysisSettings) => void;
+  onClose: () => void;
+}
+
+const toLines = (list: string[]) => list.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+export default function TextSettingsDialog({ settings, onSaved, onClose }: TextSettingsDialogProps) {
+  const [languages, setLanguages] = useState<StopWordLanguage[]>(settings.languages);
+  const [stopWords, setStopWords] = useState(toLines(settings.stopWords));
+  const [ignore, setIgnore] = useState(toLines(settings.ignore));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const toggleLanguage = (id: StopWordLanguage) =>
+    setLanguages(prev => (prev.includes(id) ? prev.filter(l => l !== id) : [...prev, id]));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+    try {
+      onSaved(await api.admin.textSettings.update({ languages, stopWords: fromLines(stopWords), ignore: fromLines(ignore) }));
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Saving settings failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl p-6 w-full max-w-md">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <SlidersHorizontal className="w-5 h-5 mr-2" />
+            Keyword Settings
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Built-in stop words</p>
+            <div className="flex gap-4">
+              {LANGUAGES.map(language => (
+                <label key={language.id} className="flex items-center gap-2 text-sm text-gray-800">
+                  <input
+                    type="checkbox"
+                    checked={languages.includes(language.id)}
+                    onChange={() => toggleLanguage(language.id)}
+                    className="rounded border-gray-300"
+                  />
+                  {language.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Extra stop words <span className="font-normal text-gray-500">(one per line; phrases break at them)</span>
+            </label>
+            <textarea
+              value={stopWords}
+              onChange={(e) => setStopWords(e.target.value)}
+              rows={4}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Ignored words and phrases <span className="font-normal text-gray-500">(one per line)</span>
+            </label>
+            <textarea
+              value={ignore}
+              onChange={(e) => setIgnore(e.target.value)}
+              rows={6}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-sm"
+            />
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
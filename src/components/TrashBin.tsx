@@ -0,0 +1,172 @@
+import { useState, useEffect } from 'react';
+import { Trash, ArchiveRestore, Trash2, Calendar } from 'lucide-react';
+import { api } from '../lib/api';
+import type { Category, TrashedFeedback } from '../lib/types';
+
+interface TrashBinProps {
+  categories: Category[];
+  // Called after a restore so the feedback list and analytics can refresh
+  onChange: () => void;
+}
+
+export default function TrashBin({ categories, onChange }: TrashBinProps) {
+  const [items, setItems] = useState<TrashedFeedback[]>([]);
+  const [retentionDays, setRetentionDays] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  const fetchTrash = async () => {
+    try {
+      const trash = await api.admin.trash.list();
+      setItems(trash.items);
+      setRetentionDays(trash.retentionDays);
+      // Drop selections for entries that are no longer in the trash
+      setSelected(prev => new Set(trash.items.map(f => f.feedback_id).filter(id => prev.has(id))));
+    } catch (e) {
+      console.error('Error fetching trash:', e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      onChange();
+    } catch (e) {
+      console.error('Trash update error:', e);
+      setError(e instanceof Error ? e.message : 'Trash update failed');
+    } finally {
+      await fetchTrash();
+    }
+  };
+
+  const toggleSelect = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const restore = (ids: string[]) => run(() => api.admin.trash.restore(ids));
+
+  const purge = (ids: string[]) => {
+    if (!confirm(`Permanently delete ${ids.length} feedback item(s)? This cannot be undone.`)) return;
+    run(() => api.admin.trash.purge(ids));
+  };
+
+  const categoryName = (id: string) => categories.find(c => c.id === id)?.name || id;
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' });
+
+  const selectedIds = Array.from(selected);
+
+  return (
+    <div className="space-y-6">
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between gap-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+              <Trash className="w-5 h-5 mr-2" />
+              Trash ({items.length})
+            </h2>
+            <p className="text-xs text-gray-500 mt-1">
+              {retentionDays > 0
+                ? `Items are permanently deleted ${retentionDays} days after being moved to the trash.`
+                : 'Items stay in the trash until they are deleted by hand.'}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              type="button"
+              onClick={() => setSelected(new Set(items.map(f => f.feedback_id)))}
+              className="px-3 py-1 text-xs border rounded"
+            >
+              Select All
+            </button>
+            <button type="button" onClick={() => setSelected(new Set())} className="px-3 py-1 text-xs border rounded">Clear</button>
+            <button
+              type="button"
+              onClick={() => restore(selectedIds)}
+              disabled={selected.size === 0}
+              className="px-3 py-1 text-xs border border-blue-300 text-blue-600 rounded flex items-center gap-1 disabled:opacity-50"
+            >
+              <ArchiveRestore className="w-3 h-3" /> Restore ({selected.size})
+            </button>
+            <button
+              type="button"
+              onClick={() => purge(selectedIds)}
+              disabled={selected.size === 0}
+              className="px-3 py-1 text-xs border border-red-300 text-red-600 rounded flex items-center gap-1 disabled:opacity-50"
+            >
+              <Trash2 className="w-3 h-3" /> Delete Forever ({selected.size})
+            </button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-12">
+            <Trash className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-500">The trash is empty.</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {items.map(item => (
+              <div key={item.feedback_id} className="p-6 hover:bg-gray-50">
+                <div className="flex items-start justify-between mb-3">
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(item.feedback_id)}
+                      onChange={() => toggleSelect(item.feedback_id)}
+                      className="rounded border-gray-300"
+                    />
+                    <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                      {categoryName(item.category)}
+                    </span>
+                    <span className="text-xs text-gray-500">{item.rating}/5</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-gray-500 flex items-center">
+                      <Calendar className="w-4 h-4 mr-1" />
+                      {formatDate(item.timestamp)}
+                    </span>
+                    <button onClick={() => restore([item.feedback_id])} className="text-blue-600 hover:text-blue-800 p-2" title="Restore">
+                      <ArchiveRestore className="w-4 h-4" />
+                    </button>
+                    <button onClick={() => purge([item.feedback_id])} className="text-red-600 hover:text-red-800 p-2" title="Delete forever">
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+                <p className="text-gray-800 text-sm leading-relaxed">{item.comment}</p>
+                <p className="text-xs text-gray-500 mt-2">
+                  Moved to trash {formatDate(item.deleted_at)}
+                  {item.purge_at && ` · permanently deleted on ${formatDate(item.purge_at)}`}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+// Small dependency-free SVG chart for the analytics time series. `line` draws each series
+// as a line (null values leave a gap); `stacked` draws one stacked bar per period.
+export interface TrendSeries {
+  label: string;
+  color: string;
+  values: Array<number | null>;
+}
+
+interface TrendChartProps {
+  periods: string[];
+  series: TrendSeries[];
+  variant?: 'line' | 'stacked';
+  // Fixed top of the y axis (e.g. 5 for ratings); otherwise derived from the data
+  yMax?: number;
+  formatValue?: (value: number) => string;
+}
+
+const WIDTH = 640;
+const HEIGHT = 220;
+const PAD = { top: 12, right: 12, bottom: 28, left: 40 };
+const MAX_X_LABELS = 8;
+
+// Round up to a 1/2/5 x 10^n step so gridlines land on readable numbers
+const niceMax = (value: number) => {
+  if (value <= 0) return 1;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)));
+  const step = [1, 2, 5, 10].find(s => s * magnitude >= value) ?? 10;
+  return step * magnitude;
+};
+
+const formatPeriod = (period: string) =>
+  new Date(`${period}T00:00:00Z`).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+export default function TrendChart({ periods, series, variant = 'line', yMax, formatValue = String }: TrendChartProps) {
+  if (periods.length === 0) {
+    return <p className="text-sm text-gray-500 py-8 text-center">No data for the selected filters.</p>;
+  }
+
+  const totals = periods.map((_, i) => series.reduce((sum, s) => sum + (s.values[i] ?? 0), 0));
+  const dataMax = variant === 'stacked'
+    ? Math.max(0, ...totals)
+    : Math.max(0, ...series.flatMap(s => s.values.filter((v): v is number => v !== null)));
+  const top = yMax ?? niceMax(dataMax);
+
+  const plotWidth = WIDTH - PAD.left - PAD.right;
+  const plotHeight = HEIGHT - PAD.top - PAD.bottom;
+  const slot = plotWidth / periods.length;
+  const x = (i: number) => PAD.left + slot * (i + 0.5);
+  const y = (value: number) => PAD.top + plotHeight - (value / top) * plotHeight;
+  const labelEvery = Math.ceil(periods.length / MAX_X_LABELS);
+  const gridlines = [0, 0.25, 0.5, 0.75, 1].map(f => f * top);
+
+  // Consecutive non-null values form one path segment
+  const linePath = (values: Array<number | null>) => {
+    let d = '';
+    let drawing = false;
+    values.forEach((value, i) => {
+      if (value === null) {
+        drawing = false;
+        return;
+      }
+      d += `${drawing ? 'L' : 'M'}${x(i).toFixed(1)},${y(value).toFixed(1)}`;
+      drawing = true;
+    });
+    return d;
+  };
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+        {gridlines.map(value => (
+          <g key={value}>
+            <line x1={PAD.left} x2={WIDTH - PAD.right} y1={y(value)} y2={y(value)} stroke="#e5e7eb" />
+            <text x={PAD.left - 6} y={y(value) + 4} textAnchor="end" fontSize="10" fill="#6b7280">
+              {formatValue(Math.round(value * 100) / 100)}
+            </text>
+          </g>
+        ))}
+
+        {periods.map((period, i) => i % labelEvery === 0 && (
+          <text key={period} x={x(i)} y={HEIGHT - 8} textAnchor="middle" fontSize="10" fill="#6b7280">
+            {formatPeriod(period)}
+          </text>
+        ))}
+
+        {variant === 'stacked' && periods.map((period, i) => {
+          const barWidth = Math.max(1, slot * 0.7);
+          let base = 0;
+          return (
+            <g key={period}>
+              <title>{`${formatPeriod(period)}: ${totals[i]}`}</title>
+              {series.map(s => {
+                const value = s.values[i] ?? 0;
+                if (value === 0) return null;
+                const rect = (
+                  <rect
+                    key={s.label}
+                    x={x(i) - barWidth / 2}
+                    y={y(base + value)}
+                    width={barWidth}
+                    height={y(base) - y(base + value)}
+                    fill={s.color}
+                  >
+                    <title>{`${formatPeriod(period)} · ${s.label}: ${value}`}</title>
+                  </rect>
+                );
+                base += value;
+                return rect;
+              })}
+            </g>
+          );
+        })}
+
+        {variant === 'line' && series.map(s => (
+          <g key={s.label}>
+            <path d={linePath(s.values)} fill="none" stroke={s.color} strokeWidth="2" strokeLinejoin="round" />
+            {s.values.map((value, i) => value !== null && (
+              <circle key={periods[i]} cx={x(i)} cy={y(value)} r={periods.length > 60 ? 1.5 : 3} fill={s.color}>
+                <title>{`${formatPeriod(periods[i])} · ${s.label}: ${formatValue(value)}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+
+      {series.length > 1 && (
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2">
+          {series.map(s => (
+            <span key={s.label} className="flex items-center text-xs text-gray-600">
+              <span className="w-3 h-3 rounded-sm mr-1.5" style={{ backgroundColor: s.color }} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import { UserPlus, KeyRound, Trash2 } from 'lucide-react';
+import { api } from '../lib/api';
+import { ROLES, ROLE_LABELS } from '../lib/roles';
+import type { AdminUser, Role } from '../lib/types';
+
+interface UserManagerProps {
+  currentUser: AdminUser;
+}
+
+export default function UserManager({ currentUser }: UserManagerProps) {
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [newUser, setNewUser] = useState<{ username: string; password: string; role: Role }>({
+    username: '',
+    password: '',
+    role: 'viewer'
+  });
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  const fetchUsers = async () => {
+    try {
+      setUsers(await api.admin.users.list());
+    } catch (e) {
+      console.error('Error fetching users:', e);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await fetchUsers();
+      return true;
+    } catch (e) {
+      console.error('User update error:', e);
+      setError(e instanceof Error ? e.message : 'User update failed');
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await run(() => api.admin.users.create(newUser))) {
+      setNewUser({ username: '', password: '', role: 'viewer' });
+    }
+  };
+
+  const changeRole = (user: AdminUser, role: Role) => run(() => api.admin.users.update(user.id, { role }));
+
+  const resetPassword = (user: AdminUser) => {
+    const password = prompt(`New password for ${user.username} (at least 8 characters):`);
+    if (!password) return;
+    run(() => api.admin.users.update(user.id, { password }));
+  };
+
+  const remove = (user: AdminUser) => {
+    if (!confirm(`Remove admin account "${user.username}"?`)) return;
+    run(() => api.admin.users.remove(user.id));
+  };
+
+  const formatDate = (dateString: string | null) =>
+    dateString
+      ? new Date(dateString).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric' })
+      : 'Never';
+
+  return (
+    <div className="space-y-6">
+      {/* Create */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <UserPlus className="w-5 h-5 mr-2" />
+          Add Admin
+        </h2>
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <input
+            type="text"
+            value={newUser.username}
+            onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+            placeholder="Username"
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+          <input
+            type="password"
+            value={newUser.password}
+            onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+            placeholder="Initial password (min 8 characters)"
+            minLength={8}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            required
+          />
+          <select
+            value={newUser.role}
+            onChange={(e) => setNewUser({ ...newUser, role: e.target.value as Role })}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {ROLES.map(role => (
+              <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+          <button type="submit" className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700">
+            Add Admin
+          </button>
+        </form>
+      </div>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {/* List */}
+      <div className="bg-white rounded-lg shadow-sm">
+        <div className="px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Admins ({users.length})</h2>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200">
+            {users.map(user => (
+              <div key={user.id} className="p-4 flex items-center justify-between gap-4">
+                <div>
+                  <p className="font-medium text-gray-900">
+                    {user.username}
+                    {user.id === currentUser.id && <span className="ml-2 text-xs text-gray-500">(you)</span>}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    Added {formatDate(user.created_at)} · Last login {formatDate(user.last_login)}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={user.role}
+                    onChange={(e) => changeRole(user, e.target.value as Role)}
+                    className="px-3 py-1 border border-gray-300 rounded-lg text-sm capitalize"
+                  >
+                    {ROLES.map(role => (
+                      <option key={role} value={role}>{role}</option>
+                    ))}
+                  </select>
+                  <button onClick={() => resetPassword(user)} className="p-2 text-gray-500 hover:text-gray-800" title="Reset password">
+                    <KeyRound className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => remove(user)}
+                    disabled={user.id === currentUser.id}
+                    className="p-2 text-red-600 hover:text-red-800 disabled:opacity-30"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
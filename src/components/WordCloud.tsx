@@ -0,0 +1,35 @@
+import type { RankedPhrase } from '../lib/types';
+
+interface WordCloudProps {
+  phrases: RankedPhrase[];
+  onSelect: (phrase: string) => void;
+}
+
+const COLORS = ['text-blue-700', 'text-violet-700', 'text-teal-700', 'text-amber-700', 'text-rose-700', 'text-slate-700'];
+const MIN_SIZE_REM = 0.8;
+const MAX_SIZE_REM = 2.25;
+
+// Phrases sized by score (square root, so the top few don't dwarf the rest) and laid out
+// alphabetically so the large ones are scattered rather than bunched at the start
+export default function WordCloud({ phrases, onSelect }: WordCloudProps) {
+  if (phrases.length === 0) {
+    return <p className="text-sm text-gray-500 py-8 text-center">No keywords for the selected filters.</p>;
+  }
+  const max = Math.sqrt(Math.max(...phrases.map(p => p.score)));
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2 py-4">
+      {[...phrases].sort((a, b) => a.phrase.localeCompare(b.phrase)).map(p => (
+        <button
+          key={p.key}
+          onClick={() => onSelect(p.phrase)}
+          title={`${p.count} mentions in ${p.comments} comments`}
+          className={`leading-tight hover:underline ${COLORS[p.phrase.length % COLORS.length]}`}
+          style={{ fontSize: `${MIN_SIZE_REM + (MAX_SIZE_REM - MIN_SIZE_REM) * (max > 0 ? Math.sqrt(p.score) / max : 0)}rem` }}
+        >
+          {p.phrase}
+        </button>
+      ))}
+    </div>
+  );
+}
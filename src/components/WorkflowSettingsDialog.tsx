@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { Workflow, X, Plus, ArrowUp, ArrowDown, Trash2 } from 'lucide-react';
+import { api } from '../lib/api';
+import type { WorkflowSettings, WorkflowState } from '../lib/types';
+
+// Mirrors MAX_STATES in server/workflow.js
+const MAX_STATES = 12;
+
+interface WorkflowSettingsDialogProps {
+  settings: WorkflowSettings;
+  onSaved: (settings: WorkflowSettings) => void;
+  onClose: () => void;
+}
+
+// A state being edited; `saved` states keep their id, since feedback refers to it
+type DraftState = WorkflowState & { saved: boolean };
+
+// "Needs info" -> "needs_info", as the id of a new state
+const idFor = (label: string) =>
+  label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '').slice(0, 30);
+
+// The states feedback moves through, which of them count as resolved and which moves are allowed
+export default function WorkflowSettingsDialog({ settings, onSaved, onClose }: WorkflowSettingsDialogProps) {
+  const [states, setStates] = useState<DraftState[]>(settings.states.map(s => ({ ...s, saved: true })));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const change = (index: number, changes: Partial<DraftState>) =>
+    setStates(prev => prev.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+
+  const rename = (index: number, label: string) =>
+    change(index, states[index].saved ? { label } : { label, id: idFor(label) });
+
+  const toggleNext = (index: number, id: string) => {
+    const { next } = states[index];
+    change(index, { next: next.includes(id) ? next.filter(n => n !== id) : [...next, id] });
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= states.length) return;
+    setStates(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  // Removing a state also removes the moves into it
+  const remove = (index: number) => {
+    const { id } = states[index];
+    setStates(prev => prev.filter((_, i) => i !== index).map(s => ({ ...s, next: s.next.filter(n => n !== id) })));
+  };
+
+  const add = () => setStates(prev => [...prev, { id: '', label: '', closed: false, next: [], saved: false }]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+    try {
+      onSaved(await api.admin.workflow.update({ states: states.map(({ id, label, closed, next }) => ({ id, label, closed, next })) }));
+      onClose();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Saving the workflow failed');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-2xl shadow-xl p-6 w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Workflow className="w-5 h-5 mr-2" />
+            Feedback Workflow
+          </h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          New feedback starts in the first state. Closed states count as resolved and stop the SLA clock.
+          Removing a state leaves its feedback where it is until someone moves it.
+        </p>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {states.map((state, index) => (
+              <div key={index} className="p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <div className="flex flex-col">
+                    <button type="button" onClick={() => move(index, -1)} disabled={index === 0} className="p-0.5 text-gray-500 hover:text-gray-900 disabled:opacity-30" title="Move up">
+                      <ArrowUp className="w-3 h-3" />
+                    </button>
+                    <button type="button" onClick={() => move(index, 1)} disabled={index === states.length - 1} className="p-0.5 text-gray-500 hover:text-gray-900 disabled:opacity-30" title="Move down">
+                      <ArrowDown className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <input
+                    type="text"
+                    value={state.label}
+                    onChange={(e) => rename(index, e.target.value)}
+                    placeholder="Label, e.g. Needs info"
+                    maxLength={40}
+                    className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <code className="text-xs text-gray-500 w-28 truncate" title="Id, fixed once saved">{state.id || 'id'}</code>
+                  <label className="flex items-center gap-1 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={state.closed}
+                      onChange={(e) => change(index, { closed: e.target.checked })}
+                      className="rounded border-gray-300"
+                    />
+                    Closed
+                  </label>
+                  <button type="button" onClick={() => remove(index)} disabled={states.length <= 2} className="p-1 text-red-600 hover:text-red-800 disabled:opacity-30" title="Remove">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="ml-6 flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600">
+                  <span>Can move to:</span>
+                  {states.filter((other, i) => i !== index && other.id).map(other => (
+                    <label key={other.id} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={state.next.includes(other.id)}
+                        onChange={() => toggleNext(index, other.id)}
+                        className="rounded border-gray-300"
+                      />
+                      {other.label || other.id}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {states.length < MAX_STATES && (
+            <button type="button" onClick={add} className="px-3 py-1 text-xs border rounded flex items-center gap-1">
+              <Plus className="w-3 h-3" /> Add State
+            </button>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,3 +1,424 @@
+import type {
+  AbuseSettings,
+  AdminUser,
+  AdminUserUpdate,
+  Analytics,
+  ApproveResult,
+  AuditFilters,
+  AuditPage,
+  AuthStatus,
+  BoardChangeResult,
+  BoardQueue,
+  BoardSection,
+  BulkSelection,
+  BulkUpdate,
+  BulkUpdateResult,
+  Category,
+  CategoryInput,
+  CollectionLink,
+  Comparison,
+  ComparisonSide,
+  DeleteResult,
+  ExportOptions,
+  Feedback,
+  FeedbackChallenge,
+  FeedbackFilters,
+  FeedbackPage,
+  FeedbackPageRequest,
+  FeedbackUpdate,
+  FeedbackForm,
+  FormInput,
+  FormSummary,
+  KeywordAnalysis,
+  KeywordGrouping,
+  LinkInput,
+  LoginCredentials,
+  LoginResponse,
+  MentionableUser,
+  MergeResult,
+  ModerationQueue,
+  NewAdminUser,
+  NewFeedback,
+  PasswordChange,
+  PublicLink,
+  PublishedForm,
+  PurgeResult,
+  QuestionAnalytics,
+  ReceiptStatus,
+  RedactionCheck,
+  RedactionPreview,
+  RedactionSettings,
+  RejectResult,
+  ReportOptions,
+  RestoreResult,
+  ScorecardGrouping,
+  Scorecards,
+  SubmitFeedbackResponse,
+  Tag,
+  TagInput,
+  TextAnalysisSettings,
+  TimeSeriesBucket,
+  TrashContents,
+  WorkflowSettings
+} from './types';
+
 // Central API base URL for both dev and prod
 // Use VITE_API_BASE env var in production (e.g., https://your-api.onrender.com)
-export const API_BASE = import.meta.env.VITE_API_BASE || 'http://localhost:3001';
\ No newline at end of file
+export const API_BASE = import.meta.env.VITE_API_BASE || 'http://localhost:3001';
+
+// Error thrown for any non-2xx response; message comes from the server's `error` field when present
+export class ApiError extends Error {
+  status: number;
+  data: unknown;
+
+  constructor(status: number, message: string, data?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+// Called whenever an admin request comes back 401 (expired or missing session)
+let unauthorizedHandler: () => void = () => {
+  if (window.location.pathname !== '/admin/login') {
+    window.location.assign('/admin/login');
+  }
+};
+
+export const setUnauthorizedHandler = (handler: () => void) => {
+  unauthorizedHandler = handler;
+};
+
+type Query = Record<string, string | number | undefined>;
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+  query?: Query;
+  // Set to false for requests where a 401 is an expected answer (e.g. bad login)
+  redirectOnUnauthorized?: boolean;
+}
+
+const buildQuery = (query?: Query) => {
+  const params = new URLSearchParams();
+  if (query) {
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== '') params.append(key, String(value));
+    }
+  }
+  const qs = params.toString();
+  return qs ? `?${qs}` : '';
+};
+
+async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const { method = 'GET', body, query, redirectOnUnauthorized = true } = options;
+
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}${path}${buildQuery(query)}`, {
+      method,
+      headers: body !== undefined ? { 'Content-Type': 'application/json' } : undefined,
+      credentials: 'include',
+      body: body !== undefined ? JSON.stringify(body) : undefined
+    });
+  } catch {
+    throw new ApiError(0, 'Unable to reach the server');
+  }
+
+  const data = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    if (response.status === 401 && redirectOnUnauthorized) {
+      unauthorizedHandler();
+    }
+    const message = data && typeof data === 'object' && 'error' in data
+      ? String((data as { error: unknown }).error)
+      : `Request failed with status ${response.status}`;
+    throw new ApiError(response.status, message, data);
+  }
+
+  return data as T;
+}
+
+// Turn dashboard filter state into query params, dropping "all" and empty values
+export const filterQuery = (filters: object): Query => {
+  const query: Query = {};
+  for (const [key, value] of Object.entries(filters)) {
+    if (value && value !== 'all') query[key] = value;
+  }
+  return query;
+};
+
+// Prefixed overrides for one side of an analytics comparison
+const sideQuery = (prefix: 'a' | 'b', side: ComparisonSide): Query => ({
+  [`${prefix}.startDate`]: side.startDate,
+  [`${prefix}.endDate`]: side.endDate,
+  [`${prefix}.categories`]: side.categories.join(',')
+});
+
+export const api = {
+  feedback: {
+    // Fetch when the form opens; each token can be submitted once
+    challenge: () => request<FeedbackChallenge>('/api/feedback/challenge'),
+    // What would be masked from a comment; nothing is stored
+    checkRedaction: (comment: string) =>
+      request<RedactionCheck>('/api/feedback/redaction', { method: 'POST', body: { comment } }),
+    submit: (payload: NewFeedback) =>
+      request<SubmitFeedbackResponse>('/api/feedback', { method: 'POST', body: payload }),
+    // Status, public response and follow-ups of the feedback a receipt code was issued for
+    checkReceipt: (code: string) =>
+      request<ReceiptStatus>('/api/feedback/receipt', { method: 'POST', body: { code } }),
+    addFollowUp: (code: string, message: string) =>
+      request<ReceiptStatus>('/api/feedback/receipt/follow-ups', { method: 'POST', body: { code, message } })
+  },
+
+  categories: {
+    list: () => request<Category[]>('/api/categories')
+  },
+
+  forms: {
+    // The form the feedback page asks
+    active: () => request<PublishedForm>('/api/forms/active')
+  },
+
+  // Published items of the "You said, we did" board, grouped by category
+  board: {
+    list: () => request<BoardSection[]>('/api/board')
+  },
+
+  links: {
+    // The cohort, trainer and session behind a /f/:code page, and whether it takes feedback
+    get: (code: string) => request<PublicLink>(`/api/links/${encodeURIComponent(code)}`)
+  },
+
+  auth: {
+    check: () => request<AuthStatus>('/api/admin/check', { redirectOnUnauthorized: false }),
+    login: (credentials: LoginCredentials) =>
+      request<LoginResponse>('/api/admin/login', {
+        method: 'POST',
+        body: credentials,
+        redirectOnUnauthorized: false
+      }),
+    logout: () => request<{ message: string }>('/api/admin/logout', { method: 'POST' }),
+    // Only succeeds while no admin account exists yet
+    setup: (credentials: LoginCredentials) =>
+      request<LoginResponse>('/api/admin/setup', { method: 'POST', body: credentials }),
+    changePassword: (change: PasswordChange) =>
+      request<{ success: boolean }>('/api/admin/me/password', { method: 'POST', body: change })
+  },
+
+  admin: {
+    feedback: {
+      // One page of matching feedback; pass the returned nextCursor to get the next one
+      list: (filters: Partial<FeedbackFilters> = {}, page: FeedbackPageRequest = {}) =>
+        request<FeedbackPage>('/api/admin/feedback', {
+          query: { ...filterQuery(filters), ...page, cursor: page.cursor ?? undefined }
+        }),
+      get: (id: string) => request<Feedback>(`/api/admin/feedback/${encodeURIComponent(id)}`),
+      update: (id: string, changes: FeedbackUpdate) =>
+        request<Feedback>(`/api/admin/feedback/${encodeURIComponent(id)}`, { method: 'PUT', body: changes }),
+      remove: (id: string) =>
+        request<DeleteResult>(`/api/admin/feedback/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+      // Put forward for the public board with `comment` as the text to show; waits for review
+      publish: (id: string, comment?: string) =>
+        request<Feedback>(`/api/admin/feedback/${encodeURIComponent(id)}/publish`, { method: 'POST', body: { comment } }),
+      // Internal discussion; only the author can edit or delete a note
+      addNote: (id: string, text: string) =>
+        request<Feedback>(`/api/admin/feedback/${encodeURIComponent(id)}/notes`, { method: 'POST', body: { text } }),
+      editNote: (id: string, noteId: string, text: string) =>
+        request<Feedback>(`/api/admin/feedback/${encodeURIComponent(id)}/notes/${encodeURIComponent(noteId)}`, {
+          method: 'PUT',
+          body: { text }
+        }),
+      removeNote: (id: string, noteId: string) =>
+        request<Feedback>(`/api/admin/feedback/${encodeURIComponent(id)}/notes/${encodeURIComponent(noteId)}`, {
+          method: 'DELETE'
+        }),
+      // Moves to the trash
+      bulkDelete: (selection: BulkSelection) =>
+        request<DeleteResult>('/api/admin/feedback/bulk-delete', {
+          method: 'POST',
+          body: 'ids' in selection ? selection : { filter: filterQuery(selection.filter) }
+        }),
+      // Items the changes don't apply to are left as they are and reported in `results`
+      bulkUpdate: (selection: BulkSelection, changes: BulkUpdate) =>
+        request<BulkUpdateResult>('/api/admin/feedback/bulk-update', {
+          method: 'POST',
+          body: { ...('ids' in selection ? selection : { filter: filterQuery(selection.filter) }), changes }
+        })
+    },
+
+    categories: {
+      list: () => request<Category[]>('/api/admin/categories'),
+      create: (input: CategoryInput) =>
+        request<Category>('/api/admin/categories', { method: 'POST', body: input }),
+      update: (id: string, input: Partial<CategoryInput>) =>
+        request<Category>(`/api/admin/categories/${encodeURIComponent(id)}`, { method: 'PUT', body: input }),
+      remove: (id: string) =>
+        request<{ success: boolean }>(`/api/admin/categories/${encodeURIComponent(id)}`, { method: 'DELETE' }),
+      reorder: (ids: string[]) =>
+        request<Category[]>('/api/admin/categories/reorder', { method: 'POST', body: { ids } }),
+      merge: (id: string, targetId: string) =>
+        request<MergeResult>(`/api/admin/categories/${encodeURIComponent(id)}/merge`, {
+          method: 'POST',
+          body: { targetId }
+        })
+    },
+
+    tags: {
+      list: () => request<Tag[]>('/api/admin/tags'),
+      create: (input: TagInput) => request<Tag>('/api/admin/tags', { method: 'POST', body: input }),
+      update: (id: string, input: Partial<TagInput>) =>
+        request<Tag>(`/api/admin/tags/${encodeURIComponent(id)}`, { method: 'PUT', body: input }),
+      remove: (id: string) =>
+        request<{ success: boolean; untagged: number }>(`/api/admin/tags/${encodeURIComponent(id)}`, { method: 'DELETE' })
+    },
+
+    forms: {
+      list: () => request<FormSummary[]>('/api/admin/forms'),
+      get: (id: string) => request<FeedbackForm>(`/api/admin/forms/${encodeURIComponent(id)}`),
+      create: (input: FormInput) =>
+        request<FeedbackForm>('/api/admin/forms', { method: 'POST', body: input }),
+      // Changed questions are saved as a new version
+      update: (id: string, input: Partial<FormInput>) =>
+        request<FeedbackForm>(`/api/admin/forms/${encodeURIComponent(id)}`, { method: 'PUT', body: input }),
+      activate: (id: string) =>
+        request<FeedbackForm>(`/api/admin/forms/${encodeURIComponent(id)}/activate`, { method: 'POST' }),
+      // Only forms without responses
+      remove: (id: string) =>
+        request<{ success: boolean }>(`/api/admin/forms/${encodeURIComponent(id)}`, { method: 'DELETE' })
+    },
+
+    links: {
+      list: () => request<CollectionLink[]>('/api/admin/links'),
+      create: (input: LinkInput) =>
+        request<CollectionLink>('/api/admin/links', { method: 'POST', body: input }),
+      // The code can't be changed
+      update: (id: string, input: Partial<Omit<LinkInput, 'code'>>) =>
+        request<CollectionLink>(`/api/admin/links/${encodeURIComponent(id)}`, { method: 'PUT', body: input }),
+      close: (id: string) =>
+        request<CollectionLink>(`/api/admin/links/${encodeURIComponent(id)}/close`, { method: 'POST' }),
+      reopen: (id: string) =>
+        request<CollectionLink>(`/api/admin/links/${encodeURIComponent(id)}/reopen`, { method: 'POST' }),
+      // Only links without feedback
+      remove: (id: string) =>
+        request<{ success: boolean }>(`/api/admin/links/${encodeURIComponent(id)}`, { method: 'DELETE' })
+    },
+
+    users: {
+      list: () => request<AdminUser[]>('/api/admin/users'),
+      // Every admin's username, for @mentions; open to all roles
+      mentionable: () => request<MentionableUser[]>('/api/admin/users/mentionable'),
+      create: (input: NewAdminUser) =>
+        request<AdminUser>('/api/admin/users', { method: 'POST', body: input }),
+      update: (id: string, changes: AdminUserUpdate) =>
+        request<AdminUser>(`/api/admin/users/${encodeURIComponent(id)}`, { method: 'PUT', body: changes }),
+      remove: (id: string) =>
+        request<{ success: boolean }>(`/api/admin/users/${encodeURIComponent(id)}`, { method: 'DELETE' })
+    },
+
+    // Download URL for a server-side export; opened directly so the browser streams it to disk
+    exportUrl: (filters: Partial<FeedbackFilters>, options: ExportOptions) =>
+      `${API_BASE}/api/admin/export${buildQuery({
+        ...filterQuery(filters),
+        format: options.format,
+        columns: options.columns.join(','),
+        sort: options.sort?.field,
+        direction: options.sort?.direction
+      })}`,
+
+    // Download URL for the PDF report
+    reportUrl: (options: ReportOptions) =>
+      `${API_BASE}/api/admin/report${buildQuery({
+        startDate: options.startDate,
+        endDate: options.endDate,
+        categories: options.categories.join(',')
+      })}`,
+
+    trash: {
+      list: () => request<TrashContents>('/api/admin/trash'),
+      restore: (ids: string[]) =>
+        request<RestoreResult>('/api/admin/trash/restore', { method: 'POST', body: { ids } }),
+      // Permanent; only affects entries already in the trash
+      purge: (ids: string[]) =>
+        request<PurgeResult>('/api/admin/trash/purge', { method: 'POST', body: { ids } })
+    },
+
+    moderation: {
+      list: () => request<ModerationQueue>('/api/admin/moderation'),
+      approve: (ids: string[]) =>
+        request<ApproveResult>('/api/admin/moderation/approve', { method: 'POST', body: { ids } }),
+      // Moves to the trash
+      reject: (ids: string[]) =>
+        request<RejectResult>('/api/admin/moderation/reject', { method: 'POST', body: { ids } })
+    },
+
+    board: {
+      pending: () => request<BoardQueue>('/api/admin/board/pending'),
+      approve: (ids: string[]) =>
+        request<BoardChangeResult>('/api/admin/board/approve', { method: 'POST', body: { ids } }),
+      reject: (ids: string[]) =>
+        request<BoardChangeResult>('/api/admin/board/reject', { method: 'POST', body: { ids } }),
+      // Take published items off the board
+      unpublish: (ids: string[]) =>
+        request<BoardChangeResult>('/api/admin/board/unpublish', { method: 'POST', body: { ids } })
+    },
+
+    audit: (filters: Partial<AuditFilters> = {}, page: { limit?: number; offset?: number } = {}) =>
+      request<AuditPage>('/api/admin/audit', { query: { ...filterQuery(filters), ...page } }),
+
+    // Summary and time series for the feedback matching `filters`; the server picks a bucket when omitted
+    analytics: (filters: Partial<FeedbackFilters> = {}, bucket?: TimeSeriesBucket) =>
+      request<Analytics>('/api/admin/analytics', { query: { ...filterQuery(filters), bucket } }),
+
+    // Ranked keywords and phrases for the feedback matching `filters`, overall or per category / period
+    keywords: (
+      filters: Partial<FeedbackFilters> = {},
+      options: { groupBy?: KeywordGrouping; bucket?: TimeSeriesBucket; limit?: number } = {}
+    ) =>
+      request<KeywordAnalysis>('/api/admin/analytics/keywords', { query: { ...filterQuery(filters), ...options } }),
+
+    // Per-question results for one form (the active one when omitted) over the feedback matching `filters`
+    questionAnalytics: (filters: Partial<FeedbackFilters> = {}, form?: string) =>
+      request<QuestionAnalytics>('/api/admin/analytics/questions', { query: { ...filterQuery(filters), form } }),
+
+    // A scorecard per trainer or cohort over the link feedback matching `filters`
+    scorecards: (filters: Partial<FeedbackFilters> = {}, groupBy: ScorecardGrouping = 'trainer') =>
+      request<Scorecards>('/api/admin/analytics/scorecards', { query: { ...filterQuery(filters), groupBy } }),
+
+    textSettings: {
+      get: () => request<TextAnalysisSettings>('/api/admin/settings/text-analysis'),
+      update: (changes: Partial<TextAnalysisSettings>) =>
+        request<TextAnalysisSettings>('/api/admin/settings/text-analysis', { method: 'PUT', body: changes })
+    },
+
+    abuseSettings: {
+      get: () => request<AbuseSettings>('/api/admin/settings/abuse-protection'),
+      update: (changes: Partial<AbuseSettings>) =>
+        request<AbuseSettings>('/api/admin/settings/abuse-protection', { method: 'PUT', body: changes })
+    },
+
+    redaction: {
+      get: () => request<RedactionSettings>('/api/admin/settings/redaction'),
+      update: (changes: Partial<RedactionSettings>) =>
+        request<RedactionSettings>('/api/admin/settings/redaction', { method: 'PUT', body: changes }),
+      // Runs unsaved settings over the stored feedback
+      preview: (changes: Partial<RedactionSettings>) =>
+        request<RedactionPreview>('/api/admin/redaction/preview', { method: 'POST', body: changes })
+    },
+
+    // Feedback states and the moves allowed between them
+    workflow: {
+      get: () => request<WorkflowSettings>('/api/admin/settings/workflow'),
+      update: (changes: Partial<WorkflowSettings>) =>
+        request<WorkflowSettings>('/api/admin/settings/workflow', { method: 'PUT', body: changes })
+    },
+
+    // Baseline (a) against comparison (b); `filters` apply to both sides
+    compare: (filters: Partial<FeedbackFilters>, a: ComparisonSide, b: ComparisonSide) =>
+      request<Comparison>('/api/admin/analytics/compare', {
+        query: { ...filterQuery(filters), ...sideQuery('a', a), ...sideQuery('b', b) }
+      })
+  }
+};
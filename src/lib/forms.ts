@@ -0,0 +1,47 @@
+import type { AnswerValue, Feedback, FormQuestion, FormSummary, QuestionType } from './types';
+
+// Mirrors QUESTION_TYPES in server/forms.js
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  rating: 'Rating (1-5 stars)',
+  nps: 'Likelihood to recommend (0-10)',
+  choice: 'Multiple choice',
+  yes_no: 'Yes / no',
+  text: 'Free text'
+};
+
+export const isBlank = (value: AnswerValue | undefined) =>
+  value === undefined || (typeof value === 'string' && !value.trim()) || (Array.isArray(value) && value.length === 0);
+
+// Same wording as formatAnswer in server/forms.js, which the export uses
+export const formatAnswer = (question: FormQuestion, value: AnswerValue) => {
+  if (question.type === 'rating') return `${value}/5`;
+  if (question.type === 'nps') return `${value}/10`;
+  if (question.type === 'yes_no') return value ? 'Yes' : 'No';
+  return Array.isArray(value) ? value.join(', ') : String(value);
+};
+
+// The first problem that would stop these answers being accepted, as shown to the person filling in the form
+export const answerProblem = (questions: FormQuestion[], answers: Record<string, AnswerValue>) => {
+  for (const question of questions) {
+    const value = answers[question.id];
+    if (isBlank(value)) {
+      if (question.required) return `Please answer "${question.label}"`;
+      continue;
+    }
+    if (question.type === 'text' && question.minLength && String(value).trim().length < question.minLength) {
+      return `"${question.label}" must be at least ${question.minLength} characters long`;
+    }
+  }
+  return '';
+};
+
+// Answers to a form's other questions as "Question: answer"; questions dropped from the form's
+// latest version aren't listed
+export const extraAnswers = (forms: FormSummary[], item: Feedback) => {
+  const form = forms.find(f => f.id === (item.form_id || 'default'));
+  if (!form || !item.answers) return [];
+  const answers = item.answers;
+  return form.questions
+    .filter(q => !q.role && answers[q.id] !== undefined)
+    .map(q => ({ id: q.id, label: q.label, value: formatAnswer(q, answers[q.id]) }));
+};
@@ -0,0 +1,23 @@
+// Solves the submission form's proof-of-work puzzle (see server/abuse.js): find a number whose
+// SHA-256 together with the form token starts with `bits` zero bits. Cheap for one form,
+// expensive for a script sending hundreds.
+
+const leadingZeroBits = (bytes: Uint8Array) => {
+  let bits = 0;
+  for (const byte of bytes) {
+    if (byte === 0) {
+      bits += 8;
+      continue;
+    }
+    return bits + Math.clz32(byte) - 24;
+  }
+  return bits;
+};
+
+export const solveProofOfWork = async (token: string, bits: number): Promise<string> => {
+  const encoder = new TextEncoder();
+  for (let nonce = 0; ; nonce++) {
+    const digest = await crypto.subtle.digest('SHA-256', encoder.encode(`${token}:${nonce}`));
+    if (leadingZeroBits(new Uint8Array(digest)) >= bits) return String(nonce);
+  }
+};
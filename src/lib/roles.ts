@@ -0,0 +1,13 @@
+import type { AdminUser, Role } from './types';
+
+// Mirrors ROLES in server/auth.js: each role includes the permissions of those before it
+export const ROLES: Role[] = ['viewer', 'moderator', 'owner'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: 'Viewer — read feedback and analytics',
+  moderator: 'Moderator — also edit, delete and manage categories',
+  owner: 'Owner — also manage admin accounts'
+};
+
+export const hasRole = (user: AdminUser | null | undefined, role: Role) =>
+  !!user && ROLES.indexOf(user.role) >= ROLES.indexOf(role);
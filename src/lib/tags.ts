@@ -0,0 +1,16 @@
+import type { CSSProperties } from 'react';
+import type { Tag } from './types';
+
+// Choices offered for new tags; mirrors DEFAULT_COLORS in server/tags.js
+export const TAG_COLORS = ['#2563eb', '#16a34a', '#d97706', '#dc2626', '#7c3aed', '#0891b2', '#db2777', '#4b5563'];
+
+// A chip in the tag's colour: tinted background, full-colour text
+export const tagStyle = (color: string): CSSProperties => ({ backgroundColor: `${color}1a`, color });
+
+// Tags whose name contains `query` (case-insensitive), names starting with it first
+export const suggestTags = (tags: Tag[], query: string, exclude: string[] = []) => {
+  const q = query.trim().toLowerCase();
+  return tags
+    .filter(t => !exclude.includes(t.id) && t.name.toLowerCase().includes(q))
+    .sort((a, b) => Number(!a.name.toLowerCase().startsWith(q)) - Number(!b.name.toLowerCase().startsWith(q)) || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,713 @@
+// Shared response and payload types for the feedback API.
+// Keep these in sync with the JSON returned by server/index.js.
+
+// A state id from the workflow settings; 'open', 'in_progress' and 'completed' by default
+export type FeedbackStatus = string;
+
+export interface Feedback {
+  feedback_id: string;
+  category: string; // category id
+  rating: number;
+  comment: string;
+  status?: FeedbackStatus;
+  // When the feedback entered a closed workflow state; null while it is unresolved
+  resolved_at?: string | null;
+  assignee_id?: string | null; // admin following the feedback up
+  // From the category's SLA, unless set by hand (due_manual); null without either
+  due_at?: string | null;
+  due_manual?: boolean;
+  // Internal discussion between admins, oldest first
+  notes?: FeedbackNote[];
+  tags?: string[]; // tag ids
+  timestamp: string;
+  hash?: string; // anonymous device token, changes daily
+  deleted_at?: string | null; // set while the feedback is in the trash
+  deleted_by?: string | null;
+  // Lexicon-based comment sentiment; score is -1 (negative) to 1 (positive)
+  sentiment?: Sentiment;
+  sentiment_score?: number;
+  // The rating contradicts the comment, e.g. five stars with a complaint
+  sentiment_mismatch?: boolean;
+  // Held back from the list and analytics until a moderator approves it
+  held?: boolean;
+  held_reasons?: HeldReason[];
+  // Kinds of personal information masked out of the text answers on submission
+  redacted?: RedactionKind[];
+  // The survey form and version answered; feedback without them answered the standard form
+  form_id?: string;
+  form_version?: number;
+  answers?: Answers; // by question id, including the rating and comment
+  // Set when the feedback came through a collection link
+  link_id?: string;
+  cohort?: string;
+  trainer?: string;
+  session_date?: string; // YYYY-MM-DD, or empty
+  // Shown to the submitter when they check their receipt code
+  public_response?: string;
+  responded_at?: string | null;
+  // Anonymous messages the submitter added later with their receipt code
+  follow_ups?: FollowUp[];
+  // On the public board, or waiting for review to go on it, with the comment text it shows
+  publish_state?: PublishState | null;
+  public_comment?: string;
+  publish_requested_at?: string;
+  publish_requested_by?: string | null;
+  published_at?: string | null;
+  published_by?: string | null;
+}
+
+export type PublishState = 'pending' | 'published';
+
+// Admin-defined theme that cuts across categories
+export interface Tag {
+  id: string;
+  name: string;
+  color: string; // #rrggbb
+  created_at: string;
+  count?: number; // live feedback carrying it, in the admin list
+}
+
+export interface TagInput {
+  name: string;
+  color?: string;
+}
+
+export interface FeedbackNote {
+  id: string;
+  // Null for a note carried over from the old single admin note
+  author_id: string | null;
+  author: string | null;
+  text: string;
+  mentions: string[]; // ids of the admins @mentioned
+  created_at: string;
+  edited_at: string | null;
+}
+
+// An admin that can be @mentioned in notes
+export interface MentionableUser {
+  id: string;
+  username: string;
+}
+
+export interface FollowUp {
+  id: string;
+  message: string;
+  redacted: RedactionKind[];
+  timestamp: string;
+}
+
+export type Sentiment = 'positive' | 'neutral' | 'negative';
+
+export interface Category {
+  id: string;
+  name: string;
+  description: string;
+  order: number;
+  archived: boolean;
+  sla_days?: number | null; // days feedback in this category should be resolved in
+}
+
+export interface FeedbackFilters {
+  category: string;
+  rating: string;
+  status: string;
+  search: string;
+  startDate: string;
+  endDate: string;
+  sentiment: string;
+  mismatch: string; // 'true' for mismatches only
+  cohort: string;
+  trainer: string;
+  mentions: string; // user id, for notes mentioning that admin
+  assignee: string; // user id, or 'none' for unassigned feedback
+  overdue: string; // 'true' for unresolved feedback past its due date
+  // Comma-separated tag ids: feedback with any of them, or with all of them
+  tags: string;
+  allTags: string;
+}
+
+export type FeedbackSortField = 'timestamp' | 'rating' | 'category' | 'status' | 'sentiment' | 'due';
+
+export interface FeedbackSort {
+  field: FeedbackSortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface FeedbackPageRequest {
+  sort?: FeedbackSortField;
+  direction?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string | null; // nextCursor from the previous page
+}
+
+export interface FeedbackPage {
+  items: Feedback[];
+  total: number; // all entries matching the filters
+  nextCursor: string | null;
+}
+
+export type ExportFormat = 'csv' | 'ndjson' | 'xlsx';
+
+export type ExportColumn =
+  | 'feedback_id'
+  | 'timestamp'
+  | 'category'
+  | 'category_id'
+  | 'rating'
+  | 'comment'
+  | 'status'
+  | 'assignee'
+  | 'due_at'
+  | 'resolved_at'
+  | 'tags'
+  | 'notes'
+  | 'public_response'
+  | 'follow_ups'
+  | 'sentiment'
+  | 'sentiment_score'
+  | 'sentiment_mismatch'
+  | 'form'
+  | 'answers'
+  | 'cohort'
+  | 'trainer'
+  | 'session_date'
+  | 'redacted'
+  | 'hash';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: ExportColumn[];
+  sort?: FeedbackSort;
+}
+
+export interface ReportOptions {
+  startDate: string; // YYYY-MM-DD, inclusive; empty for no bound
+  endDate: string;
+  categories: string[]; // category ids; empty for all
+}
+
+// Bulk actions target either explicit ids or every entry matching a filter
+export type BulkSelection = { ids: string[] } | { filter: Partial<FeedbackFilters> };
+
+export type HeldReason = 'honeypot' | 'too_fast' | 'duplicate';
+
+export type RedactionKind = 'email' | 'phone' | 'roll_number' | 'name';
+
+// What submitting a comment would mask, with the masked text; names from the admin's list are
+// only masked on submit, so they never show up here
+export interface RedactionCheck {
+  comment: string;
+  redacted: RedactionKind[];
+}
+
+export type QuestionType = 'rating' | 'nps' | 'choice' | 'yes_no' | 'text';
+
+// The rating question fills the feedback's overall rating, the comment question its comment
+export type QuestionRole = 'rating' | 'comment';
+
+export interface FormQuestion {
+  id: string; // stable across versions; the server assigns one when empty
+  type: QuestionType;
+  label: string;
+  required: boolean;
+  role?: QuestionRole;
+  options?: string[]; // choice
+  multiple?: boolean; // choice: several options can be picked
+  minLength?: number; // text
+}
+
+// rating and nps: number; yes_no: boolean; choice: string, or string[] when multiple; text: string
+export type AnswerValue = number | boolean | string | string[];
+
+export type Answers = Record<string, AnswerValue>;
+
+export interface FormVersion {
+  version: number;
+  questions: FormQuestion[];
+  created_at: string | null;
+  created_by: string | null;
+}
+
+export interface FeedbackForm {
+  id: string;
+  name: string;
+  description: string;
+  active: boolean;
+  created_at: string | null;
+  versions: FormVersion[];
+}
+
+// A form as listed for admins: its latest version plus how many live responses it has
+export interface FormSummary extends Omit<FeedbackForm, 'versions'> {
+  version: number;
+  questions: FormQuestion[];
+  responses: number;
+}
+
+// The active form as the public page shows it
+export interface PublishedForm {
+  id: string;
+  name: string;
+  description: string;
+  version: number;
+  questions: FormQuestion[];
+}
+
+export interface FormInput {
+  name: string;
+  description?: string;
+  questions: FormQuestion[];
+}
+
+// 'scheduled' before the link's window opens, 'closed' after it or once closed by hand
+export type LinkState = 'scheduled' | 'open' | 'closed';
+
+// A collection link: the feedback page at /f/:code, for one cohort, trainer and session
+export interface CollectionLink {
+  id: string;
+  code: string;
+  cohort: string;
+  trainer: string;
+  session_date: string; // YYYY-MM-DD, or empty
+  opens_at: string | null;
+  closes_at: string | null;
+  closed_at: string | null; // closed by hand
+  created_at: string;
+  created_by: string | null;
+  state: LinkState;
+  responses?: number; // live feedback sent through the link
+}
+
+// What the feedback page is told about the link it was opened through
+export type PublicLink = Pick<CollectionLink, 'code' | 'cohort' | 'trainer' | 'session_date' | 'opens_at' | 'closes_at' | 'state'>;
+
+export interface LinkInput {
+  cohort: string;
+  trainer: string;
+  session_date?: string;
+  opens_at?: string | null;
+  closes_at?: string | null;
+  code?: string; // only when creating; a random code otherwise
+}
+
+export interface NewFeedback {
+  category: string;
+  // The published form these answers are for
+  formId: string;
+  formVersion: number;
+  answers: Answers;
+  // Code of the collection link the page was opened through
+  link?: string;
+  // From the challenge fetched when the form opened
+  formToken: string;
+  // Proof-of-work answer, when the challenge asked for one
+  solution?: string;
+  // Honeypot: hidden from people, so only bots fill it in
+  website?: string;
+}
+
+// A single-use form token; `proofOfWork` is set when the server wants a puzzle solved
+export interface FeedbackChallenge {
+  token: string;
+  proofOfWork: { bits: number } | null;
+}
+
+export interface SubmitFeedbackResponse {
+  message: string;
+  feedback_id: string;
+  // Shown once; the server keeps only a hash
+  receipt: string;
+}
+
+// One item on the public "You said, we did" board
+export interface BoardItem {
+  id: string;
+  comment: string; // redacted, as approved for the board
+  response: string;
+  status: FeedbackStatus;
+  resolved: boolean; // in a closed workflow state
+  submitted_at: string;
+  published_at: string;
+}
+
+export interface BoardSection {
+  category: { id: string; name: string };
+  items: BoardItem[];
+}
+
+export interface BoardQueue {
+  items: Feedback[];
+  total: number;
+}
+
+export interface BoardChangeResult {
+  success: boolean;
+  changed: number;
+}
+
+// What a receipt code reveals about the feedback it was issued for
+export interface ReceiptStatus {
+  category: string; // name
+  comment: string;
+  submitted_at: string;
+  status: FeedbackStatus;
+  status_label: string;
+  resolved: boolean; // in a closed workflow state
+  public_response: string;
+  responded_at: string | null;
+  follow_ups: Array<Pick<FollowUp, 'message' | 'timestamp'>>;
+  can_follow_up: boolean;
+}
+
+export interface FeedbackUpdate {
+  status?: FeedbackStatus;
+  public_response?: string;
+  category?: string;
+  assignee_id?: string | null;
+  // YYYY-MM-DD (end of that day) or an ISO time; null goes back to the category's SLA
+  due_at?: string | null;
+  tags?: string[]; // the full list of tag ids
+  // Values of the changed fields as last seen; the server answers 409 if another admin has changed them
+  expected?: Partial<Pick<Feedback, 'status' | 'public_response' | 'category' | 'assignee_id' | 'due_at' | 'tags'>>;
+}
+
+// Changes for several items at once; `note` is added to the internal notes of each
+export interface BulkUpdate extends FeedbackUpdate {
+  note?: string;
+}
+
+export interface CategoryInput {
+  name: string;
+  description?: string;
+  archived?: boolean;
+  sla_days?: number | null;
+}
+
+export interface MergeResult {
+  success: boolean;
+  moved: number;
+  target: Category;
+}
+
+export interface Analytics {
+  totalFeedback: number;
+  averageRating: string | number;
+  categoryStats: Record<string, number>;
+  categoryMap: Record<string, string>;
+  ratingStats: Record<string, number>;
+  statusStats: Record<string, number>;
+  tagStats: Record<string, number>; // by tag id
+  tagMap: Record<string, { name: string; color: string }>;
+  untagged: number;
+  sentimentStats: Partial<Record<Sentiment, number>>;
+  averageSentiment: number | null;
+  mismatchCount: number;
+  sla: SlaStats;
+  commonWords: Array<{ word: string; count: number }>;
+  timeSeries: TimeSeries;
+}
+
+// Feedback with a due date: resolved on time (met), resolved late or past due while unresolved
+// (breached), and of those still unresolved (overdue)
+export interface SlaStats {
+  tracked: number;
+  met: number;
+  breached: number;
+  overdue: number;
+  byCategory: Record<string, { tracked: number; breached: number; overdue: number }>;
+}
+
+export type TimeSeriesBucket = 'day' | 'week' | 'month';
+
+// One bucket of the analytics time series; `period` is the bucket's first day (YYYY-MM-DD, UTC)
+export interface TimeSeriesPoint {
+  period: string;
+  count: number;
+  averageRating: number | null;
+  categories: Record<string, number>;
+  statuses: Record<string, number>;
+}
+
+export interface TimeSeries {
+  bucket: TimeSeriesBucket;
+  points: TimeSeriesPoint[];
+}
+
+export type KeywordGrouping = 'none' | 'category' | 'period';
+
+// A keyword or phrase ranked by TF-IDF; `key` is its stemmed form, `phrase` the most common spelling
+export interface RankedPhrase {
+  key: string;
+  phrase: string;
+  words: number;
+  count: number;
+  comments: number;
+  score: number;
+}
+
+export interface KeywordGroup {
+  key: string;
+  label: string;
+  total: number; // comments in the group
+  phrases: RankedPhrase[];
+}
+
+export interface KeywordAnalysis {
+  groupBy: KeywordGrouping;
+  bucket?: TimeSeriesBucket;
+  groups: KeywordGroup[];
+}
+
+// Results for one question; only the fields for its type are present
+export interface QuestionResult {
+  id: string;
+  type: QuestionType;
+  label: string;
+  role: QuestionRole | null;
+  retired: boolean; // removed in a later version of the form
+  answered: number;
+  average?: number | null; // rating
+  distribution?: Record<string, number>; // rating and nps
+  score?: number | null; // nps: % promoters minus % detractors
+  promoters?: number;
+  passives?: number;
+  detractors?: number;
+  options?: Array<{ option: string; count: number }>; // choice
+  yes?: number; // yes_no
+  no?: number;
+  keywords?: Array<{ word: string; count: number }>; // text
+  latest?: string[];
+}
+
+export interface QuestionAnalytics {
+  form: { id: string; name: string; version: number };
+  responses: number;
+  questions: QuestionResult[];
+}
+
+export type ScorecardGrouping = 'trainer' | 'cohort';
+
+// Results for one trainer or cohort
+export interface Scorecard {
+  key: string;
+  responses: number;
+  sessions: number; // distinct session dates
+  averageRating: number | null;
+  ratingStats: Record<string, number>;
+  sentimentStats: Record<Sentiment, number>;
+  averageSentiment: number | null;
+  mismatchCount: number;
+  statusStats: Record<FeedbackStatus, number>;
+  resolved: number; // in a closed workflow state
+  keywords: Array<{ word: string; count: number }>; // phrases that set this group apart
+}
+
+export interface Scorecards {
+  groupBy: ScorecardGrouping;
+  untagged: number; // matching feedback that came through no link
+  overall: { responses: number; averageRating: number | null };
+  groups: Scorecard[];
+}
+
+export type StopWordLanguage = 'en' | 'ta';
+
+export interface TextAnalysisSettings {
+  languages: StopWordLanguage[];
+  stopWords: string[];
+  ignore: string[];
+}
+
+export interface RateLimit {
+  minutes: number;
+  max: number;
+}
+
+export interface AbuseSettings {
+  rateLimits: RateLimit[];
+  minFillSeconds: number;
+  proofOfWork: boolean;
+  proofOfWorkBits: number;
+  duplicateSimilarity: number; // 0.5-1
+  duplicateHours: number; // 0 turns duplicate checks off
+}
+
+export interface RedactionSettings {
+  email: boolean;
+  phone: boolean;
+  rollNumbers: string[]; // regular expressions, case-insensitive
+  names: string[];
+}
+
+// One state of the feedback workflow; the first is where new feedback starts
+export interface WorkflowState {
+  id: string;
+  label: string;
+  closed: boolean; // resolved, e.g. done or won't fix
+  next: string[]; // ids of the states feedback can move to from here
+}
+
+export interface WorkflowSettings {
+  states: WorkflowState[];
+}
+
+export interface RedactionSpan {
+  start: number;
+  end: number;
+  kind: RedactionKind;
+}
+
+export interface RedactionPreview {
+  scanned: number;
+  matched: number;
+  counts: Partial<Record<RedactionKind, number>>;
+  items: Array<{ feedback_id: string; timestamp: string; comment: string; spans: RedactionSpan[] }>;
+}
+
+// One side of a comparison: a date range and category selection, shaped like a report's
+export type ComparisonSide = ReportOptions;
+
+export interface SignificanceTest {
+  pValue: number | null;
+  significant: boolean; // p < 0.05
+  smallSample: boolean; // fewer than 30 responses on a side
+}
+
+// Count and share (percent) on each side of a comparison; deltaPoints is b - a in percentage points
+export interface DistributionShift extends SignificanceTest {
+  key: string;
+  a: { count: number; share: number };
+  b: { count: number; share: number };
+  deltaPoints: number;
+}
+
+export type KeywordShift = Omit<DistributionShift, 'key'> & { word: string };
+
+// a is the baseline, b the comparison
+export interface Comparison {
+  categoryMap: Record<string, string>;
+  totals: { a: number; b: number; delta: number; deltaPercent: number | null };
+  averageRating: SignificanceTest & { a: number | null; b: number | null; delta: number | null };
+  ratings: DistributionShift[];
+  categories: DistributionShift[];
+  statuses: DistributionShift[];
+  keywords: { rising: KeywordShift[]; falling: KeywordShift[] };
+}
+
+export type Role = 'viewer' | 'moderator' | 'owner';
+
+export interface AdminUser {
+  id: string;
+  username: string;
+  role: Role;
+  created_at: string;
+  last_login: string | null;
+}
+
+export interface AuthStatus {
+  isAdmin: boolean;
+  user: AdminUser | null;
+  needsSetup: boolean;
+}
+
+export interface LoginResponse {
+  success: boolean;
+  user: AdminUser;
+}
+
+export interface NewAdminUser {
+  username: string;
+  password: string;
+  role: Role;
+}
+
+export interface AdminUserUpdate {
+  role?: Role;
+  password?: string;
+}
+
+export interface PasswordChange {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface LoginCredentials {
+  username: string;
+  password: string;
+}
+
+export interface DeleteResult {
+  success: boolean;
+  deleted: number;
+}
+
+export interface BulkUpdateResult {
+  success: boolean;
+  updated: number;
+  failed: number;
+  // Per item: whether the changes were saved, or why not
+  results: Array<{ id: string; ok: boolean; error: string | null }>;
+}
+
+export interface TrashedFeedback extends Feedback {
+  deleted_at: string;
+  purge_at: string | null; // null when automatic purging is off
+}
+
+export interface TrashContents {
+  items: TrashedFeedback[];
+  retentionDays: number; // 0 = kept until deleted by hand
+}
+
+export interface ModerationQueue {
+  items: Feedback[];
+  total: number;
+}
+
+export interface ApproveResult {
+  success: boolean;
+  approved: number;
+}
+
+export interface RejectResult {
+  success: boolean;
+  rejected: number;
+}
+
+export interface RestoreResult {
+  success: boolean;
+  restored: number;
+}
+
+export interface PurgeResult {
+  success: boolean;
+  purged: number;
+}
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actor_id: string | null;
+  actor_username: string | null;
+  action: string;
+  target_type: 'feedback' | 'category' | 'user';
+  target_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  details: Record<string, unknown> | null;
+}
+
+export interface AuditFilters {
+  actor: string;
+  action: string;
+  targetType: string;
+  target: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  total: number;
+  limit: number;
+  offset: number;
+}
@@ -0,0 +1,44 @@
+import type { FeedbackStatus, WorkflowSettings, WorkflowState } from './types';
+
+// Mirrors DEFAULT_WORKFLOW_SETTINGS in server/workflow.js; used until the saved workflow loads
+export const DEFAULT_WORKFLOW: WorkflowSettings = {
+  states: [
+    { id: 'open', label: 'Open', closed: false, next: ['in_progress', 'completed'] },
+    { id: 'in_progress', label: 'In progress', closed: false, next: ['open', 'completed'] },
+    { id: 'completed', label: 'Completed', closed: true, next: ['open', 'in_progress'] }
+  ]
+};
+
+export const findState = (workflow: WorkflowSettings, id: FeedbackStatus | undefined): WorkflowState | null =>
+  workflow.states.find(s => s.id === (id || 'open')) || null;
+
+// States since removed from the workflow show their id
+export const statusLabel = (workflow: WorkflowSettings, id: FeedbackStatus | undefined) =>
+  findState(workflow, id)?.label || id || 'open';
+
+// The current state and those it can move to, in workflow order, as in canMove in server/workflow.js.
+// Feedback in a state that no longer exists can move anywhere.
+export const allowedStates = (workflow: WorkflowSettings, from: FeedbackStatus | undefined) => {
+  const current = findState(workflow, from);
+  return workflow.states.filter(s => !current || s.id === current.id || current.next.includes(s.id));
+};
+
+// Badge colours: grey where feedback starts, amber while it is worked on, green once closed
+export const statusBadgeClass = (workflow: WorkflowSettings, id: FeedbackStatus | undefined) => {
+  const state = findState(workflow, id);
+  if (state?.closed) return 'bg-green-100 text-green-800';
+  if (state && state.id !== workflow.states[0].id) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-gray-100 text-gray-800';
+};
+
+// Chart colours in the same scheme
+export const statusColor = (workflow: WorkflowSettings, id: FeedbackStatus) => {
+  const state = findState(workflow, id);
+  if (state?.closed) return '#22c55e';
+  if (state && state.id !== workflow.states[0].id) return '#f59e0b';
+  return '#6b7280';
+};
+
+// Unresolved feedback past its due date
+export const isOverdue = (item: { due_at?: string | null; resolved_at?: string | null }, now = new Date()) =>
+  !!item.due_at && !item.resolved_at && new Date(item.due_at) < now;